@@ -31,6 +31,7 @@ export default function App() {
     removeNotification,
     notifySuccess,
     notifyError,
+    notifyWarning,
     notifyInfo,
   } = useNotifications();
 
@@ -113,6 +114,7 @@ export default function App() {
           models={models}
           notifySuccess={notifySuccess}
           notifyError={notifyError}
+          notifyWarning={notifyWarning}
           onLogout={handleLogout}
         />
       ) : (
@@ -0,0 +1,56 @@
+/**
+ * BudgetPrompt — asks before a send that would go over a pollen budget
+ * limit. Sending anyway goes ahead once; the limits stay as they are.
+ */
+
+import { useEffect } from 'react';
+import { describeBudgetLimit, type BudgetLimitHit } from '../lib/pollenMath';
+
+interface BudgetPromptProps {
+  limits: BudgetLimitHit[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function BudgetPrompt({ limits, onConfirm, onCancel }: BudgetPromptProps) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div
+        role="alertdialog"
+        aria-labelledby="budget-prompt-title"
+        className="bg-card border border-border rounded-lg w-full max-w-sm p-4 sm:p-5 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="budget-prompt-title" className="text-base font-semibold text-foreground mb-2">Over budget</h2>
+        <ul className="space-y-1.5 mb-4 text-sm text-muted-foreground">
+          {limits.map((hit) => (
+            <li key={hit.kind}>{describeBudgetLimit(hit)}</li>
+          ))}
+        </ul>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 bg-secondary border border-border rounded-md text-sm text-foreground hover:bg-accent transition-colors"
+            autoFocus
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-3 py-1.5 bg-destructive text-destructive-foreground rounded-md text-sm hover:bg-destructive/90 transition-colors"
+          >
+            Send anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Responsibilities
  * ────────────────
- * • Session sidebar (new / switch / delete)
+ * • Session sidebar (new / switch / delete / search)
  * • Model selection
  * • Streaming generation pipeline (AbortController)
  * • Pollen-balance gating
@@ -11,7 +11,7 @@
  * • Wires all sub-components together
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { v4 as uuid } from 'uuid';
 import type {
   PollinationsModel,
@@ -20,45 +20,164 @@ import type {
   AccountBalance,
   GenerationMode,
   MessageAttachment,
+  ToolCallRecord,
+  ContextStrategy,
+  ContextSummary,
+  GenerationOverrides,
+  ImageGenerationOptions,
+  KnowledgeCollection,
+  MusicGenerationOptions,
+  SpeechCache,
+  StreamDelta,
 } from '../types';
 import {
-  streamGeneration,
+  streamGenerationWithRetry,
   getBalance,
   getUsage,
   generateImage,
   generateVideo,
   generateAudioDirect,
+  generateEmbeddings,
   PollinationsError,
+  abortError,
+  type ChatCompletionMessage,
 } from '../lib/pollinations';
-import { estimateTokens, getTokenMeterColor } from '../lib/tokenizer';
-import { computePollenCost, hasSufficientPollen, formatPollen } from '../lib/pollenMath';
+import {
+  countTokens,
+  estimateMessagesTokens,
+  getEncodingForModel,
+  getTokenMeterColor,
+  type TokenizerEncoding,
+} from '../lib/tokenizer';
+import {
+  checkBudget,
+  computePollenCost,
+  describeBudgetLimit,
+  estimateRequestCost,
+  expectedReplyTokens,
+  hasSufficientPollen,
+  formatPollen,
+  pickCheapestTextModel,
+  type BudgetLimitHit,
+} from '../lib/pollenMath';
+import { modelNameResolver } from '../lib/usage';
 import {
   buildEnhancedPrompt,
   computeEffectiveTemperature,
   shouldEnhancePrompt,
 } from '../lib/promptEnhancement';
-import { getSettings, saveSettings as persistSettings } from '../lib/storage';
+import { getSettings, saveSettings as persistSettings, saveMedia, saveUsageRecords } from '../lib/storage';
+import { getToolDefinitions, runToolLoop, MAX_TOOL_ITERATIONS } from '../lib/tools';
+import { getActivePath, getBranchInfo, getPathTo, getSiblings } from '../lib/messageTree';
+import {
+  DEFAULT_CONTEXT_STRATEGY,
+  SUMMARY_TOKEN_RESERVE,
+  describeCompaction,
+  planContext,
+  summaryContextMessage,
+  updateContextSummary,
+  type ContextPlan,
+} from '../lib/context';
+import { applyPreset, findPreset, resolveGenerationSettings } from '../lib/presets';
+import { generateSessionTitle } from '../lib/sessionTitle';
+import { getComparisonGroups, MIN_COMPARE_MODELS } from '../lib/comparison';
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  resolveImageOptions,
+  toImageQueryParams,
+  varyImageOptions,
+} from '../lib/imageOptions';
+import { batchSeeds, IMAGE_BATCH_CONCURRENCY, mapWithConcurrency, upscaleImageOptions, variationCount } from '../lib/imageBatch';
+import { pickSpeechModel, pickVoice } from '../lib/speech';
+import { buildMusicPrompt, DEFAULT_MUSIC_OPTIONS, isMusicModel } from '../lib/music';
+import { estimateTranscriptionCost, pickTranscriptionModel, transcribeAudio } from '../lib/transcription';
+import {
+  buildUserContent,
+  commonAttachmentInputs,
+  modelAttachmentInputs,
+  type AttachmentInputs,
+} from '../lib/attachments';
+import {
+  DOCUMENT_CONTEXT_SHARE,
+  documentSources,
+  formatDocumentContext,
+  selectDocumentChunks,
+} from '../lib/documents';
+import { formatKnowledgeContext, KNOWLEDGE_CONTEXT_SHARE, knowledgeSources } from '../lib/knowledge';
 import { useLocalSession } from '../hooks/useLocalSession';
+import { usePresets } from '../hooks/usePresets';
 import { useTokenMeter } from '../hooks/useTokenMeter';
+import { useReadAloud, type SpeakFn } from '../hooks/useReadAloud';
+import { useKnowledge, type EmbedFn } from '../hooks/useKnowledge';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { useBudget } from '../hooks/useBudget';
 import MessageList from './MessageList';
 import Composer from './Composer';
 import ModelInfoPanel from './ModelInfoPanel';
 import UsageIcon from './UsageIcon';
 import Settings from './Settings';
+import SearchPanel from './SearchPanel';
+import Gallery from './Gallery';
+import UsageDashboard from './UsageDashboard';
+import BudgetPrompt from './BudgetPrompt';
+import KnowledgePanel from './KnowledgePanel';
+import PromptLibrary from './PromptLibrary';
+import ChatSettings from './ChatSettings';
 
 interface ChatPageProps {
   apiKey: string;
   models: PollinationsModel[];
   notifySuccess: (msg: string) => string;
   notifyError: (msg: string) => string;
+  notifyWarning: (msg: string) => string;
   onLogout: () => void;
 }
 
+/**
+ * Where a send attaches in the conversation tree: the new user turn goes
+ * under `parentId`. Regenerating passes the existing `userMessage` so only
+ * a new assistant reply is added, and an image reply's `imageOptions` so
+ * it is redrawn with the same (or a varied) seed. Music replies likewise
+ * keep their `musicOptions`.
+ */
+interface SendBranch {
+  parentId: string | null;
+  userMessage?: ChatMessage;
+  imageOptions?: ImageGenerationOptions;
+  musicOptions?: MusicGenerationOptions;
+}
+
+/**
+ * Persist a generated blob in the media store and return an attachment
+ * that references it, so the asset survives reloads and exports.
+ */
+async function storeGeneratedMedia(
+  sessionId: string,
+  blob: Blob,
+  type: MessageAttachment['type'],
+  name: string,
+  fallbackMimeType: string,
+): Promise<MessageAttachment> {
+  const mediaId = uuid();
+  const mimeType = blob.type || fallbackMimeType;
+  await saveMedia({ id: mediaId, sessionId, blob, mimeType, createdAt: Date.now() });
+  return {
+    id: uuid(),
+    type,
+    name,
+    mimeType,
+    dataUrl: '',
+    sizeBytes: blob.size,
+    mediaId,
+  };
+}
+
 export default function ChatPage({
   apiKey,
   models,
   notifySuccess,
   notifyError,
+  notifyWarning,
   onLogout,
 }: ChatPageProps) {
   /* ── session management ─────────────────────────────── */
@@ -70,13 +189,32 @@ export default function ChatPage({
     switchSession,
     addMessage,
     updateMessage,
+    updateSessionPollen,
+    applyUsageRecords,
     renameSession,
+    updateSessionContext,
+    updateSessionSettings,
     deleteSession,
     deleteMessage,
-    deleteMessagesFrom,
+    saveComparison,
+    pickComparisonWinner,
+    switchBranch,
+    pruneBranch,
     importSessions,
     clearAll,
   } = useLocalSession();
+  const { presets, savePreset, deletePreset } = usePresets();
+  const { templates: promptTemplates, saveTemplates: savePromptTemplates, deleteTemplate: deletePromptTemplate } = usePromptLibrary();
+  const {
+    collections: knowledgeCollections,
+    saveCollection,
+    deleteCollection,
+    embeddingStatus,
+    missingEmbeddingTexts,
+    buildEmbeddings,
+    retrieve: retrieveFromCollections,
+  } = useKnowledge();
+  const { budget, spend: budgetSpend, saveBudget, recordSpend } = useBudget();
 
   /* ── state ──────────────────────────────────────────── */
   const [selectedModel, setSelectedModel] = useState<PollinationsModel | null>(
@@ -93,20 +231,64 @@ export default function ChatPage({
     temperature: 0.7,
     creativity: 0.5,
     enablePromptEnhancement: false,
+    enableTools: true,
+    autoGenerateTitles: false,
+    voice: 'alloy',
+    voiceSendOnRelease: false,
+    imageUploadQuality: 0.85,
     theme: 'dark',
   });
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [chatSettingsOpen, setChatSettingsOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [knowledgeOpen, setKnowledgeOpen] = useState(false);
+  const [promptLibraryOpen, setPromptLibraryOpen] = useState(false);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+  // A send over a budget cap, waiting for the user to confirm it
+  const [budgetPrompt, setBudgetPrompt] = useState<{
+    limits: BudgetLimitHit[];
+    onConfirm: () => void;
+    onCancel?: () => void;
+  } | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameText, setRenameText] = useState('');
+  const [titlingIds, setTitlingIds] = useState<Set<string>>(new Set());
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [imageOptions, setImageOptions] = useState<ImageGenerationOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [musicOptions, setMusicOptions] = useState<MusicGenerationOptions>(DEFAULT_MUSIC_OPTIONS);
 
   const abortRef = useRef<AbortController | null>(null);
+  /** One controller per reply while a comparison is streaming */
+  const compareAbortRefs = useRef<Map<string, AbortController>>(new Map());
+
+  /* ── per-chat settings ──────────────────────────────── */
+  const activePreset = findPreset(presets, activeSession?.presetId);
+  const generation = useMemo(
+    () => resolveGenerationSettings(settings, activePreset, activeSession?.overrides),
+    [settings, activePreset, activeSession?.overrides],
+  );
 
   /* ── token meter ────────────────────────────────────── */
-  const messages = activeSession?.messages ?? [];
+  const messages = useMemo(
+    () => (activeSession ? getActivePath(activeSession) : []),
+    [activeSession],
+  );
+  const branchInfo = useMemo(
+    () => (activeSession ? getBranchInfo(activeSession, messages) : {}),
+    [activeSession, messages],
+  );
+  const comparisonGroups = useMemo(
+    () => (activeSession ? getComparisonGroups(activeSession, messages) : {}),
+    [activeSession, messages],
+  );
   const maxInput = selectedModel?.maxInputTokens ?? 128_000;
-  const tokenMeter = useTokenMeter(messages, maxInput, settings.systemPrompt);
+  const encoding = useMemo(() => getEncodingForModel(selectedModel), [selectedModel]);
+  const resolveModelName = useMemo(() => modelNameResolver(models), [models]);
+  const tokenMeter = useTokenMeter(messages, maxInput, generation.systemPrompt, encoding);
 
   /* ── load settings from storage ─────────────────────── */
   useEffect(() => {
@@ -132,9 +314,29 @@ export default function ChatPage({
   /* ── model change ───────────────────────────────────── */
   const handleModelChange = (modelId: string) => {
     const model = models.find((m) => m.id === modelId || m.name === modelId);
-    if (model) setSelectedModel(model);
+    if (!model) return;
+    setSelectedModel(model);
+    if (activeSessionId) updateSessionSettings(activeSessionId, { model: model.name });
   };
 
+  // Each chat remembers its model — restore it when switching chats
+  const activeSessionModel = activeSession?.model;
+  useEffect(() => {
+    if (!activeSessionModel) return;
+    const model = models.find((m) => m.name === activeSessionModel || m.id === activeSessionModel);
+    if (model) setSelectedModel(model);
+  }, [activeSessionId, activeSessionModel, models]);
+
+  /* ── presets ────────────────────────────────────────── */
+  const handleSelectPreset = useCallback((presetId: string | null) => {
+    if (!activeSession) return;
+    updateSessionSettings(activeSession.id, applyPreset(activeSession, findPreset(presets, presetId) ?? null));
+  }, [activeSession, presets, updateSessionSettings]);
+
+  const handleUpdateOverrides = useCallback((overrides: GenerationOverrides) => {
+    if (activeSessionId) updateSessionSettings(activeSessionId, { overrides });
+  }, [activeSessionId, updateSessionSettings]);
+
   /* ── settings persistence ───────────────────────────── */
   const handleUpdateSettings = async (patch: Partial<AppSettings>) => {
     const updated = { ...settings, ...patch };
@@ -169,25 +371,378 @@ export default function ChatPage({
     }
   }, [notifyError]);
 
+  /* ── budget ─────────────────────────────────────────── */
+  /** Add a request's cost to the chat and to today's and this month's spend */
+  const chargeSession = useCallback((sessionId: string, pollen: number) => {
+    updateSessionPollen(sessionId, pollen);
+    recordSpend(pollen);
+  }, [updateSessionPollen, recordSpend]);
+
+  /** Charge spend that isn't a reply's (voice input, read aloud) to the open chat, if any */
+  const chargeActiveChat = useCallback((pollen: number) => {
+    if (activeSessionId) chargeSession(activeSessionId, pollen);
+    else recordSpend(pollen);
+  }, [activeSessionId, chargeSession, recordSpend]);
+
+  /**
+   * Check a send's estimated cost against the budget. Threshold warnings
+   * are shown and the send goes ahead; a send over a cap waits for the
+   * user to confirm, and `confirm` runs it again with `overridden` set.
+   */
+  const passesBudget = useCallback((
+    requestCost: number,
+    sessionSpent: number | null,
+    overridden: boolean,
+    confirm: () => void,
+    cancel?: () => void,
+  ): boolean => {
+    const check = checkBudget(budget, { requestCost, sessionSpent, spend: budgetSpend, now: Date.now() });
+    if (check.exceeded.length > 0 && !overridden) {
+      setBudgetPrompt({ limits: check.exceeded, onConfirm: confirm, onCancel: cancel });
+      return false;
+    }
+    for (const hit of check.warnings) notifyWarning(describeBudgetLimit(hit));
+    return true;
+  }, [budget, budgetSpend, notifyWarning]);
+
+  /**
+   * `passesBudget` for a request already under way (a recording, a reply
+   * being read aloud): resolves true when it's within budget or the user
+   * confirms going over, false when they cancel.
+   */
+  const approveSpend = useCallback((requestCost: number) => new Promise<boolean>((resolve) => {
+    const sessionSpent = activeSession ? activeSession.totalPollenSpent : null;
+    if (passesBudget(requestCost, sessionSpent, false, () => resolve(true), () => resolve(false))) resolve(true);
+  }), [activeSession, passesBudget]);
+
+  /* ── knowledge base ─────────────────────────────────── */
+  /** Pollen for embedding `texts` with `model`, priced as a prompt with no reply */
+  const embeddingCost = useCallback((model: string, texts: string[]) => computePollenCost(
+    models.find((m) => m.name === model || m.id === model)?.pricing,
+    texts.reduce((sum, t) => sum + countTokens(t), 0),
+    0,
+  ), [models]);
+
+  /** Embeddings that pay their cost through `charge` once they arrive */
+  const chargedEmbed = useCallback((charge: (pollen: number) => void): EmbedFn => async (model, texts, signal) => {
+    const vectors = await generateEmbeddings(apiKey, model, texts, signal);
+    charge(embeddingCost(model, texts));
+    return vectors;
+  }, [apiKey, embeddingCost]);
+
+  const handleChatCollectionsChange = useCallback((ids: string[]) => {
+    if (activeSessionId) updateSessionSettings(activeSessionId, { knowledgeCollectionIds: ids });
+  }, [activeSessionId, updateSessionSettings]);
+
+  /**
+   * Embed a collection's remaining chunks. The spend isn't a chat's, so it
+   * counts toward the daily and monthly budgets only.
+   */
+  const handleBuildEmbeddings = useCallback(async (
+    collection: KnowledgeCollection,
+    onProgress: (done: number, total: number) => void,
+    overrideBudget = false,
+  ): Promise<void> => {
+    if (!collection.embeddingModel) return;
+    const cost = embeddingCost(collection.embeddingModel, await missingEmbeddingTexts(collection));
+    const withinBudget = passesBudget(
+      cost,
+      null,
+      overrideBudget,
+      () => handleBuildEmbeddings(collection, onProgress, true).catch((err) => notifyError(`Semantic index stopped: ${(err as Error).message}`)),
+    );
+    if (!withinBudget) return;
+    await buildEmbeddings(collection, chargedEmbed(recordSpend), onProgress);
+  }, [embeddingCost, missingEmbeddingTexts, passesBudget, buildEmbeddings, chargedEmbed, recordSpend, notifyError]);
+
+  /** Pollen the query embeddings for a message will cost in the active chat */
+  const knowledgeQueryCost = useCallback((query: string) => {
+    const ids = activeSession?.knowledgeCollectionIds ?? [];
+    const embeddingModels = new Set(knowledgeCollections
+      .filter((c) => ids.includes(c.id) && c.documents.length > 0)
+      .flatMap((c) => (c.embeddingModel ? [c.embeddingModel] : [])));
+    return [...embeddingModels].reduce((sum, model) => sum + embeddingCost(model, [query]), 0);
+  }, [activeSession?.knowledgeCollectionIds, knowledgeCollections, embeddingCost]);
+
+  /**
+   * Passages from the chat's knowledge collections, for the system message
+   * and the reply's footnotes. Query embeddings are charged to the chat.
+   */
+  const retrieveKnowledge = useCallback(async (
+    sessionId: string,
+    query: string,
+    maxTokens: number,
+    signal?: AbortSignal,
+  ) => {
+    const ids = activeSession?.knowledgeCollectionIds ?? [];
+    if (ids.length === 0) return { context: '', sources: [] };
+    const passages = await retrieveFromCollections(
+      ids,
+      query,
+      Math.floor(maxTokens * KNOWLEDGE_CONTEXT_SHARE),
+      chargedEmbed((pollen) => chargeSession(sessionId, pollen)),
+      signal,
+    );
+    return { context: formatKnowledgeContext(passages), sources: knowledgeSources(passages) };
+  }, [activeSession?.knowledgeCollectionIds, retrieveFromCollections, chargedEmbed, chargeSession]);
+
   /* ── post-generation tasks ──────────────────────────── */
   const postGenerationTasks = useCallback(async () => {
     if (settings.autoReadBalance) refreshBalance();
     if (settings.autoFetchUsage) {
       try {
-        await getUsage(apiKey);
+        const { usage } = await getUsage(apiKey);
+        for (const { pollen, at } of applyUsageRecords(usage, resolveModelName)) {
+          if (pollen !== 0) recordSpend(pollen, at);
+        }
+        saveUsageRecords(usage);
       } catch {
         /* silent */
       }
     }
-  }, [settings.autoReadBalance, settings.autoFetchUsage, refreshBalance, apiKey]);
+  }, [settings.autoReadBalance, settings.autoFetchUsage, refreshBalance, apiKey, applyUsageRecords, resolveModelName, recordSpend]);
+
+  /* ── context summary ────────────────────────────────── */
+  const contextStrategy = activeSession?.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY;
+
+  const handleContextStrategyChange = useCallback((strategy: ContextStrategy) => {
+    if (activeSessionId) updateSessionContext(activeSessionId, { contextStrategy: strategy });
+  }, [activeSessionId, updateSessionContext]);
+
+  /**
+   * Fold evicted turns into the session's rolling summary using the
+   * cheapest text model. Returns null when summarizing fails, so the
+   * caller can fall back to leaving those turns out.
+   */
+  const summarizeEvicted = useCallback(async (
+    sessionId: string,
+    evicted: ChatMessage[],
+    cached: ContextSummary | undefined,
+    signal: AbortSignal,
+  ): Promise<ContextSummary | null> => {
+    const summaryModel = pickCheapestTextModel(models) ?? selectedModel;
+    if (!summaryModel) return null;
+    try {
+      const { summary, usage } = await updateContextSummary(apiKey, summaryModel.name, evicted, cached, signal);
+      if (summary !== cached) {
+        updateSessionContext(sessionId, { contextSummary: summary });
+        chargeSession(sessionId, computePollenCost(
+          summaryModel.pricing,
+          usage?.prompt_tokens ?? estimateMessagesTokens(evicted),
+          usage?.completion_tokens ?? countTokens(summary.content),
+        ));
+      }
+      return summary;
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') throw err;
+      console.warn('[context] Failed to summarize earlier messages', err);
+      return null;
+    }
+  }, [apiKey, models, selectedModel, updateSessionContext, chargeSession]);
+
+  /* ── request context ────────────────────────────────── */
+  /**
+   * System prompt plus as much of the history (ending with the new user
+   * message) as fits `maxTokens`, as chat-completion messages. Attachments
+   * go along as far as `inputs` allows, and text from documents attached
+   * anywhere in the conversation rides on the new message — whole when it
+   * fits, otherwise the chunks that best match it. Those chunks come back
+   * as `sources` for the reply's citations. Knowledge base passages
+   * (`knowledgeContext`) join the system message.
+   */
+  const buildTextContext = useCallback((
+    history: ChatMessage[],
+    userMsg: ChatMessage,
+    maxTokens: number,
+    tokenEncoding: TokenizerEncoding | null,
+    inputs: AttachmentInputs,
+    knowledgeContext = '',
+  ) => {
+    const apiMessages: ChatCompletionMessage[] = [];
+    const enhancementEnabled = shouldEnhancePrompt(settings.enablePromptEnhancement, 'text');
+
+    // Always inject a markdown formatting instruction
+    const markdownInstruction = 'Format your responses using Markdown. Use headings, bullet points, numbered lists, code blocks with language tags, bold, italic, tables, and other Markdown formatting as appropriate to make responses clear and well-structured.';
+    const enhancementInstruction = enhancementEnabled
+      ? 'When possible, improve prompt clarity, infer missing structure, and provide a concise, high-quality answer while preserving the user\'s intent.'
+      : '';
+    const systemContent = [generation.systemPrompt, markdownInstruction, enhancementInstruction, knowledgeContext]
+      .filter(Boolean)
+      .join('\n\n');
+    apiMessages.push({ role: 'system', content: systemContent });
+
+    const documents = new Map<string, MessageAttachment>();
+    for (const m of [...history, userMsg]) {
+      for (const a of m.attachments ?? []) if (a.document) documents.set(a.id, a);
+    }
+    const selection = selectDocumentChunks(
+      [...documents.values()],
+      userMsg.content,
+      Math.floor(maxTokens * DOCUMENT_CONTEXT_SHARE),
+    );
+    const documentContext = formatDocumentContext(selection);
+
+    // Fit history + new user message into the context window
+    const strategy = contextStrategy;
+    const plan = planContext(
+      [...history, userMsg],
+      strategy,
+      maxTokens,
+      countTokens(systemContent, tokenEncoding) + 4
+        + (documentContext ? countTokens(documentContext, tokenEncoding) : 0)
+        + (strategy === 'summarize' ? SUMMARY_TOKEN_RESERVE : 0),
+      tokenEncoding,
+    );
+
+    // Add kept messages; user turns carry their attachments
+    plan.kept.forEach((m) => {
+      const isNew = m.role === 'user' && m.id === userMsg.id;
+      const prompt = isNew && enhancementEnabled ? buildEnhancedPrompt(m.content) : m.content;
+      const outgoingText = isNew && documentContext ? `${prompt}\n\n${documentContext}` : prompt;
+      apiMessages.push({
+        role: m.role,
+        content: m.role === 'user' ? buildUserContent(outgoingText, m.attachments ?? [], inputs) : outgoingText,
+      });
+    });
+
+    return { apiMessages, plan, strategy, sources: documentSources(selection) };
+  }, [settings.enablePromptEnhancement, generation.systemPrompt, contextStrategy]);
+
+  /**
+   * Price range of sending `text` after `history` to a text model — the
+   * same request handleSend builds, less knowledge base passages, which
+   * are only looked up at send time (the lookup's own cost is included).
+   * Null for other model types.
+   */
+  const estimateTextRequest = useCallback((
+    text: string,
+    attachments: MessageAttachment[],
+    history: ChatMessage[],
+  ) => {
+    if (!selectedModel || selectedModel.type !== 'text') return null;
+    const draft: ChatMessage = {
+      id: 'draft',
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      mode: 'text',
+      attachments,
+      parentId: null,
+    };
+    const { apiMessages } = buildTextContext(history, draft, maxInput, encoding, modelAttachmentInputs(selectedModel));
+    const toolsEnabled = settings.enableTools && selectedModel.capabilities.tools;
+    const estimate = estimateRequestCost(
+      { messages: apiMessages, ...(toolsEnabled && { tools: getToolDefinitions() }) },
+      selectedModel,
+      { countText: (t) => countTokens(t, encoding), expectedOutputTokens: expectedReplyTokens(history) },
+    );
+    const lookup = knowledgeQueryCost(text);
+    return { ...estimate, min: estimate.min + lookup, expected: estimate.expected + lookup, max: estimate.max + lookup };
+  }, [selectedModel, buildTextContext, maxInput, encoding, settings.enableTools, knowledgeQueryCost]);
+
+  /** Live preview for the composer: the next message in the active chat */
+  const previewRequestCost = useCallback(
+    (text: string, attachments: MessageAttachment[]) => estimateTextRequest(text, attachments, messages),
+    [estimateTextRequest, messages],
+  );
+
+  /**
+   * Splice the rolling summary in for evicted turns when the chat uses the
+   * summarize strategy. Resolves false if the summary couldn't be made.
+   */
+  const insertContextSummary = useCallback(async (
+    sessionId: string,
+    apiMessages: ChatCompletionMessage[],
+    plan: ContextPlan,
+    strategy: ContextStrategy,
+    signal: AbortSignal,
+  ): Promise<boolean> => {
+    if (strategy !== 'summarize' || plan.evicted.length === 0) return true;
+    const summary = await summarizeEvicted(sessionId, plan.evicted, activeSession?.contextSummary, signal);
+    if (!summary) return false;
+    apiMessages.splice(1, 0, summaryContextMessage(summary));
+    return true;
+  }, [summarizeEvicted, activeSession?.contextSummary]);
+
+  /* ── session titles ─────────────────────────────────── */
+  /**
+   * Title a chat with the cheapest text model and charge the call to the
+   * chat. Resolves false when no usable title came back.
+   */
+  const generateTitle = useCallback(async (
+    sessionId: string,
+    userText: string,
+    replyText: string,
+  ): Promise<boolean> => {
+    const titleModel = pickCheapestTextModel(models) ?? selectedModel;
+    if (!titleModel || !userText.trim()) return false;
+    setTitlingIds((prev) => new Set(prev).add(sessionId));
+    try {
+      const { title, usage } = await generateSessionTitle(apiKey, titleModel.name, userText, replyText);
+      chargeSession(sessionId, computePollenCost(
+        titleModel.pricing,
+        usage?.prompt_tokens ?? estimateMessagesTokens([
+          { role: 'user', content: userText },
+          { role: 'assistant', content: replyText },
+        ]),
+        usage?.completion_tokens ?? countTokens(title),
+      ));
+      if (!title) return false;
+      renameSession(sessionId, title, 'generated');
+      return true;
+    } catch (err) {
+      console.warn('[titles] Failed to generate a title', err);
+      return false;
+    } finally {
+      setTitlingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(sessionId);
+        return next;
+      });
+    }
+  }, [apiKey, models, selectedModel, renameSession, chargeSession]);
+
+  const handleRegenerateTitle = useCallback(async (sessionId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session || titlingIds.has(sessionId)) return;
+    const path = getActivePath(session);
+    const firstUser = path.find((m) => m.role === 'user' && m.content.trim());
+    if (!firstUser) {
+      notifyError('Send a message first, then the chat can be titled.');
+      return;
+    }
+    const firstReply = path.find((m) => m.parentId === firstUser.id && m.role === 'assistant' && !m.isError);
+    const ok = await generateTitle(sessionId, firstUser.content, firstReply?.mode === 'text' ? firstReply.content : '');
+    if (!ok) notifyError('Could not generate a title. Please try again.');
+  }, [sessions, titlingIds, generateTitle, notifyError]);
 
   /* ── send / stream ──────────────────────────────────── */
-  const handleSend = useCallback(async (text: string, mode: GenerationMode, attachments: MessageAttachment[]) => {
+  const handleSend = useCallback(async (
+    text: string,
+    mode: GenerationMode,
+    attachments: MessageAttachment[],
+    branch?: SendBranch,
+    overrideBudget = false,
+  ) => {
     if (!selectedModel || (!text.trim() && attachments.length === 0)) return;
 
-    // Pollen gate
+    // Music models bill per second of audio, so the gate prices the chosen length
+    const usedMusicOptions = isMusicModel(selectedModel) ? branch?.musicOptions ?? musicOptions : undefined;
+
+    // Context: the active branch, or the branch being forked from
+    const history = !activeSession
+      ? []
+      : branch
+        ? getPathTo(activeSession, branch.parentId)
+        : getActivePath(activeSession);
+
+    // Text requests are priced from the payload they'll send
+    const textEstimate = estimateTextRequest(text, attachments, history);
+
+    // Pollen gate — the cheapest this request can come to
     if (settings.autoReadBalance && balance) {
-      const cost = computePollenCost(selectedModel.pricing, estimateTokens(text), 0);
+      const cost = textEstimate?.min
+        ?? computePollenCost(selectedModel.pricing, countTokens(text, encoding), 0, 0, usedMusicOptions?.duration);
       if (!hasSufficientPollen(balance.balance, cost)) {
         notifyError(
           `Insufficient pollen. Need ${formatPollen(cost)}, have ${formatPollen(balance.balance)}.`,
@@ -196,11 +751,29 @@ export default function ChatPage({
       }
     }
 
+    // Budget gate — priced with the context the request carries and a
+    // typical reply; image batches pay for every variation
+    const usedVariations = selectedModel.type === 'image' ? variationCount(branch?.imageOptions ?? imageOptions) : 1;
+    const requestCost = textEstimate?.expected ?? usedVariations * computePollenCost(
+      selectedModel.pricing,
+      Math.min(countTokens(text, encoding) + estimateMessagesTokens(history, encoding), maxInput),
+      undefined,
+      0,
+      usedMusicOptions?.duration,
+    );
+    const withinBudget = passesBudget(
+      requestCost,
+      activeSession?.totalPollenSpent ?? 0,
+      overrideBudget,
+      () => handleSend(text, mode, attachments, branch, true),
+    );
+    if (!withinBudget) return;
+
     // Ensure an active session
     const sessionId = activeSessionId ?? (await createSession(selectedModel.name)).id;
 
-    // User message
-    const userMsg: ChatMessage = {
+    // User message (reused when regenerating a reply)
+    const userMsg: ChatMessage = branch?.userMessage ?? {
       id: uuid(),
       role: 'user',
       content: text,
@@ -208,8 +781,15 @@ export default function ChatPage({
       mode,
       model: selectedModel.name,
       attachments,
+      parentId: history[history.length - 1]?.id ?? null,
     };
-    addMessage(sessionId, userMsg);
+    if (!branch?.userMessage) addMessage(sessionId, userMsg);
+
+    // Title the chat in the background once its first exchange is done
+    const autoTitle = settings.autoGenerateTitles
+      && !branch
+      && history.length === 0
+      && activeSession?.titleSource !== 'manual';
 
     // Determine effective mode based on model type
     // If the model only supports certain output, ensure mode matches
@@ -229,34 +809,55 @@ export default function ChatPage({
 
       // Placeholder loading message
       const imgMsgId = uuid();
+      const usedImageOptions = branch?.imageOptions ?? resolveImageOptions(imageOptions, attachments);
       addMessage(sessionId, {
         id: imgMsgId,
         role: 'assistant',
         content: '',
+        parentId: userMsg.id,
         timestamp: Date.now(),
         mode: 'image',
         model: selectedModel.name,
         attachments: [],
         isPartial: true,
+        imageOptions: usedImageOptions,
       });
 
       try {
-        const imgBlob = await generateImage(apiKey, text, selectedModel.name, {
-          seed: Math.floor(Math.random() * 2147483647),
+        // Variations arrive a few at a time and show up as they finish
+        const seeds = batchSeeds(usedImageOptions);
+        const images: (MessageAttachment | undefined)[] = [];
+        const results = await mapWithConcurrency(seeds, IMAGE_BATCH_CONCURRENCY, async (seed, i) => {
+          const imgBlob = await generateImage(
+            apiKey,
+            text,
+            selectedModel.name,
+            toImageQueryParams({ ...usedImageOptions, seed }),
+          );
+          const name = seeds.length > 1 ? `generated-${i + 1}.png` : 'generated.png';
+          const imgAttachment = await storeGeneratedMedia(sessionId, imgBlob, 'image', name, 'image/png');
+          images[i] = { ...imgAttachment, seed };
+          updateMessage(sessionId, imgMsgId, {
+            attachments: images.filter((a): a is MessageAttachment => a !== undefined),
+          });
         });
-        const imgUrl = URL.createObjectURL(imgBlob);
+
+        const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failed.length === seeds.length) throw failed[0].reason;
+        const generated = seeds.length - failed.length;
+        const pollenSpent = generated * computePollenCost(selectedModel.pricing, countTokens(text, encoding), 1);
         updateMessage(sessionId, imgMsgId, {
-          content: 'Image generated successfully.',
+          content: seeds.length === 1
+            ? 'Image generated successfully.'
+            : `Generated ${generated} of ${seeds.length} variations.`,
           isPartial: false,
-          attachments: [{
-            id: uuid(),
-            type: 'image',
-            name: 'generated.png',
-            mimeType: 'image/png',
-            dataUrl: imgUrl,
-            sizeBytes: imgBlob.size,
-          }],
+          attachments: images.filter((a): a is MessageAttachment => a !== undefined),
+          pollenSpent,
+          ...(generated > 1 && { requestCount: generated }),
         });
+        chargeSession(sessionId, pollenSpent);
+        if (failed.length > 0) handleError(failed[0].reason);
+        if (autoTitle) generateTitle(sessionId, text, '');
       } catch (err) {
         const friendlyMsg = extractFriendlyError(err, selectedModel.name, 'image');
         handleError(err);
@@ -282,6 +883,7 @@ export default function ChatPage({
         id: vidMsgId,
         role: 'assistant',
         content: '',
+        parentId: userMsg.id,
         timestamp: Date.now(),
         mode: 'video',
         model: selectedModel.name,
@@ -293,19 +895,16 @@ export default function ChatPage({
         const videoBlob = await generateVideo(apiKey, text, selectedModel.name, {
           seed: Math.floor(Math.random() * 2147483647),
         });
-        const videoUrl = URL.createObjectURL(videoBlob);
+        const videoAttachment = await storeGeneratedMedia(sessionId, videoBlob, 'video', 'generated.mp4', 'video/mp4');
+        const pollenSpent = computePollenCost(selectedModel.pricing, countTokens(text, encoding));
         updateMessage(sessionId, vidMsgId, {
           content: 'Video generated successfully.',
           isPartial: false,
-          attachments: [{
-            id: uuid(),
-            type: 'video',
-            name: 'generated.mp4',
-            mimeType: 'video/mp4',
-            dataUrl: videoUrl,
-            sizeBytes: videoBlob.size,
-          }],
+          attachments: [videoAttachment],
+          pollenSpent,
         });
+        chargeSession(sessionId, pollenSpent);
+        if (autoTitle) generateTitle(sessionId, text, '');
       } catch (err) {
         const friendlyMsg = extractFriendlyError(err, selectedModel.name, 'video');
         handleError(err);
@@ -330,30 +929,38 @@ export default function ChatPage({
         id: audioMsgId,
         role: 'assistant',
         content: '',
+        parentId: userMsg.id,
         timestamp: Date.now(),
         mode: 'audio',
         model: selectedModel.name,
         attachments: [],
         isPartial: true,
+        ...(usedMusicOptions && { musicOptions: usedMusicOptions }),
       });
 
       try {
-        const audioBlob = await generateAudioDirect(apiKey, text, selectedModel.name, {
-          voice: 'alloy',
-        });
-        const audioUrl = URL.createObjectURL(audioBlob);
+        const audioBlob = usedMusicOptions
+          ? await generateAudioDirect(apiKey, buildMusicPrompt(text, usedMusicOptions.tags), selectedModel.name, {
+            duration: usedMusicOptions.duration,
+            instrumental: usedMusicOptions.instrumental,
+          })
+          : await generateAudioDirect(apiKey, text, selectedModel.name, {
+            voice: pickVoice(selectedModel.voices, settings.voice),
+          });
+        const audioAttachment = await storeGeneratedMedia(
+          sessionId, audioBlob, 'audio', usedMusicOptions ? 'music.mp3' : 'generated.mp3', 'audio/mpeg',
+        );
+        const pollenSpent = computePollenCost(
+          selectedModel.pricing, countTokens(text, encoding), undefined, 0, usedMusicOptions?.duration,
+        );
         updateMessage(sessionId, audioMsgId, {
           content: 'Audio generated successfully.',
           isPartial: false,
-          attachments: [{
-            id: uuid(),
-            type: 'audio',
-            name: 'generated.mp3',
-            mimeType: 'audio/mpeg',
-            dataUrl: audioUrl,
-            sizeBytes: audioBlob.size,
-          }],
+          attachments: [audioAttachment],
+          pollenSpent,
         });
+        chargeSession(sessionId, pollenSpent);
+        if (autoTitle) generateTitle(sessionId, text, '');
       } catch (err) {
         const friendlyMsg = extractFriendlyError(err, selectedModel.name, 'audio');
         handleError(err);
@@ -374,62 +981,18 @@ export default function ChatPage({
     const controller = new AbortController();
     abortRef.current = controller;
 
-    // Build context
-    const apiMessages: { role: string; content: string | Array<{ type: string;[k: string]: unknown }> }[] = [];
-
-    const enhancementEnabled = shouldEnhancePrompt(
-      settings.enablePromptEnhancement,
-      effectiveMode,
-    );
-
-    // Always inject a markdown formatting instruction
-    const markdownInstruction = 'Format your responses using Markdown. Use headings, bullet points, numbered lists, code blocks with language tags, bold, italic, tables, and other Markdown formatting as appropriate to make responses clear and well-structured.';
-    const enhancementInstruction = enhancementEnabled
-      ? 'When possible, improve prompt clarity, infer missing structure, and provide a concise, high-quality answer while preserving the user\'s intent.'
-      : '';
-    const systemContent = settings.systemPrompt
-      ? [settings.systemPrompt, markdownInstruction, enhancementInstruction].filter(Boolean).join('\n\n')
-      : [markdownInstruction, enhancementInstruction].filter(Boolean).join('\n\n');
-    apiMessages.push({ role: 'system', content: systemContent });
-
-    // Add history + new user message (with multimodal content for vision)
-    const allMessages = [...(activeSession?.messages ?? []), userMsg];
-    allMessages.forEach((m) => {
-      // Check if message has image attachments — send as multimodal content
-      const imageAttachments = m.attachments?.filter((a) => a.type === 'image') ?? [];
-      if (m.role === 'user' && imageAttachments.length > 0) {
-        const outgoingText = m.id === userMsg.id && enhancementEnabled
-          ? buildEnhancedPrompt(m.content)
-          : m.content;
-        const contentParts: Array<{ type: string;[k: string]: unknown }> = [
-          { type: 'text', text: outgoingText },
-        ];
-        for (const att of imageAttachments) {
-          contentParts.push({
-            type: 'image_url',
-            image_url: { url: att.dataUrl },
-          });
-        }
-        apiMessages.push({ role: m.role, content: contentParts });
-      } else {
-        const outgoingText = m.role === 'user' && m.id === userMsg.id && enhancementEnabled
-          ? buildEnhancedPrompt(m.content)
-          : m.content;
-        apiMessages.push({ role: m.role, content: outgoingText });
-      }
-    });
-
     const effectiveTemperature = computeEffectiveTemperature(
-      settings.temperature,
-      settings.creativity,
+      generation.temperature,
+      generation.creativity,
     );
 
-    // Placeholder assistant message
+    // Placeholder assistant message; context details are filled in once it's built
     const assistantId = uuid();
     const assistantMsg: ChatMessage = {
       id: assistantId,
       role: 'assistant',
       content: '',
+      parentId: userMsg.id,
       timestamp: Date.now(),
       mode: 'text',
       model: selectedModel.name,
@@ -439,37 +1002,137 @@ export default function ChatPage({
     addMessage(sessionId, assistantMsg);
 
     let accum = '';
+    let reasoning = '';
+    let answerTokens = 0;
+    let reasoningTokens = 0;
+    let promptTokens = 0;
+    let requestCount = 0;
+    let reasoningDurationMs: number | undefined;
+    const startedAt = Date.now();
+    const toolRecords: ToolCallRecord[] = [];
+    const toolsEnabled = settings.enableTools && selectedModel.capabilities.tools;
 
     try {
-      await streamGeneration(
-        apiKey,
-        {
-          model: selectedModel.name,
-          messages: apiMessages,
-          temperature: effectiveTemperature,
-        },
-        (chunk) => {
-          accum += chunk;
-          updateMessage(sessionId, assistantId, {
-            content: accum,
-            tokensUsed: estimateTokens(accum),
-            isPartial: true,
-          });
-        },
-        (usage, _userTier) => {
-          updateMessage(sessionId, assistantId, {
-            content: accum,
-            tokensUsed: usage?.completion_tokens ?? estimateTokens(accum),
-            isPartial: false,
-          });
+      const knowledgeContext = await retrieveKnowledge(sessionId, userMsg.content, maxInput, controller.signal);
+      const { apiMessages, plan, strategy, sources } = buildTextContext(
+        history, userMsg, maxInput, encoding, modelAttachmentInputs(selectedModel), knowledgeContext.context,
+      );
+      updateMessage(sessionId, assistantId, {
+        contextCompaction: describeCompaction(plan, strategy),
+        ...(sources.length > 0 && { sources }),
+        ...(knowledgeContext.sources.length > 0 && { knowledgeSources: knowledgeContext.sources }),
+      });
+
+      if (!(await insertContextSummary(sessionId, apiMessages, plan, strategy, controller.signal))) {
+        updateMessage(sessionId, assistantId, {
+          contextCompaction: { strategy, compacted: plan.evicted.length, summarized: false },
+        });
+      }
+
+      const { exhausted } = await runToolLoop(
+        apiMessages,
+        (conversation, allowTools) => new Promise((resolve, reject) => {
+          let roundContent = '';
+          let roundReasoning = '';
+          streamGenerationWithRetry(
+            apiKey,
+            {
+              model: selectedModel.name,
+              messages: conversation,
+              temperature: effectiveTemperature,
+              ...(toolsEnabled && {
+                tools: getToolDefinitions(),
+                tool_choice: allowTools ? 'auto' : 'none',
+              }),
+            },
+            (chunk) => {
+              roundContent += chunk;
+              accum += chunk;
+              // The first answer token ends the thinking phase
+              if (reasoning && reasoningDurationMs === undefined) {
+                reasoningDurationMs = Date.now() - startedAt;
+              }
+              updateMessage(sessionId, assistantId, {
+                content: accum,
+                tokensUsed: answerTokens + reasoningTokens + countTokens(roundContent, encoding),
+                reasoningDurationMs,
+                isPartial: true,
+                retryStatus: undefined,
+              });
+            },
+            (usage, _userTier, toolCalls, requests = 1) => {
+              requestCount += requests;
+              // When the server reports a breakdown, completion_tokens includes reasoning
+              const reportedReasoning = usage?.completion_tokens_details?.reasoning_tokens;
+              reasoningTokens += reportedReasoning ?? countTokens(roundReasoning, encoding);
+              answerTokens += usage
+                ? Math.max(usage.completion_tokens - (reportedReasoning ?? 0), 0)
+                : countTokens(roundContent, encoding);
+              promptTokens += usage?.prompt_tokens ?? estimateMessagesTokens(
+                conversation.map((m) => ({
+                  role: m.role,
+                  content: typeof m.content === 'string' ? m.content : '',
+                })),
+                encoding,
+              );
+              // Keep tool-call rounds visually separate from the final answer
+              if (toolCalls?.length && accum) accum += '\n\n';
+              resolve({ content: roundContent, toolCalls: toolCalls ?? [] });
+            },
+            controller.signal,
+            (thought) => {
+              roundReasoning += thought;
+              reasoning += thought;
+              updateMessage(sessionId, assistantId, { reasoning, isPartial: true, retryStatus: undefined });
+            },
+            {
+              onRetry: (retryStatus) => {
+                // Starting over — the thinking streams again from the top
+                if (!retryStatus.resuming) {
+                  reasoning = reasoning.slice(0, reasoning.length - roundReasoning.length);
+                  roundReasoning = '';
+                }
+                updateMessage(sessionId, assistantId, { reasoning, retryStatus, isPartial: true });
+              },
+            },
+          ).catch(reject);
+        }),
+        (record) => {
+          toolRecords.push(record);
+          updateMessage(sessionId, assistantId, { toolCalls: [...toolRecords] });
         },
-        controller.signal,
       );
+
+      if (exhausted) {
+        accum += `\n\n*[Stopped after ${MAX_TOOL_ITERATIONS} rounds of tool calls]*`;
+      }
+      const pollenSpent = computePollenCost(
+        selectedModel.pricing,
+        promptTokens,
+        answerTokens,
+        reasoningTokens,
+      );
+      updateMessage(sessionId, assistantId, {
+        content: accum.trim(),
+        tokensUsed: answerTokens + reasoningTokens,
+        ...(reasoning && {
+          reasoning,
+          reasoningTokens,
+          reasoningDurationMs: reasoningDurationMs ?? Date.now() - startedAt,
+        }),
+        pollenSpent,
+        ...(requestCount > 1 && { requestCount }),
+        isPartial: false,
+        retryStatus: undefined,
+      });
+      chargeSession(sessionId, pollenSpent);
+      if (autoTitle) generateTitle(sessionId, text, accum.trim());
     } catch (err) {
       if ((err as Error).name === 'AbortError') {
         updateMessage(sessionId, assistantId, {
           content: accum + '\n\n*[Generation cancelled]*',
           isPartial: false,
+          retryStatus: undefined,
         });
       } else {
         handleError(err);
@@ -479,6 +1142,14 @@ export default function ChatPage({
             content: friendlyMsg,
             isPartial: false,
             isError: true,
+            retryStatus: undefined,
+          });
+        } else {
+          // Keep what arrived before retries ran out
+          updateMessage(sessionId, assistantId, {
+            content: accum + '\n\n*[Reply incomplete — the request failed]*',
+            isPartial: false,
+            retryStatus: undefined,
           });
         }
       }
@@ -489,21 +1160,307 @@ export default function ChatPage({
     }
   }, [
     selectedModel,
+    encoding,
+    maxInput,
+    buildTextContext,
+    estimateTextRequest,
+    retrieveKnowledge,
+    insertContextSummary,
+    generateTitle,
+    imageOptions,
+    musicOptions,
     settings,
+    generation,
     balance,
     activeSessionId,
     activeSession,
     createSession,
     addMessage,
     updateMessage,
+    chargeSession,
+    passesBudget,
     notifyError,
     apiKey,
     handleError,
     postGenerationTasks,
   ]);
 
+  /* ── compare mode ───────────────────────────────────── */
+  /**
+   * Send one prompt to every model in `compareModels` at once. Each reply
+   * streams into its own column with its own AbortController; the
+   * conversation continues from whichever reply the user picks.
+   */
+  const handleCompare = useCallback(async (text: string, attachments: MessageAttachment[], overrideBudget = false) => {
+    const chosen = compareModels
+      .map((name) => models.find((m) => m.name === name))
+      .filter((m): m is PollinationsModel => m?.type === 'text');
+    if (chosen.length < MIN_COMPARE_MODELS || (!text.trim() && attachments.length === 0)) return;
+
+    // Pollen gate — every model is billed for the prompt
+    if (settings.autoReadBalance && balance) {
+      const cost = chosen.reduce(
+        (sum, m) => sum + computePollenCost(m.pricing, countTokens(text, getEncodingForModel(m)), 0),
+        0,
+      );
+      if (!hasSufficientPollen(balance.balance, cost)) {
+        notifyError(
+          `Insufficient pollen. Need ${formatPollen(cost)}, have ${formatPollen(balance.balance)}.`,
+        );
+        return;
+      }
+    }
+
+    const history = activeSession ? getActivePath(activeSession) : [];
+
+    // Budget gate — one typical reply from every model, plus the shared knowledge lookup
+    const requestCost = chosen.reduce((sum, m) => {
+      const modelEncoding = getEncodingForModel(m);
+      const inputTokens = countTokens(text, modelEncoding) + estimateMessagesTokens(history, modelEncoding);
+      return sum + computePollenCost(m.pricing, Math.min(inputTokens, m.maxInputTokens));
+    }, knowledgeQueryCost(text));
+    const withinBudget = passesBudget(
+      requestCost,
+      activeSession?.totalPollenSpent ?? 0,
+      overrideBudget,
+      () => handleCompare(text, attachments, true),
+    );
+    if (!withinBudget) return;
+
+    const sessionId = activeSessionId ?? (await createSession(chosen[0].name)).id;
+    const userMsg: ChatMessage = {
+      id: uuid(),
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      mode: 'text',
+      model: chosen.map((m) => m.name).join(', '),
+      attachments,
+      parentId: history[history.length - 1]?.id ?? null,
+    };
+    addMessage(sessionId, userMsg);
+
+    const autoTitle = settings.autoGenerateTitles
+      && history.length === 0
+      && activeSession?.titleSource !== 'manual';
+
+    setIsStreaming(true);
+    const contextController = new AbortController();
+    abortRef.current = contextController;
+
+    const temperature = computeEffectiveTemperature(generation.temperature, generation.creativity);
+
+    const comparisonId = uuid();
+    const replies = chosen.map((model) => ({ model, id: uuid(), controller: new AbortController() }));
+    for (const { model, id, controller } of replies) {
+      compareAbortRefs.current.set(id, controller);
+      addMessage(sessionId, {
+        id,
+        role: 'assistant',
+        content: '',
+        parentId: userMsg.id,
+        timestamp: Date.now(),
+        mode: 'text',
+        model: model.name,
+        attachments: [],
+        isPartial: true,
+        comparisonId,
+      });
+    }
+    saveComparison(sessionId, {
+      id: comparisonId,
+      promptId: userMsg.id,
+      replyIds: replies.map((r) => r.id),
+      winnerId: null,
+      createdAt: Date.now(),
+    });
+
+    const runReply = async (
+      { model, id, controller }: typeof replies[number],
+      apiMessages: ChatCompletionMessage[],
+    ): Promise<string> => {
+      const modelEncoding = getEncodingForModel(model);
+      const startedAt = Date.now();
+      let accum = '';
+      let reasoning = '';
+      let firstTokenMs: number | undefined;
+      try {
+        const { usage, requests } = await new Promise<{ usage: StreamDelta['usage']; requests: number }>((resolve, reject) => {
+          streamGenerationWithRetry(
+            apiKey,
+            { model: model.name, messages: apiMessages, temperature },
+            (chunk) => {
+              accum += chunk;
+              firstTokenMs ??= Date.now() - startedAt;
+              updateMessage(sessionId, id, {
+                content: accum,
+                tokensUsed: countTokens(accum + reasoning, modelEncoding),
+                firstTokenMs,
+                ...(reasoning && { reasoningDurationMs: firstTokenMs }),
+                isPartial: true,
+                retryStatus: undefined,
+              });
+            },
+            (usage, _userTier, _toolCalls, requests = 1) => resolve({ usage, requests }),
+            controller.signal,
+            (thought) => {
+              reasoning += thought;
+              updateMessage(sessionId, id, { reasoning, isPartial: true, retryStatus: undefined });
+            },
+            {
+              onRetry: (retryStatus) => {
+                if (!retryStatus.resuming) reasoning = '';
+                updateMessage(sessionId, id, { reasoning, retryStatus, isPartial: true });
+              },
+            },
+          ).catch(reject);
+        });
+
+        const reportedReasoning = usage?.completion_tokens_details?.reasoning_tokens;
+        const reasoningTokens = reportedReasoning ?? countTokens(reasoning, modelEncoding);
+        const answerTokens = usage
+          ? Math.max(usage.completion_tokens - (reportedReasoning ?? 0), 0)
+          : countTokens(accum, modelEncoding);
+        const promptTokens = usage?.prompt_tokens ?? estimateMessagesTokens(
+          apiMessages.map((m) => ({ role: m.role, content: typeof m.content === 'string' ? m.content : '' })),
+          modelEncoding,
+        );
+        const pollenSpent = computePollenCost(model.pricing, promptTokens, answerTokens, reasoningTokens);
+        updateMessage(sessionId, id, {
+          content: accum.trim(),
+          tokensUsed: answerTokens + reasoningTokens,
+          ...(reasoning && {
+            reasoning,
+            reasoningTokens,
+            reasoningDurationMs: firstTokenMs ?? Date.now() - startedAt,
+          }),
+          pollenSpent,
+          ...(requests > 1 && { requestCount: requests }),
+          latencyMs: Date.now() - startedAt,
+          firstTokenMs,
+          isPartial: false,
+          retryStatus: undefined,
+        });
+        chargeSession(sessionId, pollenSpent);
+        return accum.trim();
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') {
+          updateMessage(sessionId, id, {
+            content: accum + '\n\n*[Generation cancelled]*',
+            isPartial: false,
+            retryStatus: undefined,
+          });
+        } else if (!accum) {
+          updateMessage(sessionId, id, {
+            content: extractFriendlyError(err, model.name, 'text'),
+            isPartial: false,
+            isError: true,
+            retryStatus: undefined,
+          });
+        } else {
+          updateMessage(sessionId, id, {
+            content: accum + '\n\n*[Reply incomplete — the request failed]*',
+            isPartial: false,
+            retryStatus: undefined,
+          });
+        }
+        return '';
+      } finally {
+        compareAbortRefs.current.delete(id);
+      }
+    };
+
+    try {
+      // One context for all columns, sized for the smallest window
+      const narrowest = chosen.reduce((a, b) => (b.maxInputTokens < a.maxInputTokens ? b : a));
+      const knowledgeContext = await retrieveKnowledge(sessionId, userMsg.content, narrowest.maxInputTokens, contextController.signal);
+      const { apiMessages, plan, strategy, sources } = buildTextContext(
+        history,
+        userMsg,
+        narrowest.maxInputTokens,
+        getEncodingForModel(narrowest),
+        commonAttachmentInputs(chosen),
+        knowledgeContext.context,
+      );
+      for (const { id } of replies) {
+        updateMessage(sessionId, id, {
+          contextCompaction: describeCompaction(plan, strategy),
+          ...(sources.length > 0 && { sources }),
+          ...(knowledgeContext.sources.length > 0 && { knowledgeSources: knowledgeContext.sources }),
+        });
+      }
+
+      if (!(await insertContextSummary(sessionId, apiMessages, plan, strategy, contextController.signal))) {
+        for (const { id } of replies) {
+          updateMessage(sessionId, id, {
+            contextCompaction: { strategy, compacted: plan.evicted.length, summarized: false },
+          });
+        }
+      }
+      const contents = await Promise.all(replies.map((reply) => runReply(reply, apiMessages)));
+      const firstReply = contents.find(Boolean);
+      if (autoTitle && firstReply) generateTitle(sessionId, text, firstReply);
+    } catch (err) {
+      // Only the knowledge lookup and summary steps can land here — the replies handle their own errors
+      for (const { id, controller } of replies) {
+        controller.abort();
+        compareAbortRefs.current.delete(id);
+        updateMessage(sessionId, id, {
+          content: (err as Error).name === 'AbortError' ? '*[Generation cancelled]*' : 'The request failed before it started.',
+          isPartial: false,
+          isError: (err as Error).name !== 'AbortError',
+        });
+      }
+    } finally {
+      setIsStreaming(false);
+      abortRef.current = null;
+      postGenerationTasks();
+    }
+  }, [
+    compareModels,
+    models,
+    settings,
+    generation,
+    balance,
+    activeSessionId,
+    activeSession,
+    createSession,
+    addMessage,
+    updateMessage,
+    saveComparison,
+    chargeSession,
+    passesBudget,
+    knowledgeQueryCost,
+    buildTextContext,
+    retrieveKnowledge,
+    insertContextSummary,
+    generateTitle,
+    notifyError,
+    apiKey,
+    postGenerationTasks,
+  ]);
+
+  /** Composer entry point — compare mode takes over plain text sends */
+  const handleComposerSend = useCallback((
+    text: string,
+    mode: GenerationMode,
+    attachments: MessageAttachment[],
+  ) => {
+    if (mode === 'text' && compareModels.length >= MIN_COMPARE_MODELS) return handleCompare(text, attachments);
+    return handleSend(text, mode, attachments);
+  }, [compareModels, handleCompare, handleSend]);
+
+  const handlePickWinner = useCallback((comparisonId: string, replyId: string) => {
+    if (activeSessionId) pickComparisonWinner(activeSessionId, comparisonId, replyId);
+  }, [activeSessionId, pickComparisonWinner]);
+
+  const handleStopReply = useCallback((replyId: string) => {
+    compareAbortRefs.current.get(replyId)?.abort();
+  }, []);
+
   const handleCancel = () => {
     abortRef.current?.abort();
+    compareAbortRefs.current.forEach((controller) => controller.abort());
   };
 
   /* ── extract friendly error message ─────────────────── */
@@ -547,31 +1504,83 @@ export default function ChatPage({
   /* ── message actions (hover toolbar) ────────────────── */
   const handleRegenerate = useCallback(async (assistantMessageId: string) => {
     if (!activeSessionId || !activeSession || isStreaming) return;
-    // Find the assistant message and the user message before it
-    const msgIndex = activeSession.messages.findIndex((m) => m.id === assistantMessageId);
-    if (msgIndex <= 0) return;
-    const userMsg = activeSession.messages[msgIndex - 1];
-    if (userMsg.role !== 'user') return;
+    // Find the user message this reply answers
+    const assistantMsg = activeSession.messages.find((m) => m.id === assistantMessageId);
+    const userMsg = activeSession.messages.find((m) => m.id === assistantMsg?.parentId);
+    if (!userMsg || userMsg.role !== 'user') return;
+
+    // Add a sibling reply — the previous one stays reachable via the branch navigator.
+    // Images are redrawn with the seed and parameters they were made with.
+    handleSend(userMsg.content, userMsg.mode, userMsg.attachments, {
+      parentId: userMsg.parentId ?? null,
+      userMessage: userMsg,
+      imageOptions: assistantMsg?.imageOptions,
+      musicOptions: assistantMsg?.musicOptions,
+    });
+  }, [activeSessionId, activeSession, isStreaming, handleSend]);
+
+  /** Redraw an image reply with the same parameters and a new seed */
+  const handleVaryImage = useCallback(async (assistantMessageId: string) => {
+    if (!activeSessionId || !activeSession || isStreaming) return;
+    const assistantMsg = activeSession.messages.find((m) => m.id === assistantMessageId);
+    const userMsg = activeSession.messages.find((m) => m.id === assistantMsg?.parentId);
+    if (!assistantMsg?.imageOptions || !userMsg || userMsg.role !== 'user') return;
 
-    // Delete the assistant message (and everything after it)
-    await deleteMessagesFrom(activeSessionId, assistantMessageId);
+    handleSend(userMsg.content, 'image', userMsg.attachments, {
+      parentId: userMsg.parentId ?? null,
+      userMessage: userMsg,
+      imageOptions: varyImageOptions(assistantMsg.imageOptions),
+    });
+  }, [activeSessionId, activeSession, isStreaming, handleSend]);
+
+  /** Redraw one variation of a batch at twice the size */
+  const handleUpscaleImage = useCallback(async (assistantMessageId: string, attachmentId: string) => {
+    if (!activeSessionId || !activeSession || isStreaming) return;
+    const assistantMsg = activeSession.messages.find((m) => m.id === assistantMessageId);
+    const userMsg = activeSession.messages.find((m) => m.id === assistantMsg?.parentId);
+    const seed = assistantMsg?.attachments.find((a) => a.id === attachmentId)?.seed;
+    if (!assistantMsg?.imageOptions || seed === undefined || !userMsg || userMsg.role !== 'user') return;
+
+    handleSend(userMsg.content, 'image', userMsg.attachments, {
+      parentId: userMsg.parentId ?? null,
+      userMessage: userMsg,
+      imageOptions: upscaleImageOptions(assistantMsg.imageOptions, seed),
+    });
+  }, [activeSessionId, activeSession, isStreaming, handleSend]);
 
-    // Re-send the user message
-    handleSend(userMsg.content, userMsg.mode, userMsg.attachments);
-  }, [activeSessionId, activeSession, isStreaming, deleteMessagesFrom, handleSend]);
+  /** Mark one variation of a batch as the keeper (again to unmark) */
+  const handleSelectImage = useCallback((assistantMessageId: string, attachmentId: string) => {
+    if (!activeSessionId || !activeSession) return;
+    const assistantMsg = activeSession.messages.find((m) => m.id === assistantMessageId);
+    if (!assistantMsg) return;
+    updateMessage(activeSessionId, assistantMessageId, {
+      selectedAttachmentId: assistantMsg.selectedAttachmentId === attachmentId ? undefined : attachmentId,
+    });
+  }, [activeSessionId, activeSession, updateMessage]);
 
   const handleEditAndRegenerate = useCallback(async (userMessageId: string, newContent: string) => {
     if (!activeSessionId || !activeSession || isStreaming) return;
-    const msgIndex = activeSession.messages.findIndex((m) => m.id === userMessageId);
-    if (msgIndex === -1) return;
+    const originalMsg = activeSession.messages.find((m) => m.id === userMessageId);
+    if (!originalMsg) return;
 
-    // Delete the user message and everything after it
-    await deleteMessagesFrom(activeSessionId, userMessageId);
+    // Fork: the edited message becomes a sibling of the original
+    handleSend(newContent, originalMsg.mode, originalMsg.attachments, {
+      parentId: originalMsg.parentId ?? null,
+    });
+  }, [activeSessionId, activeSession, isStreaming, handleSend]);
 
-    // Re-send with new content
-    const originalMsg = activeSession.messages[msgIndex];
-    handleSend(newContent, originalMsg.mode, originalMsg.attachments);
-  }, [activeSessionId, activeSession, isStreaming, deleteMessagesFrom, handleSend]);
+  const handleSwitchBranch = useCallback((messageId: string, offset: number) => {
+    if (!activeSessionId || !activeSession || isStreaming) return;
+    const siblings = getSiblings(activeSession, messageId);
+    const idx = siblings.findIndex((m) => m.id === messageId);
+    const target = siblings[idx + offset];
+    if (target) switchBranch(activeSessionId, target.id);
+  }, [activeSessionId, activeSession, isStreaming, switchBranch]);
+
+  const handlePruneBranch = useCallback((messageId: string) => {
+    if (!activeSessionId || isStreaming) return;
+    pruneBranch(activeSessionId, messageId);
+  }, [activeSessionId, isStreaming, pruneBranch]);
 
   const handleCopyMessage = useCallback((content: string) => {
     navigator.clipboard.writeText(content);
@@ -583,6 +1592,79 @@ export default function ChatPage({
     await deleteMessage(activeSessionId, messageId);
   }, [activeSessionId, deleteMessage]);
 
+  /* ── search ─────────────────────────────────────────── */
+  const searchModelNames = useMemo(() => models.map((m) => m.name), [models]);
+
+  const handleJumpToMessage = useCallback((sessionId: string, messageId: string) => {
+    const session = sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    switchSession(sessionId);
+    // Hits on an inactive branch bring that branch into view first
+    if (!getActivePath(session).some((m) => m.id === messageId)) {
+      switchBranch(sessionId, messageId);
+    }
+    setFocusMessageId(messageId);
+    setSearchOpen(false);
+    setSidebarOpen(false);
+  }, [sessions, switchSession, switchBranch]);
+
+  const clearFocusMessage = useCallback(() => setFocusMessageId(null), []);
+
+  /* ── read aloud ─────────────────────────────────────── */
+  const speechModel = useMemo(() => pickSpeechModel(models), [models]);
+  const handleSpeechCached = useCallback((messageId: string, speech: SpeechCache) => {
+    if (activeSessionId) updateMessage(activeSessionId, messageId, { speech });
+  }, [activeSessionId, updateMessage]);
+  /** Read-aloud chunks, each checked against the budget and charged to the chat */
+  const chargedSpeak = useCallback<SpeakFn>(async (text, model, voice) => {
+    const cost = computePollenCost(models.find((m) => m.name === model)?.pricing, countTokens(text));
+    if (!(await approveSpend(cost))) throw abortError();
+    const audio = await generateAudioDirect(apiKey, text, model, { voice });
+    chargeActiveChat(cost);
+    return audio;
+  }, [models, approveSpend, apiKey, chargeActiveChat]);
+
+  const readAloud = useReadAloud({
+    synthesize: chargedSpeak,
+    sessionId: activeSessionId,
+    model: speechModel?.name,
+    voice: pickVoice(speechModel?.voices, settings.voice),
+    onCached: handleSpeechCached,
+    onError: handleError,
+  });
+
+  /* ── voice input ────────────────────────────────────── */
+  const transcriptionModel = useMemo(() => pickTranscriptionModel(models), [models]);
+  const handleTranscribe = useCallback(async (audio: Blob): Promise<string | null> => {
+    if (!transcriptionModel) return null;
+    try {
+      return await transcribeAudio(audio, {
+        apiKey,
+        model: transcriptionModel.name,
+        approve: (request) => approveSpend(estimateTranscriptionCost(request, transcriptionModel, countTokens).expected),
+        charge: (request, transcript) => chargeActiveChat(
+          estimateTranscriptionCost(request, transcriptionModel, countTokens, transcript).expected,
+        ),
+      });
+    } catch (err) {
+      // Declined at the budget prompt
+      if ((err as Error).name !== 'AbortError') handleError(err);
+      return null;
+    }
+  }, [apiKey, transcriptionModel, approveSpend, chargeActiveChat, handleError]);
+
+  /* ── gallery ────────────────────────────────────────── */
+  const hasGeneratedMedia = useMemo(
+    () => !!activeSession?.messages.some((m) => m.role === 'assistant' && m.attachments.length > 0),
+    [activeSession],
+  );
+
+  const handleGalleryJump = useCallback((messageId: string) => {
+    if (!activeSessionId) return;
+    handleJumpToMessage(activeSessionId, messageId);
+    setGalleryOpen(false);
+  }, [activeSessionId, handleJumpToMessage]);
+
   /* ── new chat ───────────────────────────────────────── */
   const handleNewChat = async () => {
     await createSession(selectedModel?.name ?? 'openai');
@@ -613,6 +1695,15 @@ export default function ChatPage({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
             </svg>
           </button>
+          <button
+            onClick={() => setSearchOpen(true)}
+            className="p-1.5 rounded-md hover:bg-accent transition-colors"
+            title="Search chats"
+          >
+            <svg className="w-4 h-4 text-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </button>
         </div>
       )}
 
@@ -625,6 +1716,15 @@ export default function ChatPage({
         <div className="flex items-center justify-between p-4 border-b border-border">
           <h2 className="font-semibold text-foreground text-sm">Chats</h2>
           <div className="flex items-center gap-1">
+            <button
+              onClick={() => setSearchOpen(true)}
+              className="p-1.5 rounded-md hover:bg-accent transition-colors"
+              title="Search chats"
+            >
+              <svg className="w-4 h-4 text-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </button>
             <button
               onClick={handleNewChat}
               className="p-1.5 rounded-md hover:bg-accent transition-colors"
@@ -689,6 +1789,19 @@ export default function ChatPage({
               )}
               {renamingId !== s.id && (
                 <>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRegenerateTitle(s.id);
+                    }}
+                    disabled={titlingIds.has(s.id)}
+                    className={`${titlingIds.has(s.id) ? 'opacity-100' : 'opacity-0'} group-hover:opacity-100 focus:opacity-100 active:opacity-100 p-1 hover:text-foreground transition-all touch-action-manipulation`}
+                    title="Regenerate title"
+                  >
+                    <svg className={`w-3.5 h-3.5 ${titlingIds.has(s.id) ? 'animate-pulse' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                    </svg>
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -777,6 +1890,7 @@ export default function ChatPage({
               visible={settings.showUsageIcon}
               balance={balance}
               onRefresh={refreshBalance}
+              onOpenAnalytics={() => setAnalyticsOpen(true)}
             />
           )}
 
@@ -793,6 +1907,38 @@ export default function ChatPage({
             </div>
           )}
 
+          <button
+            onClick={() => setKnowledgeOpen(true)}
+            className={`p-1.5 rounded-md hover:bg-accent transition-colors ${activeSession?.knowledgeCollectionIds?.length ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+            title={activeSession?.knowledgeCollectionIds?.length ? 'Knowledge base (searched in this chat)' : 'Knowledge base'}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setPromptLibraryOpen(true)}
+            className="p-1.5 rounded-md hover:bg-accent transition-colors text-muted-foreground hover:text-foreground"
+            title="Prompt library"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+          </button>
+
+          {hasGeneratedMedia && (
+            <button
+              onClick={() => setGalleryOpen(true)}
+              className="p-1.5 rounded-md hover:bg-accent transition-colors text-muted-foreground hover:text-foreground"
+              title="Gallery"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+              </svg>
+            </button>
+          )}
+
           <button
             onClick={() => setSettingsOpen(true)}
             className="p-1.5 rounded-md hover:bg-accent transition-colors text-muted-foreground hover:text-foreground"
@@ -820,16 +1966,39 @@ export default function ChatPage({
                 model={selectedModel}
                 models={models}
                 onSelectModel={handleModelChange}
-                onSend={handleSend}
+                onSend={handleComposerSend}
                 onCancel={handleCancel}
                 isStreaming={isStreaming}
                 tokenInfo={{
                   totalInputTokens: tokenMeter.totalInputTokens,
                   maxInputTokens: tokenMeter.maxInputTokens,
                   isOverLimit: tokenMeter.isOverLimit,
+                  isMessageOverLimit: tokenMeter.isMessageOverLimit,
                   usageRatio: tokenMeter.usageRatio,
                 }}
                 onTextChange={tokenMeter.updateComposerText}
+                contextStrategy={contextStrategy}
+                onContextStrategyChange={activeSessionId ? handleContextStrategyChange : undefined}
+                presets={presets}
+                activePresetId={activePreset?.id ?? null}
+                onSelectPreset={activeSessionId ? handleSelectPreset : undefined}
+                onOpenChatSettings={() => setChatSettingsOpen(true)}
+                compareModels={compareModels}
+                onCompareModelsChange={setCompareModels}
+                imageOptions={imageOptions}
+                onImageOptionsChange={setImageOptions}
+                voice={settings.voice}
+                onVoiceChange={(voice) => handleUpdateSettings({ voice })}
+                musicOptions={musicOptions}
+                onMusicOptionsChange={setMusicOptions}
+                onTranscribe={transcriptionModel ? handleTranscribe : undefined}
+                onVoiceInputError={handleError}
+                sendVoiceOnRelease={settings.voiceSendOnRelease}
+                imageQuality={settings.imageUploadQuality}
+                promptTemplates={promptTemplates}
+                onOpenPromptLibrary={() => setPromptLibraryOpen(true)}
+                estimateCost={previewRequestCost}
+                onAttachmentError={notifyError}
               />
             </div>
           </div>
@@ -841,9 +2010,23 @@ export default function ChatPage({
                 messages={messages}
                 isStreaming={isStreaming}
                 onRegenerate={handleRegenerate}
+                onVaryImage={handleVaryImage}
+                onUpscaleImage={handleUpscaleImage}
+                onSelectImage={handleSelectImage}
+                readAloud={readAloud.current}
+                onReadAloud={readAloud.available ? readAloud.toggle : undefined}
                 onEditAndRegenerate={handleEditAndRegenerate}
                 onCopy={handleCopyMessage}
                 onDelete={handleDeleteMessage}
+                branchInfo={branchInfo}
+                onSwitchBranch={handleSwitchBranch}
+                onPruneBranch={handlePruneBranch}
+                focusMessageId={focusMessageId}
+                onFocusHandled={clearFocusMessage}
+                contextSummary={contextStrategy === 'summarize' ? activeSession?.contextSummary : undefined}
+                comparisonGroups={comparisonGroups}
+                onPickWinner={handlePickWinner}
+                onStopReply={handleStopReply}
               />
             </div>
 
@@ -853,16 +2036,39 @@ export default function ChatPage({
                 model={selectedModel}
                 models={models}
                 onSelectModel={handleModelChange}
-                onSend={handleSend}
+                onSend={handleComposerSend}
                 onCancel={handleCancel}
                 isStreaming={isStreaming}
                 tokenInfo={{
                   totalInputTokens: tokenMeter.totalInputTokens,
                   maxInputTokens: tokenMeter.maxInputTokens,
                   isOverLimit: tokenMeter.isOverLimit,
+                  isMessageOverLimit: tokenMeter.isMessageOverLimit,
                   usageRatio: tokenMeter.usageRatio,
                 }}
                 onTextChange={tokenMeter.updateComposerText}
+                contextStrategy={contextStrategy}
+                onContextStrategyChange={activeSessionId ? handleContextStrategyChange : undefined}
+                presets={presets}
+                activePresetId={activePreset?.id ?? null}
+                onSelectPreset={activeSessionId ? handleSelectPreset : undefined}
+                onOpenChatSettings={() => setChatSettingsOpen(true)}
+                compareModels={compareModels}
+                onCompareModelsChange={setCompareModels}
+                imageOptions={imageOptions}
+                onImageOptionsChange={setImageOptions}
+                voice={settings.voice}
+                onVoiceChange={(voice) => handleUpdateSettings({ voice })}
+                musicOptions={musicOptions}
+                onMusicOptionsChange={setMusicOptions}
+                onTranscribe={transcriptionModel ? handleTranscribe : undefined}
+                onVoiceInputError={handleError}
+                sendVoiceOnRelease={settings.voiceSendOnRelease}
+                imageQuality={settings.imageUploadQuality}
+                promptTemplates={promptTemplates}
+                onOpenPromptLibrary={() => setPromptLibraryOpen(true)}
+                estimateCost={previewRequestCost}
+                onAttachmentError={notifyError}
               />
             </div>
           </>
@@ -874,6 +2080,10 @@ export default function ChatPage({
         <Settings
           settings={settings}
           onUpdateSettings={handleUpdateSettings}
+          budget={budget}
+          budgetSpend={budgetSpend}
+          onUpdateBudget={saveBudget}
+          voices={speechModel?.voices ?? []}
           sessions={sessions}
           onImport={importSessions}
           onClearAll={clearAll}
@@ -883,6 +2093,91 @@ export default function ChatPage({
           notifyError={notifyError}
         />
       )}
+
+      {/* Chat settings modal */}
+      {chatSettingsOpen && activeSession && (
+        <ChatSettings
+          settings={settings}
+          session={activeSession}
+          presets={presets}
+          onUpdateOverrides={handleUpdateOverrides}
+          onSelectPreset={handleSelectPreset}
+          onSavePreset={savePreset}
+          onDeletePreset={deletePreset}
+          onClose={() => setChatSettingsOpen(false)}
+        />
+      )}
+
+      {/* Search modal */}
+      {searchOpen && (
+        <SearchPanel
+          modelNames={searchModelNames}
+          activeSessionId={activeSessionId}
+          onJump={handleJumpToMessage}
+          onClose={() => setSearchOpen(false)}
+        />
+      )}
+
+      {knowledgeOpen && (
+        <KnowledgePanel
+          collections={knowledgeCollections}
+          chatCollectionIds={activeSession ? activeSession.knowledgeCollectionIds ?? [] : undefined}
+          onChatCollectionsChange={handleChatCollectionsChange}
+          onSaveCollection={saveCollection}
+          onDeleteCollection={deleteCollection}
+          onBuildEmbeddings={handleBuildEmbeddings}
+          embeddingStatus={embeddingStatus}
+          encoding={encoding}
+          notifyError={notifyError}
+          onClose={() => setKnowledgeOpen(false)}
+        />
+      )}
+
+      {promptLibraryOpen && (
+        <PromptLibrary
+          templates={promptTemplates}
+          onSaveTemplates={savePromptTemplates}
+          onDeleteTemplate={deletePromptTemplate}
+          notifySuccess={notifySuccess}
+          notifyError={notifyError}
+          onClose={() => setPromptLibraryOpen(false)}
+        />
+      )}
+
+      {budgetPrompt && (
+        <BudgetPrompt
+          limits={budgetPrompt.limits}
+          onConfirm={() => {
+            setBudgetPrompt(null);
+            budgetPrompt.onConfirm();
+          }}
+          onCancel={() => {
+            setBudgetPrompt(null);
+            budgetPrompt.onCancel?.();
+          }}
+        />
+      )}
+
+      {analyticsOpen && (
+        <UsageDashboard
+          apiKey={apiKey}
+          sessions={sessions}
+          resolveModel={resolveModelName}
+          onOpenSession={(sessionId) => {
+            switchSession(sessionId);
+            setAnalyticsOpen(false);
+          }}
+          onClose={() => setAnalyticsOpen(false)}
+        />
+      )}
+
+      {galleryOpen && activeSession && (
+        <Gallery
+          session={activeSession}
+          onJump={handleGalleryJump}
+          onClose={() => setGalleryOpen(false)}
+        />
+      )}
     </div>
   );
 }
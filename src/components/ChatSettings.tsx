@@ -0,0 +1,283 @@
+/**
+ * Chat settings — the current chat's preset and its own overrides of the
+ * global system prompt / temperature / creativity, plus preset management.
+ */
+
+import { useState, useEffect } from 'react';
+import type { AppSettings, ChatSession, GenerationOverrides, SettingsPreset } from '../types';
+import {
+  clearOverride,
+  createPreset,
+  findPreset,
+  resolveGenerationSettings,
+  settingSource,
+  type GenerationSettings,
+  type SettingSource,
+} from '../lib/presets';
+
+interface ChatSettingsProps {
+  settings: AppSettings;
+  session: ChatSession;
+  presets: SettingsPreset[];
+  onUpdateOverrides: (overrides: GenerationOverrides) => void;
+  onSelectPreset: (presetId: string | null) => void;
+  onSavePreset: (preset: SettingsPreset) => Promise<void>;
+  onDeletePreset: (presetId: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<SettingSource, string> = {
+  chat: 'This chat',
+  preset: 'Preset',
+  default: 'Default',
+};
+
+export default function ChatSettings({
+  settings,
+  session,
+  presets,
+  onUpdateOverrides,
+  onSelectPreset,
+  onSavePreset,
+  onDeletePreset,
+  onClose,
+}: ChatSettingsProps) {
+  const preset = findPreset(presets, session.presetId);
+  const overrides = session.overrides;
+  const effective = resolveGenerationSettings(settings, preset, overrides);
+  const inherited = resolveGenerationSettings(settings, preset);
+
+  const [systemPrompt, setSystemPrompt] = useState(effective.systemPrompt);
+  const [presetName, setPresetName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Follow resets and preset switches
+  useEffect(() => {
+    setSystemPrompt(effective.systemPrompt);
+  }, [effective.systemPrompt]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  /** Setting a value back to what would be inherited removes the override */
+  const setOverride = <K extends keyof GenerationSettings>(key: K, value: GenerationSettings[K]) => {
+    if (value === inherited[key]) onUpdateOverrides(clearOverride(overrides, key));
+    else onUpdateOverrides({ ...overrides, [key]: value });
+  };
+
+  const handleSaveAsPreset = async () => {
+    if (!presetName.trim()) return;
+    const created = createPreset(presetName, effective, session.model);
+    await onSavePreset(created);
+    onSelectPreset(created.id);
+    setPresetName('');
+  };
+
+  const handleUpdatePreset = async () => {
+    if (!preset) return;
+    await onSavePreset({ ...preset, ...effective, model: session.model, updatedAt: Date.now() });
+    onUpdateOverrides({});
+  };
+
+  const hasOverrides = Object.keys(overrides ?? {}).length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-2 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-lg max-h-[92vh] sm:max-h-[80vh] overflow-y-auto p-4 sm:p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold text-foreground">Chat settings</h2>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground mb-6 truncate">{session.title}</p>
+
+        {/* Preset */}
+        <div className="mb-6">
+          <label htmlFor="chat-preset" className="block text-sm font-medium text-foreground mb-2">
+            Preset
+          </label>
+          <select
+            id="chat-preset"
+            value={preset?.id ?? ''}
+            onChange={(e) => {
+              setConfirmDelete(false);
+              onSelectPreset(e.target.value || null);
+            }}
+            className="w-full bg-secondary border border-border rounded-md px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          >
+            <option value="">None — use the global settings</option>
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}{p.model ? ` (${p.model})` : ''}</option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground mt-1">
+            Switching presets clears this chat's own changes below.
+          </p>
+        </div>
+
+        {/* System prompt */}
+        <div className="mb-6">
+          <FieldHeader
+            label="System Prompt"
+            htmlFor="chat-system-prompt"
+            source={settingSource('systemPrompt', preset, overrides)}
+            onReset={() => onUpdateOverrides(clearOverride(overrides, 'systemPrompt'))}
+          />
+          <textarea
+            id="chat-system-prompt"
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            onBlur={() => {
+              if (systemPrompt !== effective.systemPrompt) setOverride('systemPrompt', systemPrompt);
+            }}
+            rows={4}
+            className="w-full bg-secondary border border-border rounded-md px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+
+        {/* Generation controls */}
+        <div className="space-y-4 mb-6">
+          <div>
+            <FieldHeader
+              label="Temperature"
+              htmlFor="chat-temperature"
+              value={effective.temperature.toFixed(2)}
+              source={settingSource('temperature', preset, overrides)}
+              onReset={() => onUpdateOverrides(clearOverride(overrides, 'temperature'))}
+            />
+            <input
+              id="chat-temperature"
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={effective.temperature}
+              onChange={(e) => setOverride('temperature', Number(e.target.value))}
+              className="w-full accent-primary"
+            />
+          </div>
+          <div>
+            <FieldHeader
+              label="Creativity"
+              htmlFor="chat-creativity"
+              value={effective.creativity.toFixed(2)}
+              source={settingSource('creativity', preset, overrides)}
+              onReset={() => onUpdateOverrides(clearOverride(overrides, 'creativity'))}
+            />
+            <input
+              id="chat-creativity"
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={effective.creativity}
+              onChange={(e) => setOverride('creativity', Number(e.target.value))}
+              className="w-full accent-primary"
+            />
+          </div>
+        </div>
+
+        {/* Preset management */}
+        <div>
+          <h3 className="text-sm font-medium text-foreground mb-3">Presets</h3>
+          {preset && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              <button
+                onClick={handleUpdatePreset}
+                disabled={!hasOverrides && preset.model === session.model}
+                className="px-3 py-2 bg-secondary border border-border rounded-md text-sm text-foreground hover:bg-accent disabled:opacity-50 transition-colors"
+              >
+                Update “{preset.name}”
+              </button>
+              {!confirmDelete ? (
+                <button
+                  onClick={() => setConfirmDelete(true)}
+                  className="px-3 py-2 border border-destructive text-destructive rounded-md text-sm hover:bg-destructive/10 transition-colors"
+                >
+                  Delete preset
+                </button>
+              ) : (
+                <button
+                  onClick={() => {
+                    onDeletePreset(preset.id);
+                    setConfirmDelete(false);
+                  }}
+                  className="px-3 py-2 bg-destructive text-destructive-foreground rounded-md text-sm hover:bg-destructive/90 transition-colors"
+                >
+                  Delete for all chats?
+                </button>
+              )}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveAsPreset();
+              }}
+              placeholder="New preset name"
+              className="flex-1 min-w-0 bg-secondary border border-border rounded-md px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <button
+              onClick={handleSaveAsPreset}
+              disabled={!presetName.trim()}
+              className="px-3 py-2 bg-primary text-primary-foreground rounded-md text-sm hover:bg-primary/90 disabled:opacity-50 transition-colors whitespace-nowrap"
+            >
+              Save as preset
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Saves this chat's model, system prompt, temperature and creativity.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── Label row with the value's origin and a reset link ── */
+
+function FieldHeader({
+  label,
+  htmlFor,
+  value,
+  source,
+  onReset,
+}: {
+  label: string;
+  htmlFor: string;
+  value?: string;
+  source: SettingSource;
+  onReset: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 mb-2">
+      <label htmlFor={htmlFor} className="text-sm font-medium text-foreground">
+        {label}
+      </label>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {source === 'chat' ? (
+          <button onClick={onReset} className="hover:text-foreground underline underline-offset-2" title="Use the inherited value">
+            Reset
+          </button>
+        ) : (
+          <span className="opacity-70">{SOURCE_LABELS[source]}</span>
+        )}
+        {source === 'chat' && <span className="text-primary">{SOURCE_LABELS.chat}</span>}
+        {value && <span className="font-mono">{value}</span>}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,61 @@
  * Composer — text input + mode dropdown + attachments + token meter + send.
  */
 
-import { useState, useEffect, useRef, useCallback, useMemo, type ChangeEvent, type KeyboardEvent } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo, useDeferredValue, type ChangeEvent, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react';
 import { v4 as uuid } from 'uuid';
-import type { GenerationMode, MessageAttachment, PollinationsModel } from '../types';
-import { getTokenMeterColor } from '../lib/tokenizer';
+import type {
+  ContextStrategy,
+  DocumentExtract,
+  GenerationMode,
+  ImageGenerationOptions,
+  MessageAttachment,
+  MusicGenerationOptions,
+  PollinationsModel,
+  PromptTemplate,
+  SettingsPreset,
+} from '../types';
+import { getEncodingForModel, getTokenMeterColor } from '../lib/tokenizer';
+import { CONTEXT_STRATEGY_LABELS, DEFAULT_CONTEXT_STRATEGY } from '../lib/context';
+import { MAX_COMPARE_MODELS, MIN_COMPARE_MODELS, toggleCompareModel } from '../lib/comparison';
+import {
+  IMAGE_SIZE_PRESETS,
+  clampImageDimension,
+  describeImageSize,
+  randomSeed,
+  referenceImageFromAttachments,
+} from '../lib/imageOptions';
+import { pickVoice } from '../lib/speech';
+import { MAX_IMAGE_VARIATIONS, variationCount } from '../lib/imageBatch';
+import {
+  MAX_MUSIC_SECONDS,
+  MIN_MUSIC_SECONDS,
+  MUSIC_STYLE_TAGS,
+  formatTrackTime,
+  isMusicModel,
+  normalizeStyleTag,
+  toggleStyleTag,
+} from '../lib/music';
+import { computePollenCost, formatPollen, type RequestCostEstimate } from '../lib/pollenMath';
+import { insertTranscript } from '../lib/transcription';
+import { fillTemplate, initialVariableValues, matchSlashCommand, searchTemplates, variableError } from '../lib/prompts';
+import {
+  acceptedFileTypes,
+  describeAttachments,
+  isTextAttachment,
+  modelAttachmentInputs,
+  unsupportedAttachments,
+} from '../lib/attachments';
+import { describeDocument, documentKind, ingestDocument } from '../lib/documents';
+import { blobToDataUrl } from '../lib/exportImport';
+import {
+  DEFAULT_IMAGE_QUALITY,
+  attachmentBudgetError,
+  imageLimitsForModel,
+  preprocessImage,
+  renameForType,
+  shouldProcessImage,
+} from '../lib/imageUpload';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
 
 interface ComposerProps {
   onSend: (text: string, mode: GenerationMode, attachments: MessageAttachment[]) => void;
@@ -23,12 +74,51 @@ interface ComposerProps {
     totalInputTokens: number;
     maxInputTokens: number;
     isOverLimit: boolean;
+    /** The new message alone doesn't fit — history compaction can't help */
+    isMessageOverLimit: boolean;
     usageRatio: number;
   };
   /** Called when composer text changes (for live token counting) */
   onTextChange?: (text: string) => void;
+  /** How the session compacts history that no longer fits */
+  contextStrategy?: ContextStrategy;
+  onContextStrategyChange?: (strategy: ContextStrategy) => void;
+  /** Saved presets and the one the chat uses */
+  presets?: SettingsPreset[];
+  activePresetId?: string | null;
+  onSelectPreset?: (presetId: string | null) => void;
+  onOpenChatSettings?: () => void;
+  /** Text models a prompt is sent to side by side (compare mode when 2+) */
+  compareModels?: string[];
+  onCompareModelsChange?: (models: string[]) => void;
+  /** Parameters for the next image (image mode only) */
+  imageOptions?: ImageGenerationOptions;
+  onImageOptionsChange?: (options: ImageGenerationOptions) => void;
+  /** Voice for audio replies (audio mode only) */
+  voice?: string;
+  onVoiceChange?: (voice: string) => void;
+  /** Parameters for the next track (music models only) */
+  musicOptions?: MusicGenerationOptions;
+  onMusicOptionsChange?: (options: MusicGenerationOptions) => void;
+  /** Transcribe a voice recording (null if it failed); no mic button without it */
+  onTranscribe?: (audio: Blob) => Promise<string | null>;
+  onVoiceInputError?: (err: unknown) => void;
+  /** Push-to-talk sends the transcript as soon as the button is released */
+  sendVoiceOnRelease?: boolean;
+  /** Re-encoding quality for image uploads (0.5–0.95) */
+  imageQuality?: number;
+  /** Saved prompts offered when the message starts with `/` */
+  promptTemplates?: PromptTemplate[];
+  onOpenPromptLibrary?: () => void;
+  /** Price range of sending this text and these attachments (null when unknown) */
+  estimateCost?: (text: string, attachments: MessageAttachment[]) => RequestCostEstimate | null;
+  /** An upload was rejected (over budget, unreadable, …) */
+  onAttachmentError?: (message: string) => void;
 }
 
+/** Templates listed in the `/` palette at once */
+const MAX_PALETTE_ITEMS = 8;
+
 const MODE_OPTIONS: { value: GenerationMode; label: string }[] = [
   { value: 'text', label: 'Text' },
   { value: 'image', label: 'Image' },
@@ -46,11 +136,41 @@ export default function Composer({
   onSelectModel,
   tokenInfo,
   onTextChange,
+  contextStrategy = DEFAULT_CONTEXT_STRATEGY,
+  onContextStrategyChange,
+  presets = [],
+  activePresetId,
+  onSelectPreset,
+  onOpenChatSettings,
+  compareModels = [],
+  onCompareModelsChange,
+  imageOptions,
+  onImageOptionsChange,
+  voice,
+  onVoiceChange,
+  musicOptions,
+  onMusicOptionsChange,
+  onTranscribe,
+  onVoiceInputError,
+  sendVoiceOnRelease = false,
+  imageQuality = DEFAULT_IMAGE_QUALITY,
+  promptTemplates,
+  onOpenPromptLibrary,
+  estimateCost,
+  onAttachmentError,
 }: ComposerProps) {
   const [text, setText] = useState('');
   const [mode, setMode] = useState<GenerationMode>('text');
   const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  // Documents still being read, or why reading failed (by attachment id)
+  const [documentStatus, setDocumentStatus] = useState<Record<string, 'reading' | { error: string }>>({});
+  // Uploads still being read or compressed
+  const [preparingFiles, setPreparingFiles] = useState(0);
   const [showModeMenu, setShowModeMenu] = useState(false);
+  // `/` prompt palette: highlighted row, closed with Escape, and the template whose variables are asked for
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [paletteDismissed, setPaletteDismissed] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
   const modeMenuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -58,6 +178,8 @@ export default function Composer({
   const handleTextChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     setText(e.target.value);
     onTextChange?.(e.target.value);
+    setPaletteIndex(0);
+    setPaletteDismissed(false);
 
     // Auto-resize textarea
     const el = e.target;
@@ -65,67 +187,166 @@ export default function Composer({
     el.style.height = Math.min(el.scrollHeight, 200) + 'px';
   };
 
-  const handleSend = () => {
-    const trimmed = text.trim();
+  const handleSend = (override?: string) => {
+    const trimmed = (override ?? text).trim();
     if (!trimmed && attachments.length === 0) return;
-    if (tokenInfo.isOverLimit) return;
+    if (tokenInfo.isMessageOverLimit || readingDocuments || preparingFiles > 0) return;
 
     onSend(trimmed, effectiveMode, attachments);
     setText('');
     setAttachments([]);
+    setDocumentStatus({});
     onTextChange?.('');
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
   };
 
+  /** Put a transcript at the cursor, or send it straight away */
+  const handleTranscript = (transcript: string, send: boolean) => {
+    const el = textareaRef.current;
+    const next = insertTranscript(text, transcript, el?.selectionStart ?? text.length, el?.selectionEnd ?? text.length);
+    if (send && !disabled && !isStreaming) {
+      handleSend(next.text);
+      return;
+    }
+    setText(next.text);
+    onTextChange?.(next.text);
+    requestAnimationFrame(() => {
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(next.cursor, next.cursor);
+      el.style.height = 'auto';
+      el.style.height = Math.min(el.scrollHeight, 200) + 'px';
+    });
+  };
+
+  const slashQuery = promptTemplates && !fillingTemplate ? matchSlashCommand(text) : null;
+  const paletteOpen = slashQuery !== null && !paletteDismissed;
+  const paletteMatches = useMemo(
+    () => (slashQuery === null ? [] : searchTemplates(promptTemplates ?? [], slashQuery).slice(0, MAX_PALETTE_ITEMS)),
+    [promptTemplates, slashQuery],
+  );
+
+  /** Replace the message with a filled-in prompt, cursor at the end */
+  const insertPrompt = (prompt: string) => {
+    setText(prompt);
+    onTextChange?.(prompt);
+    requestAnimationFrame(() => {
+      const el = textareaRef.current;
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(prompt.length, prompt.length);
+      el.style.height = 'auto';
+      el.style.height = Math.min(el.scrollHeight, 200) + 'px';
+    });
+  };
+
+  /** Insert a template straight away, or ask for its variables first */
+  const pickTemplate = (template: PromptTemplate) => {
+    if (template.variables.length === 0) {
+      insertPrompt(template.content);
+      return;
+    }
+    setText('');
+    onTextChange?.('');
+    setFillingTemplate(template);
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (paletteOpen) {
+      if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && paletteMatches.length > 0) {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPaletteIndex((i) => (i + step + paletteMatches.length) % paletteMatches.length);
+        return;
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey && paletteMatches.length > 0) {
+        e.preventDefault();
+        pickTemplate(paletteMatches[Math.min(paletteIndex, paletteMatches.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setPaletteDismissed(true);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       if (!disabled && !isStreaming) handleSend();
     }
   };
 
+  const encoding = useMemo(() => getEncodingForModel(model), [model]);
+
+  /** Extract a PDF / DOCX upload's text and attach it once ready */
+  const readDocument = useCallback(async (att: MessageAttachment, file: File) => {
+    const kind = documentKind(att);
+    if (!kind) return;
+    setDocumentStatus((prev) => ({ ...prev, [att.id]: 'reading' }));
+    try {
+      const document = await ingestDocument(new Uint8Array(await file.arrayBuffer()), kind, encoding);
+      setAttachments((prev) => prev.map((a) => (a.id === att.id ? { ...a, document } : a)));
+      setDocumentStatus(({ [att.id]: _done, ...rest }) => rest);
+    } catch (err) {
+      setDocumentStatus((prev) => (att.id in prev ? { ...prev, [att.id]: { error: (err as Error).message } } : prev));
+    }
+  }, [encoding]);
+
   const handleFileUpload = useCallback(
     async (e: ChangeEvent<HTMLInputElement>) => {
-      const files = e.target.files;
-      if (!files) return;
-
-      for (const file of Array.from(files)) {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const dataUrl = reader.result as string;
-          const type = file.type.startsWith('image/')
-            ? 'image'
-            : file.type.startsWith('video/')
-              ? 'video'
-              : file.type.startsWith('audio/')
-                ? 'audio'
-                : 'file';
+      const files = Array.from(e.target.files ?? []);
+      // Reset file input
+      e.target.value = '';
+      if (files.length === 0) return;
+
+      setPreparingFiles((n) => n + files.length);
+      let messageBytes = attachments.reduce((sum, a) => sum + (a.sizeBytes ?? 0), 0);
+      for (const file of files) {
+        try {
+          // Text-like files (code, CSV, …) first: `.ts` is reported as a video type
+          const type = isTextAttachment({ name: file.name, mimeType: file.type })
+            ? 'file'
+            : file.type.startsWith('image/')
+              ? 'image'
+              : file.type.startsWith('video/')
+                ? 'video'
+                : file.type.startsWith('audio/')
+                  ? 'audio'
+                  : 'file';
+
+          // Photos are downscaled and re-encoded, which also strips their metadata
+          const upload: Blob = type === 'image' && shouldProcessImage(file.type)
+            ? await preprocessImage(file, { limits: imageLimitsForModel(model), quality: imageQuality })
+            : file;
+          const budgetError = attachmentBudgetError(file.name, upload.size, messageBytes);
+          if (budgetError) throw new Error(budgetError);
+          messageBytes += upload.size;
 
           const att: MessageAttachment = {
             id: uuid(),
             type: type as MessageAttachment['type'],
-            name: file.name,
-            mimeType: file.type,
-            dataUrl,
-            sizeBytes: file.size,
+            name: upload === file ? file.name : renameForType(file.name, upload.type),
+            mimeType: upload.type || file.type,
+            dataUrl: await blobToDataUrl(upload),
+            sizeBytes: upload.size,
           };
           setAttachments((prev) => [...prev, att]);
-        };
-        reader.onerror = () => {
-          // Silently skip files that fail to read
-        };
-        reader.readAsDataURL(file);
+          if (type === 'file') readDocument(att, file);
+        } catch (err) {
+          onAttachmentError?.((err as Error).message);
+        } finally {
+          setPreparingFiles((n) => n - 1);
+        }
       }
-      // Reset file input
-      e.target.value = '';
     },
-    [],
+    [attachments, model, imageQuality, readDocument, onAttachmentError],
   );
 
   const removeAttachment = (id: string) => {
     setAttachments((prev) => prev.filter((a) => a.id !== id));
+    setDocumentStatus(({ [id]: _removed, ...rest }) => rest);
   };
 
   // Get supported modes for current model
@@ -162,6 +383,7 @@ export default function Composer({
     }
   }, [model]);
 
+  const attachmentInputs = useMemo(() => modelAttachmentInputs(model), [model]);
   const acceptTypes =
     effectiveMode === 'image'
       ? 'image/*'
@@ -169,16 +391,38 @@ export default function Composer({
         ? 'video/*'
         : effectiveMode === 'audio'
           ? 'audio/*'
-          : 'image/*,video/*,*/*';
+          : acceptedFileTypes(attachmentInputs);
 
-  // Determine if attachment button should be enabled
-  // Only enable for models that support vision (image input)
+  // Text models can always take text files (inlined into the prompt);
+  // other models only take images
   const attachmentEnabled = model ? (
+    effectiveMode === 'text' ||
     model.capabilities.vision ||
     model.inputModalities.includes('image') ||
     model.type === 'image'
   ) : false;
 
+  // Attachments this model would have to leave out of a text request;
+  // documents count once reading them has finished or failed
+  const droppedAttachments = effectiveMode === 'text'
+    ? unsupportedAttachments(attachments.filter((a) => documentStatus[a.id] !== 'reading'), attachmentInputs)
+    : [];
+  const readingDocuments = Object.values(documentStatus).includes('reading');
+
+  const comparing = effectiveMode === 'text' && compareModels.length >= MIN_COMPARE_MODELS;
+
+  // Re-priced as typing settles; compare mode sends to several models, so no single price
+  const deferredText = useDeferredValue(text);
+  const costEstimate = useMemo(
+    () => effectiveMode === 'text' && !comparing && estimateCost && (deferredText.trim() || attachments.length > 0)
+      ? estimateCost(deferredText, attachments)
+      : null,
+    [effectiveMode, comparing, estimateCost, deferredText, attachments],
+  );
+  const costRange = costEstimate
+    ? `${formatPollen(costEstimate.min)}–${formatPollen(costEstimate.max)} pollen`
+    : '';
+
   const meterColor = getTokenMeterColor(
     tokenInfo.totalInputTokens,
     tokenInfo.maxInputTokens,
@@ -198,6 +442,7 @@ export default function Composer({
                 <img src={att.dataUrl} alt="" className="w-8 h-8 rounded object-cover" />
               )}
               <span className="max-w-[100px] truncate">{att.name}</span>
+              <DocumentStatus status={documentStatus[att.id]} document={att.document} />
               <button
                 onClick={() => removeAttachment(att.id)}
                 className="text-muted-foreground hover:text-destructive ml-1"
@@ -209,11 +454,116 @@ export default function Composer({
         </div>
       )}
 
+      {/* Prompt palette */}
+      {paletteOpen && (
+        <PromptPalette
+          matches={paletteMatches}
+          activeIndex={Math.min(paletteIndex, paletteMatches.length - 1)}
+          hasTemplates={!!promptTemplates?.length}
+          onHover={setPaletteIndex}
+          onPick={pickTemplate}
+          onOpenLibrary={onOpenPromptLibrary}
+        />
+      )}
+
+      {/* Variables of the prompt being inserted */}
+      {fillingTemplate && (
+        <PromptVariablesForm
+          template={fillingTemplate}
+          onSubmit={(values) => {
+            setFillingTemplate(null);
+            insertPrompt(fillTemplate(fillingTemplate.content, values));
+          }}
+          onCancel={() => {
+            setFillingTemplate(null);
+            textareaRef.current?.focus();
+          }}
+        />
+      )}
+
+      {/* Image options */}
+      {effectiveMode === 'image' && imageOptions && onImageOptionsChange && (
+        <ImageOptionsPanel
+          options={imageOptions}
+          onChange={onImageOptionsChange}
+          supportsReference={!!model?.inputModalities.includes('image')}
+          attachedReference={referenceImageFromAttachments(attachments)}
+        />
+      )}
+
+      {/* Attachments the model can't take */}
+      {droppedAttachments.length > 0 && (
+        <p className="text-xs text-orange-500 mb-2">
+          {model?.name ?? 'This model'} can't read {describeAttachments(droppedAttachments)} — {droppedAttachments.length === 1 ? 'it' : 'they'} won't be sent.
+          {' '}Remove {droppedAttachments.length === 1 ? 'it' : 'them'} or pick a model that accepts {droppedAttachments.length === 1 ? 'this type' : 'these types'}.
+        </p>
+      )}
+
+      {/* Music options */}
+      {effectiveMode === 'audio' && isMusicModel(model) && model && musicOptions && onMusicOptionsChange && (
+        <MusicOptionsPanel
+          options={musicOptions}
+          onChange={onMusicOptionsChange}
+          estimatedPollen={computePollenCost(model.pricing, 0, 0, 0, musicOptions.duration)}
+        />
+      )}
+
+      {/* Compare mode */}
+      {onCompareModelsChange && compareModels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 mb-2 text-xs">
+          <span className={comparing ? 'text-foreground' : 'text-muted-foreground'}>
+            {comparing
+              ? `Comparing ${compareModels.length} models:`
+              : `Pick at least ${MIN_COMPARE_MODELS} models to compare:`}
+          </span>
+          {compareModels.map((name) => (
+            <span
+              key={name}
+              className="flex items-center gap-1 bg-muted border border-border rounded-full pl-2 pr-1 py-0.5 text-muted-foreground"
+            >
+              <span className="max-w-[120px] truncate">{name}</span>
+              <button
+                onClick={() => onCompareModelsChange(compareModels.filter((m) => m !== name))}
+                className="hover:text-destructive"
+                title={`Remove ${name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button
+            onClick={() => onCompareModelsChange([])}
+            className="text-muted-foreground hover:text-foreground underline underline-offset-2"
+          >
+            Stop comparing
+          </button>
+        </div>
+      )}
+
       {/* Token meter */}
-      {tokenInfo.isOverLimit && (
+      {tokenInfo.isMessageOverLimit ? (
         <p className="text-xs text-destructive mb-2">
-          Over token limit — oldest messages will be truncated when you send.
+          This message is longer than the model's context window.
         </p>
+      ) : tokenInfo.isOverLimit && (
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-orange-500 mb-2">
+          <span>
+            Over the context window — the oldest messages will be
+            {contextStrategy === 'summarize' ? ' summarized' : ' left out'} when you send.
+          </span>
+          {onContextStrategyChange && (
+            <select
+              value={contextStrategy}
+              onChange={(e) => onContextStrategyChange(e.target.value as ContextStrategy)}
+              className="bg-secondary border border-border rounded px-1.5 py-0.5 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              aria-label="Context strategy"
+            >
+              {(Object.keys(CONTEXT_STRATEGY_LABELS) as ContextStrategy[]).map((s) => (
+                <option key={s} value={s}>{CONTEXT_STRATEGY_LABELS[s].label}</option>
+              ))}
+            </select>
+          )}
+        </div>
       )}
 
       {/* Floating input pill */}
@@ -254,12 +604,53 @@ export default function Composer({
             className="flex-1 min-w-0 resize-none bg-transparent px-1.5 sm:px-2 py-2 text-sm text-foreground placeholder-muted-foreground focus:outline-none max-h-[120px]"
           />
 
-          {/* Inline model picker — floating right */}
-          <InlineModelPicker
-            models={models}
-            selected={model}
-            onSelect={onSelectModel}
-          />
+          {/* Voice input */}
+          {onTranscribe && (
+            <VoiceInputButton
+              onTranscribe={onTranscribe}
+              onTranscript={handleTranscript}
+              onError={onVoiceInputError}
+              sendOnRelease={sendVoiceOnRelease}
+              disabled={disabled}
+            />
+          )}
+
+          {/* Preset picker */}
+          {onSelectPreset && (
+            <PresetPicker
+              presets={presets}
+              activePresetId={activePresetId ?? null}
+              onSelect={onSelectPreset}
+              onOpenChatSettings={onOpenChatSettings}
+            />
+          )}
+
+          {/* Compare picker */}
+          {onCompareModelsChange && effectiveMode === 'text' && (
+            <ComparePicker
+              models={models}
+              selected={compareModels}
+              onChange={onCompareModelsChange}
+            />
+          )}
+
+          {/* Voice picker */}
+          {effectiveMode === 'audio' && model?.voices?.length && voice !== undefined && onVoiceChange && (
+            <VoicePicker
+              voices={model.voices}
+              selected={pickVoice(model.voices, voice)}
+              onSelect={onVoiceChange}
+            />
+          )}
+
+          {/* Inline model picker — hidden while the compare selection decides */}
+          {!comparing && (
+            <InlineModelPicker
+              models={models}
+              selected={model}
+              onSelect={onSelectModel}
+            />
+          )}
 
           {/* Mode selector */}
           <div className="relative flex-shrink-0" ref={modeMenuRef}>
@@ -302,10 +693,10 @@ export default function Composer({
             </button>
           ) : (
             <button
-              onClick={handleSend}
-              disabled={disabled || (!text.trim() && attachments.length === 0)}
+              onClick={() => handleSend()}
+              disabled={disabled || readingDocuments || preparingFiles > 0 || (!text.trim() && attachments.length === 0)}
               className="flex-shrink-0 w-8 h-8 sm:w-9 sm:h-9 flex items-center justify-center rounded-full bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-              title="Send message"
+              title={readingDocuments ? 'Reading documents…' : preparingFiles > 0 ? 'Preparing attachments…' : 'Send message'}
             >
               <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none">
                 <path d="M7 11L12 6L17 11M12 6V18" stroke="currentColor" strokeWidth={2.5} strokeLinecap="round" strokeLinejoin="round" />
@@ -314,9 +705,22 @@ export default function Composer({
           )}
         </div>
 
+        {/* Estimated cost of the next request */}
+        {costEstimate && (
+          <span
+            className="flex-shrink-0 self-center text-[10px] font-mono text-muted-foreground whitespace-nowrap"
+            title={`Estimated ${costRange}: history, attachments and a ~${costEstimate.expectedOutputTokens.toLocaleString()}-token reply`}
+          >
+            ≈ {formatPollen(costEstimate.expected)}
+          </span>
+        )}
+
         {/* Token meter circle — right side (desktop only, shown in header on mobile) */}
         {tokenInfo.usageRatio > 0 && (
-          <div className="group relative flex-shrink-0 self-center hidden sm:block">
+          <ContextMeter
+            strategy={contextStrategy}
+            onStrategyChange={onContextStrategyChange}
+          >
             <svg className="w-9 h-9 -rotate-90" viewBox="0 0 36 36">
               <circle
                 cx="18" cy="18" r="15"
@@ -342,14 +746,876 @@ export default function Composer({
               <p className={`text-xs font-mono ${tokenInfo.isOverLimit ? 'text-destructive' : 'text-foreground'}`}>
                 {tokenInfo.totalInputTokens.toLocaleString()} / {tokenInfo.maxInputTokens.toLocaleString()} tokens
               </p>
+              {costEstimate && (
+                <p className="text-[11px] text-muted-foreground mt-0.5">
+                  Cost: ≈ {formatPollen(costEstimate.expected)} ({costRange})
+                  {costEstimate.cachedTokens > 0 && ` · ${costEstimate.cachedTokens.toLocaleString()} may be cached`}
+                </p>
+              )}
+              <p className="text-[11px] text-muted-foreground mt-0.5">
+                Context: {CONTEXT_STRATEGY_LABELS[contextStrategy].label}
+              </p>
             </div>
-          </div>
+          </ContextMeter>
         )}
       </div>
     </div>
   );
 }
 
+/* ── Document reading status (attachment chip) ───────── */
+
+function DocumentStatus({ status, document }: {
+  status: 'reading' | { error: string } | undefined;
+  document: DocumentExtract | undefined;
+}) {
+  if (status === 'reading') {
+    return <span className="text-muted-foreground/70 animate-pulse">· reading…</span>;
+  }
+  if (status) {
+    return <span className="text-destructive" title={status.error}>· couldn't read</span>;
+  }
+  if (!document) return null;
+  return <span className="text-muted-foreground/70 whitespace-nowrap">· {describeDocument(document)}</span>;
+}
+
+/* ── Token meter with context strategy menu ─────────────── */
+
+function ContextMeter({
+  strategy,
+  onStrategyChange,
+  children,
+}: {
+  strategy: ContextStrategy;
+  onStrategyChange?: (strategy: ContextStrategy) => void;
+  children: ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent | TouchEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    document.addEventListener('touchstart', handler);
+    return () => {
+      document.removeEventListener('mousedown', handler);
+      document.removeEventListener('touchstart', handler);
+    };
+  }, [open]);
+
+  return (
+    <div ref={ref} className="group relative flex-shrink-0 self-center hidden sm:block">
+      <button
+        onClick={() => onStrategyChange && setOpen(!open)}
+        className="block"
+        title={onStrategyChange ? 'Context strategy' : undefined}
+      >
+        {children}
+      </button>
+      {open && onStrategyChange && (
+        <div className="absolute bottom-full mb-2 right-0 w-64 bg-popover border border-border rounded-lg shadow-lg py-1 z-30">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">When the context is full</p>
+          {(Object.keys(CONTEXT_STRATEGY_LABELS) as ContextStrategy[]).map((s) => (
+            <button
+              key={s}
+              onClick={() => {
+                onStrategyChange(s);
+                setOpen(false);
+              }}
+              className={`w-full text-left px-3 py-1.5 hover:bg-accent transition-colors ${s === strategy ? 'text-foreground' : 'text-muted-foreground'}`}
+            >
+              <span className="text-sm">{s === strategy ? '✓ ' : ''}{CONTEXT_STRATEGY_LABELS[s].label}</span>
+              <span className="block text-[11px] opacity-70">{CONTEXT_STRATEGY_LABELS[s].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Prompt palette (typing `/`) ───────────────────────── */
+
+function PromptPalette({
+  matches,
+  activeIndex,
+  hasTemplates,
+  onHover,
+  onPick,
+  onOpenLibrary,
+}: {
+  matches: PromptTemplate[];
+  activeIndex: number;
+  hasTemplates: boolean;
+  onHover: (index: number) => void;
+  onPick: (template: PromptTemplate) => void;
+  onOpenLibrary?: () => void;
+}) {
+  return (
+    <div className="mb-2 rounded-lg border border-border bg-popover shadow-lg py-1 text-xs" role="listbox" aria-label="Saved prompts">
+      <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">Prompts</p>
+      {matches.length === 0 && (
+        <p className="px-3 py-1.5 text-muted-foreground">
+          {hasTemplates ? 'No prompts match.' : 'No saved prompts yet.'}
+        </p>
+      )}
+      {matches.map((t, i) => (
+        <button
+          key={t.id}
+          role="option"
+          aria-selected={i === activeIndex}
+          // Keep focus in the message box
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => onHover(i)}
+          onClick={() => onPick(t)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left transition-colors ${i === activeIndex ? 'bg-accent text-foreground' : 'text-muted-foreground'}`}
+        >
+          <span className="w-3 flex-shrink-0 text-amber-500">{t.favorite ? '★' : ''}</span>
+          <span className="flex-1 truncate">{t.name}</span>
+          {t.variables.length > 0 && <span className="text-[10px] opacity-60 font-mono">{t.variables.length} var.</span>}
+          {t.category && <span className="text-[10px] opacity-60 truncate max-w-[100px]">{t.category}</span>}
+        </button>
+      ))}
+      {onOpenLibrary && (
+        <>
+          <div className="my-1 border-t border-border" />
+          <button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onOpenLibrary}
+            className="w-full text-left px-3 py-1.5 text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+          >
+            Prompt library…
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ── Prompt variables form ─────────────────────────────── */
+
+function PromptVariablesForm({
+  template,
+  onSubmit,
+  onCancel,
+}: {
+  template: PromptTemplate;
+  onSubmit: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState(() => initialVariableValues(template));
+  const [showErrors, setShowErrors] = useState(false);
+  const errors = template.variables
+    .map((v) => variableError(v, values[v.name] ?? ''))
+    .filter((err): err is string => err !== null);
+
+  const submit = () => {
+    if (errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    onSubmit(values);
+  };
+
+  const handleKey = (e: KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter' && (e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  const fieldClass =
+    'w-full bg-secondary border border-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="mb-2 rounded-lg border border-border bg-card/60 text-xs px-3 py-2 space-y-2" onKeyDown={handleKey}>
+      <p className="text-muted-foreground">
+        <span className="text-foreground">{template.name}</span> — fill in the blanks
+      </p>
+      {template.variables.map((v, i) => {
+        const value = values[v.name] ?? '';
+        const set = (next: string) => setValues((prev) => ({ ...prev, [v.name]: next }));
+        const label = v.label || v.name;
+        return (
+          <label key={v.name} className="block">
+            <span className="block text-muted-foreground mb-0.5">{label}</span>
+            {v.type === 'multiline' ? (
+              <textarea value={value} onChange={(e) => set(e.target.value)} rows={3} className={`${fieldClass} resize-y`} autoFocus={i === 0} />
+            ) : v.type === 'select' && v.options?.length ? (
+              <select value={value} onChange={(e) => set(e.target.value)} className={fieldClass} autoFocus={i === 0}>
+                {v.options.map((o) => <option key={o} value={o}>{o}</option>)}
+              </select>
+            ) : (
+              <input
+                type={v.type === 'number' ? 'number' : 'text'}
+                value={value}
+                onChange={(e) => set(e.target.value)}
+                className={fieldClass}
+                autoFocus={i === 0}
+              />
+            )}
+          </label>
+        );
+      })}
+      {showErrors && errors.length > 0 && <p className="text-destructive">{errors[0]}</p>}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={submit}
+          className="px-3 py-1 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+        >
+          Insert
+        </button>
+        <button onClick={onCancel} className="px-3 py-1 text-muted-foreground hover:text-foreground transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ── Voice input (inside pill) ─────────────────────────── */
+
+/** Holding the mic at least this long is push-to-talk; a shorter tap toggles recording */
+const HOLD_TO_TALK_MS = 350;
+
+function VoiceInputButton({
+  onTranscribe,
+  onTranscript,
+  onError,
+  sendOnRelease,
+  disabled,
+}: {
+  onTranscribe: (audio: Blob) => Promise<string | null>;
+  onTranscript: (transcript: string, send: boolean) => void;
+  onError?: (err: unknown) => void;
+  sendOnRelease: boolean;
+  disabled?: boolean;
+}) {
+  const { recording, startedAt, start, stop, cancel } = useAudioRecorder();
+  const [transcribing, setTranscribing] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const pressedAt = useRef<number | null>(null);
+  // The transcript arrives after the text may have changed — always use the latest handler
+  const onTranscriptRef = useRef(onTranscript);
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  });
+
+  useEffect(() => {
+    if (!startedAt) return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(Date.now() - startedAt), 250);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  const finish = async (send: boolean) => {
+    const audio = await stop();
+    if (!audio) return;
+    setTranscribing(true);
+    try {
+      const transcript = await onTranscribe(audio);
+      if (transcript) onTranscriptRef.current(transcript, send);
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  const handlePointerDown = async (e: PointerEvent<HTMLButtonElement>) => {
+    if (disabled || transcribing || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (recording) {
+      // Second tap of tap-to-toggle
+      pressedAt.current = null;
+      finish(false);
+      return;
+    }
+    pressedAt.current = Date.now();
+    try {
+      await start();
+    } catch (err) {
+      pressedAt.current = null;
+      onError?.(err);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const pressed = pressedAt.current;
+    pressedAt.current = null;
+    // Released before the microphone opened, or a quick tap: keep recording until the next tap
+    if (pressed === null || !recording || Date.now() - pressed < HOLD_TO_TALK_MS) return;
+    finish(sendOnRelease);
+  };
+
+  const title = transcribing
+    ? 'Transcribing…'
+    : recording
+      ? 'Tap to stop and transcribe'
+      : `Voice input — tap to start, or hold to talk${sendOnRelease ? ' and send on release' : ''}`;
+
+  return (
+    <div className="flex items-center flex-shrink-0">
+      {recording && (
+        <>
+          <span className="flex items-center gap-1 px-1.5 text-xs tabular-nums text-destructive">
+            <span className="w-1.5 h-1.5 rounded-full bg-destructive animate-pulse" />
+            {formatTrackTime(elapsed / 1000)}
+          </span>
+          <button
+            onClick={cancel}
+            className="w-6 h-6 flex items-center justify-center rounded-full text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+            title="Discard recording"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </>
+      )}
+      <button
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={disabled || transcribing}
+        className={`w-8 h-8 sm:w-9 sm:h-9 flex items-center justify-center rounded-full transition-colors touch-none select-none disabled:opacity-40 ${recording
+          ? 'bg-destructive/20 text-destructive'
+          : 'hover:bg-accent text-muted-foreground hover:text-foreground'
+          }`}
+        title={title}
+        aria-pressed={recording}
+      >
+        {transcribing ? (
+          <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth={3} />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v3a5 5 0 00-5 5H4z" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+          </svg>
+        )}
+      </button>
+    </div>
+  );
+}
+
+/* ── Preset picker (inside pill) ──────────────────────── */
+
+function PresetPicker({
+  presets,
+  activePresetId,
+  onSelect,
+  onOpenChatSettings,
+}: {
+  presets: SettingsPreset[];
+  activePresetId: string | null;
+  onSelect: (presetId: string | null) => void;
+  onOpenChatSettings?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const active = presets.find((p) => p.id === activePresetId);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent | TouchEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    document.addEventListener('touchstart', handler);
+    return () => {
+      document.removeEventListener('mousedown', handler);
+      document.removeEventListener('touchstart', handler);
+    };
+  }, [open]);
+
+  return (
+    <div className="relative flex-shrink-0" ref={ref}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-2 h-8 sm:h-9 rounded-full hover:bg-accent transition-colors text-xs whitespace-nowrap max-w-[120px] ${active ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+        title={active ? `Preset: ${active.name}` : 'Preset'}
+      >
+        <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+        </svg>
+        {active && <span className="hidden sm:inline truncate">{active.name}</span>}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 bg-popover border border-border rounded-lg shadow-xl z-50 w-56 py-1">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">Preset</p>
+          {[null, ...presets].map((p) => (
+            <button
+              key={p?.id ?? 'none'}
+              onClick={() => {
+                onSelect(p?.id ?? null);
+                setOpen(false);
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent transition-colors ${(p?.id ?? null) === (active?.id ?? null) ? 'text-foreground' : 'text-muted-foreground'}`}
+            >
+              <span className="w-3 flex-shrink-0">{(p?.id ?? null) === (active?.id ?? null) ? '✓' : ''}</span>
+              <span className="flex-1 truncate">{p ? p.name : 'Global settings'}</span>
+              {p?.model && <span className="text-[10px] opacity-60 truncate max-w-[70px]">{p.model}</span>}
+            </button>
+          ))}
+          {onOpenChatSettings && (
+            <>
+              <div className="my-1 border-t border-border" />
+              <button
+                onClick={() => {
+                  onOpenChatSettings();
+                  setOpen(false);
+                }}
+                className="w-full text-left px-3 py-1.5 text-xs text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+              >
+                Chat settings…
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Voice picker (inside pill) ───────────────────────── */
+
+function VoicePicker({
+  voices,
+  selected,
+  onSelect,
+}: {
+  voices: string[];
+  selected: string;
+  onSelect: (voice: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent | TouchEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    document.addEventListener('touchstart', handler);
+    return () => {
+      document.removeEventListener('mousedown', handler);
+      document.removeEventListener('touchstart', handler);
+    };
+  }, [open]);
+
+  return (
+    <div className="relative flex-shrink-0" ref={ref}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-2 h-8 sm:h-9 rounded-full hover:bg-accent transition-colors text-xs text-muted-foreground hover:text-foreground whitespace-nowrap"
+        title={`Voice: ${selected}`}
+      >
+        <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M11 5L6 9H3v6h3l5 4V5z" />
+        </svg>
+        <span className="hidden sm:inline capitalize">{selected}</span>
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 bg-popover border border-border rounded-lg shadow-xl z-50 w-40 max-h-64 overflow-y-auto py-1">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">Voice</p>
+          {voices.map((v) => (
+            <button
+              key={v}
+              onClick={() => {
+                onSelect(v);
+                setOpen(false);
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent transition-colors ${v === selected ? 'text-foreground' : 'text-muted-foreground'}`}
+            >
+              <span className="w-3 flex-shrink-0">{v === selected ? '✓' : ''}</span>
+              <span className="flex-1 truncate capitalize">{v}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Image options (collapsible, above the pill) ──────── */
+
+function ImageOptionsPanel({
+  options,
+  onChange,
+  supportsReference,
+  attachedReference,
+}: {
+  options: ImageGenerationOptions;
+  onChange: (options: ImageGenerationOptions) => void;
+  supportsReference: boolean;
+  attachedReference?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const set = (patch: Partial<ImageGenerationOptions>) => onChange({ ...options, ...patch });
+  const inputCls = 'bg-secondary border border-border rounded px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="mb-2 rounded-lg border border-border bg-card/60 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-1.5 px-3 py-1.5 text-left text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+        </svg>
+        <span>Image options</span>
+        <span className="ml-auto truncate opacity-70">
+          {describeImageSize(options.width, options.height)}
+          {' · '}
+          {options.seed !== undefined ? `seed ${options.seed}` : 'random seed'}
+          {options.enhance && ' · enhance'}
+          {variationCount(options) > 1 && ` · ×${variationCount(options)}`}
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 pt-1 space-y-3 border-t border-border/60">
+          {/* Size */}
+          <div>
+            <p className="text-muted-foreground mb-1">Size</p>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {IMAGE_SIZE_PRESETS.map((p) => {
+                const active = p.width === options.width && p.height === options.height;
+                return (
+                  <button
+                    key={p.label}
+                    onClick={() => set({ width: p.width, height: p.height })}
+                    className={`px-2 py-1 rounded border transition-colors ${active ? 'border-primary text-foreground bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground hover:bg-accent'}`}
+                    title={`${p.width}×${p.height}`}
+                  >
+                    {p.label}
+                  </button>
+                );
+              })}
+              <input
+                type="number"
+                min={64}
+                max={2048}
+                step={8}
+                value={options.width}
+                onChange={(e) => set({ width: Number(e.target.value) })}
+                onBlur={() => set({ width: clampImageDimension(options.width) })}
+                className={`${inputCls} w-20`}
+                aria-label="Width"
+              />
+              <span className="text-muted-foreground">×</span>
+              <input
+                type="number"
+                min={64}
+                max={2048}
+                step={8}
+                value={options.height}
+                onChange={(e) => set({ height: Number(e.target.value) })}
+                onBlur={() => set({ height: clampImageDimension(options.height) })}
+                className={`${inputCls} w-20`}
+                aria-label="Height"
+              />
+            </div>
+          </div>
+
+          {/* Variations */}
+          <div>
+            <p className="text-muted-foreground mb-1">Variations</p>
+            <div className="flex items-center gap-1.5">
+              {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map((n) => (
+                <button
+                  key={n}
+                  onClick={() => set({ variations: n })}
+                  className={`w-8 py-1 rounded border transition-colors ${variationCount(options) === n ? 'border-primary text-foreground bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground hover:bg-accent'}`}
+                >
+                  {n}
+                </button>
+              ))}
+              <span className="text-[11px] text-muted-foreground/70">each with its own seed</span>
+            </div>
+          </div>
+
+          {/* Seed */}
+          <div>
+            <p className="text-muted-foreground mb-1">Seed</p>
+            <div className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min={0}
+                value={options.seed ?? ''}
+                onChange={(e) => set({ seed: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))) })}
+                placeholder="Random for each image"
+                className={`${inputCls} flex-1 min-w-0`}
+                aria-label="Seed"
+              />
+              <button
+                onClick={() => set({ seed: randomSeed() })}
+                className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                title="Pick a random seed and keep it"
+              >
+                Lock random
+              </button>
+              {options.seed !== undefined && (
+                <button
+                  onClick={() => set({ seed: undefined })}
+                  className="px-2 py-1 rounded text-muted-foreground hover:text-foreground underline underline-offset-2"
+                >
+                  Unlock
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Negative prompt */}
+          <div>
+            <p className="text-muted-foreground mb-1">Negative prompt</p>
+            <input
+              value={options.negativePrompt ?? ''}
+              onChange={(e) => set({ negativePrompt: e.target.value || undefined })}
+              placeholder="What to keep out of the image"
+              className={`${inputCls} w-full`}
+            />
+          </div>
+
+          {/* Reference image */}
+          {supportsReference && (
+            <div>
+              <p className="text-muted-foreground mb-1">Reference image</p>
+              <input
+                value={options.image ?? ''}
+                onChange={(e) => set({ image: e.target.value || undefined })}
+                placeholder={attachedReference ?? 'https://… (public image URL)'}
+                className={`${inputCls} w-full`}
+              />
+              {!options.image && !attachedReference && (
+                <p className="mt-1 text-[11px] text-muted-foreground/70">
+                  Uploaded files can't be sent as a reference — paste a link to an image instead.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Flags */}
+          <div className="flex flex-wrap gap-x-4 gap-y-1.5 text-muted-foreground">
+            {([
+              ['enhance', 'Enhance prompt'],
+              ['nologo', 'No logo'],
+              ['safe', 'Safe mode'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-1.5 cursor-pointer hover:text-foreground">
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) => set({ [key]: e.target.checked })}
+                  className="accent-primary"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Music options (collapsible, above the pill) ──────── */
+
+function MusicOptionsPanel({
+  options,
+  onChange,
+  estimatedPollen,
+}: {
+  options: MusicGenerationOptions;
+  onChange: (options: MusicGenerationOptions) => void;
+  estimatedPollen: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [tagDraft, setTagDraft] = useState('');
+  const set = (patch: Partial<MusicGenerationOptions>) => onChange({ ...options, ...patch });
+  const tags = [...MUSIC_STYLE_TAGS, ...options.tags.filter((t) => !MUSIC_STYLE_TAGS.includes(t))];
+
+  const addDraftTag = () => {
+    if (!options.tags.includes(normalizeStyleTag(tagDraft))) set({ tags: toggleStyleTag(options.tags, tagDraft) });
+    setTagDraft('');
+  };
+
+  return (
+    <div className="mb-2 rounded-lg border border-border bg-card/60 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-1.5 px-3 py-1.5 text-left text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+        </svg>
+        <span>Music options</span>
+        <span className="ml-auto truncate opacity-70">
+          {formatTrackTime(options.duration)}
+          {options.instrumental && ' · instrumental'}
+          {options.tags.length > 0 && ` · ${options.tags.join(', ')}`}
+          {` · ≈ ${formatPollen(estimatedPollen)} pollen`}
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 pt-1 space-y-3 border-t border-border/60">
+          {/* Duration */}
+          <div>
+            <p className="text-muted-foreground mb-1">
+              Duration <span className="text-foreground">{formatTrackTime(options.duration)}</span>
+            </p>
+            <input
+              type="range"
+              min={MIN_MUSIC_SECONDS}
+              max={MAX_MUSIC_SECONDS}
+              step={5}
+              value={options.duration}
+              onChange={(e) => set({ duration: Number(e.target.value) })}
+              className="w-full accent-primary"
+              aria-label="Duration in seconds"
+            />
+            <div className="flex justify-between text-[11px] text-muted-foreground/70">
+              <span>{formatTrackTime(MIN_MUSIC_SECONDS)}</span>
+              <span>≈ {formatPollen(estimatedPollen)} pollen</span>
+              <span>{formatTrackTime(MAX_MUSIC_SECONDS)}</span>
+            </div>
+          </div>
+
+          {/* Style tags */}
+          <div>
+            <p className="text-muted-foreground mb-1">Style</p>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {tags.map((tag) => {
+                const active = options.tags.includes(tag);
+                return (
+                  <button
+                    key={tag}
+                    onClick={() => set({ tags: toggleStyleTag(options.tags, tag) })}
+                    className={`px-2 py-0.5 rounded-full border transition-colors ${active ? 'border-primary text-foreground bg-primary/10' : 'border-border text-muted-foreground hover:text-foreground hover:bg-accent'}`}
+                  >
+                    {tag}
+                  </button>
+                );
+              })}
+              <input
+                value={tagDraft}
+                onChange={(e) => setTagDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addDraftTag();
+                  }
+                }}
+                onBlur={addDraftTag}
+                placeholder="Add a tag"
+                className="bg-secondary border border-border rounded-full px-2 py-0.5 text-xs text-foreground w-24 focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+            </div>
+          </div>
+
+          {/* Instrumental */}
+          <label className="flex items-center gap-1.5 cursor-pointer text-muted-foreground hover:text-foreground">
+            <input
+              type="checkbox"
+              checked={options.instrumental}
+              onChange={(e) => set({ instrumental: e.target.checked })}
+              className="accent-primary"
+            />
+            Instrumental (no vocals)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Compare picker (inside pill) ─────────────────────── */
+
+function ComparePicker({
+  models,
+  selected,
+  onChange,
+}: {
+  models: PollinationsModel[];
+  selected: string[];
+  onChange: (models: string[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const textModels = useMemo(() => models.filter((m) => m.type === 'text'), [models]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent | TouchEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    document.addEventListener('touchstart', handler);
+    return () => {
+      document.removeEventListener('mousedown', handler);
+      document.removeEventListener('touchstart', handler);
+    };
+  }, [open]);
+
+  return (
+    <div className="relative flex-shrink-0" ref={ref}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-2 h-8 sm:h-9 rounded-full hover:bg-accent transition-colors text-xs whitespace-nowrap ${selected.length > 0 ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+        title="Compare models"
+      >
+        <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+        </svg>
+        {selected.length > 0 && <span>{selected.length}</span>}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 right-0 bg-popover border border-border rounded-lg shadow-xl z-50 w-60 py-1">
+          <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">
+            Compare {MIN_COMPARE_MODELS}–{MAX_COMPARE_MODELS} models
+          </p>
+          <div className="max-h-64 overflow-y-auto">
+            {textModels.map((m) => {
+              const checked = selected.includes(m.name);
+              const full = !checked && selected.length >= MAX_COMPARE_MODELS;
+              return (
+                <label
+                  key={m.id}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-xs transition-colors ${full ? 'opacity-40 cursor-not-allowed' : 'hover:bg-accent cursor-pointer'} ${checked ? 'text-foreground' : 'text-muted-foreground'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={full}
+                    onChange={() => onChange(toggleCompareModel(selected, m.name))}
+                    className="accent-primary"
+                  />
+                  <span className="flex-1 truncate">{m.name}</span>
+                  {m.paidOnly && (
+                    <span className="text-[9px] bg-accent text-accent-foreground px-1 py-0.5 rounded font-medium flex-shrink-0">PRO</span>
+                  )}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ── Inline model picker (inside pill) ────────────────── */
 
 const TYPE_ORDER: string[] = ['text', 'image', 'video', 'audio'];
@@ -0,0 +1,125 @@
+/**
+ * Gallery — all media generated in the current chat, on every branch,
+ * filterable by model and prompt. Picking an item jumps to its message.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { ChatSession } from '../types';
+import { collectGalleryItems, filterGallery, galleryModels, type GalleryItem } from '../lib/gallery';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+
+interface GalleryProps {
+  session: ChatSession;
+  onJump: (messageId: string) => void;
+  onClose: () => void;
+}
+
+export default function Gallery({ session, onJump, onClose }: GalleryProps) {
+  const [model, setModel] = useState('');
+  const [query, setQuery] = useState('');
+
+  const items = useMemo(() => collectGalleryItems(session), [session]);
+  const models = useMemo(() => galleryModels(items), [items]);
+  const visible = useMemo(() => filterGallery(items, { model, query }), [items, model, query]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const selectClass =
+    'bg-secondary border border-border rounded-md px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-2 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-4xl max-h-[92vh] sm:max-h-[85vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 sm:p-4 border-b border-border space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-foreground">Gallery</h2>
+            <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors" title="Close gallery">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter by prompt"
+              className={`${selectClass} flex-1 min-w-[160px]`}
+              autoFocus
+            />
+            <select value={model} onChange={(e) => setModel(e.target.value)} className={selectClass} aria-label="Model">
+              <option value="">Any model</option>
+              {models.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <span className="text-xs text-muted-foreground">
+              {visible.length} of {items.length}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3">
+          {visible.length > 0 ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+              {visible.map((item) => (
+                <GalleryTile key={item.attachment.id} item={item} onOpen={() => onJump(item.messageId)} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground text-center py-8">
+              {items.length === 0 ? 'Nothing generated in this chat yet.' : 'No media matches these filters.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── GalleryTile ── */
+function GalleryTile({ item, onOpen }: { item: GalleryItem; onOpen: () => void }) {
+  const { url, missing } = useMediaUrl(item.attachment);
+  const { attachment } = item;
+
+  return (
+    <button
+      onClick={onOpen}
+      className={`group text-left rounded-md border overflow-hidden bg-muted/40 hover:border-primary/60 transition-colors ${item.selected ? 'border-primary' : 'border-border'}`}
+      title={item.prompt}
+    >
+      <div className="aspect-square flex items-center justify-center bg-muted overflow-hidden">
+        {!url ? (
+          <span className="text-[11px] text-muted-foreground px-2 text-center">
+            {missing ? 'No longer available' : 'Loading…'}
+          </span>
+        ) : attachment.type === 'image' ? (
+          <img src={url} alt={item.prompt} className="w-full h-full object-cover" loading="lazy" />
+        ) : attachment.type === 'video' ? (
+          <video src={url} className="w-full h-full object-cover" muted preload="metadata" />
+        ) : (
+          <svg className="w-8 h-8 text-muted-foreground" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2z" />
+          </svg>
+        )}
+      </div>
+      <div className="px-2 py-1.5">
+        <p className="text-xs text-foreground line-clamp-2 break-words">{item.prompt || attachment.name}</p>
+        <p className="mt-0.5 text-[10px] text-muted-foreground truncate">
+          {item.model ?? 'Unknown model'}
+          {attachment.seed !== undefined && ` · seed ${attachment.seed}`}
+          {item.selected && ' · selected'}
+        </p>
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * Knowledge base — named collections of reference documents, the files in
+ * each, their optional semantic index, and which ones the current chat
+ * searches when a message is sent.
+ */
+
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import { v4 as uuid } from 'uuid';
+import type { KnowledgeCollection, KnowledgeDocument } from '../types';
+import type { TokenizerEncoding } from '../lib/tokenizer';
+import { describeDocument } from '../lib/documents';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  KNOWLEDGE_FILE_TYPES,
+  canAddToKnowledge,
+  describeCollection,
+  ingestKnowledgeFile,
+} from '../lib/knowledge';
+
+interface KnowledgePanelProps {
+  collections: KnowledgeCollection[];
+  /** Collections the current chat searches; undefined when no chat is open */
+  chatCollectionIds?: string[];
+  onChatCollectionsChange?: (ids: string[]) => void;
+  onSaveCollection: (collection: KnowledgeCollection) => Promise<void>;
+  onDeleteCollection: (id: string) => void;
+  /** Embed chunks that lack vectors; progress is reported as chunks done / total */
+  onBuildEmbeddings: (collection: KnowledgeCollection, onProgress: (done: number, total: number) => void) => Promise<void>;
+  embeddingStatus: (collection: KnowledgeCollection) => Promise<{ embedded: number; total: number }>;
+  encoding: TokenizerEncoding | null;
+  notifyError: (msg: string) => void;
+  onClose: () => void;
+}
+
+export default function KnowledgePanel({
+  collections,
+  chatCollectionIds,
+  onChatCollectionsChange,
+  onSaveCollection,
+  onDeleteCollection,
+  onBuildEmbeddings,
+  embeddingStatus,
+  encoding,
+  notifyError,
+  onClose,
+}: KnowledgePanelProps) {
+  const [newName, setNewName] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const now = Date.now();
+    const collection: KnowledgeCollection = { id: uuid(), name, documents: [], createdAt: now, updatedAt: now };
+    await onSaveCollection(collection);
+    setNewName('');
+    setOpenId(collection.id);
+  };
+
+  const toggleForChat = (id: string) => {
+    if (!chatCollectionIds || !onChatCollectionsChange) return;
+    onChatCollectionsChange(
+      chatCollectionIds.includes(id) ? chatCollectionIds.filter((c) => c !== id) : [...chatCollectionIds, id],
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-2 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-lg max-h-[92vh] sm:max-h-[80vh] overflow-y-auto p-4 sm:p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold text-foreground">Knowledge base</h2>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground mb-6">
+          Collections of documents any chat can search. The best-matching passages are added to each message and cited in the reply.
+        </p>
+
+        {/* Collections */}
+        <div className="space-y-2 mb-6">
+          {collections.length === 0 && (
+            <p className="text-sm text-muted-foreground">No collections yet.</p>
+          )}
+          {collections.map((collection) => (
+            <CollectionRow
+              key={collection.id}
+              collection={collection}
+              open={openId === collection.id}
+              onToggleOpen={() => setOpenId(openId === collection.id ? null : collection.id)}
+              usedInChat={chatCollectionIds?.includes(collection.id)}
+              onToggleForChat={chatCollectionIds ? () => toggleForChat(collection.id) : undefined}
+              onSave={onSaveCollection}
+              onDelete={() => onDeleteCollection(collection.id)}
+              onBuildEmbeddings={onBuildEmbeddings}
+              embeddingStatus={embeddingStatus}
+              encoding={encoding}
+              notifyError={notifyError}
+            />
+          ))}
+        </div>
+
+        {/* New collection */}
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+            placeholder="New collection name"
+            className="flex-1 min-w-0 bg-secondary border border-border rounded-md px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newName.trim()}
+            className="px-3 py-2 bg-primary text-primary-foreground rounded-md text-sm hover:bg-primary/90 disabled:opacity-50 transition-colors whitespace-nowrap"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── One collection: chat toggle, files and semantic index ── */
+
+function CollectionRow({
+  collection,
+  open,
+  onToggleOpen,
+  usedInChat,
+  onToggleForChat,
+  onSave,
+  onDelete,
+  onBuildEmbeddings,
+  embeddingStatus,
+  encoding,
+  notifyError,
+}: {
+  collection: KnowledgeCollection;
+  open: boolean;
+  onToggleOpen: () => void;
+  usedInChat?: boolean;
+  onToggleForChat?: () => void;
+  onSave: (collection: KnowledgeCollection) => Promise<void>;
+  onDelete: () => void;
+  onBuildEmbeddings: KnowledgePanelProps['onBuildEmbeddings'];
+  embeddingStatus: KnowledgePanelProps['embeddingStatus'];
+  encoding: TokenizerEncoding | null;
+  notifyError: (msg: string) => void;
+}) {
+  const [reading, setReading] = useState<string[]>([]);
+  const [status, setStatus] = useState<{ embedded: number; total: number } | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const busy = reading.length > 0 || building;
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    embeddingStatus(collection).then((s) => {
+      if (!cancelled) setStatus(s);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, collection, embeddingStatus]);
+
+  const buildIndex = async (target: KnowledgeCollection) => {
+    setBuilding(true);
+    try {
+      await onBuildEmbeddings(target, (done, total) => setStatus((s) => s && { ...s, embedded: s.total - total + done }));
+    } catch (err) {
+      notifyError(`Semantic index stopped: ${(err as Error).message}`);
+    } finally {
+      setBuilding(false);
+      setStatus(await embeddingStatus(target));
+    }
+  };
+
+  const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const accepted = files.filter((f) => {
+      if (canAddToKnowledge(f)) return true;
+      notifyError(`${f.name} isn't a PDF, Word or text file`);
+      return false;
+    });
+    if (accepted.length === 0) return;
+
+    setReading(accepted.map((f) => f.name));
+    const added: KnowledgeDocument[] = [];
+    for (const file of accepted) {
+      try {
+        added.push(await ingestKnowledgeFile(file, uuid(), encoding));
+      } catch (err) {
+        notifyError(`Couldn't read ${file.name}: ${(err as Error).message}`);
+      }
+      setReading((prev) => prev.filter((name) => name !== file.name));
+    }
+    if (added.length === 0) return;
+    const updated = { ...collection, documents: [...collection.documents, ...added], updatedAt: Date.now() };
+    await onSave(updated);
+    if (updated.embeddingModel) await buildIndex(updated);
+  };
+
+  const removeDocument = (id: string) => {
+    onSave({ ...collection, documents: collection.documents.filter((d) => d.id !== id), updatedAt: Date.now() });
+  };
+
+  const toggleSemanticIndex = async () => {
+    const updated: KnowledgeCollection = {
+      ...collection,
+      embeddingModel: collection.embeddingModel ? undefined : DEFAULT_EMBEDDING_MODEL,
+      updatedAt: Date.now(),
+    };
+    await onSave(updated);
+    if (updated.embeddingModel) await buildIndex(updated);
+    else setStatus(await embeddingStatus(updated));
+  };
+
+  return (
+    <div className="border border-border rounded-md">
+      <div className="flex items-center gap-2 px-3 py-2">
+        {onToggleForChat && (
+          <input
+            type="checkbox"
+            checked={!!usedInChat}
+            onChange={onToggleForChat}
+            className="accent-primary"
+            title="Search this collection in the current chat"
+            aria-label={`Use ${collection.name} in this chat`}
+          />
+        )}
+        <button onClick={onToggleOpen} className="flex-1 min-w-0 text-left">
+          <div className="text-sm text-foreground truncate">{collection.name}</div>
+          <div className="text-xs text-muted-foreground">
+            {describeCollection(collection)}
+            {collection.embeddingModel && ' · semantic'}
+          </div>
+        </button>
+        <svg className={`w-4 h-4 text-muted-foreground transition-transform ${open ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </div>
+
+      {open && (
+        <div className="px-3 pb-3 pt-1 border-t border-border space-y-3">
+          {/* Documents */}
+          <ul className="space-y-1">
+            {collection.documents.map((doc) => (
+              <li key={doc.id} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 min-w-0 truncate text-foreground" title={doc.name}>{doc.name}</span>
+                <span className="text-muted-foreground whitespace-nowrap">{describeDocument(doc)}</span>
+                <button
+                  onClick={() => removeDocument(doc.id)}
+                  disabled={busy}
+                  className="text-muted-foreground hover:text-destructive disabled:opacity-40"
+                  title="Remove from collection"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+            {reading.map((name) => (
+              <li key={name} className="text-xs text-muted-foreground animate-pulse truncate">Reading {name}…</li>
+            ))}
+          </ul>
+          <input ref={fileInputRef} type="file" multiple accept={KNOWLEDGE_FILE_TYPES} className="hidden" onChange={handleFiles} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="px-3 py-1.5 bg-secondary border border-border rounded-md text-xs text-foreground hover:bg-accent disabled:opacity-50 transition-colors"
+          >
+            Add files
+          </button>
+
+          {/* Semantic index */}
+          <label className="flex items-start gap-2 text-xs text-foreground">
+            <input
+              type="checkbox"
+              checked={!!collection.embeddingModel}
+              onChange={toggleSemanticIndex}
+              disabled={busy}
+              className="accent-primary mt-0.5"
+            />
+            <span>
+              Semantic index
+              <span className="block text-muted-foreground">
+                {collection.embeddingModel && status
+                  ? `${status.embedded} of ${status.total} passages embedded${building ? '…' : ''}`
+                  : 'Also match passages by meaning, not just keywords. Embeds every passage once.'}
+              </span>
+            </span>
+          </label>
+          {collection.embeddingModel && status && status.embedded < status.total && !building && (
+            <button
+              onClick={() => buildIndex(collection)}
+              className="px-3 py-1.5 bg-secondary border border-border rounded-md text-xs text-foreground hover:bg-accent transition-colors"
+            >
+              Resume indexing
+            </button>
+          )}
+
+          {/* Delete */}
+          {!confirmDelete ? (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              disabled={busy}
+              className="block px-3 py-1.5 border border-destructive text-destructive rounded-md text-xs hover:bg-destructive/10 disabled:opacity-50 transition-colors"
+            >
+              Delete collection
+            </button>
+          ) : (
+            <button
+              onClick={onDelete}
+              className="block px-3 py-1.5 bg-destructive text-destructive-foreground rounded-md text-xs hover:bg-destructive/90 transition-colors"
+            >
+              Delete for all chats?
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
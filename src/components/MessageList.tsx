@@ -3,26 +3,56 @@
  * hover action toolbar, and full Markdown rendering with syntax highlighting.
  */
 
-import { useState, useEffect, useRef, useCallback, type HTMLAttributes, type ReactNode } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback, type AnchorHTMLAttributes, type HTMLAttributes, type MouseEvent, type ReactNode } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { ChatMessage } from '../types';
+import type { ChatMessage, ContextSummary, DocumentSource, KnowledgeSource, MessageAttachment, MessageUsage, RetryStatus, ToolCallRecord } from '../types';
+import type { ComparisonGroup } from '../lib/comparison';
+import { describeImageSize } from '../lib/imageOptions';
+import { formatTrackTime, waveformPeaks } from '../lib/music';
+import { variationCount } from '../lib/imageBatch';
+import { chunkLabel, findCitations, linkCitations, parseCitationHref } from '../lib/documents';
+import { findFootnotes, footnoteLabel, linkFootnotes, parseFootnoteHref } from '../lib/knowledge';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import type { ReadAloudStatus } from '../hooks/useReadAloud';
 
 interface MessageListProps {
   messages: ChatMessage[];
   isStreaming?: boolean;
   onRegenerate?: (messageId: string) => void;
+  /** Redraw an image reply with a new seed */
+  onVaryImage?: (messageId: string) => void;
+  /** Redraw one variation of a batch larger / mark it as the keeper */
+  onUpscaleImage?: (messageId: string, attachmentId: string) => void;
+  onSelectImage?: (messageId: string, attachmentId: string) => void;
   onEditAndRegenerate?: (messageId: string, newContent: string) => void;
   onCopy?: (content: string) => void;
   onDelete?: (messageId: string) => void;
+  /** Sibling position for messages that have alternative branches */
+  branchInfo?: Record<string, { index: number; total: number }>;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  onPruneBranch?: (messageId: string) => void;
+  /** Scroll to and briefly highlight this message (e.g. a search hit) */
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  /** Rolling summary that replaces the oldest turns in the context */
+  contextSummary?: ContextSummary;
+  /** Side-by-side replies, keyed by the prompt they answer */
+  comparisonGroups?: Record<string, ComparisonGroup>;
+  onPickWinner?: (comparisonId: string, replyId: string) => void;
+  onStopReply?: (replyId: string) => void;
+  /** The reply being read aloud, if any */
+  readAloud?: { messageId: string; status: ReadAloudStatus } | null;
+  onReadAloud?: (message: ChatMessage) => void;
 }
 
-export default function MessageList({ messages, isStreaming, onRegenerate, onEditAndRegenerate, onCopy, onDelete }: MessageListProps) {
+export default function MessageList({ messages, isStreaming, onRegenerate, onVaryImage, onUpscaleImage, onSelectImage, onEditAndRegenerate, onCopy, onDelete, branchInfo, onSwitchBranch, onPruneBranch, focusMessageId, onFocusHandled, contextSummary, comparisonGroups, onPickWinner, onStopReply, readAloud, onReadAloud }: MessageListProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const userScrolledUp = useRef(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   // Track whether user has scrolled up
   const handleScroll = useCallback(() => {
@@ -40,9 +70,26 @@ export default function MessageList({ messages, isStreaming, onRegenerate, onEdi
     }
   }, [messages, lastMessageContent]);
 
+  // Jump to a focused message once it is rendered
+  useEffect(() => {
+    if (!focusMessageId || !messages.some((m) => m.id === focusMessageId)) return;
+    const el = scrollContainerRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`);
+    if (!el) return;
+    userScrolledUp.current = true;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(focusMessageId);
+    onFocusHandled?.();
+  }, [focusMessageId, messages, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
   // Show typing indicator when streaming and last assistant message is empty
   const lastMsg = messages[messages.length - 1];
-  const showTypingIndicator = isStreaming && lastMsg?.role === 'assistant' && !lastMsg.content;
+  const showTypingIndicator = isStreaming && lastMsg?.role === 'assistant' && !lastMsg.content && !lastMsg.reasoning && !lastMsg.retryStatus && !lastMsg.comparisonId && lastMsg.attachments.length === 0;
 
   return (
     <div
@@ -51,17 +98,48 @@ export default function MessageList({ messages, isStreaming, onRegenerate, onEdi
       className="h-full overflow-y-auto px-3 sm:px-4 pt-6 pb-6 space-y-4"
     >
       {messages.map((msg) => {
+        // A compared reply stands in for all of its comparison's columns
+        const group = msg.comparisonId && msg.parentId ? comparisonGroups?.[msg.parentId] : undefined;
+        if (group && group.comparison.id === msg.comparisonId) {
+          return (
+            <div key={msg.id} data-message-id={msg.id}>
+              <ComparisonGrid
+                group={group}
+                activeReplyId={msg.id}
+                onPickWinner={onPickWinner}
+                onStopReply={onStopReply}
+                onCopy={onCopy}
+              />
+            </div>
+          );
+        }
         // Skip empty partial messages — the skeleton indicator handles that
-        if (msg.isPartial && !msg.content) return null;
+        if (msg.isPartial && !msg.content && !msg.reasoning && !msg.retryStatus && msg.attachments.length === 0) return null;
         return (
-          <MessageBubble
+          <div
             key={msg.id}
-            message={msg}
-            onRegenerate={onRegenerate}
-            onEditAndRegenerate={onEditAndRegenerate}
-            onCopy={onCopy}
-            onDelete={onDelete}
-          />
+            data-message-id={msg.id}
+            className={`rounded-lg transition-shadow duration-500 ${highlightedId === msg.id ? 'ring-2 ring-primary/60 ring-offset-4 ring-offset-background' : ''}`}
+          >
+            <MessageBubble
+              message={msg}
+              onRegenerate={onRegenerate}
+              onVaryImage={onVaryImage}
+              onUpscaleImage={onUpscaleImage}
+              onSelectImage={onSelectImage}
+              readAloudStatus={readAloud?.messageId === msg.id ? readAloud.status : undefined}
+              onReadAloud={onReadAloud}
+              onEditAndRegenerate={onEditAndRegenerate}
+              onCopy={onCopy}
+              onDelete={onDelete}
+              branch={branchInfo?.[msg.id]}
+              onSwitchBranch={onSwitchBranch}
+              onPruneBranch={onPruneBranch}
+            />
+            {contextSummary?.throughMessageId === msg.id && (
+              <ContextSummaryMarker summary={contextSummary} />
+            )}
+          </div>
         );
       })}
 
@@ -144,22 +222,757 @@ function CodeBlock({ className, children, ...props }: HTMLAttributes<HTMLElement
   );
 }
 
+/* ── Reply markdown, with document citations as chips ─────────── */
+const NO_SOURCES: DocumentSource[] = [];
+const NO_FOOTNOTES: KnowledgeSource[] = [];
+
+function ReplyMarkdown({ messageId, content, sources = NO_SOURCES, footnotes = NO_FOOTNOTES, isPartial }: {
+  messageId: string;
+  content: string;
+  sources?: DocumentSource[];
+  footnotes?: KnowledgeSource[];
+  isPartial?: boolean;
+}) {
+  const linked = useMemo(
+    () => linkFootnotes(linkCitations(content, sources), footnotes.length),
+    [content, sources, footnotes],
+  );
+  const cited = useMemo(
+    () => new Set(findCitations(content, sources).flatMap((c) => c.sources)),
+    [content, sources],
+  );
+  const citedFootnotes = useMemo(() => new Set(findFootnotes(content, footnotes.length)), [content, footnotes]);
+
+  const components = useMemo(() => ({
+    code: CodeBlock,
+    a: ({ href, children, node: _node, ...props }: AnchorHTMLAttributes<HTMLAnchorElement> & { children?: ReactNode; node?: unknown }) => {
+      const footnote = parseFootnoteHref(href);
+      if (footnote !== null && footnotes[footnote - 1]) {
+        return <FootnoteRef messageId={messageId} source={footnotes[footnote - 1]} />;
+      }
+      const indexes = parseCitationHref(href);
+      if (!indexes) return <a href={href} {...props}>{children}</a>;
+      return <CitationChip messageId={messageId} label={children} sources={indexes.map((i) => sources[i])} />;
+    },
+  }), [messageId, sources, footnotes]);
+
+  return (
+    <>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {linked}
+      </ReactMarkdown>
+      {sources.length > 0 && !isPartial && (
+        <SourcesFooter messageId={messageId} sources={sources} cited={cited} />
+      )}
+      {footnotes.length > 0 && !isPartial && (
+        <KnowledgeFootnotes messageId={messageId} footnotes={footnotes} cited={citedFootnotes} />
+      )}
+    </>
+  );
+}
+
+function describeSource(source: DocumentSource): string {
+  const where = chunkLabel({ page: source.page, index: source.chunkIndex });
+  return `${source.name}, ${where}${source.section ? ` — ${source.section}` : ''}\n\n${source.excerpt}`;
+}
+
+function CitationChip({ messageId, label, sources }: { messageId: string; label: ReactNode; sources: DocumentSource[] }) {
+  return (
+    <button
+      type="button"
+      onClick={() => document.getElementById(`sources-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })}
+      className="inline-flex items-center align-baseline mx-0.5 px-1.5 py-px rounded bg-primary/15 text-primary text-[11px] font-medium leading-snug hover:bg-primary/25 transition-colors"
+      title={sources.map(describeSource).join('\n\n')}
+    >
+      {label}
+    </button>
+  );
+}
+
+/** Pages the reply was given, per document; the ones it cites stand out */
+function SourcesFooter({ messageId, sources, cited }: { messageId: string; sources: DocumentSource[]; cited: Set<number> }) {
+  const byDocument = new Map<string, Array<{ source: DocumentSource; index: number }>>();
+  sources.forEach((source, index) => {
+    byDocument.set(source.name, [...(byDocument.get(source.name) ?? []), { source, index }]);
+  });
+
+  return (
+    <div id={`sources-${messageId}`} className="mt-3 pt-2 border-t border-border text-xs text-muted-foreground space-y-1">
+      <div className="font-medium">{cited.size > 0 ? 'Sources' : 'Document excerpts sent'}</div>
+      {[...byDocument].map(([name, entries]) => (
+        <div key={name} className="flex flex-wrap items-center gap-1">
+          <span className="truncate max-w-[200px]" title={name}>{name}</span>
+          {entries.map(({ source, index }) => (
+            <span
+              key={index}
+              title={describeSource(source)}
+              className={`px-1.5 py-px rounded ${cited.has(index) ? 'bg-primary/15 text-primary' : 'bg-muted'}`}
+            >
+              {chunkLabel({ page: source.page, index: source.chunkIndex })}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function describeFootnote(source: KnowledgeSource): string {
+  return `${footnoteLabel(source)}${source.section ? ` — ${source.section}` : ''} (${source.collectionName})\n\n${source.excerpt}`;
+}
+
+function FootnoteRef({ messageId, source }: { messageId: string; source: KnowledgeSource }) {
+  return (
+    <sup>
+      <a
+        href={`#kb-${messageId}-${source.marker}`}
+        onClick={(e) => {
+          e.preventDefault();
+          document.getElementById(`kb-${messageId}-${source.marker}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        }}
+        className="text-primary no-underline hover:underline px-0.5"
+        title={describeFootnote(source)}
+      >
+        {source.marker}
+      </a>
+    </sup>
+  );
+}
+
+/** Knowledge base passages the reply was given, numbered as it cites them */
+function KnowledgeFootnotes({ messageId, footnotes, cited }: { messageId: string; footnotes: KnowledgeSource[]; cited: Set<number> }) {
+  return (
+    <ol className="mt-3 pt-2 border-t border-border text-xs text-muted-foreground space-y-0.5 list-none pl-0">
+      {footnotes.map((source) => (
+        <li
+          key={source.marker}
+          id={`kb-${messageId}-${source.marker}`}
+          title={describeFootnote(source)}
+          className={`flex gap-1.5 min-w-0 ${cited.has(source.marker) ? '' : 'opacity-60'}`}
+        >
+          <span className={cited.has(source.marker) ? 'text-primary' : ''}>{source.marker}.</span>
+          <span className="truncate">
+            {footnoteLabel(source)}
+            {source.section && ` — ${source.section}`}
+            <span className="opacity-70"> · {source.collectionName}</span>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/* ── Attachment (lazily rehydrates generated media from IndexedDB) ── */
+function AttachmentView({ att, isUser }: { att: MessageAttachment; isUser: boolean }) {
+  const { url, missing } = useMediaUrl(att);
+
+  if (!url) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
+        {missing ? `${att.name} is no longer available` : `Loading ${att.name}…`}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {att.type === 'image' ? (
+        <div className={`relative group/img inline-block ${isUser ? '' : ''}`}>
+          <img
+            src={url}
+            alt={att.name}
+            className={`rounded-md object-contain ${isUser ? 'max-w-[75vw] max-h-[300px] sm:max-w-[400px] sm:max-h-[350px]' : 'max-w-full max-h-[400px] sm:max-h-[500px] w-auto'
+              }`}
+          />
+          {/* Image action toolbar — hover on desktop, tap on mobile */}
+          {!isUser && (
+            <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover/img:opacity-100 transition-opacity duration-150 z-10">
+              <button
+                onClick={async (e) => {
+                  e.stopPropagation();
+                  try {
+                    const response = await fetch(url);
+                    const blob = await response.blob();
+                    // Convert to PNG for clipboard compatibility
+                    const pngBlob = await createImageBitmap(blob).then((bmp) => {
+                      const canvas = document.createElement('canvas');
+                      canvas.width = bmp.width;
+                      canvas.height = bmp.height;
+                      const ctx = canvas.getContext('2d')!;
+                      ctx.drawImage(bmp, 0, 0);
+                      return new Promise<Blob>((resolve) =>
+                        canvas.toBlob((b) => resolve(b!), 'image/png')
+                      );
+                    });
+                    await navigator.clipboard.write([
+                      new ClipboardItem({ 'image/png': pngBlob }),
+                    ]);
+                  } catch {
+                    // Fallback: copy URL
+                    await navigator.clipboard.writeText(url);
+                  }
+                }}
+                className="p-1.5 bg-black/60 hover:bg-black/80 rounded-md text-white/90 hover:text-white transition-colors backdrop-blur-sm"
+                title="Copy image"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
+              </button>
+              <a
+                href={url}
+                download={att.name || 'image.png'}
+                onClick={(e) => e.stopPropagation()}
+                className="p-1.5 bg-black/60 hover:bg-black/80 rounded-md text-white/90 hover:text-white transition-colors backdrop-blur-sm"
+                title="Download image"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+              </a>
+            </div>
+          )}
+        </div>
+      ) : att.type === 'audio' ? (
+        <WaveformPlayer url={url} name={att.name} />
+      ) : att.type === 'video' ? (
+        <video controls src={url} className={`rounded-md ${isUser ? 'max-w-[200px] sm:max-w-[250px]' : 'max-w-full max-h-[400px] sm:max-h-[500px] w-auto'
+          }`} />
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          {att.name}
+        </div>
+      )}
+    </>
+  );
+}
+
+/* ── Waveform player (generated audio, seek + download) ──────── */
+const WAVEFORM_BARS = 64;
+
+function WaveformPlayer({ url, name }: { url: string; name: string }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  // Decode once to draw the waveform; flat bars if the browser can't decode it
+  useEffect(() => {
+    let cancelled = false;
+    const context = new AudioContext();
+    fetch(url)
+      .then((res) => res.arrayBuffer())
+      .then((data) => context.decodeAudioData(data))
+      .then((buffer) => {
+        if (!cancelled) setPeaks(waveformPeaks(buffer.getChannelData(0), WAVEFORM_BARS));
+      })
+      .catch(() => {
+        if (!cancelled) setPeaks(new Array<number>(WAVEFORM_BARS).fill(0.3));
+      })
+      .finally(() => context.close().catch(() => {}));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => setPlaying(false));
+    else audio.pause();
+  };
+
+  const seek = (e: MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * duration;
+    setTime(audio.currentTime);
+  };
+
+  const progress = duration ? time / duration : 0;
+
+  return (
+    <div className="w-full min-w-[240px] sm:min-w-[320px] max-w-full rounded-lg border border-border bg-muted/40 px-3 py-2">
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+        className="hidden"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={togglePlay}
+          className="w-8 h-8 flex-shrink-0 flex items-center justify-center rounded-full bg-primary text-primary-foreground hover:opacity-90 transition-opacity"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? (
+            <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+          ) : (
+            <svg className="w-3.5 h-3.5 ml-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M7 5v14l11-7z" /></svg>
+          )}
+        </button>
+        <div
+          className="flex-1 h-10 flex items-center gap-px cursor-pointer"
+          onClick={seek}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(time)}
+        >
+          {(peaks ?? new Array<number>(WAVEFORM_BARS).fill(0.1)).map((peak, i, all) => (
+            <span
+              key={i}
+              className={`flex-1 rounded-sm transition-colors ${i / all.length < progress ? 'bg-primary' : 'bg-muted-foreground/40'} ${peaks ? '' : 'animate-pulse'}`}
+              style={{ height: `${Math.max(8, peak * 100)}%` }}
+            />
+          ))}
+        </div>
+        <a
+          href={url}
+          download={name || 'audio.mp3'}
+          className="p-1.5 flex-shrink-0 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+          title="Download audio"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+        </a>
+      </div>
+      <p className="text-[11px] text-muted-foreground mt-1 flex items-center gap-1">
+        <span className="truncate">{name}</span>
+        <span className="ml-auto tabular-nums">{formatTrackTime(time)} / {formatTrackTime(duration)}</span>
+      </p>
+    </div>
+  );
+}
+
+/* ── Collapsible "Thinking…" section with elapsed time ────────── */
+function ThinkingSection({
+  reasoning,
+  startedAt,
+  durationMs,
+  tokens,
+  isThinking,
+}: {
+  reasoning: string;
+  startedAt: number;
+  durationMs?: number;
+  tokens?: number;
+  isThinking: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the elapsed timer while the model is still thinking
+  useEffect(() => {
+    if (!isThinking) return;
+    const iv = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(iv);
+  }, [isThinking]);
+
+  const seconds = Math.max(0, Math.round((durationMs ?? now - startedAt) / 1000));
+
+  return (
+    <div className="mb-2 rounded-md border border-border bg-muted/40 text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-1.5 px-2.5 py-1.5 text-left text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className={isThinking ? 'animate-pulse' : ''}>
+          {isThinking ? `Thinking… ${seconds}s` : `Thought for ${seconds}s`}
+        </span>
+        {tokens !== undefined && tokens > 0 && (
+          <span className="ml-auto opacity-70">{tokens.toLocaleString()} reasoning tokens</span>
+        )}
+      </button>
+      {open && (
+        <div className="px-2.5 pb-2 whitespace-pre-wrap text-muted-foreground border-t border-border/60 pt-2 max-h-72 overflow-y-auto">
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── "Rate limited — retrying in 4s" countdown ──────────────── */
+function RetryNotice({ status }: { status: RetryStatus }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const iv = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(iv);
+  }, [status.retryAt]);
+
+  const seconds = Math.ceil(Math.max(0, status.retryAt - now) / 1000);
+  const action = status.resuming ? 'resuming' : 'retrying';
+
+  return (
+    <div className="mt-2 flex items-center gap-1.5 text-xs text-orange-500">
+      <svg className="w-3.5 h-3.5 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+      </svg>
+      <span>
+        {status.reason} — {seconds > 0 ? `${action} in ${seconds}s` : `${action}…`}
+        <span className="opacity-70"> (attempt {status.attempt} of {status.maxRetries})</span>
+      </span>
+    </div>
+  );
+}
+
+/* ── Divider where the rolling context summary takes over ────── */
+function ContextSummaryMarker({ summary }: { summary: ContextSummary }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="mt-4 text-xs text-muted-foreground">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 hover:text-foreground transition-colors"
+        title="Messages above are sent to the model as this summary"
+      >
+        <span className="flex-1 h-px bg-border" />
+        <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+        </svg>
+        <span>Context summary · {summary.messageCount} earlier messages</span>
+        <span className="flex-1 h-px bg-border" />
+      </button>
+      {open && (
+        <div className="mt-2 mx-auto max-w-2xl rounded-md border border-border bg-muted/40 px-3 py-2 whitespace-pre-wrap">
+          {summary.content}
+          <p className="mt-1.5 text-[10px] opacity-70">Summarized by {summary.model}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Tool call cards (name, arguments, result) ─────────────────── */
+function ToolCallList({ calls }: { calls: ToolCallRecord[] }) {
+  return (
+    <div className="mb-2 space-y-1.5">
+      {calls.map((call) => (
+        <details
+          key={call.id}
+          className={`group/tool rounded-md border text-xs ${call.isError ? 'border-destructive/40 bg-destructive/5' : 'border-border bg-muted/40'}`}
+        >
+          <summary className="flex items-center gap-1.5 px-2.5 py-1.5 cursor-pointer select-none text-muted-foreground hover:text-foreground">
+            <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.42 15.17L17.25 21A2.652 2.652 0 0021 17.25l-5.877-5.877M11.42 15.17l2.496-3.03c.317-.384.74-.626 1.208-.766M11.42 15.17l-4.655 5.653a2.548 2.548 0 11-3.586-3.586l6.837-5.63m5.108-.233c.55-.164 1.163-.188 1.743-.14a4.5 4.5 0 004.486-6.336l-3.276 3.277a3.004 3.004 0 01-2.25-2.25l3.276-3.276a4.5 4.5 0 00-6.336 4.486c.091 1.076-.071 2.264-.904 2.95l-.102.085" />
+            </svg>
+            <span className="font-mono text-foreground">{call.name}</span>
+            <span className="truncate font-mono opacity-70">{call.arguments}</span>
+            {call.isError && <span className="ml-auto text-destructive">failed</span>}
+          </summary>
+          <div className="px-2.5 pb-2 space-y-1.5">
+            <div>
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Arguments</span>
+              <pre className="mt-0.5 whitespace-pre-wrap break-all font-mono text-foreground">{formatToolJson(call.arguments)}</pre>
+            </div>
+            <div>
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Result</span>
+              <pre className={`mt-0.5 whitespace-pre-wrap break-all font-mono max-h-48 overflow-y-auto ${call.isError ? 'text-destructive' : 'text-foreground'}`}>{formatToolJson(call.result)}</pre>
+            </div>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+/** Pretty-print JSON tool payloads; leave plain text as-is */
+function formatToolJson(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+/* ── Batch of image variations with per-image actions ───────── */
+function ImageVariationGrid({
+  message,
+  pending,
+  onUpscale,
+  onSelect,
+}: {
+  message: ChatMessage;
+  pending: number;
+  onUpscale?: (attachmentId: string) => void;
+  onSelect?: (attachmentId: string) => void;
+}) {
+  const hasSelection = !!message.selectedAttachmentId;
+  return (
+    <div className="mb-2 grid grid-cols-2 gap-2">
+      {message.attachments.map((att) => {
+        const selected = message.selectedAttachmentId === att.id;
+        return (
+          <div
+            key={att.id}
+            className={`relative group/var rounded-md overflow-hidden ring-2 transition-opacity ${selected ? 'ring-primary' : 'ring-transparent'} ${hasSelection && !selected ? 'opacity-60 hover:opacity-100' : ''}`}
+          >
+            <AttachmentView att={att} isUser={false} />
+            {!message.isPartial && (
+              <div className="absolute bottom-2 left-2 right-2 flex items-center gap-1 opacity-0 group-hover/var:opacity-100 transition-opacity duration-150">
+                {onSelect && (
+                  <button
+                    onClick={() => onSelect(att.id)}
+                    className={`px-2 py-1 rounded-md text-[11px] backdrop-blur-sm transition-colors ${selected ? 'bg-primary text-primary-foreground' : 'bg-black/60 hover:bg-black/80 text-white/90'}`}
+                    title={selected ? 'Unselect' : 'Keep this one'}
+                  >
+                    {selected ? '✓ Selected' : 'Select'}
+                  </button>
+                )}
+                {onUpscale && att.seed !== undefined && (
+                  <button
+                    onClick={() => onUpscale(att.id)}
+                    className="px-2 py-1 rounded-md text-[11px] bg-black/60 hover:bg-black/80 text-white/90 backdrop-blur-sm transition-colors"
+                    title="Redraw this variation at twice the size"
+                  >
+                    Upscale
+                  </button>
+                )}
+                {att.seed !== undefined && (
+                  <span className="ml-auto px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-white/80 font-mono">{att.seed}</span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {message.isPartial && Array.from({ length: Math.max(0, pending) }, (_, i) => (
+        <div key={`pending-${i}`} className="aspect-square rounded-md bg-muted animate-pulse" />
+      ))}
+    </div>
+  );
+}
+
+/* ── Side-by-side replies from compare mode ─────────────────── */
+function ComparisonGrid({
+  group,
+  activeReplyId,
+  onPickWinner,
+  onStopReply,
+  onCopy,
+}: {
+  group: ComparisonGroup;
+  activeReplyId: string;
+  onPickWinner?: (comparisonId: string, replyId: string) => void;
+  onStopReply?: (replyId: string) => void;
+  onCopy?: (content: string) => void;
+}) {
+  const { comparison, replies } = group;
+  const streaming = replies.some((r) => r.isPartial);
+  const cols = replies.length >= 4 ? 'lg:grid-cols-4' : replies.length === 3 ? 'lg:grid-cols-3' : '';
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-2 ${cols} gap-2 sm:gap-3`}>
+      {replies.map((reply) => {
+        const isWinner = comparison.winnerId === reply.id;
+        const isActive = reply.id === activeReplyId;
+        return (
+          <div
+            key={reply.id}
+            className={`flex flex-col min-w-0 rounded-lg border bg-card text-card-foreground shadow-sm ${isActive ? 'border-primary/70' : 'border-border'} ${reply.isError ? 'border-destructive bg-destructive/10' : ''}`}
+          >
+            {/* Column header */}
+            <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border text-xs">
+              <span className="font-medium text-foreground truncate">{reply.model}</span>
+              {isWinner && (
+                <span className="text-[10px] bg-primary/15 text-primary px-1.5 py-0.5 rounded-full font-medium flex-shrink-0">Winner</span>
+              )}
+              {reply.isPartial && onStopReply && (
+                <button
+                  onClick={() => onStopReply(reply.id)}
+                  className="ml-auto text-muted-foreground hover:text-destructive transition-colors"
+                  title={`Stop ${reply.model}`}
+                >
+                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="6" y="6" width="12" height="12" rx="2" />
+                  </svg>
+                </button>
+              )}
+            </div>
+
+            {/* Reply */}
+            <div className="flex-1 px-3 py-2.5 min-w-0 overflow-hidden">
+              {reply.reasoning && (
+                <ThinkingSection
+                  reasoning={reply.reasoning}
+                  startedAt={reply.timestamp}
+                  durationMs={reply.reasoningDurationMs}
+                  tokens={reply.reasoningTokens}
+                  isThinking={!!reply.isPartial && reply.reasoningDurationMs === undefined}
+                />
+              )}
+              {reply.isPartial && !reply.content && !reply.reasoning && !reply.retryStatus ? (
+                <div className="space-y-2.5">
+                  <div className="h-3 bg-muted rounded-full w-4/5 animate-pulse" />
+                  <div className="h-3 bg-muted rounded-full w-3/5 animate-pulse" style={{ animationDelay: '100ms' }} />
+                </div>
+              ) : (
+                <div className={`prose-chat ${reply.isPartial ? 'streaming-fade-in' : ''}`}>
+                  <ReplyMarkdown messageId={reply.id} content={reply.content} sources={reply.sources} footnotes={reply.knowledgeSources} isPartial={reply.isPartial} />
+                </div>
+              )}
+              {reply.isPartial && reply.retryStatus && <RetryNotice status={reply.retryStatus} />}
+            </div>
+
+            {/* Stats + actions */}
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 px-3 py-1.5 border-t border-border text-[11px] text-muted-foreground">
+              {reply.latencyMs !== undefined && (
+                <span title={reply.firstTokenMs !== undefined ? `First token after ${formatSeconds(reply.firstTokenMs)}` : undefined}>
+                  {formatSeconds(reply.latencyMs)}
+                </span>
+              )}
+              {reply.tokensUsed !== undefined && <span>· {reply.tokensUsed} tokens</span>}
+              <PollenCost estimate={reply.pollenSpent} usage={reply.usage} />
+              {!streaming && (
+                <span className="ml-auto flex items-center gap-1">
+                  <button
+                    onClick={() => (onCopy ? onCopy(reply.content) : navigator.clipboard.writeText(reply.content))}
+                    className="p-1 rounded hover:bg-accent hover:text-foreground transition-colors"
+                    title="Copy reply"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                  {onPickWinner && !isWinner && !reply.isError && (
+                    <button
+                      onClick={() => onPickWinner(comparison.id, reply.id)}
+                      className="px-2 py-0.5 rounded-md border border-border hover:bg-accent hover:text-foreground transition-colors"
+                    >
+                      Continue with this
+                    </button>
+                  )}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/* ── Estimated vs. billed cost (billed once the usage log has it) ─ */
+function PollenCost({ estimate, usage }: { estimate?: number; usage?: MessageUsage }) {
+  const hasEstimate = estimate !== undefined && estimate > 0;
+  if (!usage) {
+    return hasEstimate ? <span title="Estimated from token counts">· ≈ {estimate.toFixed(5)} pollen</span> : null;
+  }
+  const billed = [
+    `${usage.inputTokens.toLocaleString()} input${usage.cachedTokens ? ` (${usage.cachedTokens.toLocaleString()} cached)` : ''}`,
+    `${usage.outputTokens.toLocaleString()} output`,
+    ...(usage.reasoningTokens ? [`${usage.reasoningTokens.toLocaleString()} reasoning`] : []),
+  ].join(' · ');
+  return (
+    <span title={`Billed tokens: ${billed}`}>
+      · {hasEstimate && <span className="opacity-70">est. {estimate.toFixed(5)} / </span>}
+      {usage.pollenCost.toFixed(5)} pollen
+    </span>
+  );
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/* ── "< 2/3 >" navigator between alternative replies/edits ──── */
+function BranchNavigator({
+  index,
+  total,
+  onPrev,
+  onNext,
+  onDiscard,
+}: {
+  index: number;
+  total: number;
+  onPrev: () => void;
+  onNext: () => void;
+  onDiscard?: () => void;
+}) {
+  return (
+    <span className="inline-flex items-center gap-0.5 font-mono">
+      <button
+        onClick={onPrev}
+        disabled={index === 0}
+        className="px-1 rounded hover:bg-accent/60 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title="Previous version"
+      >
+        ‹
+      </button>
+      <span>{index + 1}/{total}</span>
+      <button
+        onClick={onNext}
+        disabled={index === total - 1}
+        className="px-1 rounded hover:bg-accent/60 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+        title="Next version"
+      >
+        ›
+      </button>
+      {onDiscard && (
+        <button
+          onClick={onDiscard}
+          className="px-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors"
+          title="Discard this version and its replies"
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
+
 /* ── MessageBubble ────────────────────────────────────────────── */
 function MessageBubble({
   message,
   onRegenerate,
+  onVaryImage,
+  onUpscaleImage,
+  onSelectImage,
+  readAloudStatus,
+  onReadAloud,
   onEditAndRegenerate,
   onCopy,
   onDelete,
+  branch,
+  onSwitchBranch,
+  onPruneBranch,
 }: {
   message: ChatMessage;
   onRegenerate?: (messageId: string) => void;
+  onVaryImage?: (messageId: string) => void;
+  onUpscaleImage?: (messageId: string, attachmentId: string) => void;
+  onSelectImage?: (messageId: string, attachmentId: string) => void;
+  readAloudStatus?: ReadAloudStatus;
+  onReadAloud?: (message: ChatMessage) => void;
   onEditAndRegenerate?: (messageId: string, newContent: string) => void;
   onCopy?: (content: string) => void;
   onDelete?: (messageId: string) => void;
+  branch?: { index: number; total: number };
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  onPruneBranch?: (messageId: string) => void;
 }) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const canVary = !isUser && !!message.imageOptions && !message.isError && !!onVaryImage;
+  const batchSize = message.imageOptions ? variationCount(message.imageOptions) : 1;
+  const isImageBatch = !isUser && batchSize > 1 && !message.isError;
+  const canReadAloud = !isUser && !!onReadAloud && !!message.content.trim() && !message.isPartial && !message.isError;
   const [editing, setEditing] = useState(false);
   const [editText, setEditText] = useState(message.content);
   const editRef = useRef<HTMLTextAreaElement>(null);
@@ -276,7 +1089,7 @@ function MessageBubble({
                 <button
                   onClick={() => onRegenerate(message.id)}
                   className="p-1.5 rounded-md hover:bg-accent transition-colors text-muted-foreground hover:text-foreground"
-                  title="Regenerate response"
+                  title={message.imageOptions ? 'Regenerate with the same seed' : 'Regenerate response'}
                 >
                   <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -284,6 +1097,30 @@ function MessageBubble({
                 </button>
               )}
 
+              {/* Vary (image replies only) */}
+              {canVary && (
+                <button
+                  onClick={() => onVaryImage?.(message.id)}
+                  className="p-1.5 rounded-md hover:bg-accent transition-colors text-muted-foreground hover:text-foreground"
+                  title="Vary — same settings, new seed"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+                  </svg>
+                </button>
+              )}
+
+              {/* Read aloud (assistant replies with text) */}
+              {canReadAloud && (
+                <button
+                  onClick={() => onReadAloud?.(message)}
+                  className={`p-1.5 rounded-md hover:bg-accent transition-colors ${readAloudStatus ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                  title={readAloudStatus === 'loading' ? 'Preparing audio… (click to cancel)' : readAloudStatus ? 'Stop reading' : 'Read aloud'}
+                >
+                  <ReadAloudIcon status={readAloudStatus} className="w-3.5 h-3.5" />
+                </button>
+              )}
+
               {/* Delete */}
               {onDelete && (
                 <button
@@ -307,102 +1144,40 @@ function MessageBubble({
             : 'bg-card border border-border text-card-foreground'
             } ${message.isError ? 'border-destructive bg-destructive/10' : ''}`}
         >
-          {/* Attachments */}
-          {message.attachments.length > 0 && (
+          {/* Attachments — a batch of variations shows as a grid */}
+          {isImageBatch ? (
+            <ImageVariationGrid
+              message={message}
+              pending={batchSize - message.attachments.length}
+              onUpscale={onUpscaleImage ? (attachmentId) => onUpscaleImage(message.id, attachmentId) : undefined}
+              onSelect={onSelectImage ? (attachmentId) => onSelectImage(message.id, attachmentId) : undefined}
+            />
+          ) : message.attachments.length > 0 && (
             <div className="mb-2 flex flex-wrap gap-2">
               {message.attachments.map((att) => (
                 <div key={att.id} className="inline-block">
-                  {att.type === 'image' ? (
-                    <div className={`relative group/img inline-block ${isUser ? '' : ''}`}>
-                      <img
-                        src={att.dataUrl}
-                        alt={att.name}
-                        className={`rounded-md object-contain ${isUser ? 'max-w-[75vw] max-h-[300px] sm:max-w-[400px] sm:max-h-[350px]' : 'max-w-full max-h-[400px] sm:max-h-[500px] w-auto'
-                          }`}
-                      />
-                      {/* Image action toolbar — hover on desktop, tap on mobile */}
-                      {!isUser && (
-                        <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover/img:opacity-100 transition-opacity duration-150 z-10">
-                          <button
-                            onClick={async (e) => {
-                              e.stopPropagation();
-                              try {
-                                const response = await fetch(att.dataUrl);
-                                const blob = await response.blob();
-                                // Convert to PNG for clipboard compatibility
-                                const pngBlob = await createImageBitmap(blob).then((bmp) => {
-                                  const canvas = document.createElement('canvas');
-                                  canvas.width = bmp.width;
-                                  canvas.height = bmp.height;
-                                  const ctx = canvas.getContext('2d')!;
-                                  ctx.drawImage(bmp, 0, 0);
-                                  return new Promise<Blob>((resolve) =>
-                                    canvas.toBlob((b) => resolve(b!), 'image/png')
-                                  );
-                                });
-                                await navigator.clipboard.write([
-                                  new ClipboardItem({ 'image/png': pngBlob }),
-                                ]);
-                              } catch {
-                                // Fallback: copy URL
-                                await navigator.clipboard.writeText(att.dataUrl);
-                              }
-                            }}
-                            className="p-1.5 bg-black/60 hover:bg-black/80 rounded-md text-white/90 hover:text-white transition-colors backdrop-blur-sm"
-                            title="Copy image"
-                          >
-                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                            </svg>
-                          </button>
-                          <a
-                            href={att.dataUrl}
-                            download={att.name || 'image.png'}
-                            onClick={(e) => e.stopPropagation()}
-                            className="p-1.5 bg-black/60 hover:bg-black/80 rounded-md text-white/90 hover:text-white transition-colors backdrop-blur-sm"
-                            title="Download image"
-                          >
-                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                            </svg>
-                          </a>
-                        </div>
-                      )}
-                    </div>
-                  ) : att.type === 'audio' ? (
-                    <div className="w-full min-w-[240px] max-w-full">
-                      <audio
-                        controls
-                        preload="metadata"
-                        src={att.dataUrl}
-                        className="w-full rounded-lg"
-                        style={{ minHeight: '44px' }}
-                      >
-                        Your browser does not support audio playback.
-                      </audio>
-                      <p className="text-[11px] text-muted-foreground mt-1 flex items-center gap-1">
-                        <svg className="w-3 h-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2z" />
-                        </svg>
-                        {att.name}
-                      </p>
-                    </div>
-                  ) : att.type === 'video' ? (
-                    <video controls src={att.dataUrl} className={`rounded-md ${isUser ? 'max-w-[200px] sm:max-w-[250px]' : 'max-w-full max-h-[400px] sm:max-h-[500px] w-auto'
-                      }`} />
-                  ) : (
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted px-2 py-1 rounded-md">
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                      {att.name}
-                    </div>
-                  )}
+                  <AttachmentView att={att} isUser={isUser} />
                 </div>
               ))}
             </div>
           )}
 
+          {/* Reasoning from deep-think models */}
+          {message.reasoning && (
+            <ThinkingSection
+              reasoning={message.reasoning}
+              startedAt={message.timestamp}
+              durationMs={message.reasoningDurationMs}
+              tokens={message.reasoningTokens}
+              isThinking={!!message.isPartial && message.reasoningDurationMs === undefined}
+            />
+          )}
+
+          {/* Tool calls made while producing this reply */}
+          {message.toolCalls && message.toolCalls.length > 0 && (
+            <ToolCallList calls={message.toolCalls} />
+          )}
+
           {/* Content — editing mode for user messages */}
           {editing ? (
             <div className="space-y-2">
@@ -436,32 +1211,55 @@ function MessageBubble({
               {isUser ? (
                 message.content
               ) : (
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    code: CodeBlock,
-                  }}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                <ReplyMarkdown messageId={message.id} content={message.content} sources={message.sources} footnotes={message.knowledgeSources} isPartial={message.isPartial} />
               )}
             </div>
           )}
 
           {/* Streaming indicator */}
-          {message.isPartial && (
+          {message.isPartial && !message.retryStatus && (
             <span className="inline-block w-2 h-4 bg-muted-foreground animate-pulse ml-1 rounded-sm" />
           )}
 
+          {/* Waiting to retry a failed request */}
+          {message.isPartial && message.retryStatus && (
+            <RetryNotice status={message.retryStatus} />
+          )}
+
           {/* Metadata */}
           <div className={`flex flex-wrap items-center gap-x-2 sm:gap-x-3 gap-y-0.5 mt-1.5 sm:mt-2 text-[11px] sm:text-xs ${isUser ? 'text-primary-foreground/60' : 'text-muted-foreground'}`}>
+            {branch && onSwitchBranch && !message.isPartial && (
+              <BranchNavigator
+                index={branch.index}
+                total={branch.total}
+                onPrev={() => onSwitchBranch(message.id, -1)}
+                onNext={() => onSwitchBranch(message.id, 1)}
+                onDiscard={onPruneBranch ? () => onPruneBranch(message.id) : undefined}
+              />
+            )}
             <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
             {message.model && <span>· {message.model}</span>}
             {message.tokensUsed !== undefined && (
               <span>· {message.tokensUsed} tokens</span>
             )}
-            {message.pollenSpent !== undefined && message.pollenSpent > 0 && (
-              <span>· {message.pollenSpent.toFixed(5)} pollen</span>
+            <PollenCost estimate={message.pollenSpent} usage={message.usage} />
+            {message.imageOptions && (
+              <span title={message.imageOptions.negativePrompt ? `Negative prompt: ${message.imageOptions.negativePrompt}` : undefined}>
+                · {describeImageSize(message.imageOptions.width, message.imageOptions.height)}
+                {message.imageOptions.seed !== undefined && ` · seed ${message.imageOptions.seed}`}
+              </span>
+            )}
+            {message.musicOptions && (
+              <span title={message.musicOptions.tags.length ? `Style: ${message.musicOptions.tags.join(', ')}` : undefined}>
+                · {formatTrackTime(message.musicOptions.duration)}
+                {message.musicOptions.instrumental && ' · instrumental'}
+              </span>
+            )}
+            {message.contextCompaction && (
+              <span title={`Context strategy: ${message.contextCompaction.strategy}`}>
+                · {message.contextCompaction.compacted} earlier message{message.contextCompaction.compacted === 1 ? '' : 's'}
+                {message.contextCompaction.summarized ? ' summarized' : ' left out of context'}
+              </span>
             )}
           </div>
         </div>
@@ -514,6 +1312,24 @@ function MessageBubble({
                     Retry
                   </button>
                 )}
+                {canVary && (
+                  <button
+                    onClick={() => { onVaryImage?.(message.id); setMobileActionsOpen(false); }}
+                    className="flex items-center gap-1.5 px-4 py-2.5 bg-card border border-border rounded-full text-sm text-foreground active:bg-accent transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" /></svg>
+                    Vary
+                  </button>
+                )}
+                {canReadAloud && (
+                  <button
+                    onClick={() => { onReadAloud?.(message); setMobileActionsOpen(false); }}
+                    className="flex items-center gap-1.5 px-4 py-2.5 bg-card border border-border rounded-full text-sm text-foreground active:bg-accent transition-colors"
+                  >
+                    <ReadAloudIcon status={readAloudStatus} className="w-4 h-4" />
+                    {readAloudStatus ? 'Stop' : 'Read aloud'}
+                  </button>
+                )}
                 {onDelete && (
                   <button
                     onClick={() => { onDelete(message.id); setMobileActionsOpen(false); }}
@@ -532,3 +1348,27 @@ function MessageBubble({
     </div>
   );
 }
+
+/* ── ReadAloudIcon ── */
+function ReadAloudIcon({ status, className }: { status?: ReadAloudStatus; className: string }) {
+  if (status === 'loading') {
+    return (
+      <svg className={`${className} animate-spin`} fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth={3} />
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v3a5 5 0 00-5 5H4z" />
+      </svg>
+    );
+  }
+  if (status === 'playing') {
+    return (
+      <svg className={className} fill="currentColor" viewBox="0 0 24 24">
+        <rect x="6" y="6" width="12" height="12" rx="1.5" />
+      </svg>
+    );
+  }
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M11 5L6 9H3v6h3l5 4V5z" />
+    </svg>
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * Prompt library — saved prompt templates by category, with favorites,
+ * an editor for their `{{variable}}` inputs, and JSON import / export for
+ * sharing. Templates are inserted from the composer by typing `/`.
+ */
+
+import { useState, useEffect, useMemo, useRef, type ChangeEvent } from 'react';
+import type { PromptTemplate, PromptVariable, PromptVariableType } from '../types';
+import { downloadFile } from '../lib/exportImport';
+import {
+  PROMPT_VARIABLE_TYPES,
+  createPromptTemplate,
+  exportPromptLibrary,
+  importPromptLibrary,
+  searchTemplates,
+  syncVariables,
+  templateCategories,
+} from '../lib/prompts';
+
+interface PromptLibraryProps {
+  templates: PromptTemplate[];
+  onSaveTemplates: (templates: PromptTemplate[]) => Promise<void>;
+  onDeleteTemplate: (id: string) => void;
+  notifySuccess: (msg: string) => void;
+  notifyError: (msg: string) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-secondary border border-border rounded-md px-2 py-1.5 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+export default function PromptLibrary({
+  templates,
+  onSaveTemplates,
+  onDeleteTemplate,
+  notifySuccess,
+  notifyError,
+  onClose,
+}: PromptLibraryProps) {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<string | null>(null);
+  // Template being edited; 'new' for one not saved yet
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = useMemo(() => templateCategories(templates), [templates]);
+  const shown = useMemo(
+    () => searchTemplates(templates, query).filter((t) => category === null || t.category === category),
+    [templates, query, category],
+  );
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPromptLibrary(await file.text());
+      await onSaveTemplates(imported);
+      notifySuccess(`Imported ${imported.length} prompt${imported.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      notifyError(`Couldn't import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(exportPromptLibrary(shown), `prompt-library-${Date.now()}.json`, 'application/json');
+  };
+
+  const handleSave = async (template: PromptTemplate) => {
+    await onSaveTemplates([template]);
+    setEditingId(null);
+  };
+
+  const toolbarButton =
+    'px-2 py-1 bg-secondary border border-border rounded-md text-xs text-foreground hover:bg-accent disabled:opacity-50 transition-colors whitespace-nowrap';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-2 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-2xl max-h-[92vh] sm:max-h-[85vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 sm:p-4 border-b border-border space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-foreground">Prompt library</h2>
+            <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors" title="Close prompt library">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Type <span className="font-mono text-foreground">/</span> in the message box to insert a prompt.
+            Write <span className="font-mono text-foreground">{'{{name}}'}</span> where a value should be filled in.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search prompts"
+              className={`${inputClass} flex-1 min-w-[140px] w-auto`}
+            />
+            <select
+              value={category ?? ''}
+              onChange={(e) => setCategory(e.target.value || null)}
+              className={`${inputClass} w-auto`}
+              aria-label="Category"
+            >
+              <option value="">All categories</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <button onClick={() => setEditingId('new')} className={toolbarButton}>New prompt</button>
+            <button onClick={() => fileInputRef.current?.click()} className={toolbarButton}>Import</button>
+            <button
+              onClick={handleExport}
+              disabled={shown.length === 0}
+              className={toolbarButton}
+              title="Save the prompts shown as a JSON file"
+            >
+              Export
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-2">
+          {editingId === 'new' && (
+            <TemplateEditor
+              categories={categories}
+              onSave={handleSave}
+              onCancel={() => setEditingId(null)}
+            />
+          )}
+          {shown.length === 0 && editingId !== 'new' && (
+            <p className="text-xs text-muted-foreground text-center py-8">
+              {templates.length === 0 ? 'No prompts yet.' : 'No prompts match.'}
+            </p>
+          )}
+          {shown.map((template) => editingId === template.id ? (
+            <TemplateEditor
+              key={template.id}
+              template={template}
+              categories={categories}
+              onSave={handleSave}
+              onCancel={() => setEditingId(null)}
+              onDelete={() => {
+                onDeleteTemplate(template.id);
+                setEditingId(null);
+              }}
+            />
+          ) : (
+            <div key={template.id} className="flex items-center gap-2 border border-border rounded-md px-3 py-2">
+              <button
+                onClick={() => onSaveTemplates([{ ...template, favorite: !template.favorite, updatedAt: Date.now() }])}
+                className={template.favorite ? 'text-amber-500' : 'text-muted-foreground hover:text-foreground'}
+                title={template.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                aria-pressed={template.favorite}
+              >
+                <svg className="w-4 h-4" fill={template.favorite ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11 5.52.44a.56.56 0 01.32.99l-4.2 3.6 1.28 5.38a.56.56 0 01-.84.61L12 16.77l-4.73 2.86a.56.56 0 01-.84-.61l1.28-5.38-4.2-3.6a.56.56 0 01.32-.99l5.52-.44 2.13-5.11z" />
+                </svg>
+              </button>
+              <button onClick={() => setEditingId(template.id)} className="flex-1 min-w-0 text-left">
+                <div className="text-sm text-foreground truncate">{template.name}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {template.category || 'Uncategorized'}
+                  {template.variables.length > 0 && ` · ${template.variables.map((v) => v.name).join(', ')}`}
+                </div>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── TemplateEditor ── */
+
+function TemplateEditor({
+  template,
+  categories,
+  onSave,
+  onCancel,
+  onDelete,
+}: {
+  template?: PromptTemplate;
+  categories: string[];
+  onSave: (template: PromptTemplate) => Promise<void>;
+  onCancel: () => void;
+  onDelete?: () => void;
+}) {
+  const [name, setName] = useState(template?.name ?? '');
+  const [category, setCategory] = useState(template?.category ?? '');
+  const [content, setContent] = useState(template?.content ?? '');
+  // Settings for every variable seen while editing, so removing and
+  // re-adding a placeholder doesn't lose them
+  const [known, setKnown] = useState<PromptVariable[]>(template?.variables ?? []);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const variables = useMemo(() => syncVariables(content, known), [content, known]);
+
+  const updateVariable = (variable: PromptVariable, patch: Partial<PromptVariable>) => {
+    setKnown((prev) => [...prev.filter((v) => v.name !== variable.name), { ...variable, ...patch }]);
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !content.trim()) return;
+    onSave(template
+      ? { ...template, name: name.trim(), category: category.trim(), content, variables, updatedAt: Date.now() }
+      : createPromptTemplate({ name, category, content, variables }));
+  };
+
+  return (
+    <div className="border border-primary/50 rounded-md p-3 space-y-2 text-xs">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className={inputClass}
+          autoFocus
+        />
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="Category"
+          list="prompt-categories"
+          className={`${inputClass} sm:w-40`}
+        />
+        <datalist id="prompt-categories">
+          {categories.map((c) => <option key={c} value={c} />)}
+        </datalist>
+      </div>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={'Summarize {{text}} in {{count}} bullet points.'}
+        rows={5}
+        className={`${inputClass} font-mono resize-y`}
+      />
+
+      {variables.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-muted-foreground">Variables</p>
+          {variables.map((v) => (
+            <div key={v.name} className="flex flex-wrap items-center gap-1.5">
+              <span className="font-mono text-foreground w-24 truncate" title={v.name}>{v.name}</span>
+              <select
+                value={v.type}
+                onChange={(e) => updateVariable(v, { type: e.target.value as PromptVariableType })}
+                className={`${inputClass} w-auto`}
+                aria-label={`${v.name} type`}
+              >
+                {PROMPT_VARIABLE_TYPES.map((t) => (
+                  <option key={t.type} value={t.type}>{t.label}</option>
+                ))}
+              </select>
+              <input
+                value={v.label ?? ''}
+                onChange={(e) => updateVariable(v, { label: e.target.value || undefined })}
+                placeholder="Label"
+                className={`${inputClass} flex-1 min-w-[80px] w-auto`}
+              />
+              {v.type === 'select' ? (
+                <input
+                  value={v.options?.join(', ') ?? ''}
+                  onChange={(e) => updateVariable(v, { options: e.target.value.split(',').map((o) => o.trim()).filter(Boolean) })}
+                  placeholder="Choices, comma separated"
+                  className={`${inputClass} flex-1 min-w-[120px] w-auto`}
+                />
+              ) : (
+                <input
+                  value={v.defaultValue ?? ''}
+                  onChange={(e) => updateVariable(v, { defaultValue: e.target.value || undefined })}
+                  placeholder="Default"
+                  type={v.type === 'number' ? 'number' : 'text'}
+                  className={`${inputClass} flex-1 min-w-[80px] w-auto`}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || !content.trim()}
+          className="px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 transition-colors"
+        >
+          Save
+        </button>
+        <button onClick={onCancel} className="px-3 py-1.5 text-muted-foreground hover:text-foreground transition-colors">
+          Cancel
+        </button>
+        {onDelete && (
+          <button
+            onClick={() => (confirmDelete ? onDelete() : setConfirmDelete(true))}
+            className="ml-auto px-3 py-1.5 border border-destructive text-destructive rounded-md hover:bg-destructive/10 transition-colors"
+          >
+            {confirmDelete ? 'Delete for good' : 'Delete'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Search panel — full-text search across all saved chats, with
+ * role / model / mode / date filters and highlighted snippets.
+ */
+
+import { useState, useEffect, type ReactNode } from 'react';
+import type { ChatMessage, GenerationMode } from '../types';
+import type { SearchFilters, SearchResult } from '../lib/search';
+import { searchMessages } from '../lib/storage';
+
+interface SearchPanelProps {
+  /** Model names offered in the model filter */
+  modelNames: string[];
+  activeSessionId: string | null;
+  onJump: (sessionId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export default function SearchPanel({
+  modelNames,
+  activeSessionId,
+  onJump,
+  onClose,
+}: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [role, setRole] = useState<ChatMessage['role'] | ''>('');
+  const [mode, setMode] = useState<GenerationMode | ''>('');
+  const [model, setModel] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [thisChatOnly, setThisChatOnly] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    const filters: SearchFilters = {
+      ...(role && { role }),
+      ...(mode && { mode }),
+      ...(model && { model }),
+      ...(from && { from: new Date(`${from}T00:00:00`).getTime() }),
+      ...(to && { to: new Date(`${to}T23:59:59.999`).getTime() }),
+      ...(thisChatOnly && activeSessionId && { sessionId: activeSessionId }),
+    };
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchMessages(query, filters);
+      if (cancelled) return;
+      setResults(found);
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, role, mode, model, from, to, thisChatOnly, activeSessionId]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const selectClass =
+    'bg-secondary border border-border rounded-md px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-start justify-center z-40 p-2 sm:p-4 sm:pt-[10vh]" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-2xl max-h-[92vh] sm:max-h-[75vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 sm:p-4 border-b border-border space-y-3">
+          <div className="flex items-center gap-2">
+            <svg className="w-4 h-4 text-muted-foreground flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='Search messages — use "quotes" for exact phrases'
+              className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+              autoFocus
+            />
+            <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors" title="Close search">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={role} onChange={(e) => setRole(e.target.value as ChatMessage['role'] | '')} className={selectClass} aria-label="Role">
+              <option value="">Any role</option>
+              <option value="user">You</option>
+              <option value="assistant">Assistant</option>
+            </select>
+            <select value={mode} onChange={(e) => setMode(e.target.value as GenerationMode | '')} className={selectClass} aria-label="Mode">
+              <option value="">Any mode</option>
+              <option value="text">Text</option>
+              <option value="image">Image</option>
+              <option value="video">Video</option>
+              <option value="audio">Audio</option>
+            </select>
+            <select value={model} onChange={(e) => setModel(e.target.value)} className={selectClass} aria-label="Model">
+              <option value="">Any model</option>
+              {modelNames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} aria-label="From date" />
+            <span className="text-xs text-muted-foreground">–</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} aria-label="To date" />
+            {activeSessionId && (
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                <input type="checkbox" checked={thisChatOnly} onChange={(e) => setThisChatOnly(e.target.checked)} />
+                This chat only
+              </label>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto p-2">
+          {results.map((r) => (
+            <button
+              key={`${r.sessionId}:${r.messageId}`}
+              onClick={() => onJump(r.sessionId, r.messageId)}
+              className="w-full text-left p-2.5 rounded-md hover:bg-accent/50 transition-colors"
+            >
+              <div className="flex items-center gap-2 text-[11px] text-muted-foreground mb-1">
+                <span className="font-medium text-foreground truncate">{r.sessionTitle}</span>
+                <span>·</span>
+                <span>{r.role === 'user' ? 'You' : r.model ?? 'Assistant'}</span>
+                <span className="ml-auto flex-shrink-0">{new Date(r.timestamp).toLocaleDateString()}</span>
+              </div>
+              <p className="text-sm text-foreground/90 break-words">
+                <HighlightedText text={r.snippet} ranges={r.highlights} />
+              </p>
+            </button>
+          ))}
+
+          {query.trim() && !searching && results.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-8">No matching messages.</p>
+          )}
+          {!query.trim() && (
+            <p className="text-xs text-muted-foreground text-center py-8">Type to search all chats.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── HighlightedText ── */
+function HighlightedText({ text, ranges }: { text: string; ranges: Array<[number, number]> }) {
+  const parts: ReactNode[] = [];
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    if (start < pos) continue; // overlapping phrase/word match
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(
+      <mark key={start} className="bg-primary/25 text-foreground rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    pos = end;
+  }
+  parts.push(text.slice(pos));
+  return <>{parts}</>;
+}
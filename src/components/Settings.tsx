@@ -1,14 +1,23 @@
 /**
- * Settings panel — privacy toggles, system prompt, export/import.
+ * Settings panel — privacy toggles, pollen budget, default system prompt,
+ * export/import.
  */
 
 import { useState, useRef, type ChangeEvent } from 'react';
-import type { AppSettings, ChatSession } from '../types';
-import { exportJSON, exportMarkdown, downloadFile, importJSON, importMarkdown } from '../lib/exportImport';
+import type { AppSettings, BudgetSpend, ChatSession, PollenBudget } from '../types';
+import { exportJSON, exportMarkdown, downloadFile, importJSON, importMarkdown, inlineMedia } from '../lib/exportImport';
+import { getMedia } from '../lib/storage';
+import { MAX_IMAGE_QUALITY, MIN_IMAGE_QUALITY } from '../lib/imageUpload';
+import { currentBudgetSpend, formatPollen } from '../lib/pollenMath';
 
 interface SettingsProps {
   settings: AppSettings;
   onUpdateSettings: (update: Partial<AppSettings>) => void;
+  budget: PollenBudget;
+  budgetSpend: BudgetSpend | null;
+  onUpdateBudget: (budget: PollenBudget) => void;
+  /** Voices offered for audio replies and read aloud */
+  voices: string[];
   sessions: ChatSession[];
   onImport: (sessions: ChatSession[]) => void;
   onClearAll: () => Promise<void>;
@@ -21,6 +30,10 @@ interface SettingsProps {
 export default function Settings({
   settings,
   onUpdateSettings,
+  budget,
+  budgetSpend,
+  onUpdateBudget,
+  voices,
   sessions,
   onImport,
   onClearAll,
@@ -32,9 +45,12 @@ export default function Settings({
   const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt);
   const [confirmClear, setConfirmClear] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const spend = currentBudgetSpend(budgetSpend, Date.now());
 
-  const handleExportJSON = () => {
-    const json = exportJSON(sessions);
+  const handleExportJSON = async () => {
+    // Inline generated media so the export carries the actual bytes
+    const withMedia = await inlineMedia(sessions, async (id) => (await getMedia(id))?.blob);
+    const json = exportJSON(withMedia);
     downloadFile(json, `pollinations-chat-${Date.now()}.json`, 'application/json');
     notifySuccess('Chat exported as JSON');
   };
@@ -97,7 +113,7 @@ export default function Settings({
           />
           <Toggle
             label="Auto-fetch usage after generation"
-            description="Automatically retrieve pollen/token stats after each response"
+            description="Automatically retrieve pollen/token stats after each response and show each reply's billed cost next to its estimate"
             checked={settings.autoFetchUsage}
             onChange={(v) => onUpdateSettings({ autoFetchUsage: v })}
           />
@@ -109,11 +125,42 @@ export default function Settings({
           />
         </div>
 
+        {/* Pollen budget */}
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-foreground mb-1">Pollen budget</h3>
+          <p className="text-xs text-muted-foreground mb-3">
+            Sends that would go over a limit ask before going ahead. Leave a limit empty for none.
+            Spent today: {formatPollen(spend.daySpent)} · this month: {formatPollen(spend.monthSpent)}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <BudgetField label="Daily" value={budget.dailyCap} onChange={(dailyCap) => onUpdateBudget({ ...budget, dailyCap })} />
+            <BudgetField label="Monthly" value={budget.monthlyCap} onChange={(monthlyCap) => onUpdateBudget({ ...budget, monthlyCap })} />
+            <BudgetField label="Per chat" value={budget.sessionCap} onChange={(sessionCap) => onUpdateBudget({ ...budget, sessionCap })} />
+            <BudgetField label="Per request" value={budget.requestCap} onChange={(requestCap) => onUpdateBudget({ ...budget, requestCap })} />
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <label htmlFor="budget-warn-at" className="text-sm text-foreground">Warn at</label>
+            <select
+              id="budget-warn-at"
+              value={budget.warnAt}
+              onChange={(e) => onUpdateBudget({ ...budget, warnAt: Number(e.target.value) })}
+              className="bg-secondary border border-border rounded-md px-2 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {[0.5, 0.75, 0.8, 0.9].map((v) => (
+                <option key={v} value={v}>{Math.round(v * 100)}% of a limit</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {/* System prompt */}
         <div className="mb-6">
-          <label className="block text-sm font-medium text-foreground mb-2">
+          <label className="block text-sm font-medium text-foreground mb-1">
             System Prompt
           </label>
+          <p className="text-xs text-muted-foreground mb-2">
+            Default for every chat. Presets and per-chat settings can override this, temperature and creativity.
+          </p>
           <textarea
             value={systemPrompt}
             onChange={(e) => setSystemPrompt(e.target.value)}
@@ -168,6 +215,28 @@ export default function Settings({
               Scales how strongly temperature is applied.
             </p>
           </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="image-quality-slider" className="text-sm font-medium text-foreground">
+                Image upload quality
+              </label>
+              <span className="text-xs text-muted-foreground">{Math.round(settings.imageUploadQuality * 100)}%</span>
+            </div>
+            <input
+              id="image-quality-slider"
+              type="range"
+              min={MIN_IMAGE_QUALITY}
+              max={MAX_IMAGE_QUALITY}
+              step={0.05}
+              value={settings.imageUploadQuality}
+              onChange={(e) => onUpdateSettings({ imageUploadQuality: Number(e.target.value) })}
+              className="w-full accent-primary"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Photos are resized to what the model can see and re-encoded at this quality, which also removes location and camera data.
+            </p>
+          </div>
         </div>
 
         <div className="mb-6">
@@ -177,6 +246,48 @@ export default function Settings({
             checked={settings.enablePromptEnhancement}
             onChange={(v) => onUpdateSettings({ enablePromptEnhancement: v })}
           />
+          <div className="mt-4">
+            <Toggle
+              label="Allow tool use"
+              description="Let tool-capable models call local tools (calculator, current time, chat search). Tools run in your browser."
+              checked={settings.enableTools}
+              onChange={(v) => onUpdateSettings({ enableTools: v })}
+            />
+          </div>
+          <div className="mt-4">
+            <Toggle
+              label="Generate chat titles"
+              description="After the first reply, ask the cheapest text model for a short title. Costs a little pollen per chat."
+              checked={settings.autoGenerateTitles}
+              onChange={(v) => onUpdateSettings({ autoGenerateTitles: v })}
+            />
+          </div>
+          <div className="mt-4">
+            <Toggle
+              label="Send voice input on release"
+              description="When you hold the microphone to talk, send the transcript as soon as you let go instead of adding it to the message box."
+              checked={settings.voiceSendOnRelease}
+              onChange={(v) => onUpdateSettings({ voiceSendOnRelease: v })}
+            />
+          </div>
+          {voices.length > 0 && (
+            <div className="mt-4 flex items-center justify-between gap-4">
+              <div>
+                <label htmlFor="settings-voice" className="text-sm text-foreground">Voice</label>
+                <p className="text-xs text-muted-foreground">Used for audio replies and for reading replies aloud.</p>
+              </div>
+              <select
+                id="settings-voice"
+                value={voices.includes(settings.voice) ? settings.voice : voices[0]}
+                onChange={(e) => onUpdateSettings({ voice: e.target.value })}
+                className="bg-secondary border border-border rounded-md px-2 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {voices.map((v) => (
+                  <option key={v} value={v}>{v}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Export / Import */}
@@ -276,6 +387,45 @@ export default function Settings({
   );
 }
 
+/* ── BudgetField ── */
+/** Pollen amount, or no limit when left empty; saved when the field loses focus */
+function BudgetField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  onChange: (val: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value === null ? '' : String(value));
+
+  const commit = () => {
+    const parsed = draft.trim() === '' ? null : Number(draft);
+    if (parsed !== null && (!Number.isFinite(parsed) || parsed < 0)) {
+      setDraft(value === null ? '' : String(value));
+      return;
+    }
+    if (parsed !== value) onChange(parsed);
+  };
+
+  return (
+    <label className="block">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        placeholder="No limit"
+        className="mt-1 w-full bg-secondary border border-border rounded-md px-2 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+    </label>
+  );
+}
+
 function Toggle({
   label,
   description,
@@ -0,0 +1,270 @@
+/**
+ * Usage analytics — spend per day, model and chat, the token mix and
+ * response times, from the account usage log plus the history kept on
+ * this device. Records can be exported as CSV.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { ChatSession } from '../types';
+import { formatPollen } from '../lib/pollenMath';
+import { downloadFile } from '../lib/exportImport';
+import { parseUsageTimestamp } from '../lib/usage';
+import {
+  TOKEN_TYPES,
+  recordPollen,
+  recordsSince,
+  spendByDay,
+  spendByModel,
+  spendBySession,
+  tokenTotals,
+  usageToCsv,
+  type DaySpend,
+  type TokenTotals,
+  type TokenType,
+} from '../lib/usageAnalytics';
+import { useUsageHistory } from '../hooks/useUsageHistory';
+
+interface UsageDashboardProps {
+  apiKey: string;
+  sessions: ChatSession[];
+  /** App model name for an id or alias from the usage log */
+  resolveModel: (model: string) => string;
+  onOpenSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const RANGES: { days: number | null; label: string }[] = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: null, label: 'All history' },
+];
+
+const TOKEN_COLORS: Record<TokenType, string> = {
+  text: 'bg-primary',
+  audio: 'bg-emerald-500',
+  image: 'bg-sky-500',
+  cached: 'bg-amber-500',
+  reasoning: 'bg-violet-500',
+};
+
+export default function UsageDashboard({ apiKey, sessions, resolveModel, onOpenSession, onClose }: UsageDashboardProps) {
+  const { records, loading, error, refresh } = useUsageHistory(apiKey);
+  const [days, setDays] = useState<number | null>(30);
+
+  const inRange = useMemo(() => recordsSince(records, days), [records, days]);
+  const daily = useMemo(() => spendByDay(inRange), [inRange]);
+  const perModel = useMemo(() => spendByModel(inRange), [inRange]);
+  const perSession = useMemo(() => spendBySession(inRange, sessions, resolveModel), [inRange, sessions, resolveModel]);
+  const tokens = useMemo(() => tokenTotals(inRange), [inRange]);
+  const totalPollen = inRange.reduce((sum, r) => sum + recordPollen(r), 0);
+  const oldest = records.length > 0 ? parseUsageTimestamp(records[records.length - 1].timestamp) : null;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const handleExport = () => {
+    downloadFile(usageToCsv(inRange), `pollinations-usage-${Date.now()}.csv`, 'text/csv');
+  };
+
+  const selectClass =
+    'bg-secondary border border-border rounded-md px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-2 sm:p-4" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-lg w-full max-w-3xl max-h-[92vh] sm:max-h-[85vh] flex flex-col shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 sm:p-4 border-b border-border space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-foreground">Usage analytics</h2>
+            <button onClick={onClose} className="text-muted-foreground hover:text-foreground transition-colors" title="Close analytics">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={days ?? ''}
+              onChange={(e) => setDays(e.target.value ? Number(e.target.value) : null)}
+              className={selectClass}
+              aria-label="Time range"
+            >
+              {RANGES.map((r) => (
+                <option key={r.label} value={r.days ?? ''}>{r.label}</option>
+              ))}
+            </select>
+            <button onClick={refresh} disabled={loading} className={`${selectClass} hover:bg-accent disabled:opacity-50`}>
+              {loading ? 'Updating…' : 'Refresh'}
+            </button>
+            <button onClick={handleExport} disabled={inRange.length === 0} className={`${selectClass} hover:bg-accent disabled:opacity-50`}>
+              Export CSV
+            </button>
+            <span className="text-xs text-muted-foreground ml-auto">
+              {oldest !== null && `History since ${new Date(oldest).toLocaleDateString()}`}
+            </span>
+          </div>
+          {error && (
+            <p className="text-xs text-destructive">
+              {error} {records.length > 0 && 'Showing the history saved on this device.'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-6">
+          {inRange.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">
+              {loading ? 'Loading usage…' : 'No usage in this period.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                <Stat label="Pollen spent" value={formatPollen(totalPollen)} />
+                <Stat label="Requests" value={inRange.length.toLocaleString()} />
+                <Stat label="Tokens" value={Object.values(tokens).reduce((a, b) => a + b, 0).toLocaleString()} />
+              </div>
+
+              <section>
+                <h3 className="text-sm font-medium text-foreground mb-2">Spend per day</h3>
+                <DailyChart days={daily} />
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-foreground mb-2">Tokens by type</h3>
+                <TokenBar totals={tokens} />
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-foreground mb-2">Per model</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="text-muted-foreground">
+                      <tr className="text-left">
+                        <th className="font-normal py-1 pr-2">Model</th>
+                        <th className="font-normal py-1 pr-2 text-right">Requests</th>
+                        <th className="font-normal py-1 pr-2 text-right">Avg. response</th>
+                        <th className="font-normal py-1 pr-2 w-1/3">Tokens</th>
+                        <th className="font-normal py-1 text-right">Pollen</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {perModel.map((m) => (
+                        <tr key={m.model} className="border-t border-border text-foreground">
+                          <td className="py-1.5 pr-2 font-mono">{m.model}</td>
+                          <td className="py-1.5 pr-2 text-right">{m.requests.toLocaleString()}</td>
+                          <td className="py-1.5 pr-2 text-right">{(m.averageResponseMs / 1000).toFixed(1)}s</td>
+                          <td className="py-1.5 pr-2"><TokenBar totals={m.tokens} compact /></td>
+                          <td className="py-1.5 text-right font-mono">{formatPollen(m.pollen)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-sm font-medium text-foreground mb-2">Per chat</h3>
+                <ul className="space-y-1">
+                  {perSession.map((s) => (
+                    <li key={s.sessionId ?? 'unlinked'} className="flex items-center gap-2 text-xs">
+                      {s.sessionId ? (
+                        <button
+                          onClick={() => onOpenSession(s.sessionId as string)}
+                          className="flex-1 min-w-0 truncate text-left text-foreground hover:underline"
+                        >
+                          {s.title}
+                        </button>
+                      ) : (
+                        <span
+                          className="flex-1 min-w-0 truncate text-muted-foreground"
+                          title="Titles, summaries, replies not yet reconciled, and other apps using this account"
+                        >
+                          {s.title}
+                        </span>
+                      )}
+                      <span className="text-muted-foreground">{s.requests} req.</span>
+                      <span className="font-mono text-foreground w-20 text-right">{formatPollen(s.pollen)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ── Stat ── */
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-secondary rounded-md px-3 py-2">
+      <div className="text-[11px] text-muted-foreground">{label}</div>
+      <div className="text-sm font-mono text-foreground">{value}</div>
+    </div>
+  );
+}
+
+/* ── DailyChart ── */
+function DailyChart({ days }: { days: DaySpend[] }) {
+  const max = Math.max(...days.map((d) => d.pollen), 0);
+  return (
+    <div>
+      <div className="flex items-end gap-px h-32 border-b border-border">
+        {days.map((d) => (
+          <div
+            key={d.day}
+            className="flex-1 min-w-[2px] bg-primary/80 hover:bg-primary rounded-t-sm transition-colors"
+            style={{ height: max > 0 ? `${Math.max((d.pollen / max) * 100, d.pollen > 0 ? 2 : 0)}%` : 0 }}
+            title={`${d.day}: ${formatPollen(d.pollen)} pollen, ${d.requests} request${d.requests === 1 ? '' : 's'}`}
+          />
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="flex justify-between text-[11px] text-muted-foreground mt-1">
+          <span>{days[0].day}</span>
+          <span>max {formatPollen(max)}</span>
+          <span>{days[days.length - 1].day}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── TokenBar ── */
+function TokenBar({ totals, compact }: { totals: TokenTotals; compact?: boolean }) {
+  const total = Object.values(totals).reduce((a, b) => a + b, 0);
+  const parts = TOKEN_TYPES.filter((t) => totals[t.type] > 0);
+  return (
+    <div>
+      <div className={`flex w-full overflow-hidden rounded-full bg-muted ${compact ? 'h-1.5' : 'h-3'}`}>
+        {parts.map((t) => (
+          <div
+            key={t.type}
+            className={TOKEN_COLORS[t.type]}
+            style={{ width: `${(totals[t.type] / total) * 100}%` }}
+            title={`${t.label}: ${totals[t.type].toLocaleString()} tokens`}
+          />
+        ))}
+      </div>
+      {!compact && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[11px] text-muted-foreground">
+          {parts.map((t) => (
+            <span key={t.type} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${TOKEN_COLORS[t.type]}`} />
+              {t.label} {totals[t.type].toLocaleString()}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ interface UsageIconProps {
     model: string;
   } | null;
   onRefresh: () => void;
+  /** Opens the spending dashboard */
+  onOpenAnalytics?: () => void;
 }
 
 export default function UsageIcon({
@@ -22,6 +24,7 @@ export default function UsageIcon({
   balance,
   lastUsage,
   onRefresh,
+  onOpenAnalytics,
 }: UsageIconProps) {
   const [showPopover, setShowPopover] = useState(false);
 
@@ -88,6 +91,17 @@ export default function UsageIcon({
           >
             Refresh balance
           </button>
+          {onOpenAnalytics && (
+            <button
+              onClick={() => {
+                onOpenAnalytics();
+                setShowPopover(false);
+              }}
+              className="w-full text-center text-xs text-foreground hover:underline mt-2"
+            >
+              Spending analytics
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,85 @@
+/**
+ * Hook: record from the microphone with MediaRecorder.
+ *
+ * `start` asks for the microphone and begins recording; `stop` resolves
+ * with the recording (null if nothing was captured) and releases the
+ * microphone; `cancel` throws the recording away.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+/** Recordings are cut off here so a forgotten microphone doesn't run forever */
+const MAX_RECORDING_MS = 5 * 60 * 1000;
+
+export function useAudioRecorder() {
+  const [recording, setRecording] = useState(false);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const stopResolveRef = useRef<((blob: Blob | null) => void) | null>(null);
+  const limitTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const release = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorder?.stream.getTracks().forEach((t) => t.stop());
+    recorderRef.current = null;
+    if (limitTimer.current) clearTimeout(limitTimer.current);
+    limitTimer.current = null;
+    setRecording(false);
+    setStartedAt(null);
+  }, []);
+
+  const stop = useCallback((): Promise<Blob | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+    return new Promise((resolve) => {
+      stopResolveRef.current = resolve;
+      recorder.stop();
+    });
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      throw new Error('Voice input is not supported in this browser.');
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    chunksRef.current = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = () => {
+      const chunks = chunksRef.current;
+      const blob = chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType || chunks[0].type }) : null;
+      chunksRef.current = [];
+      release();
+      stopResolveRef.current?.(blob);
+      stopResolveRef.current = null;
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    limitTimer.current = setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, MAX_RECORDING_MS);
+    setRecording(true);
+    setStartedAt(Date.now());
+  }, [release]);
+
+  const cancel = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    chunksRef.current = [];
+    stopResolveRef.current?.(null);
+    stopResolveRef.current = null;
+    release();
+  }, [release]);
+
+  // Let go of the microphone when the composer goes away
+  useEffect(() => cancel, [cancel]);
+
+  return { recording, startedAt, start, stop, cancel };
+}
@@ -0,0 +1,38 @@
+/**
+ * Hook: the user's pollen budget and the spend counted against its daily
+ * and monthly caps, both kept in IndexedDB.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BudgetSpend, PollenBudget } from '../types';
+import { getBudget, getBudgetSpend, saveBudget as saveBudgetToDB, saveBudgetSpend } from '../lib/storage';
+import { DEFAULT_BUDGET, addBudgetSpend } from '../lib/pollenMath';
+
+export function useBudget() {
+  const [budget, setBudget] = useState<PollenBudget>(DEFAULT_BUDGET);
+  const [spend, setSpend] = useState<BudgetSpend | null>(null);
+
+  useEffect(() => {
+    getBudget().then(setBudget);
+    getBudgetSpend().then(setSpend);
+  }, []);
+
+  const saveBudget = useCallback(async (next: PollenBudget) => {
+    setBudget(next);
+    await saveBudgetToDB(next);
+  }, []);
+
+  /**
+   * Count pollen against today and this month (a new period starts from
+   * zero); `at` places a correction in the period of the spend it corrects
+   */
+  const recordSpend = useCallback((pollen: number, at?: number) => {
+    setSpend((prev) => {
+      const next = addBudgetSpend(prev, pollen, Date.now(), at);
+      saveBudgetSpend(next); // fire-and-forget
+      return next;
+    });
+  }, []);
+
+  return { budget, spend, saveBudget, recordSpend };
+}
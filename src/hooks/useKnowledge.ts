@@ -0,0 +1,124 @@
+/**
+ * Hook: knowledge base collections stored in IndexedDB, with their search
+ * indexes kept in step on every change.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { KnowledgeCollection } from '../types';
+import {
+  getAllCollections,
+  getKnowledgeIndex,
+  saveCollection as saveCollectionToDB,
+  deleteCollection as deleteCollectionFromDB,
+} from '../lib/storage';
+import {
+  buildKnowledgeIndex,
+  chunksMissingEmbeddings,
+  embedMissingChunks,
+  retrievePassages,
+  type KnowledgePassage,
+} from '../lib/knowledge';
+
+/** Embeds texts with the given model */
+export type EmbedFn = (model: string, texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+
+function byName(a: KnowledgeCollection, b: KnowledgeCollection): number {
+  return a.name.localeCompare(b.name);
+}
+
+export function useKnowledge() {
+  const [collections, setCollections] = useState<KnowledgeCollection[]>([]);
+
+  useEffect(() => {
+    getAllCollections().then(setCollections);
+  }, []);
+
+  /** Add or replace a collection and rebuild its index (still-valid embeddings are kept) */
+  const saveCollection = useCallback(async (collection: KnowledgeCollection) => {
+    setCollections((prev) => [...prev.filter((c) => c.id !== collection.id), collection].sort(byName));
+    const index = buildKnowledgeIndex(collection, await getKnowledgeIndex(collection.id));
+    await saveCollectionToDB(collection, index);
+  }, []);
+
+  /** Chats using the collection stop searching it */
+  const deleteCollection = useCallback(async (id: string) => {
+    setCollections((prev) => prev.filter((c) => c.id !== id));
+    await deleteCollectionFromDB(id);
+  }, []);
+
+  /** How many chunks have embeddings, out of how many */
+  const embeddingStatus = useCallback(async (collection: KnowledgeCollection) => {
+    const index = await getKnowledgeIndex(collection.id);
+    const total = collection.documents.reduce((sum, d) => sum + d.chunks.length, 0);
+    if (!index?.embeddings) return { embedded: 0, total };
+    return { embedded: total - chunksMissingEmbeddings(collection, index).length, total };
+  }, []);
+
+  /** Text of the chunks a build would still have to embed */
+  const missingEmbeddingTexts = useCallback(async (collection: KnowledgeCollection) => {
+    const index = buildKnowledgeIndex(collection, await getKnowledgeIndex(collection.id));
+    return chunksMissingEmbeddings(collection, index).map((c) => c.text);
+  }, []);
+
+  /**
+   * Embed the collection's chunks that have none yet. Progress is saved as
+   * it goes, so a failed build can be resumed.
+   */
+  const buildEmbeddings = useCallback(async (
+    collection: KnowledgeCollection,
+    embed: EmbedFn,
+    onProgress?: (done: number, total: number) => void,
+  ) => {
+    const model = collection.embeddingModel;
+    if (!model) return;
+    const index = buildKnowledgeIndex(collection, await getKnowledgeIndex(collection.id));
+    const result = await embedMissingChunks(collection, index, (texts) => embed(model, texts), onProgress);
+    await saveCollectionToDB(collection, result.index);
+    if (result.error) throw result.error;
+  }, []);
+
+  /**
+   * Passages from the given collections for a prompt. Collections with a
+   * semantic index also rank by embedding similarity to the query; if
+   * embedding the query fails, ranking falls back to BM25 alone. Aborting
+   * `signal` rejects with an AbortError instead.
+   */
+  const retrieve = useCallback(async (
+    collectionIds: string[],
+    query: string,
+    maxTokens: number,
+    embed: EmbedFn,
+    signal?: AbortSignal,
+  ): Promise<KnowledgePassage[]> => {
+    const chosen = collections.filter((c) => collectionIds.includes(c.id) && c.documents.length > 0);
+    if (chosen.length === 0 || !query.trim()) return [];
+
+    const sources = await Promise.all(chosen.map(async (collection) => ({
+      collection,
+      index: (await getKnowledgeIndex(collection.id)) ?? buildKnowledgeIndex(collection),
+    })));
+
+    const queryVectors: Record<string, number[]> = {};
+    const models = new Set(sources.flatMap(({ index }) => (index.embeddings ? [index.embeddings.model] : [])));
+    for (const model of models) {
+      try {
+        [queryVectors[model]] = await embed(model, [query], signal);
+      } catch (err) {
+        // Cancelling the send cancels the lookup; other failures fall back to keywords
+        if ((err as Error).name === 'AbortError') throw err;
+        console.warn('[knowledge] Query embedding failed, ranking by keywords only', err);
+      }
+    }
+    return retrievePassages(sources, query, { maxTokens, queryVectors });
+  }, [collections]);
+
+  return {
+    collections,
+    saveCollection,
+    deleteCollection,
+    embeddingStatus,
+    missingEmbeddingTexts,
+    buildEmbeddings,
+    retrieve,
+  };
+}
@@ -2,9 +2,9 @@
  * Hook: manage chat sessions in IndexedDB with auto-restore.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { v4 as uuid } from 'uuid';
-import type { ChatSession, ChatMessage } from '../types';
+import type { ChatSession, ChatMessage, Comparison, MessageUsage, UsageRecord } from '../types';
 import {
   saveSession,
   getAllSessions,
@@ -12,17 +12,46 @@ import {
   clearAllSessions as clearAllSessionsFromDB,
   getLastActiveSession,
   setLastActiveSession,
+  saveMedia,
+  deleteMedia,
+  pruneOrphanedMedia,
 } from '../lib/storage';
+import { extractInlinedMedia } from '../lib/exportImport';
+import {
+  ensureTree,
+  appendMessage,
+  switchBranch as switchBranchInTree,
+  pruneBranch as pruneBranchInTree,
+  removeMessage,
+} from '../lib/messageTree';
+import { upsertComparison, selectWinner } from '../lib/comparison';
+import { reconcileUsage, usageCostDelta } from '../lib/usage';
+
+/** Media-store keys referenced by a set of messages (including read-aloud audio) */
+function collectMediaIds(messages: ChatMessage[]): string[] {
+  return messages.flatMap((m) => [
+    ...m.attachments.flatMap((a) => (a.mediaId ? [a.mediaId] : [])),
+    ...(m.speech?.mediaIds ?? []),
+  ]);
+}
 
 export function useLocalSession() {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [loaded, setLoaded] = useState(false);
+  // Latest sessions for callbacks that must read them outside a state update
+  const sessionsRef = useRef(sessions);
+  // Usage attached by applyUsageRecords that sessionsRef may not show yet
+  const pendingUsageRef = useRef(new Map<string, MessageUsage>());
+
+  useEffect(() => {
+    sessionsRef.current = sessions;
+  }, [sessions]);
 
   // Load sessions and restore last active
   useEffect(() => {
     (async () => {
-      const all = await getAllSessions();
+      const all = (await getAllSessions()).map(ensureTree);
       setSessions(all);
       const lastId = await getLastActiveSession();
       if (lastId && all.some((s) => s.id === lastId)) {
@@ -31,6 +60,7 @@ export function useLocalSession() {
         setActiveSessionId(all[0].id);
       }
       setLoaded(true);
+      pruneOrphanedMedia(all); // fire-and-forget
     })();
   }, []);
 
@@ -46,6 +76,7 @@ export function useLocalSession() {
         createdAt: Date.now(),
         updatedAt: Date.now(),
         totalPollenSpent: 0,
+        activeLeafId: null,
       };
       await saveSession(session);
       setSessions((prev) => [session, ...prev]);
@@ -67,8 +98,7 @@ export function useLocalSession() {
         prev.map((s) => {
           if (s.id !== sessionId) return s;
           const updated = {
-            ...s,
-            messages: [...s.messages, message],
+            ...appendMessage(s, message),
             updatedAt: Date.now(),
             // Auto-title from first user message
             title:
@@ -122,12 +152,83 @@ export function useLocalSession() {
     [],
   );
 
+  /**
+   * Attach usage log records to the replies they billed, and move session
+   * totals from the estimates to the billed cost. Returns each reply's
+   * change and when it was sent, for the budget spend to follow.
+   */
+  const applyUsageRecords = useCallback(
+    (records: UsageRecord[], resolveModel?: (model: string) => string): { pollen: number; at: number }[] => {
+      // Replies an earlier call already reconciled count as done, so their
+      // records aren't claimed and their deltas aren't reported twice
+      const pending = pendingUsageRef.current;
+      const messages = sessionsRef.current.flatMap((s) => s.messages).map((m) => {
+        if (m.usage) pending.delete(m.id);
+        const usage = pending.get(m.id);
+        return usage ? { ...m, usage } : m;
+      });
+      const matches = reconcileUsage(messages, records, resolveModel);
+      if (matches.size === 0) return [];
+      for (const [id, usage] of matches) pending.set(id, usage);
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (!s.messages.some((m) => matches.has(m.id) && !m.usage)) return s;
+          let pollenDelta = 0;
+          const messages = s.messages.map((m) => {
+            const usage = matches.get(m.id);
+            if (!usage || m.usage) return m;
+            pollenDelta += usageCostDelta(m, usage);
+            return { ...m, usage };
+          });
+          const updated = { ...s, messages, totalPollenSpent: s.totalPollenSpent + pollenDelta };
+          saveSession(updated);
+          return updated;
+        }),
+      );
+      return messages.flatMap((m) => {
+        const usage = matches.get(m.id);
+        return usage ? [{ pollen: usageCostDelta(m, usage), at: m.timestamp }] : [];
+      });
+    },
+    [],
+  );
+
   const renameSession = useCallback(
-    async (id: string, title: string) => {
+    async (id: string, title: string, source: ChatSession['titleSource'] = 'manual') => {
       setSessions((prev) =>
         prev.map((s) => {
           if (s.id !== id) return s;
-          const updated = { ...s, title, updatedAt: Date.now() };
+          const updated = { ...s, title, titleSource: source, updatedAt: Date.now() };
+          saveSession(updated);
+          return updated;
+        }),
+      );
+    },
+    [],
+  );
+
+  /** Change the context strategy or cache a new context summary */
+  const updateSessionContext = useCallback(
+    async (id: string, patch: Partial<Pick<ChatSession, 'contextStrategy' | 'contextSummary'>>) => {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== id) return s;
+          const updated = { ...s, ...patch };
+          saveSession(updated);
+          return updated;
+        }),
+      );
+    },
+    [],
+  );
+
+  /** Change the chat's model, preset, own setting overrides or knowledge collections */
+  const updateSessionSettings = useCallback(
+    async (id: string, patch: Partial<Pick<ChatSession, 'model' | 'presetId' | 'overrides' | 'knowledgeCollectionIds'>>) => {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== id) return s;
+          const updated = { ...s, ...patch };
           saveSession(updated);
           return updated;
         }),
@@ -142,18 +243,18 @@ export function useLocalSession() {
     setActiveSessionId((prevId) => (prevId === id ? null : prevId));
   }, []);
 
-  /** Remove a single message by ID */
+  /** Remove a single message by ID; its replies move up to its parent */
   const deleteMessage = useCallback(
     async (sessionId: string, messageId: string) => {
       setSessions((prev) =>
         prev.map((s) => {
           if (s.id !== sessionId) return s;
           const updated = {
-            ...s,
-            messages: s.messages.filter((m) => m.id !== messageId),
+            ...removeMessage(s, messageId),
             updatedAt: Date.now(),
           };
           saveSession(updated);
+          deleteMedia(collectMediaIds(s.messages.filter((m) => m.id === messageId)));
           return updated;
         }),
       );
@@ -161,20 +262,61 @@ export function useLocalSession() {
     [],
   );
 
-  /** Remove a specific message and all messages after it in a session */
-  const deleteMessagesFrom = useCallback(
+  /** Make the branch containing a message the active one */
+  const switchBranch = useCallback(
     async (sessionId: string, messageId: string) => {
       setSessions((prev) =>
         prev.map((s) => {
           if (s.id !== sessionId) return s;
-          const idx = s.messages.findIndex((m) => m.id === messageId);
-          if (idx === -1) return s;
-          const updated = {
-            ...s,
-            messages: s.messages.slice(0, idx),
-            updatedAt: Date.now(),
-          };
+          const updated = switchBranchInTree(s, messageId);
+          saveSession(updated);
+          return updated;
+        }),
+      );
+    },
+    [],
+  );
+
+  /** Record a side-by-side comparison (or update its winner) */
+  const saveComparison = useCallback(
+    async (sessionId: string, comparison: Comparison) => {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sessionId) return s;
+          const updated = upsertComparison(s, comparison);
+          saveSession(updated);
+          return updated;
+        }),
+      );
+    },
+    [],
+  );
+
+  /** Continue the conversation from one of a comparison's replies */
+  const pickComparisonWinner = useCallback(
+    async (sessionId: string, comparisonId: string, replyId: string) => {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sessionId) return s;
+          const updated = selectWinner(s, comparisonId, replyId);
+          saveSession(updated);
+          return updated;
+        }),
+      );
+    },
+    [],
+  );
+
+  /** Remove a message and every reply below it in the tree */
+  const pruneBranch = useCallback(
+    async (sessionId: string, messageId: string) => {
+      setSessions((prev) =>
+        prev.map((s) => {
+          if (s.id !== sessionId) return s;
+          const { session: pruned, removed } = pruneBranchInTree(s, messageId);
+          const updated = { ...pruned, updatedAt: Date.now() };
           saveSession(updated);
+          deleteMedia(collectMediaIds(removed));
           return updated;
         }),
       );
@@ -210,11 +352,15 @@ export function useLocalSession() {
   }, []);
 
   const importSessions = useCallback(async (imported: ChatSession[]) => {
-    for (const s of imported) {
+    // Move media bytes inlined by a JSON export back into the media store
+    const sessionsToSave = await extractInlinedMedia(imported, (id, sessionId, blob) =>
+      saveMedia({ id, sessionId, blob, mimeType: blob.type, createdAt: Date.now() }),
+    );
+    for (const s of sessionsToSave) {
       await saveSession(s);
     }
     // reload
-    const all = await getAllSessions();
+    const all = (await getAllSessions()).map(ensureTree);
     setSessions(all);
   }, []);
 
@@ -228,10 +374,16 @@ export function useLocalSession() {
     addMessage,
     updateMessage,
     updateSessionPollen,
+    applyUsageRecords,
     renameSession,
+    updateSessionContext,
+    updateSessionSettings,
     deleteSession: deleteSessionById,
     deleteMessage,
-    deleteMessagesFrom,
+    switchBranch,
+    pruneBranch,
+    saveComparison,
+    pickComparisonWinner,
     replaceMessageContent,
     importSessions,
     clearAll,
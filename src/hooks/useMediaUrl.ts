@@ -0,0 +1,44 @@
+/**
+ * Hook: resolve an attachment to a displayable URL.
+ *
+ * Uploaded attachments carry their own data URL. Generated media lives in
+ * the IndexedDB media store and is loaded lazily, exposed as an object URL
+ * that is revoked when the component unmounts.
+ */
+
+import { useState, useEffect } from 'react';
+import type { MessageAttachment } from '../types';
+import { getMedia } from '../lib/storage';
+
+export function useMediaUrl(attachment: MessageAttachment): {
+  url: string | null;
+  missing: boolean;
+} {
+  const { dataUrl, mediaId } = attachment;
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    if (dataUrl || !mediaId) return;
+    let cancelled = false;
+    let created: string | null = null;
+
+    getMedia(mediaId).then((record) => {
+      if (cancelled) return;
+      if (!record) {
+        setMissing(true);
+        return;
+      }
+      created = URL.createObjectURL(record.blob);
+      setObjectUrl(created);
+    });
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [dataUrl, mediaId]);
+
+  if (dataUrl) return { url: dataUrl, missing: false };
+  return { url: objectUrl, missing: missing || !mediaId };
+}
@@ -0,0 +1,37 @@
+/**
+ * Hook: named settings presets stored in IndexedDB.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SettingsPreset } from '../types';
+import {
+  getAllPresets,
+  savePreset as savePresetToDB,
+  deletePreset as deletePresetFromDB,
+} from '../lib/storage';
+
+function byName(a: SettingsPreset, b: SettingsPreset): number {
+  return a.name.localeCompare(b.name);
+}
+
+export function usePresets() {
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+
+  useEffect(() => {
+    getAllPresets().then(setPresets);
+  }, []);
+
+  /** Add a preset or replace the one with the same id */
+  const savePreset = useCallback(async (preset: SettingsPreset) => {
+    setPresets((prev) => [...prev.filter((p) => p.id !== preset.id), preset].sort(byName));
+    await savePresetToDB(preset);
+  }, []);
+
+  /** Chats that used the preset fall back to their overrides and the defaults */
+  const deletePreset = useCallback(async (id: string) => {
+    setPresets((prev) => prev.filter((p) => p.id !== id));
+    await deletePresetFromDB(id);
+  }, []);
+
+  return { presets, savePreset, deletePreset };
+}
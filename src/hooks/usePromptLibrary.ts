@@ -0,0 +1,37 @@
+/**
+ * Hook: the prompt template library stored in IndexedDB.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PromptTemplate } from '../types';
+import {
+  getAllPromptTemplates,
+  savePromptTemplates,
+  deletePromptTemplate as deletePromptTemplateFromDB,
+} from '../lib/storage';
+
+function byName(a: PromptTemplate, b: PromptTemplate): number {
+  return a.name.localeCompare(b.name);
+}
+
+export function usePromptLibrary() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+
+  useEffect(() => {
+    getAllPromptTemplates().then(setTemplates);
+  }, []);
+
+  /** Add templates or replace the ones with the same ids (imports update shared templates) */
+  const saveTemplates = useCallback(async (next: PromptTemplate[]) => {
+    const ids = new Set(next.map((t) => t.id));
+    setTemplates((prev) => [...prev.filter((t) => !ids.has(t.id)), ...next].sort(byName));
+    await savePromptTemplates(next);
+  }, []);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+    await deletePromptTemplateFromDB(id);
+  }, []);
+
+  return { templates, saveTemplates, deleteTemplate };
+}
@@ -0,0 +1,116 @@
+/**
+ * Hook: read assistant replies aloud.
+ *
+ * A reply is spoken chunk by chunk through one audio element; the next
+ * chunk is synthesized while the current one plays. Synthesized chunks are
+ * kept in the media store and referenced from the message, so replaying
+ * (or reloading and replaying) doesn't call the API again.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuid } from 'uuid';
+import type { ChatMessage, SpeechCache } from '../types';
+import { getMedia, saveMedia } from '../lib/storage';
+import { speechCacheKey, splitForSpeech, stripMarkdownForSpeech } from '../lib/speech';
+
+export type ReadAloudStatus = 'loading' | 'playing';
+
+/** Speaks one chunk of text with the given model and voice */
+export type SpeakFn = (text: string, model: string, voice: string) => Promise<Blob>;
+
+interface ReadAloudOptions {
+  /** Synthesizes chunks that aren't cached; rejecting with an AbortError stops quietly */
+  synthesize: SpeakFn;
+  sessionId: string | null;
+  /** Audio model and voice to speak with; read aloud is off without a model */
+  model: string | undefined;
+  voice: string;
+  onCached: (messageId: string, speech: SpeechCache) => void;
+  onError: (err: unknown) => void;
+}
+
+export function useReadAloud({ synthesize, sessionId, model, voice, onCached, onError }: ReadAloudOptions) {
+  const [current, setCurrent] = useState<{ messageId: string; status: ReadAloudStatus } | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  /** Bumped on every start/stop; a run that sees a newer value gives up */
+  const runRef = useRef(0);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    audioRef.current?.pause();
+    setCurrent(null);
+  }, []);
+
+  // Stop speaking when the chat changes or the page goes away
+  useEffect(() => stop, [sessionId, stop]);
+
+  const play = useCallback(async (message: ChatMessage) => {
+    if (!model || !sessionId) return;
+    const run = ++runRef.current;
+    audioRef.current?.pause();
+    setCurrent({ messageId: message.id, status: 'loading' });
+
+    const chunks = splitForSpeech(stripMarkdownForSpeech(message.content));
+    const key = speechCacheKey(chunks.join('\n'), voice, model);
+    const cached = message.speech?.key === key ? message.speech.mediaIds : [];
+    const mediaIds: string[] = [];
+    let synthesized = false;
+
+    /** Audio for chunk `i`, from the cache when possible */
+    const load = async (i: number): Promise<Blob> => {
+      const hit = cached[i] ? await getMedia(cached[i]) : undefined;
+      if (hit) {
+        mediaIds[i] = hit.id;
+        return hit.blob;
+      }
+      const blob = await synthesize(chunks[i], model, voice);
+      const id = uuid();
+      await saveMedia({ id, sessionId, blob, mimeType: blob.type || 'audio/mpeg', createdAt: Date.now() });
+      mediaIds[i] = id;
+      synthesized = true;
+      return blob;
+    };
+
+    const audio = audioRef.current ?? new Audio();
+    audioRef.current = audio;
+    try {
+      let next = chunks.length > 0 ? load(0) : null;
+      for (let i = 0; next; i++) {
+        const blob = await next;
+        if (run !== runRef.current) return;
+        // Prefetch while this chunk plays
+        next = i + 1 < chunks.length ? load(i + 1) : null;
+        next?.catch(() => {}); // surfaced when awaited
+
+        const url = URL.createObjectURL(blob);
+        try {
+          audio.src = url;
+          setCurrent({ messageId: message.id, status: 'playing' });
+          await new Promise<void>((resolve, reject) => {
+            audio.onended = () => resolve();
+            audio.onpause = () => resolve();
+            audio.onerror = () => reject(new Error('Audio playback failed'));
+            audio.play().catch(reject);
+          });
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+        if (run !== runRef.current) return;
+        if (!audio.ended) break; // paused by the user
+      }
+      if (synthesized && mediaIds.length === chunks.length) onCached(message.id, { key, mediaIds });
+    } catch (err) {
+      if (run === runRef.current && (err as Error).name !== 'AbortError') onError(err);
+    } finally {
+      if (run === runRef.current) setCurrent(null);
+    }
+  }, [synthesize, sessionId, model, voice, onCached, onError]);
+
+  /** Start reading a message, or stop if it is the one being read */
+  const toggle = useCallback((message: ChatMessage) => {
+    if (current?.messageId === message.id) stop();
+    else play(message);
+  }, [current, play, stop]);
+
+  return { current, toggle, stop, available: !!model };
+}
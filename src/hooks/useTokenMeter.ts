@@ -1,35 +1,72 @@
 /**
- * Hook: live token meter — tracks estimated token usage for the composer.
+ * Hook: live token meter — tracks token usage for the composer.
+ *
+ * Counts start out heuristic and switch to exact BPE counts once the
+ * tokenizer worker has counted the current texts.
  */
 
-import { useState, useCallback, useMemo } from 'react';
-import { estimateTokens, estimateMessagesTokens } from '../lib/tokenizer';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  countTokens,
+  countTokensExact,
+  estimateMessagesTokens,
+  hasExactCount,
+  type TokenizerEncoding,
+} from '../lib/tokenizer';
 import type { ChatMessage } from '../types';
 
+/** Wait for typing/streaming to settle before asking the worker */
+const EXACT_COUNT_DEBOUNCE_MS = 150;
+
 export function useTokenMeter(
   history: ChatMessage[],
   maxInputTokens: number,
   systemPrompt: string,
+  encoding: TokenizerEncoding | null = null,
 ) {
   const [composerText, setComposerText] = useState('');
+  // Bumped when exact counts arrive from the worker
+  const [exactVersion, setExactVersion] = useState(0);
+
+  useEffect(() => {
+    if (!encoding) return;
+    const texts = [systemPrompt, composerText, ...history.map((m) => m.content)];
+    if (texts.every((t) => hasExactCount(t, encoding))) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      countTokensExact(texts, encoding).then(() => {
+        if (!cancelled) setExactVersion((v) => v + 1);
+      });
+    }, EXACT_COUNT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [history, systemPrompt, composerText, encoding]);
+
+  // A new identity whenever exact counts arrive, so the memos below re-read the cache
+  const counter = useMemo(() => ({ encoding, version: exactVersion }), [encoding, exactVersion]);
 
   const historyTokens = useMemo(() => {
     const msgs = history.map((m) => ({ role: m.role, content: m.content }));
-    return estimateMessagesTokens(msgs);
-  }, [history]);
+    return estimateMessagesTokens(msgs, counter.encoding);
+  }, [history, counter]);
 
   const systemTokens = useMemo(
-    () => (systemPrompt ? estimateTokens(systemPrompt) + 4 : 0),
-    [systemPrompt],
+    () => (systemPrompt ? countTokens(systemPrompt, counter.encoding) + 4 : 0),
+    [systemPrompt, counter],
   );
 
   const composerTokens = useMemo(
-    () => estimateTokens(composerText) + 4, // +4 for role/formatting
-    [composerText],
+    () => countTokens(composerText, counter.encoding) + 4, // +4 for role/formatting
+    [composerText, counter],
   );
 
   const totalInputTokens = historyTokens + systemTokens + composerTokens;
   const isOverLimit = totalInputTokens > maxInputTokens;
+  // History can be compacted on send; the new message itself cannot
+  const isMessageOverLimit = systemTokens + composerTokens > maxInputTokens;
   const usageRatio = maxInputTokens > 0 ? totalInputTokens / maxInputTokens : 0;
 
   const updateComposerText = useCallback((text: string) => {
@@ -44,6 +81,7 @@ export function useTokenMeter(
     totalInputTokens,
     maxInputTokens,
     isOverLimit,
+    isMessageOverLimit,
     usageRatio,
     updateComposerText,
   };
@@ -0,0 +1,40 @@
+/**
+ * Hook: the account usage log, merged with the snapshots kept in
+ * IndexedDB so history reaches further back than the API returns.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { UsageRecord } from '../types';
+import { getUsage } from '../lib/pollinations';
+import { getUsageHistory, saveUsageRecords } from '../lib/storage';
+import { mergeUsageRecords } from '../lib/usageAnalytics';
+
+export function useUsageHistory(apiKey: string) {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Fetch the latest records and keep them; stored history still shows if this fails */
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { usage } = await getUsage(apiKey);
+      setRecords((prev) => mergeUsageRecords(prev, usage));
+      setError(null);
+      await saveUsageRecords(usage);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [apiKey]);
+
+  useEffect(() => {
+    getUsageHistory().then((stored) => {
+      setRecords((prev) => mergeUsageRecords(stored, prev));
+      refresh();
+    });
+  }, [refresh]);
+
+  return { records, loading, error, refresh };
+}
@@ -0,0 +1,145 @@
+/**
+ * Attachments in requests — how each attachment on a user message reaches
+ * the model: images as `image_url` parts, audio as `input_audio` parts,
+ * and text-like files (code, CSV, JSON, …) inlined as fenced blocks.
+ * Text read from PDF and DOCX files is added separately (see `documents.ts`).
+ * Anything the model can't take is left out, and the Composer warns first.
+ */
+
+import type { ChatCompletionMessage } from './pollinations';
+import type { MessageAttachment, PollinationsModel } from '../types';
+import { audioFormatFromMime } from './transcription';
+
+/** What a model can take besides text */
+export interface AttachmentInputs {
+  image: boolean;
+  audio: boolean;
+}
+
+/** Longest file text inlined into a prompt; the rest is cut off */
+export const MAX_INLINE_FILE_CHARS = 100_000;
+
+/** Extensions read as text, with the fence language they get */
+const TEXT_FILE_LANGUAGES: Record<string, string> = {
+  txt: '', md: 'markdown', markdown: 'markdown', csv: 'csv', tsv: 'tsv', json: 'json', jsonl: 'json',
+  xml: 'xml', yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', log: '', html: 'html', css: 'css',
+  js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript', ts: 'typescript', tsx: 'tsx',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', c: 'c', h: 'c',
+  cpp: 'cpp', hpp: 'cpp', cs: 'csharp', php: 'php', swift: 'swift', sh: 'bash', bash: 'bash',
+  sql: 'sql', r: 'r', lua: 'lua', vue: 'vue', svelte: 'svelte',
+};
+
+const TEXT_MIME_TYPES = /^(text\/|application\/(json|x-ndjson|xml|javascript|x-javascript|typescript|x-yaml|yaml|toml|x-sh|sql|csv))/i;
+
+export function modelAttachmentInputs(model: PollinationsModel | null | undefined): AttachmentInputs {
+  return {
+    image: !!model && (model.capabilities.vision || model.inputModalities.includes('image')),
+    audio: !!model && model.capabilities.audio,
+  };
+}
+
+/** Inputs every one of the models accepts (for one request sent to several) */
+export function commonAttachmentInputs(models: PollinationsModel[]): AttachmentInputs {
+  const each = models.map(modelAttachmentInputs);
+  return {
+    image: each.length > 0 && each.every((i) => i.image),
+    audio: each.length > 0 && each.every((i) => i.audio),
+  };
+}
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/** Plain text, code, CSV, JSON and similar files */
+export function isTextAttachment(att: Pick<MessageAttachment, 'name' | 'mimeType'>): boolean {
+  return TEXT_MIME_TYPES.test(att.mimeType) || extensionOf(att.name) in TEXT_FILE_LANGUAGES;
+}
+
+/** Whether an attachment can be sent to a model with these inputs */
+export function canSendAttachment(att: MessageAttachment, inputs: AttachmentInputs): boolean {
+  if (att.type === 'image') return inputs.image;
+  if (att.type === 'audio') return inputs.audio;
+  if (att.document) return att.document.chunks.length > 0;
+  return isTextAttachment(att);
+}
+
+/** The attachments that will be left out of the request */
+export function unsupportedAttachments(attachments: MessageAttachment[], inputs: AttachmentInputs): MessageAttachment[] {
+  return attachments.filter((a) => !canSendAttachment(a, inputs));
+}
+
+/** Short description for a warning, e.g. "audio and 2 files" */
+export function describeAttachments(attachments: MessageAttachment[]): string {
+  const counts = new Map<string, number>();
+  for (const a of attachments) counts.set(a.type, (counts.get(a.type) ?? 0) + 1);
+  const parts = [...counts].map(([type, n]) => {
+    if (type === 'audio') return n === 1 ? 'audio' : `${n} audio clips`;
+    return n === 1 ? `the ${type}` : `${n} ${type}s`;
+  });
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] ?? '';
+}
+
+/** `accept` for the file picker: text-like files and documents always, media when the model takes it */
+export function acceptedFileTypes(inputs: AttachmentInputs): string {
+  const textTypes = ['text/*', ...Object.keys(TEXT_FILE_LANGUAGES).map((ext) => `.${ext}`), '.pdf', '.docx'];
+  return [...(inputs.image ? ['image/*'] : []), ...(inputs.audio ? ['audio/*'] : []), ...textTypes].join(',');
+}
+
+/** Text of a `data:` URL (base64 or percent-encoded), decoded as UTF-8 */
+export function decodeDataUrlText(dataUrl: string): string {
+  const comma = dataUrl.indexOf(',');
+  if (!dataUrl.startsWith('data:') || comma < 0) return '';
+  const meta = dataUrl.slice(5, comma);
+  const payload = dataUrl.slice(comma + 1);
+  if (!/;base64$/i.test(meta)) return decodeURIComponent(payload);
+  const binary = atob(payload);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/** A file's text as a fenced block, with a fence longer than any backtick run inside */
+export function formatFileBlock(name: string, text: string): string {
+  const truncated = text.length > MAX_INLINE_FILE_CHARS;
+  const body = truncated ? text.slice(0, MAX_INLINE_FILE_CHARS) : text;
+  const longestRun = Math.max(2, ...(body.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const language = TEXT_FILE_LANGUAGES[extensionOf(name)] ?? '';
+  const note = truncated ? `\n\n*[${name} truncated after ${MAX_INLINE_FILE_CHARS.toLocaleString()} characters]*` : '';
+  return `File: ${name}\n\n${fence}${language}\n${body.replace(/\n$/, '')}\n${fence}${note}`;
+}
+
+/** `input_audio` part for an uploaded audio attachment, if it carries its data */
+function audioPart(att: MessageAttachment): { type: string; [k: string]: unknown } | null {
+  const match = /^data:[^;,]*;base64,(.*)$/s.exec(att.dataUrl);
+  if (!match) return null;
+  return { type: 'input_audio', input_audio: { data: match[1], format: audioFormatFromMime(att.mimeType) } };
+}
+
+/**
+ * Request content for a user message: the text (with inlined files) alone,
+ * or multimodal parts when images or audio go along.
+ */
+export function buildUserContent(
+  text: string,
+  attachments: MessageAttachment[],
+  inputs: AttachmentInputs,
+): ChatCompletionMessage['content'] {
+  const fileBlocks = attachments
+    .filter((a) => a.type === 'file' && isTextAttachment(a) && a.dataUrl)
+    .map((a) => formatFileBlock(a.name, decodeDataUrlText(a.dataUrl)));
+  const fullText = [text, ...fileBlocks].filter(Boolean).join('\n\n');
+
+  const mediaParts: Array<{ type: string; [k: string]: unknown }> = [];
+  for (const att of attachments) {
+    if (att.type === 'image' && inputs.image && att.dataUrl) {
+      mediaParts.push({ type: 'image_url', image_url: { url: att.dataUrl } });
+    } else if (att.type === 'audio' && inputs.audio) {
+      const part = audioPart(att);
+      if (part) mediaParts.push(part);
+    }
+  }
+  if (mediaParts.length === 0) return fullText;
+  return [{ type: 'text', text: fullText }, ...mediaParts];
+}
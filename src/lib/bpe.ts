@@ -0,0 +1,114 @@
+/**
+ * Byte-pair encoder compatible with OpenAI's cl100k_base / o200k_base.
+ *
+ * Vocab files live in `public/tokenizers/<encoding>.json` (from the MIT
+ * licensed tiktoken ranks) and are loaded lazily by the tokenizer worker.
+ * Each file has the pre-tokenizer regex and the merge ranks in a compact
+ * form: lines of `<label> <first rank> <base64 token> <base64 token> …`,
+ * where ranks increase by one per token.
+ *
+ * Special tokens are not recognised — text like `<|endoftext|>` is encoded
+ * as ordinary text, which is what a chat message's content costs.
+ */
+
+export interface BpeRanksFile {
+  pat_str: string;
+  special_tokens: Record<string, number>;
+  bpe_ranks: string;
+}
+
+export interface BpeEncoder {
+  encode: (text: string) => number[];
+  countTokens: (text: string) => number;
+}
+
+/** Cached encodings per pre-tokenized piece; cleared when it grows past this */
+const PIECE_CACHE_LIMIT = 20_000;
+
+/** Bytes as a latin1 string — a compact Map key for byte sequences */
+function bytesToKey(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let key = '';
+  for (let i = start; i < end; i++) key += String.fromCharCode(bytes[i]);
+  return key;
+}
+
+export function parseRanks(bpeRanks: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of bpeRanks.split('\n')) {
+    if (!line) continue;
+    const [, offsetStr, ...tokens] = line.split(' ');
+    const offset = Number.parseInt(offsetStr, 10);
+    tokens.forEach((token, i) => ranks.set(atob(token), offset + i));
+  }
+  return ranks;
+}
+
+/**
+ * Merge the lowest-ranked adjacent pair until no pair is in the vocabulary,
+ * then map each remaining part to its rank.
+ */
+function bytePairEncode(piece: Uint8Array, ranks: Map<string, number>): number[] {
+  // Boundaries between parts; starts as one part per byte
+  const bounds = Array.from({ length: piece.length + 1 }, (_, i) => i);
+  const pairRank = (i: number) =>
+    i + 2 < bounds.length ? ranks.get(bytesToKey(piece, bounds[i], bounds[i + 2])) : undefined;
+
+  const pairRanks = bounds.map((_, i) => pairRank(i));
+  for (;;) {
+    let min = Infinity;
+    let minIdx = -1;
+    for (let i = 0; i < pairRanks.length; i++) {
+      const r = pairRanks[i];
+      if (r !== undefined && r < min) {
+        min = r;
+        minIdx = i;
+      }
+    }
+    if (minIdx === -1) break;
+
+    bounds.splice(minIdx + 1, 1);
+    pairRanks.splice(minIdx + 1, 1);
+    pairRanks[minIdx] = pairRank(minIdx);
+    if (minIdx > 0) pairRanks[minIdx - 1] = pairRank(minIdx - 1);
+  }
+
+  const out: number[] = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const rank = ranks.get(bytesToKey(piece, bounds[i], bounds[i + 1]));
+    if (rank !== undefined) out.push(rank);
+  }
+  return out;
+}
+
+export function createBpeEncoder(file: BpeRanksFile): BpeEncoder {
+  const ranks = parseRanks(file.bpe_ranks);
+  const pattern = new RegExp(file.pat_str, 'gu');
+  const utf8 = new TextEncoder();
+  const cache = new Map<string, number[]>();
+
+  const encodePiece = (piece: string): number[] => {
+    const cached = cache.get(piece);
+    if (cached) return cached;
+    const bytes = utf8.encode(piece);
+    const whole = ranks.get(bytesToKey(bytes));
+    const tokens = whole !== undefined ? [whole] : bytePairEncode(bytes, ranks);
+    if (cache.size >= PIECE_CACHE_LIMIT) cache.clear();
+    cache.set(piece, tokens);
+    return tokens;
+  };
+
+  const encode = (text: string): number[] => {
+    const out: number[] = [];
+    for (const m of text.matchAll(pattern)) out.push(...encodePiece(m[0]));
+    return out;
+  };
+
+  return {
+    encode,
+    countTokens: (text) => {
+      let count = 0;
+      for (const m of text.matchAll(pattern)) count += encodePiece(m[0]).length;
+      return count;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Compare mode — one prompt streamed to several text models at once.
+ *
+ * The replies are ordinary sibling messages under the prompt, tagged with
+ * a `comparisonId`, so the branch tree keeps all of them. A `Comparison`
+ * record on the session remembers the column order and which reply the
+ * conversation continues from. All helpers are pure.
+ */
+
+import type { ChatMessage, ChatSession, Comparison } from '../types';
+import { switchBranch } from './messageTree';
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+/** A comparison with its replies, as rendered in columns */
+export interface ComparisonGroup {
+  comparison: Comparison;
+  replies: ChatMessage[];
+}
+
+/** Add a comparison to the session, or replace the one with the same id */
+export function upsertComparison(session: ChatSession, comparison: Comparison): ChatSession {
+  const others = (session.comparisons ?? []).filter((c) => c.id !== comparison.id);
+  return { ...session, comparisons: [...others, comparison] };
+}
+
+/** Continue the conversation from `replyId` */
+export function selectWinner(session: ChatSession, comparisonId: string, replyId: string): ChatSession {
+  const comparison = session.comparisons?.find((c) => c.id === comparisonId);
+  if (!comparison || !comparison.replyIds.includes(replyId)) return session;
+  return switchBranch(upsertComparison(session, { ...comparison, winnerId: replyId }), replyId);
+}
+
+/**
+ * Comparisons answering prompts on `path`, keyed by prompt id. Deleted
+ * replies drop out; a comparison with fewer than two replies left is
+ * shown as a normal reply again.
+ */
+export function getComparisonGroups(
+  session: ChatSession,
+  path: ChatMessage[],
+): Record<string, ComparisonGroup> {
+  const groups: Record<string, ComparisonGroup> = {};
+  if (!session.comparisons?.length) return groups;
+  const onPath = new Set(path.map((m) => m.id));
+  const byId = new Map(session.messages.map((m) => [m.id, m]));
+
+  for (const comparison of session.comparisons) {
+    if (!onPath.has(comparison.promptId)) continue;
+    const replies = comparison.replyIds
+      .map((id) => byId.get(id))
+      .filter((m): m is ChatMessage => m !== undefined);
+    if (replies.length >= MIN_COMPARE_MODELS) groups[comparison.promptId] = { comparison, replies };
+  }
+  return groups;
+}
+
+/** Toggle a model in the compare selection, keeping at most MAX_COMPARE_MODELS */
+export function toggleCompareModel(selected: string[], model: string): string[] {
+  if (selected.includes(model)) return selected.filter((m) => m !== model);
+  if (selected.length >= MAX_COMPARE_MODELS) return selected;
+  return [...selected, model];
+}
@@ -0,0 +1,178 @@
+/**
+ * Context-window management — decides which history goes into a request
+ * when the conversation no longer fits the model's input limit.
+ *
+ * Strategies (chosen per session):
+ * • truncate        — drop the oldest messages until the rest fits
+ * • sliding-window  — keep only the last SLIDING_WINDOW_MESSAGES, then truncate
+ * • summarize       — like truncate, but the dropped turns are folded into a
+ *                     rolling summary (written by a cheap model) that is sent
+ *                     in their place and cached on the session
+ */
+
+import type { ChatMessage, ContextCompaction, ContextStrategy, ContextSummary } from '../types';
+import { generateCompletion, type ChatCompletionMessage } from './pollinations';
+import { countTokens, type TokenizerEncoding } from './tokenizer';
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'truncate';
+
+/** Messages kept by the sliding-window strategy */
+export const SLIDING_WINDOW_MESSAGES = 20;
+
+/** Room left in the budget for the summary message */
+export const SUMMARY_TOKEN_RESERVE = 600;
+
+/** Longest excerpt of a single message sent to the summarizer */
+const SUMMARY_MESSAGE_CHARS = 4_000;
+
+export const CONTEXT_STRATEGY_LABELS: Record<ContextStrategy, { label: string; description: string }> = {
+  truncate: {
+    label: 'Truncate',
+    description: 'Drop the oldest messages when the context is full',
+  },
+  'sliding-window': {
+    label: 'Sliding window',
+    description: `Only send the last ${SLIDING_WINDOW_MESSAGES} messages`,
+  },
+  summarize: {
+    label: 'Summarize',
+    description: 'Replace the oldest messages with a running summary',
+  },
+};
+
+export interface ContextPlan {
+  /** Messages sent as-is, oldest first; always ends with the newest message */
+  kept: ChatMessage[];
+  /** Oldest messages left out, oldest first */
+  evicted: ChatMessage[];
+}
+
+function messageTokens(m: ChatMessage, encoding?: TokenizerEncoding | null): number {
+  return countTokens(m.content, encoding) + 4; // role + formatting overhead
+}
+
+/**
+ * Split the history (ending with the new user message) into what fits and
+ * what has to go.
+ *
+ * @param reservedTokens - tokens already spoken for (system prompt, summary)
+ */
+export function planContext(
+  history: ChatMessage[],
+  strategy: ContextStrategy,
+  maxTokens: number,
+  reservedTokens = 0,
+  encoding?: TokenizerEncoding | null,
+): ContextPlan {
+  let start = 0;
+  if (strategy === 'sliding-window') {
+    start = Math.max(0, history.length - SLIDING_WINDOW_MESSAGES);
+  }
+
+  let total = reservedTokens + 2; // priming tokens
+  for (let i = start; i < history.length; i++) total += messageTokens(history[i], encoding);
+
+  // Never evict the newest message — the request is pointless without it
+  while (total > maxTokens && start < history.length - 1) {
+    total -= messageTokens(history[start], encoding);
+    start++;
+  }
+  // Don't open the context with a reply whose question was dropped
+  while (start > 0 && start < history.length - 1 && history[start].role === 'assistant') {
+    start++;
+  }
+
+  return { kept: history.slice(start), evicted: history.slice(0, start) };
+}
+
+/** The note shown on a reply whose context lost earlier turns */
+export function describeCompaction(plan: ContextPlan, strategy: ContextStrategy): ContextCompaction | undefined {
+  if (plan.evicted.length === 0) return undefined;
+  return { strategy, compacted: plan.evicted.length, summarized: strategy === 'summarize' };
+}
+
+/**
+ * What the summarizer still has to read: the cached summary covers the
+ * evicted prefix up to `throughMessageId`, so only later evictions are new.
+ * A summary from another branch or a longer prefix is ignored.
+ */
+export function pendingForSummary(
+  evicted: ChatMessage[],
+  cached?: ContextSummary,
+): { previous?: ContextSummary; pending: ChatMessage[] } {
+  const idx = cached ? evicted.findIndex((m) => m.id === cached.throughMessageId) : -1;
+  if (!cached || idx === -1) return { pending: evicted };
+  return { previous: cached, pending: evicted.slice(idx + 1) };
+}
+
+/** Prompt for folding `pending` into the previous summary */
+export function buildSummaryMessages(
+  previousSummary: string | undefined,
+  pending: ChatMessage[],
+): ChatCompletionMessage[] {
+  const transcript = pending
+    .map((m) => {
+      const speaker = m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System';
+      const text = m.content.length > SUMMARY_MESSAGE_CHARS
+        ? `${m.content.slice(0, SUMMARY_MESSAGE_CHARS)}…`
+        : m.content;
+      return `${speaker}: ${text}`;
+    })
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You compress chat history. Summarize the conversation so it can replace the original messages as context. ' +
+        'Keep facts, decisions, names, numbers, code identifiers, user preferences and open questions. ' +
+        'Write plain prose in the third person, no preamble, under 250 words.',
+    },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Summary so far:\n${previousSummary}\n\nFold in these later messages:\n\n${transcript}`
+        : `Messages:\n\n${transcript}`,
+    },
+  ];
+}
+
+/** The system message that stands in for the evicted turns */
+export function summaryContextMessage(summary: ContextSummary): ChatCompletionMessage {
+  return {
+    role: 'system',
+    content: `Summary of the earlier conversation (${summary.messageCount} messages, no longer shown verbatim):\n${summary.content}`,
+  };
+}
+
+/**
+ * Bring the cached summary up to date with `evicted`. Returns the summary
+ * to use and the usage of the summarizer call (none when the cache was
+ * already current).
+ */
+export async function updateContextSummary(
+  apiKey: string,
+  model: string,
+  evicted: ChatMessage[],
+  cached?: ContextSummary,
+  signal?: AbortSignal,
+): Promise<{ summary: ContextSummary; usage?: { prompt_tokens: number; completion_tokens: number } }> {
+  const { previous, pending } = pendingForSummary(evicted, cached);
+  if (previous && pending.length === 0) return { summary: previous };
+
+  const { content, usage } = await generateCompletion(
+    apiKey,
+    { model, messages: buildSummaryMessages(previous?.content, pending), max_tokens: 500 },
+    signal,
+  );
+  return {
+    summary: {
+      content,
+      throughMessageId: evicted[evicted.length - 1].id,
+      messageCount: evicted.length,
+      model,
+      createdAt: Date.now(),
+    },
+    usage,
+  };
+}
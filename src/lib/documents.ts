@@ -0,0 +1,426 @@
+/**
+ * Document attachments — PDF and DOCX uploads are read into text (in
+ * `documents.worker.ts` when workers are available), split into chunks
+ * that keep their page or section, and counted with the tokenizer.
+ *
+ * At send time a document that fits the budget goes in whole; a larger
+ * one contributes the chunks that best match the user's question. The
+ * chunks sent are kept on the reply as sources, so `[p. 3]` citations in
+ * it can link back to the page they came from.
+ */
+
+import type { DocumentChunk, DocumentExtract, DocumentSource, MessageAttachment } from '../types';
+import { countTokens, countTokensExact, type TokenizerEncoding } from './tokenizer';
+import { extractPdfPages } from './pdfText';
+import { extractDocxBlocks } from './docxText';
+
+export type DocumentKind = DocumentExtract['kind'];
+
+/** A paragraph of extracted text with where it was found */
+export interface DocumentBlock {
+  text: string;
+  page?: number;
+  heading?: boolean;
+}
+
+/** Message protocol between `ingestDocument` and `documents.worker.ts` */
+export interface DocumentExtractRequest {
+  id: number;
+  kind: DocumentKind;
+  bytes: Uint8Array;
+}
+
+export type DocumentExtractResponse =
+  | { id: number; blocks: DocumentBlock[] }
+  | { id: number; error: string };
+
+/** Target chunk size — small enough to pick pages selectively */
+export const DOCUMENT_CHUNK_TOKENS = 400;
+
+/** Share of the context window document text may take */
+export const DOCUMENT_CONTEXT_SHARE = 0.5;
+
+/** Longest excerpt kept on a reply for citation tooltips */
+const EXCERPT_CHARS = 240;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export function documentKind(att: Pick<MessageAttachment, 'name' | 'mimeType'>): DocumentKind | null {
+  const name = att.name.toLowerCase();
+  if (att.mimeType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (att.mimeType === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+  return null;
+}
+
+/** One block per paragraph of plain text */
+export function textBlocks(text: string): DocumentBlock[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => ({ text: p }));
+}
+
+/** One block per paragraph of each PDF page (pages are 1-based) */
+export function pdfBlocks(pages: string[]): DocumentBlock[] {
+  return pages.flatMap((text, i) => textBlocks(text).map((b) => ({ ...b, page: i + 1 })));
+}
+
+/** Read a document's blocks on the current thread */
+export async function extractDocumentBlocks(bytes: Uint8Array, kind: DocumentKind): Promise<DocumentBlock[]> {
+  return kind === 'pdf' ? pdfBlocks(await extractPdfPages(bytes)) : extractDocxBlocks(bytes);
+}
+
+/** Split a paragraph too long for one chunk at sentence (or, failing that, word) boundaries */
+function splitLongText(text: string, maxTokens: number, encoding?: TokenizerEncoding | null): string[] {
+  if (countTokens(text, encoding) <= maxTokens) return [text];
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [text];
+  const units = sentences.flatMap((s) => (countTokens(s, encoding) > maxTokens ? s.split(/(?<=\s)/) : [s]));
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && countTokens(current + unit, encoding) > maxTokens) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += unit;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Group blocks into chunks of about `maxTokens`. A chunk never spans two
+ * pages, and a heading always starts a new one and names the section of
+ * the chunks that follow.
+ */
+export function chunkBlocks(
+  blocks: DocumentBlock[],
+  encoding?: TokenizerEncoding | null,
+  maxTokens = DOCUMENT_CHUNK_TOKENS,
+): Omit<DocumentExtract, 'kind'> {
+  const chunks: DocumentChunk[] = [];
+  let section: string | undefined;
+  let parts: string[] = [];
+  let page: number | undefined;
+  let tokens = 0;
+
+  const flush = () => {
+    if (parts.length === 0) return;
+    const text = parts.join('\n\n');
+    chunks.push({
+      index: chunks.length,
+      text,
+      ...(page !== undefined && { page }),
+      ...(section && { section }),
+      tokens: countTokens(text, encoding),
+    });
+    parts = [];
+    tokens = 0;
+  };
+
+  for (const block of blocks) {
+    if (block.page !== page || block.heading) flush();
+    page = block.page;
+    if (block.heading) section = block.text.slice(0, 120);
+    for (const piece of splitLongText(block.text, maxTokens, encoding)) {
+      const pieceTokens = countTokens(piece, encoding);
+      if (tokens > 0 && tokens + pieceTokens > maxTokens) flush();
+      parts.push(piece);
+      tokens += pieceTokens;
+    }
+  }
+  flush();
+
+  const pages = blocks.map((b) => b.page ?? 0);
+  const pageCount = Math.max(0, ...pages);
+  return {
+    ...(pageCount > 0 && { pageCount }),
+    chunks,
+    totalTokens: chunks.reduce((sum, c) => sum + c.tokens, 0),
+  };
+}
+
+export function chunkDocument(
+  blocks: DocumentBlock[],
+  kind: DocumentKind,
+  encoding?: TokenizerEncoding | null,
+  maxTokens = DOCUMENT_CHUNK_TOKENS,
+): DocumentExtract {
+  return { kind, ...chunkBlocks(blocks, encoding, maxTokens) };
+}
+
+/** Replace heuristic chunk sizes with exact counts from the tokenizer worker */
+export async function countChunkTokens<T extends Omit<DocumentExtract, 'kind'>>(
+  extract: T,
+  encoding: TokenizerEncoding,
+): Promise<T> {
+  const counts = await countTokensExact(extract.chunks.map((c) => c.text), encoding);
+  return {
+    ...extract,
+    chunks: extract.chunks.map((c, i) => ({ ...c, tokens: counts[i] })),
+    totalTokens: counts.reduce((sum, n) => sum + n, 0),
+  };
+}
+
+// ─── Extraction worker ───────────────────────────────────────────
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (response: DocumentExtractResponse | null) => void>();
+
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker;
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./documents.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<DocumentExtractResponse>) => {
+      const resolve = pendingRequests.get(e.data.id);
+      pendingRequests.delete(e.data.id);
+      resolve?.(e.data);
+    };
+    worker.onerror = () => {
+      console.warn('[documents] Worker failed, reading documents on the main thread');
+      workerUnavailable = true;
+      worker?.terminate();
+      worker = null;
+      for (const resolve of pendingRequests.values()) resolve(null);
+      pendingRequests.clear();
+    };
+  } catch {
+    workerUnavailable = true;
+  }
+  return worker;
+}
+
+async function extractInWorker(bytes: Uint8Array, kind: DocumentKind): Promise<DocumentBlock[]> {
+  const w = getWorker();
+  const response = w
+    ? await new Promise<DocumentExtractResponse | null>((resolve) => {
+        const id = ++nextRequestId;
+        pendingRequests.set(id, resolve);
+        const request: DocumentExtractRequest = { id, kind, bytes };
+        w.postMessage(request);
+      })
+    : null;
+  if (!response) return extractDocumentBlocks(bytes, kind);
+  if ('error' in response) throw new Error(response.error);
+  return response.blocks;
+}
+
+/**
+ * Read an uploaded document into chunks. Token counts are exact when the
+ * tokenizer worker is available for `encoding`, heuristic otherwise.
+ */
+export async function ingestDocument(
+  bytes: Uint8Array,
+  kind: DocumentKind,
+  encoding?: TokenizerEncoding | null,
+): Promise<DocumentExtract> {
+  const blocks = await extractInWorker(bytes, kind);
+  if (blocks.length === 0) {
+    throw new Error(kind === 'pdf' ? 'No text found — the PDF may be scanned images' : 'No text found in the document');
+  }
+  if (encoding) {
+    // Warm the exact-count cache so chunking below sees exact sizes
+    await countTokensExact(blocks.map((b) => b.text), encoding);
+  }
+  const extract = chunkDocument(blocks, kind, encoding);
+  return encoding ? countChunkTokens(extract, encoding) : extract;
+}
+
+/** Short status for an attachment chip, e.g. "12 pages · 8.4k tokens" */
+export function describeDocument(doc: Pick<DocumentExtract, 'pageCount' | 'chunks' | 'totalTokens'>): string {
+  const tokens = doc.totalTokens >= 1000 ? `${(doc.totalTokens / 1000).toFixed(1)}k` : String(doc.totalTokens);
+  const size = doc.pageCount ? `${doc.pageCount} page${doc.pageCount === 1 ? '' : 's'}` : `${doc.chunks.length} part${doc.chunks.length === 1 ? '' : 's'}`;
+  return `${size} · ${tokens} tokens`;
+}
+
+// ─── Selection ───────────────────────────────────────────────────
+
+const STOPWORDS = new Set(
+  'the and for are but not you all any can had her was one our out has him his how its may new now old see two who did get let put say she too use what when where which with this that from have they will your about into than then them these those there their would could should does some more most such only also just like'.split(' '),
+);
+
+/** Lowercase content words of a text */
+export function queryTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((w) => w.length > 2 && !STOPWORDS.has(w));
+}
+
+/** How well a chunk matches the query: matched term occurrences, damped by chunk length */
+function scoreChunk(chunk: DocumentChunk, terms: Set<string>): number {
+  if (terms.size === 0) return 0;
+  const words = queryTerms(chunk.text);
+  let hits = 0;
+  const matched = new Set<string>();
+  for (const w of words) {
+    if (terms.has(w)) {
+      hits++;
+      matched.add(w);
+    }
+  }
+  // Covering more distinct terms counts for more than repeating one
+  return (matched.size * 2 + Math.log1p(hits)) / Math.sqrt(1 + words.length / 100);
+}
+
+/** A chunk picked for the prompt */
+export interface SelectedChunk {
+  attachment: MessageAttachment;
+  chunk: DocumentChunk;
+}
+
+export interface DocumentSelection {
+  chunks: SelectedChunk[];
+  tokens: number;
+  /** Whether every chunk of every document fit */
+  complete: boolean;
+}
+
+/**
+ * Choose document chunks for a prompt: all of them when they fit in
+ * `budget` tokens, otherwise the best matches for `query` (in document
+ * order, so the excerpts read naturally).
+ */
+export function selectDocumentChunks(
+  attachments: MessageAttachment[],
+  query: string,
+  budget: number,
+): DocumentSelection {
+  const all: SelectedChunk[] = attachments.flatMap((attachment) =>
+    (attachment.document?.chunks ?? []).map((chunk) => ({ attachment, chunk })),
+  );
+  const total = all.reduce((sum, c) => sum + c.chunk.tokens, 0);
+  if (total <= budget) return { chunks: all, tokens: total, complete: true };
+
+  const terms = new Set(queryTerms(query));
+  const ranked = all
+    .map((entry, order) => ({ entry, order, score: scoreChunk(entry.chunk, terms) }))
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const picked: typeof ranked = [];
+  let tokens = 0;
+  for (const candidate of ranked) {
+    if (tokens + candidate.entry.chunk.tokens > budget) continue;
+    picked.push(candidate);
+    tokens += candidate.entry.chunk.tokens;
+  }
+  picked.sort((a, b) => a.order - b.order);
+  return { chunks: picked.map((p) => p.entry), tokens, complete: false };
+}
+
+/** Citation label for a chunk, e.g. "p. 3" or "part 2" */
+export function chunkLabel(chunk: Pick<DocumentChunk, 'page' | 'index'>): string {
+  return chunk.page !== undefined ? `p. ${chunk.page}` : `part ${chunk.index + 1}`;
+}
+
+/**
+ * The excerpts as prompt text, grouped by document, each labelled with the
+ * page (or part) the model should cite.
+ */
+export function formatDocumentContext(selection: DocumentSelection): string {
+  if (selection.chunks.length === 0) return '';
+  const byDocument = new Map<MessageAttachment, DocumentChunk[]>();
+  for (const { attachment, chunk } of selection.chunks) {
+    byDocument.set(attachment, [...(byDocument.get(attachment) ?? []), chunk]);
+  }
+  const multiple = byDocument.size > 1;
+
+  const sections = [...byDocument].map(([att, chunks]) => {
+    const doc = att.document!;
+    const size = doc.pageCount ? ` (${doc.pageCount} page${doc.pageCount === 1 ? '' : 's'})` : '';
+    const body = chunks
+      .map((c) => {
+        const label = multiple ? `${att.name}, ${chunkLabel(c)}` : chunkLabel(c);
+        const section = c.section ? ` — ${c.section}` : '';
+        return `[${label}]${section}\n${c.text}`;
+      })
+      .join('\n\n');
+    return `Document: ${att.name}${size}\n\n${body}`;
+  });
+
+  const example = multiple ? `[${[...byDocument.keys()][0].name}, p. 3]` : '[p. 3]';
+  const coverage = selection.complete ? 'The full text follows' : 'Excerpts relevant to the question follow';
+  return [
+    `${coverage}. When you use it, cite the label in brackets, like ${example}.`,
+    ...sections,
+  ].join('\n\n');
+}
+
+/** The selected chunks as sources to keep on the reply */
+export function documentSources(selection: DocumentSelection): DocumentSource[] {
+  return selection.chunks.map(({ attachment, chunk }) => ({
+    attachmentId: attachment.id,
+    name: attachment.name,
+    chunkIndex: chunk.index,
+    ...(chunk.page !== undefined && { page: chunk.page }),
+    ...(chunk.section && { section: chunk.section }),
+    excerpt: chunk.text.length > EXCERPT_CHARS ? `${chunk.text.slice(0, EXCERPT_CHARS).trimEnd()}…` : chunk.text,
+  }));
+}
+
+// ─── Citations ───────────────────────────────────────────────────
+
+/** `[p. 3]`, `[pp. 3–4]`, `[part 2]`, optionally prefixed with a document name */
+const CITATION_PATTERN = /\[(?:([^[\]\n]{1,120}?),\s*)?(pp?\.|part)\s*(\d+)(?:\s*[–-]\s*(\d+))?\](?!\()/g;
+
+export interface Citation {
+  /** Offset of the citation in the text */
+  start: number;
+  end: number;
+  label: string;
+  /** Sources it points at (index into the message's sources) */
+  sources: number[];
+}
+
+/** Citations in a reply that match one of its sources */
+export function findCitations(text: string, sources: DocumentSource[]): Citation[] {
+  const citations: Citation[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const [full, name, unit, from, to] = match;
+    const first = Number(from);
+    const last = Math.max(first, Number(to ?? from));
+    const byPage = unit !== 'part';
+    const matches = sources
+      .map((s, i) => ({ s, i }))
+      .filter(({ s }) => !name || s.name.toLowerCase() === name.trim().toLowerCase())
+      .filter(({ s }) => {
+        const n = byPage ? s.page : s.page === undefined ? s.chunkIndex + 1 : undefined;
+        return n !== undefined && n >= first && n <= last;
+      })
+      .map(({ i }) => i);
+    if (matches.length === 0) continue;
+    citations.push({ start: match.index, end: match.index + full.length, label: full.slice(1, -1), sources: matches });
+  }
+  return citations;
+}
+
+/**
+ * Rewrite citations as `#cite-…` markdown links so the renderer can draw
+ * them as chips. Fenced code is left alone.
+ */
+export function linkCitations(markdown: string, sources: DocumentSource[]): string {
+  if (sources.length === 0) return markdown;
+  return markdown
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((segment, i) => {
+      if (i % 2 === 1) return segment;
+      let out = '';
+      let last = 0;
+      for (const c of findCitations(segment, sources)) {
+        out += `${segment.slice(last, c.start)}[${c.label}](#cite-${c.sources.join('-')})`;
+        last = c.end;
+      }
+      return out + segment.slice(last);
+    })
+    .join('');
+}
+
+/** Source indexes from a `#cite-…` link, or null for other links */
+export function parseCitationHref(href: string | undefined): number[] | null {
+  const match = /^#cite-(\d+(?:-\d+)*)$/.exec(href ?? '');
+  return match ? match[1].split('-').map(Number) : null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Web Worker that reads PDF and DOCX text off the main thread, so large
+ * uploads don't stall typing while they are parsed and inflated.
+ */
+
+import { extractDocumentBlocks, type DocumentExtractRequest, type DocumentExtractResponse } from './documents';
+
+self.onmessage = async (e: MessageEvent<DocumentExtractRequest>) => {
+  const { id, kind, bytes } = e.data;
+  let response: DocumentExtractResponse;
+  try {
+    response = { id, blocks: await extractDocumentBlocks(bytes, kind) };
+  } catch (err) {
+    response = { id, error: (err as Error).message };
+  }
+  self.postMessage(response);
+};
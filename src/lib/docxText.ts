@@ -0,0 +1,108 @@
+/**
+ * DOCX text extraction — reads `word/document.xml` out of the zip
+ * container and turns its paragraphs into blocks, marking headings and
+ * the page breaks Word recorded when the file was last saved.
+ */
+
+import { inflate } from './inflate';
+import type { DocumentBlock } from './documents';
+
+/* ── Zip ── */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Uncompressed contents of one zip entry, or null if it isn't there */
+export async function readZipEntry(bytes: Uint8Array, name: string): Promise<Uint8Array | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory: the last 22+ bytes, before any archive comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < entries && offset + 46 <= bytes.length; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) return null;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflate(data, 'deflate-raw');
+    throw new Error(`Unsupported zip compression method ${method}`);
+  }
+  return null;
+}
+
+/* ── document.xml ── */
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()] ?? '';
+  });
+}
+
+const HEADING_STYLE = /^(Title|Subtitle|Heading\d?|berschrift\d?|Titre\d?)$/i;
+
+/**
+ * Paragraphs of a WordprocessingML body. Pages are only known when Word
+ * left rendered page breaks in the file; otherwise blocks have no page.
+ */
+export function parseDocumentXml(xml: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const paragraphs = xml.match(/<w:p[\s>][\s\S]*?<\/w:p>|<w:p\/>/g) ?? [];
+  const hasPages = /<w:lastRenderedPageBreak\/>|<w:br [^>]*w:type="page"|<w:pageBreakBefore\/>/.test(xml);
+  let page = 1;
+
+  for (const p of paragraphs) {
+    // A break before any text moves this paragraph to the next page
+    const breaks = (p.match(/<w:lastRenderedPageBreak\/>|<w:br [^>]*w:type="page"[^>]*\/>|<w:pageBreakBefore\/>/g) ?? []).length;
+    const style = /<w:pStyle w:val="([^"]+)"/.exec(p)?.[1] ?? '';
+    const text = decodeEntities(
+      p
+        .replace(/<w:t(?: [^>]*)?>([\s\S]*?)<\/w:t>/g, '\u0000$1\u0000')
+        .replace(/<w:tab\/>/g, '\u0000\t\u0000')
+        .replace(/<w:br\/>|<w:cr\/>/g, '\u0000\n\u0000')
+        .split('\u0000')
+        .filter((_, i) => i % 2 === 1)
+        .join(''),
+    ).trim();
+
+    if (breaks > 0 && blocks.length > 0) page += breaks;
+    if (!text) continue;
+    blocks.push({
+      text,
+      ...(hasPages && { page }),
+      ...(HEADING_STYLE.test(style) && { heading: true }),
+    });
+  }
+  return blocks;
+}
+
+export async function extractDocxBlocks(bytes: Uint8Array): Promise<DocumentBlock[]> {
+  const xml = await readZipEntry(bytes, 'word/document.xml');
+  if (!xml) throw new Error('Not a Word document');
+  return parseDocumentXml(new TextDecoder().decode(xml));
+}
@@ -2,7 +2,8 @@
  * Export / Import chat sessions as JSON or Markdown.
  */
 
-import type { ChatSession, ChatExport, ChatMessage } from '../types';
+import type { ChatSession, ChatExport, ChatMessage, MessageAttachment } from '../types';
+import { ensureTree, getActivePath } from './messageTree';
 
 // ─── Export ──────────────────────────────────────────────────────
 
@@ -15,6 +16,83 @@ export function exportJSON(sessions: ChatSession[]): string {
   return JSON.stringify(data, null, 2);
 }
 
+/**
+ * Resolve attachments that reference the media store and inline their bytes
+ * as data URLs, so a JSON export carries the real images/videos/audio.
+ * `mediaId` is kept so the import can move the bytes back into the store.
+ */
+export async function inlineMedia(
+  sessions: ChatSession[],
+  resolve: (mediaId: string) => Promise<Blob | undefined>,
+): Promise<ChatSession[]> {
+  return Promise.all(
+    sessions.map(async (s) => ({
+      ...s,
+      messages: await Promise.all(
+        s.messages.map(async (m) => ({
+          ...m,
+          attachments: await Promise.all(
+            m.attachments.map(async (att): Promise<MessageAttachment> => {
+              if (!att.mediaId || att.dataUrl) return att;
+              const blob = await resolve(att.mediaId);
+              return blob ? { ...att, dataUrl: await blobToDataUrl(blob) } : att;
+            }),
+          ),
+        })),
+      ),
+    })),
+  );
+}
+
+/**
+ * Inverse of `inlineMedia`: hand every inlined media attachment to `store`
+ * and strip the data URL so the session record stays small.
+ */
+export async function extractInlinedMedia(
+  sessions: ChatSession[],
+  store: (mediaId: string, sessionId: string, blob: Blob) => Promise<void>,
+): Promise<ChatSession[]> {
+  const result: ChatSession[] = [];
+  for (const s of sessions) {
+    const messages: ChatMessage[] = [];
+    for (const m of s.messages) {
+      const attachments: MessageAttachment[] = [];
+      for (const att of m.attachments) {
+        if (att.mediaId && att.dataUrl.startsWith('data:')) {
+          await store(att.mediaId, s.id, dataUrlToBlob(att.dataUrl));
+          attachments.push({ ...att, dataUrl: '' });
+        } else {
+          attachments.push(att);
+        }
+      }
+      messages.push({ ...m, attachments });
+    }
+    result.push({ ...s, messages });
+  }
+  return result;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
 export function exportMarkdown(sessions: ChatSession[]): string {
   const lines: string[] = [];
   lines.push('# Pollinations Chat Export');
@@ -26,7 +104,8 @@ export function exportMarkdown(sessions: ChatSession[]): string {
     lines.push(`**Pollen spent:** ${session.totalPollenSpent.toFixed(5)}\n`);
     lines.push('---\n');
 
-    for (const msg of session.messages) {
+    // Markdown is linear — export the active branch only (JSON keeps the full tree)
+    for (const msg of getActivePath(ensureTree(session))) {
       const roleLabel =
         msg.role === 'user' ? '**You**' :
         msg.role === 'assistant' ? '**Assistant**' :
@@ -39,7 +118,7 @@ export function exportMarkdown(sessions: ChatSession[]): string {
       if (msg.attachments.length > 0) {
         lines.push('**Attachments:**');
         for (const att of msg.attachments) {
-          if (att.type === 'image') {
+          if (att.type === 'image' && att.dataUrl) {
             lines.push(`![${att.name}](${att.dataUrl})`);
           } else {
             lines.push(`- ${att.name} (${att.type}, ${(att.sizeBytes / 1024).toFixed(1)}KB)`);
@@ -86,13 +165,13 @@ export function importJSON(raw: string): ChatSession[] {
       throw new Error('Invalid export: sessions must be an array');
     }
     validateSessions(data.sessions);
-    return data.sessions;
+    return data.sessions.map(ensureTree);
   }
 
   // Maybe it's a raw array of sessions
   if (Array.isArray(parsed)) {
     validateSessions(parsed as ChatSession[]);
-    return parsed as ChatSession[];
+    return (parsed as ChatSession[]).map(ensureTree);
   }
 
   throw new Error('Unrecognized import format: expected { version, sessions } or array of sessions');
@@ -0,0 +1,58 @@
+/**
+ * Gallery — every piece of media a session generated, across all
+ * branches, with the prompt that produced it.
+ */
+
+import type { ChatSession, MessageAttachment } from '../types';
+
+export interface GalleryItem {
+  attachment: MessageAttachment;
+  messageId: string;
+  model?: string;
+  prompt: string;
+  timestamp: number;
+  /** The user picked this one out of its batch */
+  selected: boolean;
+}
+
+export interface GalleryFilters {
+  model?: string;
+  query?: string;
+}
+
+/** Generated media in the session, newest first */
+export function collectGalleryItems(session: ChatSession): GalleryItem[] {
+  const byId = new Map(session.messages.map((m) => [m.id, m]));
+  const items: GalleryItem[] = [];
+  for (const m of session.messages) {
+    if (m.role !== 'assistant' || m.isError) continue;
+    const prompt = m.parentId ? byId.get(m.parentId)?.content ?? '' : '';
+    for (const attachment of m.attachments) {
+      if (attachment.type === 'file') continue;
+      items.push({
+        attachment,
+        messageId: m.id,
+        model: m.model,
+        prompt,
+        timestamp: m.timestamp,
+        selected: m.selectedAttachmentId === attachment.id,
+      });
+    }
+  }
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/** Distinct model names in the gallery, for the filter */
+export function galleryModels(items: GalleryItem[]): string[] {
+  return [...new Set(items.map((i) => i.model).filter((m): m is string => !!m))].sort();
+}
+
+/** Items by the given model whose prompt contains every word of the query */
+export function filterGallery(items: GalleryItem[], filters: GalleryFilters): GalleryItem[] {
+  const words = (filters.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter((item) => {
+    if (filters.model && item.model !== filters.model) return false;
+    const prompt = item.prompt.toLowerCase();
+    return words.every((w) => prompt.includes(w));
+  });
+}
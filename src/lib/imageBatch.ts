@@ -0,0 +1,66 @@
+/**
+ * Image batches — several variations of one prompt, generated a few at a
+ * time. Seeds run consecutively from the batch's base seed, so storing
+ * that one seed is enough to redraw the whole batch.
+ */
+
+import type { ImageGenerationOptions } from '../types';
+import { clampImageDimension, MAX_IMAGE_SEED } from './imageOptions';
+
+/** Most variations a single prompt may ask for */
+export const MAX_IMAGE_VARIATIONS = 4;
+
+/** Image requests in flight at once per batch */
+export const IMAGE_BATCH_CONCURRENCY = 2;
+
+/** Number of images the options ask for, within 1…MAX_IMAGE_VARIATIONS */
+export function variationCount(options: Pick<ImageGenerationOptions, 'variations'>): number {
+  const n = Math.floor(options.variations ?? 1);
+  return Number.isFinite(n) ? Math.min(MAX_IMAGE_VARIATIONS, Math.max(1, n)) : 1;
+}
+
+/** One distinct seed per variation, starting at the options' seed */
+export function batchSeeds(options: ImageGenerationOptions): number[] {
+  const base = options.seed ?? 0;
+  return Array.from({ length: variationCount(options) }, (_, i) => (base + i) % MAX_IMAGE_SEED);
+}
+
+/**
+ * Options for redrawing one variation at twice the size (capped at the
+ * endpoint's maximum, keeping the aspect ratio).
+ */
+export function upscaleImageOptions(options: ImageGenerationOptions, seed: number): ImageGenerationOptions {
+  const scale = Math.min(2, 2048 / Math.max(options.width, options.height));
+  return {
+    ...options,
+    width: clampImageDimension(options.width * scale),
+    height: clampImageDimension(options.height * scale),
+    seed,
+    variations: 1,
+  };
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight. Every item is
+ * settled; results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        results[i] = { status: 'fulfilled', value: await task(items[i], i) };
+      } catch (reason) {
+        results[i] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,97 @@
+/**
+ * Image generation options — size presets, seeds and the mapping onto the
+ * image endpoint's query parameters. The options a reply was made with
+ * are stored on it, so it can be regenerated with the same seed or varied.
+ */
+
+import type { ImageGenerationOptions, MessageAttachment } from '../types';
+
+/** Largest seed the image endpoint accepts */
+export const MAX_IMAGE_SEED = 2_147_483_647;
+
+export const IMAGE_SIZE_PRESETS: { label: string; width: number; height: number }[] = [
+  { label: '1:1', width: 1024, height: 1024 },
+  { label: '4:3', width: 1152, height: 864 },
+  { label: '3:4', width: 864, height: 1152 },
+  { label: '16:9', width: 1344, height: 768 },
+  { label: '9:16', width: 768, height: 1344 },
+];
+
+export const DEFAULT_IMAGE_OPTIONS: ImageGenerationOptions = {
+  width: 1024,
+  height: 1024,
+  nologo: true,
+  enhance: false,
+  safe: false,
+};
+
+export function randomSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * MAX_IMAGE_SEED);
+}
+
+/** Preset label for a size, or `W×H` for a custom one */
+export function describeImageSize(width: number, height: number): string {
+  const preset = IMAGE_SIZE_PRESETS.find((p) => p.width === width && p.height === height);
+  return preset ? `${preset.label} · ${width}×${height}` : `${width}×${height}`;
+}
+
+/** Round a dimension to what the endpoint accepts (multiples of 8, 64–2048) */
+export function clampImageDimension(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_IMAGE_OPTIONS.width;
+  return Math.min(2048, Math.max(64, Math.round(value / 8) * 8));
+}
+
+/**
+ * A remote URL for the first image attachment, if it has one. Uploaded
+ * files are data URLs — too large for a query string — so they don't count.
+ */
+export function referenceImageFromAttachments(attachments: MessageAttachment[]): string | undefined {
+  return attachments.find((a) => a.type === 'image' && /^https?:\/\//i.test(a.dataUrl))?.dataUrl;
+}
+
+/**
+ * The options an image is actually generated with: a random seed unless
+ * one is fixed, and a reference image from the message when none was set.
+ */
+export function resolveImageOptions(
+  draft: ImageGenerationOptions,
+  attachments: MessageAttachment[] = [],
+  random: () => number = Math.random,
+): ImageGenerationOptions {
+  const image = draft.image?.trim() || referenceImageFromAttachments(attachments);
+  const negativePrompt = draft.negativePrompt?.trim();
+  return {
+    width: clampImageDimension(draft.width),
+    height: clampImageDimension(draft.height),
+    seed: draft.seed ?? randomSeed(random),
+    nologo: draft.nologo,
+    enhance: draft.enhance,
+    safe: draft.safe,
+    ...(negativePrompt && { negativePrompt }),
+    ...(image && { image }),
+  };
+}
+
+/** Same parameters with a fresh seed */
+export function varyImageOptions(
+  options: ImageGenerationOptions,
+  random: () => number = Math.random,
+): ImageGenerationOptions {
+  let seed = randomSeed(random);
+  if (seed === options.seed) seed = (seed + 1) % MAX_IMAGE_SEED;
+  return { ...options, seed };
+}
+
+/** Query parameters for `generateImage`; defaults the server applies anyway are left out */
+export function toImageQueryParams(options: ImageGenerationOptions): Record<string, string | number | boolean> {
+  return {
+    width: options.width,
+    height: options.height,
+    ...(options.seed !== undefined && { seed: options.seed }),
+    ...(options.negativePrompt && { negative_prompt: options.negativePrompt }),
+    ...(options.nologo && { nologo: true }),
+    ...(options.enhance && { enhance: true }),
+    ...(options.safe && { safe: true }),
+    ...(options.image && { image: options.image }),
+  };
+}
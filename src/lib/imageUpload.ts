@@ -0,0 +1,195 @@
+/**
+ * Attachment uploads — photos are downscaled to the resolution the model
+ * can actually use and re-encoded (WebP, or JPEG where the browser can't
+ * write WebP) before they're stored or sent. Re-encoding through a canvas
+ * also drops EXIF data such as GPS position and camera details.
+ *
+ * Every attachment, and all attachments on one message together, have a
+ * byte budget so a large upload can't bloat the request or the saved chat.
+ */
+
+import type { PollinationsModel } from '../types';
+
+/** Largest single attachment, after image processing */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/** Largest total of all attachments on one message */
+export const MAX_MESSAGE_BYTES = 20 * 1024 * 1024;
+
+/** Largest image we try to decode at all */
+export const MAX_SOURCE_IMAGE_BYTES = 40 * 1024 * 1024;
+
+/** Size processed images are compressed towards */
+export const IMAGE_TARGET_BYTES = 1.5 * 1024 * 1024;
+
+export const DEFAULT_IMAGE_QUALITY = 0.85;
+export const MIN_IMAGE_QUALITY = 0.5;
+export const MAX_IMAGE_QUALITY = 0.95;
+
+/** Encoding attempts before giving up on reaching the target size */
+const MAX_ENCODE_ATTEMPTS = 8;
+
+/** Longest and shortest side a processed image may have */
+export interface ImageLimits {
+  maxLong: number;
+  maxShort: number;
+}
+
+/** Types sent as uploaded: animation and vectors would be lost on a canvas */
+const PASSTHROUGH_TYPES = /^image\/(gif|svg\+xml)$/i;
+
+/**
+ * Vision models scale images to fit 2048px with the short side at 768px
+ * before reading them, so anything larger only costs bytes. Image models
+ * take reference pictures at up to 2048px on either side.
+ */
+export function imageLimitsForModel(model: Pick<PollinationsModel, 'type'> | null | undefined): ImageLimits {
+  if (model && (model.type === 'image' || model.type === 'video')) return { maxLong: 2048, maxShort: 2048 };
+  return { maxLong: 2048, maxShort: 768 };
+}
+
+/** Size that fits the limits with the same aspect ratio; never upscales */
+export function fitImageSize(width: number, height: number, limits: ImageLimits): { width: number; height: number } {
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  const scale = Math.min(1, limits.maxLong / long, limits.maxShort / short);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+export function clampImageQuality(quality: number): number {
+  if (!Number.isFinite(quality)) return DEFAULT_IMAGE_QUALITY;
+  return Math.min(MAX_IMAGE_QUALITY, Math.max(MIN_IMAGE_QUALITY, quality));
+}
+
+/** Whether an upload of this type is resized and re-encoded */
+export function shouldProcessImage(mimeType: string): boolean {
+  return mimeType.startsWith('image/') && !PASSTHROUGH_TYPES.test(mimeType);
+}
+
+/** File name with the extension of its new type, e.g. IMG_0001.HEIC → IMG_0001.webp */
+export function renameForType(name: string, mimeType: string): string {
+  const ext = mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1]?.split('+')[0];
+  if (!ext) return name;
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${ext}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+/**
+ * Why an attachment of `bytes` can't be added to a message that already
+ * carries `messageBytes` of attachments, or null if it fits.
+ */
+export function attachmentBudgetError(name: string, bytes: number, messageBytes: number): string | null {
+  if (bytes > MAX_ATTACHMENT_BYTES) {
+    return `${name} is ${formatBytes(bytes)} — attachments can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  if (messageBytes + bytes > MAX_MESSAGE_BYTES) {
+    return `${name} doesn't fit — attachments on one message can total at most ${formatBytes(MAX_MESSAGE_BYTES)} (${formatBytes(Math.max(0, MAX_MESSAGE_BYTES - messageBytes))} left).`;
+  }
+  return null;
+}
+
+/* ── Canvas encoding ── */
+
+let webpSupported: boolean | null = null;
+
+async function encode(
+  source: ImageBitmap,
+  width: number,
+  height: number,
+  type: 'image/webp' | 'image/jpeg',
+  quality: number,
+): Promise<Blob> {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    draw(canvas.getContext('2d'), source, width, height, type);
+    return canvas.convertToBlob({ type, quality });
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  draw(canvas.getContext('2d'), source, width, height, type);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
+
+function draw(
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null,
+  source: ImageBitmap,
+  width: number,
+  height: number,
+  type: string,
+) {
+  if (!ctx) throw new Error('Canvas is not available');
+  // JPEG has no alpha: put transparent areas on white rather than black
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+}
+
+/** Encode as WebP, falling back to JPEG when the browser writes something else (usually PNG) */
+async function encodeCompressed(source: ImageBitmap, width: number, height: number, quality: number): Promise<Blob> {
+  if (webpSupported !== false) {
+    const blob = await encode(source, width, height, 'image/webp', quality);
+    webpSupported = blob.type === 'image/webp';
+    if (webpSupported) return blob;
+  }
+  return encode(source, width, height, 'image/jpeg', quality);
+}
+
+/**
+ * Downscale, re-encode and strip metadata from an uploaded image. When
+ * the result is over `maxBytes`, quality is lowered first and then the
+ * size, until it fits.
+ */
+export async function preprocessImage(
+  file: Blob & { name?: string },
+  { limits, quality = DEFAULT_IMAGE_QUALITY, maxBytes = IMAGE_TARGET_BYTES }: {
+    limits: ImageLimits;
+    quality?: number;
+    maxBytes?: number;
+  },
+): Promise<Blob> {
+  const name = file.name ?? 'Image';
+  if (file.size > MAX_SOURCE_IMAGE_BYTES) {
+    throw new Error(`${name} is ${formatBytes(file.size)} — images can be at most ${formatBytes(MAX_SOURCE_IMAGE_BYTES)}.`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation, which is dropped along with the rest
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${name} couldn't be read as an image.`);
+  }
+
+  try {
+    let { width, height } = fitImageSize(bitmap.width, bitmap.height, limits);
+    let q = clampImageQuality(quality);
+    for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+      const blob = await encodeCompressed(bitmap, width, height, q);
+      if (blob.size <= maxBytes) return blob;
+      if (q > MIN_IMAGE_QUALITY) {
+        q = Math.max(MIN_IMAGE_QUALITY, q - 0.15);
+      } else {
+        width = Math.max(1, Math.round(width * 0.75));
+        height = Math.max(1, Math.round(height * 0.75));
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+  throw new Error(`${name} is still over ${formatBytes(maxBytes)} after compressing it.`);
+}
@@ -0,0 +1,361 @@
+/**
+ * Knowledge base collections — reference documents chunked once and
+ * searched on every send in the chats that use them.
+ *
+ * Each collection keeps a BM25 index of its chunks (stored beside it in
+ * IndexedDB) and, optionally, an embedding per chunk. With embeddings,
+ * lexical and semantic rankings are merged by reciprocal rank fusion, so a
+ * passage found either way can make the top k. The passages picked go
+ * into the system message with `[^n]` markers the reply cites them by.
+ */
+
+import type {
+  DocumentChunk,
+  KnowledgeCollection,
+  KnowledgeDocument,
+  KnowledgeSource,
+} from '../types';
+import type { TokenizerEncoding } from './tokenizer';
+import { isTextAttachment } from './attachments';
+import {
+  chunkBlocks,
+  chunkLabel,
+  countChunkTokens,
+  documentKind,
+  ingestDocument,
+  queryTerms,
+  textBlocks,
+} from './documents';
+
+/** Passages added to a prompt */
+export const KNOWLEDGE_TOP_K = 5;
+
+/** Share of the context window knowledge passages may take */
+export const KNOWLEDGE_CONTEXT_SHARE = 0.25;
+
+/** OpenAI-compatible embedding model used for semantic indexes */
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+/** Chunks sent per embeddings request */
+export const EMBEDDING_BATCH_SIZE = 64;
+
+// BM25 parameters — the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Reciprocal rank fusion constant
+const RRF_K = 60;
+
+/** Longest excerpt kept on a reply for footnote tooltips */
+const EXCERPT_CHARS = 240;
+
+/** Search index stored beside a collection */
+export interface KnowledgeIndex {
+  collectionId: string;
+  chunkCount: number;
+  averageLength: number;
+  /** Chunk key → number of terms */
+  lengths: Record<string, number>;
+  /** Term → [chunk key, term frequency] */
+  postings: Record<string, Array<[string, number]>>;
+  embeddings?: { model: string; vectors: Record<string, number[]> };
+}
+
+export interface KnowledgePassage {
+  collection: KnowledgeCollection;
+  document: KnowledgeDocument;
+  chunk: DocumentChunk;
+  score: number;
+}
+
+export function chunkKey(documentId: string, chunkIndex: number): string {
+  return `${documentId}#${chunkIndex}`;
+}
+
+/* ── Index ── */
+
+/**
+ * BM25 postings for every chunk in the collection. Embeddings from the
+ * previous index are kept for chunks that still exist and were made with
+ * the collection's current embedding model.
+ */
+export function buildKnowledgeIndex(collection: KnowledgeCollection, previous?: KnowledgeIndex): KnowledgeIndex {
+  const lengths: Record<string, number> = {};
+  const postings: Record<string, Array<[string, number]>> = {};
+  let total = 0;
+
+  for (const doc of collection.documents) {
+    for (const chunk of doc.chunks) {
+      const key = chunkKey(doc.id, chunk.index);
+      const terms = queryTerms(chunk.text);
+      lengths[key] = terms.length;
+      total += terms.length;
+      const counts = new Map<string, number>();
+      for (const t of terms) counts.set(t, (counts.get(t) ?? 0) + 1);
+      for (const [term, tf] of counts) (postings[term] ??= []).push([key, tf]);
+    }
+  }
+
+  const chunkCount = Object.keys(lengths).length;
+  const index: KnowledgeIndex = {
+    collectionId: collection.id,
+    chunkCount,
+    averageLength: chunkCount > 0 ? total / chunkCount : 0,
+    lengths,
+    postings,
+  };
+
+  const model = collection.embeddingModel;
+  if (model) {
+    const kept = previous?.embeddings?.model === model ? previous.embeddings.vectors : {};
+    const vectors: Record<string, number[]> = {};
+    for (const key of Object.keys(lengths)) if (kept[key]) vectors[key] = kept[key];
+    index.embeddings = { model, vectors };
+  }
+  return index;
+}
+
+/** Chunks of the collection that have no embedding yet */
+export function chunksMissingEmbeddings(collection: KnowledgeCollection, index: KnowledgeIndex): Array<{ key: string; text: string }> {
+  if (!index.embeddings) return [];
+  const vectors = index.embeddings.vectors;
+  return collection.documents.flatMap((doc) =>
+    doc.chunks
+      .map((c) => ({ key: chunkKey(doc.id, c.index), text: c.text }))
+      .filter(({ key }) => !vectors[key]),
+  );
+}
+
+/**
+ * Embed the chunks that lack vectors, in batches. `onProgress` gets the
+ * number embedded so far. A failed request stops the build; the vectors
+ * made before it are returned along with the error.
+ */
+export async function embedMissingChunks(
+  collection: KnowledgeCollection,
+  index: KnowledgeIndex,
+  embed: (texts: string[]) => Promise<number[][]>,
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ index: KnowledgeIndex; error?: Error }> {
+  const missing = chunksMissingEmbeddings(collection, index);
+  if (!index.embeddings || missing.length === 0) return { index };
+  const vectors = { ...index.embeddings.vectors };
+  const withVectors = (): KnowledgeIndex => ({ ...index, embeddings: { model: index.embeddings!.model, vectors: { ...vectors } } });
+
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    try {
+      const embedded = await embed(batch.map((c) => c.text));
+      batch.forEach((c, j) => { if (embedded[j]) vectors[c.key] = embedded[j]; });
+    } catch (err) {
+      return { index: withVectors(), error: err as Error };
+    }
+    onProgress?.(Math.min(i + batch.length, missing.length), missing.length);
+  }
+  return { index: withVectors() };
+}
+
+/* ── Ranking ── */
+
+/** BM25 score of every chunk that shares a term with the query, best first */
+export function rankBm25(index: KnowledgeIndex, query: string): Array<{ key: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const term of new Set(queryTerms(query))) {
+    const postings = index.postings[term];
+    if (!postings) continue;
+    const idf = Math.log(1 + (index.chunkCount - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [key, tf] of postings) {
+      const norm = 1 - B + B * ((index.lengths[key] ?? 0) / (index.averageLength || 1));
+      scores.set(key, (scores.get(key) ?? 0) + (idf * tf * (K1 + 1)) / (tf + K1 * norm));
+    }
+  }
+  return [...scores].map(([key, score]) => ({ key, score })).sort((a, b) => b.score - a.score);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+/** Merge rankings: each list contributes 1 / (k + rank) for the keys in it */
+export function fuseRankings(rankings: string[][]): Array<{ key: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((key, rank) => scores.set(key, (scores.get(key) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+  return [...scores].map(([key, score]) => ({ key, score })).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The `topK` passages across collections that best match `query`, within
+ * `maxTokens`. `queryVectors` holds the query's embedding per model; a
+ * collection's semantic index is used when its model is among them.
+ */
+export function retrievePassages(
+  sources: Array<{ collection: KnowledgeCollection; index: KnowledgeIndex }>,
+  query: string,
+  { topK = KNOWLEDGE_TOP_K, maxTokens = Infinity, queryVectors = {} }: {
+    topK?: number;
+    maxTokens?: number;
+    queryVectors?: Record<string, number[]>;
+  } = {},
+): KnowledgePassage[] {
+  const passages = new Map<string, Omit<KnowledgePassage, 'score'>>();
+  for (const { collection } of sources) {
+    for (const document of collection.documents) {
+      for (const chunk of document.chunks) {
+        passages.set(`${collection.id}/${chunkKey(document.id, chunk.index)}`, { collection, document, chunk });
+      }
+    }
+  }
+
+  const lexical = sources
+    .flatMap(({ collection, index }) =>
+      rankBm25(index, query).map((r) => ({ ...r, key: `${collection.id}/${r.key}` })),
+    )
+    .sort((a, b) => b.score - a.score);
+
+  const semantic = sources
+    .flatMap(({ collection, index }) => {
+      const vector = index.embeddings && queryVectors[index.embeddings.model];
+      if (!vector) return [];
+      return Object.entries(index.embeddings!.vectors).map(([key, v]) => ({
+        key: `${collection.id}/${key}`,
+        score: cosineSimilarity(vector, v),
+      }));
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const ranked = semantic.length > 0
+    ? fuseRankings([lexical.map((r) => r.key), semantic.slice(0, topK * 10).map((r) => r.key)])
+    : lexical;
+
+  const picked: KnowledgePassage[] = [];
+  let tokens = 0;
+  for (const { key, score } of ranked) {
+    const passage = passages.get(key);
+    if (!passage || tokens + passage.chunk.tokens > maxTokens) continue;
+    picked.push({ ...passage, score });
+    tokens += passage.chunk.tokens;
+    if (picked.length >= topK) break;
+  }
+  return picked;
+}
+
+/* ── Prompt and citations ── */
+
+function passageLabel(p: Pick<KnowledgePassage, 'document' | 'chunk'>): string {
+  const where = p.document.kind === 'text' && p.document.chunks.length === 1 ? '' : `, ${chunkLabel(p.chunk)}`;
+  return `${p.document.name}${where}`;
+}
+
+/** The passages as a system message section, each under its footnote marker */
+export function formatKnowledgeContext(passages: KnowledgePassage[]): string {
+  if (passages.length === 0) return '';
+  const body = passages.map((p, i) => {
+    const section = p.chunk.section ? ` — ${p.chunk.section}` : '';
+    return `[^${i + 1}] ${passageLabel(p)}${section} (${p.collection.name})\n${p.chunk.text}`;
+  });
+  return [
+    'Knowledge base passages retrieved for the latest message follow. Use them when they are relevant, and put the marker of each passage you rely on after the sentence it supports, like [^1]. Don\'t cite passages you didn\'t use.',
+    ...body,
+  ].join('\n\n');
+}
+
+/** The passages as footnotes to keep on the reply */
+export function knowledgeSources(passages: KnowledgePassage[]): KnowledgeSource[] {
+  return passages.map((p, i) => ({
+    marker: i + 1,
+    collectionName: p.collection.name,
+    documentName: p.document.name,
+    chunkIndex: p.chunk.index,
+    ...(p.chunk.page !== undefined && { page: p.chunk.page }),
+    ...(p.chunk.section && { section: p.chunk.section }),
+    excerpt: p.chunk.text.length > EXCERPT_CHARS ? `${p.chunk.text.slice(0, EXCERPT_CHARS).trimEnd()}…` : p.chunk.text,
+  }));
+}
+
+/** `[^2]` (or a bare `[2]`) not part of a link or footnote definition */
+const FOOTNOTE_PATTERN = /(?<![\w\]])\[\^?(\d{1,2})\](?![(:[])/g;
+
+/** Footnote markers in a reply that match one of its sources */
+export function findFootnotes(text: string, count: number): number[] {
+  const found = new Set<number>();
+  for (const match of text.matchAll(FOOTNOTE_PATTERN)) {
+    const n = Number(match[1]);
+    if (n >= 1 && n <= count) found.add(n);
+  }
+  return [...found].sort((a, b) => a - b);
+}
+
+/** Rewrite footnote markers as `#kb-n` links for the renderer; fenced code is left alone */
+export function linkFootnotes(markdown: string, count: number): string {
+  if (count === 0) return markdown;
+  return markdown
+    .split(/(```[\s\S]*?(?:```|$))/)
+    .map((segment, i) =>
+      i % 2 === 1
+        ? segment
+        : segment.replace(FOOTNOTE_PATTERN, (full, n: string) =>
+            Number(n) >= 1 && Number(n) <= count ? `[${Number(n)}](#kb-${Number(n)})` : full,
+          ),
+    )
+    .join('');
+}
+
+/** Footnote number from a `#kb-n` link, or null for other links */
+export function parseFootnoteHref(href: string | undefined): number | null {
+  const match = /^#kb-(\d+)$/.exec(href ?? '');
+  return match ? Number(match[1]) : null;
+}
+
+export function footnoteLabel(source: KnowledgeSource): string {
+  return `${source.documentName}, ${chunkLabel({ page: source.page, index: source.chunkIndex })}`;
+}
+
+/* ── Ingestion ── */
+
+/** Whether a file can be added to a collection */
+export function canAddToKnowledge(file: { name: string; type: string }): boolean {
+  const att = { name: file.name, mimeType: file.type };
+  return documentKind(att) !== null || isTextAttachment(att);
+}
+
+/** `accept` for the collection file picker */
+export const KNOWLEDGE_FILE_TYPES = '.pdf,.docx,.txt,.md,.markdown,.csv,.json,.html,.xml,.yaml,.yml,text/*';
+
+/** Read an uploaded file into a collection document */
+export async function ingestKnowledgeFile(
+  file: File,
+  id: string,
+  encoding?: TokenizerEncoding | null,
+): Promise<KnowledgeDocument> {
+  const kind = documentKind({ name: file.name, mimeType: file.type });
+  const base = { id, name: file.name, addedAt: Date.now() };
+  if (kind) {
+    const { kind: _kind, ...extract } = await ingestDocument(new Uint8Array(await file.arrayBuffer()), kind, encoding);
+    return { ...base, kind, ...extract };
+  }
+  if (!isTextAttachment({ name: file.name, mimeType: file.type })) {
+    throw new Error(`${file.name} isn't a PDF, Word or text file`);
+  }
+  const blocks = textBlocks(await file.text());
+  if (blocks.length === 0) throw new Error(`${file.name} is empty`);
+  const extract = chunkBlocks(blocks, encoding);
+  return { ...base, kind: 'text', ...(encoding ? await countChunkTokens(extract, encoding) : extract) };
+}
+
+/** Short summary for a collection row, e.g. "3 documents · 12.4k tokens" */
+export function describeCollection(collection: KnowledgeCollection): string {
+  const docs = collection.documents.length;
+  const tokens = collection.documents.reduce((sum, d) => sum + d.totalTokens, 0);
+  const size = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+  return `${docs} document${docs === 1 ? '' : 's'} · ${size} tokens`;
+}
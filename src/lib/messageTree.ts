@@ -0,0 +1,184 @@
+/**
+ * Message tree helpers for conversation branching.
+ *
+ * A session stores every message it has ever produced in `messages`; each
+ * message points at its parent via `parentId` (null for the first turn).
+ * Regenerating or editing adds a sibling instead of deleting history, and
+ * `activeLeafId` selects which branch is shown and sent as context.
+ *
+ * All helpers are pure and return new session objects.
+ */
+
+import type { ChatMessage, ChatSession } from '../types';
+
+/**
+ * Upgrade a pre-branching session (flat message list, no parent links)
+ * into a single linear branch. Sessions that already form a tree are
+ * returned unchanged.
+ */
+export function ensureTree(session: ChatSession): ChatSession {
+  const needsLinks = session.messages.some((m) => m.parentId === undefined);
+  if (!needsLinks && session.activeLeafId !== undefined) return session;
+
+  let prevId: string | null = null;
+  const messages = session.messages.map((m) => {
+    const linked: ChatMessage = m.parentId === undefined ? { ...m, parentId: prevId } : m;
+    prevId = m.id;
+    return linked;
+  });
+  const activeLeafId =
+    session.activeLeafId !== undefined ? session.activeLeafId : messages[messages.length - 1]?.id ?? null;
+  return { ...session, messages, activeLeafId };
+}
+
+function indexById(messages: ChatMessage[]): Map<string, ChatMessage> {
+  return new Map(messages.map((m) => [m.id, m]));
+}
+
+/** Messages from the root down to (and including) `messageId` */
+export function getPathTo(session: ChatSession, messageId: string | null): ChatMessage[] {
+  const byId = indexById(session.messages);
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** The conversation currently shown: root → active leaf */
+export function getActivePath(session: ChatSession): ChatMessage[] {
+  return getPathTo(session, session.activeLeafId ?? null);
+}
+
+/** Direct children of a message (or root messages for `null`), oldest first */
+export function getChildren(session: ChatSession, parentId: string | null): ChatMessage[] {
+  return session.messages
+    .filter((m) => (m.parentId ?? null) === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** A message and its alternatives, oldest first */
+export function getSiblings(session: ChatSession, messageId: string): ChatMessage[] {
+  const msg = session.messages.find((m) => m.id === messageId);
+  if (!msg) return [];
+  return getChildren(session, msg.parentId ?? null);
+}
+
+/** Position of each message among its siblings, for the branch navigator */
+export function getBranchInfo(
+  session: ChatSession,
+  path: ChatMessage[],
+): Record<string, { index: number; total: number }> {
+  const info: Record<string, { index: number; total: number }> = {};
+  for (const msg of path) {
+    const siblings = getSiblings(session, msg.id);
+    if (siblings.length > 1) {
+      info[msg.id] = {
+        index: siblings.findIndex((s) => s.id === msg.id),
+        total: siblings.length,
+      };
+    }
+  }
+  return info;
+}
+
+/** Follow the newest child at each level to find the tip of a branch */
+export function findLeaf(session: ChatSession, messageId: string): string {
+  let leaf = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(leaf)) {
+    seen.add(leaf);
+    const children = getChildren(session, leaf);
+    if (children.length === 0) break;
+    leaf = children[children.length - 1].id;
+  }
+  return leaf;
+}
+
+/** Make the branch containing `messageId` the active one */
+export function switchBranch(session: ChatSession, messageId: string): ChatSession {
+  if (!session.messages.some((m) => m.id === messageId)) return session;
+  return { ...session, activeLeafId: findLeaf(session, messageId) };
+}
+
+/**
+ * Add a message to the tree and make it the active leaf. Without an explicit
+ * `parentId` the message continues the active branch.
+ */
+export function appendMessage(session: ChatSession, message: ChatMessage): ChatSession {
+  const parentId = message.parentId !== undefined ? message.parentId : session.activeLeafId ?? null;
+  return {
+    ...session,
+    messages: [...session.messages, { ...message, parentId }],
+    activeLeafId: message.id,
+  };
+}
+
+/** IDs of a message and everything below it */
+export function getSubtreeIds(session: ChatSession, messageId: string): Set<string> {
+  const ids = new Set<string>([messageId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const m of session.messages) {
+      if (m.parentId && ids.has(m.parentId) && !ids.has(m.id)) {
+        ids.add(m.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Delete a message together with all replies below it. If the active branch
+ * ran through it, fall back to the nearest sibling branch, else the parent.
+ */
+export function pruneBranch(
+  session: ChatSession,
+  messageId: string,
+): { session: ChatSession; removed: ChatMessage[] } {
+  const target = session.messages.find((m) => m.id === messageId);
+  if (!target) return { session, removed: [] };
+
+  const ids = getSubtreeIds(session, messageId);
+  const removed = session.messages.filter((m) => ids.has(m.id));
+  const pruned: ChatSession = {
+    ...session,
+    messages: session.messages.filter((m) => !ids.has(m.id)),
+  };
+
+  if (session.activeLeafId && ids.has(session.activeLeafId)) {
+    const siblings = getSiblings(session, messageId);
+    const idx = siblings.findIndex((s) => s.id === messageId);
+    const fallback = siblings[idx + 1] ?? siblings[idx - 1];
+    pruned.activeLeafId = fallback
+      ? findLeaf(pruned, fallback.id)
+      : target.parentId ?? null;
+  }
+  return { session: pruned, removed };
+}
+
+/**
+ * Delete a single message, re-attaching its replies to its parent so the
+ * rest of the branch survives.
+ */
+export function removeMessage(session: ChatSession, messageId: string): ChatSession {
+  const target = session.messages.find((m) => m.id === messageId);
+  if (!target) return session;
+  const parentId = target.parentId ?? null;
+  const messages = session.messages
+    .filter((m) => m.id !== messageId)
+    .map((m) => (m.parentId === messageId ? { ...m, parentId } : m));
+
+  let activeLeafId = session.activeLeafId ?? null;
+  if (activeLeafId === messageId) {
+    const children = getChildren(session, messageId);
+    activeLeafId = children.length > 0 ? findLeaf(session, children[children.length - 1].id) : parentId;
+  }
+  return { ...session, messages, activeLeafId };
+}
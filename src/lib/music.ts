@@ -0,0 +1,89 @@
+/**
+ * Music generation — options for music models on the audio endpoint
+ * (duration, instrumental, style tags), plus the helpers the waveform
+ * player uses.
+ */
+
+import type { MusicGenerationOptions, PollinationsModel } from '../types';
+
+/** Track length limits the music endpoint accepts, in seconds */
+export const MIN_MUSIC_SECONDS = 5;
+export const MAX_MUSIC_SECONDS = 300;
+
+export const DEFAULT_MUSIC_OPTIONS: MusicGenerationOptions = {
+  duration: 30,
+  instrumental: false,
+  tags: [],
+};
+
+/** Style tags offered as one-click chips in the music panel */
+export const MUSIC_STYLE_TAGS = [
+  'ambient', 'lo-fi', 'cinematic', 'electronic', 'rock', 'jazz',
+  'hip-hop', 'classical', 'acoustic', 'synthwave', 'orchestral', 'upbeat',
+];
+
+const MAX_MUSIC_TAGS = 8;
+
+/** Audio models that compose music rather than speak text */
+export function isMusicModel(model: Pick<PollinationsModel, 'type' | 'name' | 'description'> | null | undefined): boolean {
+  if (model?.type !== 'audio') return false;
+  return /music/i.test(model.name) || /\bmusic\b/i.test(model.description);
+}
+
+/** Whole seconds within the endpoint's limits */
+export function clampMusicDuration(seconds: number): number {
+  if (!Number.isFinite(seconds)) return DEFAULT_MUSIC_OPTIONS.duration;
+  return Math.min(MAX_MUSIC_SECONDS, Math.max(MIN_MUSIC_SECONDS, Math.round(seconds)));
+}
+
+/** Lower-cased, single-spaced tag; empty if nothing is left */
+export function normalizeStyleTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^#/, '').slice(0, 32);
+}
+
+/** Add a tag, or remove it if it is already there */
+export function toggleStyleTag(tags: string[], tag: string): string[] {
+  const normalized = normalizeStyleTag(tag);
+  if (!normalized) return tags;
+  if (tags.includes(normalized)) return tags.filter((t) => t !== normalized);
+  return tags.length >= MAX_MUSIC_TAGS ? tags : [...tags, normalized];
+}
+
+/** The prompt sent to the model: the user's text with the style tags appended */
+export function buildMusicPrompt(text: string, tags: string[]): string {
+  const prompt = text.trim();
+  if (tags.length === 0) return prompt;
+  const style = `Style: ${tags.join(', ')}`;
+  return prompt ? `${prompt}\n\n${style}` : style;
+}
+
+/** `m:ss` for a length in seconds */
+export function formatTrackTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(Number.isFinite(seconds) ? seconds : 0));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Peak amplitude of each of `bars` equal slices of the samples, scaled so
+ * the loudest slice is 1. Silence comes out as all zeros.
+ */
+export function waveformPeaks(samples: ArrayLike<number>, bars: number): number[] {
+  const count = Math.max(0, Math.floor(bars));
+  const peaks = new Array<number>(count).fill(0);
+  if (samples.length === 0 || count === 0) return peaks;
+
+  const size = samples.length / count;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * size);
+    const end = Math.max(start + 1, Math.floor((i + 1) * size));
+    let peak = 0;
+    for (let j = start; j < end && j < samples.length; j++) {
+      const v = Math.abs(samples[j]);
+      if (v > peak) peak = v;
+    }
+    peaks[i] = peak;
+  }
+
+  const max = Math.max(...peaks);
+  return max > 0 ? peaks.map((p) => p / max) : peaks;
+}
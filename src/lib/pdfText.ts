@@ -0,0 +1,542 @@
+/**
+ * Minimal PDF text extraction — enough of the format to pull the text of
+ * each page out of typical documents: indirect objects, object streams,
+ * Flate-compressed content, the page tree and ToUnicode font maps.
+ * Scanned (image-only) pages come out empty; there is no OCR.
+ */
+
+import { inflate } from './inflate';
+
+/* ── Values ── */
+
+class PdfName {
+  constructor(readonly value: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+/** String contents as a binary string (one char per byte) */
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Uint8Array;
+}
+
+/** One char per byte, so string offsets match byte offsets */
+export function bytesToBinary(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+}
+
+/* ── Lexer / parser ── */
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+type Token =
+  | { type: 'value'; value: PdfValue }
+  | { type: 'op'; op: string }
+  | { type: 'open' | 'close'; bracket: '[' | ']' | '<<' | '>>' }
+  | { type: 'eof' };
+
+class Lexer {
+  pos: number;
+  constructor(readonly src: string, start = 0) {
+    this.pos = start;
+  }
+
+  private skipSpace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const c = src[this.pos];
+      if (WHITESPACE.test(c)) this.pos++;
+      else if (c === '%') {
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++;
+      } else break;
+    }
+  }
+
+  next(): Token {
+    this.skipSpace();
+    const { src } = this;
+    if (this.pos >= src.length) return { type: 'eof' };
+    const c = src[this.pos];
+
+    if (c === '[' || c === ']') {
+      this.pos++;
+      return { type: c === '[' ? 'open' : 'close', bracket: c };
+    }
+    if (c === '<' && src[this.pos + 1] === '<') {
+      this.pos += 2;
+      return { type: 'open', bracket: '<<' };
+    }
+    if (c === '>' && src[this.pos + 1] === '>') {
+      this.pos += 2;
+      return { type: 'close', bracket: '>>' };
+    }
+    if (c === '<') return { type: 'value', value: this.readHexString() };
+    if (c === '(') return { type: 'value', value: this.readLiteralString() };
+    if (c === '/') {
+      this.pos++;
+      const start = this.pos;
+      while (this.pos < src.length && !WHITESPACE.test(src[this.pos]) && !DELIMITER.test(src[this.pos])) this.pos++;
+      const raw = src.slice(start, this.pos).replace(/#([0-9a-f]{2})/gi, (_, h: string) => String.fromCharCode(parseInt(h, 16)));
+      return { type: 'value', value: new PdfName(raw) };
+    }
+
+    const start = this.pos;
+    while (this.pos < src.length && !WHITESPACE.test(src[this.pos]) && !DELIMITER.test(src[this.pos])) this.pos++;
+    if (this.pos === start) {
+      this.pos++; // stray delimiter such as '{' or ')'
+      return { type: 'op', op: c };
+    }
+    const word = src.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'value', value: parseFloat(word) };
+    if (word === 'true' || word === 'false') return { type: 'value', value: word === 'true' };
+    if (word === 'null') return { type: 'value', value: null };
+    return { type: 'op', op: word };
+  }
+
+  private readHexString(): PdfString {
+    const end = this.src.indexOf('>', this.pos);
+    const hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-f]/gi, '');
+    this.pos = end < 0 ? this.src.length : end + 1;
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+    return new PdfString(out);
+  }
+
+  private readLiteralString(): PdfString {
+    const { src } = this;
+    let depth = 1;
+    let out = '';
+    this.pos++;
+    while (this.pos < src.length) {
+      const c = src[this.pos++];
+      if (c === '\\') {
+        const n = src[this.pos++];
+        if (n === 'n') out += '\n';
+        else if (n === 'r') out += '\r';
+        else if (n === 't') out += '\t';
+        else if (n === 'b') out += '\b';
+        else if (n === 'f') out += '\f';
+        else if (n === '\r') {
+          if (src[this.pos] === '\n') this.pos++; // line continuation
+        } else if (n === '\n') {
+          // line continuation
+        } else if (n >= '0' && n <= '7') {
+          let oct = n;
+          while (oct.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') oct += src[this.pos++];
+          out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+        } else out += n;
+      } else if (c === '(') {
+        depth++;
+        out += c;
+      } else if (c === ')') {
+        if (--depth === 0) break;
+        out += c;
+      } else out += c;
+    }
+    return new PdfString(out);
+  }
+}
+
+/** Parse one value, folding `N G R` into a reference */
+function parseValue(lexer: Lexer, first = lexer.next()): PdfValue | undefined {
+  if (first.type === 'value') {
+    if (typeof first.value === 'number' && Number.isInteger(first.value)) {
+      const save = lexer.pos;
+      const gen = lexer.next();
+      if (gen.type === 'value' && typeof gen.value === 'number') {
+        const r = lexer.next();
+        if (r.type === 'op' && r.op === 'R') return new PdfRef(first.value);
+      }
+      lexer.pos = save;
+    }
+    return first.value;
+  }
+  if (first.type === 'open' && first.bracket === '[') {
+    const items: PdfValue[] = [];
+    for (let t = lexer.next(); t.type !== 'eof' && !(t.type === 'close' && t.bracket === ']'); t = lexer.next()) {
+      const v = parseValue(lexer, t);
+      if (v !== undefined) items.push(v);
+    }
+    return items;
+  }
+  if (first.type === 'open' && first.bracket === '<<') {
+    const dict: PdfDict = new Map();
+    for (let t = lexer.next(); t.type !== 'eof' && !(t.type === 'close' && t.bracket === '>>'); t = lexer.next()) {
+      if (t.type !== 'value' || !(t.value instanceof PdfName)) continue;
+      const v = parseValue(lexer);
+      if (v !== undefined) dict.set(t.value.value, v);
+    }
+    return dict;
+  }
+  return undefined;
+}
+
+/* ── Streams ── */
+
+function asArray(value: PdfValue | undefined): PdfValue[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Decoded stream bytes, or null for filters we can't undo (images, mostly) */
+async function decodeStream(dict: PdfDict, data: Uint8Array): Promise<Uint8Array | null> {
+  let out = data;
+  for (const filter of asArray(dict.get('Filter'))) {
+    const name = filter instanceof PdfName ? filter.value : '';
+    if (name === 'FlateDecode' || name === 'Fl') out = await inflate(out, 'deflate');
+    else return null;
+  }
+  return out;
+}
+
+/* ── Document ── */
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private rootRef: number | null = null;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  async load() {
+    const src = bytesToBinary(this.bytes);
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    for (let m = header.exec(src); m; m = header.exec(src)) {
+      const lexer = new Lexer(src, header.lastIndex);
+      const value = parseValue(lexer);
+      if (value === undefined) continue;
+      const obj: PdfObject = { value };
+      const after = new Lexer(src, lexer.pos);
+      const kw = after.next();
+      if (kw.type === 'op' && kw.op === 'stream') {
+        let start = after.pos;
+        if (src[start] === '\r') start++;
+        if (src[start] === '\n') start++;
+        const end = src.indexOf('endstream', start);
+        if (end > 0) {
+          let stop = end;
+          if (src[stop - 1] === '\n') stop--;
+          if (src[stop - 1] === '\r') stop--;
+          obj.stream = this.bytes.subarray(start, stop);
+          header.lastIndex = end;
+        }
+      }
+      // Later definitions (incremental updates) replace earlier ones
+      this.objects.set(Number(m[1]), obj);
+    }
+
+    const roots = [...src.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    if (roots.length > 0) this.rootRef = Number(roots[roots.length - 1][1]);
+
+    await this.expandObjectStreams();
+  }
+
+  /** Objects packed inside `/Type /ObjStm` streams */
+  private async expandObjectStreams() {
+    for (const obj of [...this.objects.values()]) {
+      if (!(obj.value instanceof Map) || !obj.stream) continue;
+      const type = obj.value.get('Type');
+      if (!(type instanceof PdfName) || type.value !== 'ObjStm') continue;
+      const decoded = await decodeStream(obj.value, obj.stream);
+      if (!decoded) continue;
+      const src = bytesToBinary(decoded);
+      const count = Number(obj.value.get('N')) || 0;
+      const first = Number(obj.value.get('First')) || 0;
+      const header = new Lexer(src);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.next();
+        const offset = header.next();
+        if (num.type !== 'value' || offset.type !== 'value') break;
+        entries.push([Number(num.value), Number(offset.value)]);
+      }
+      for (const [num, offset] of entries) {
+        if (this.objects.has(num)) continue;
+        const value = parseValue(new Lexer(src, first + offset));
+        if (value !== undefined) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let v = value;
+    for (let depth = 0; v instanceof PdfRef && depth < 16; depth++) v = this.objects.get(v.num)?.value;
+    return v instanceof PdfRef ? undefined : v;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const v = this.resolve(value);
+    return v instanceof Map ? v : undefined;
+  }
+
+  async streamOf(value: PdfValue | undefined): Promise<Uint8Array | null> {
+    const obj = value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+    if (!obj?.stream || !(obj.value instanceof Map)) return null;
+    return decodeStream(obj.value, obj.stream);
+  }
+
+  /** Page dictionaries in reading order, with inherited resources */
+  pages(): Array<{ page: PdfDict; resources: PdfDict | undefined }> {
+    const out: Array<{ page: PdfDict; resources: PdfDict | undefined }> = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const resources = this.dict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.dict(kid), resources);
+      } else {
+        out.push({ page: node, resources });
+      }
+    };
+
+    const catalog = this.rootRef !== null ? this.dict(new PdfRef(this.rootRef)) : undefined;
+    walk(this.dict(catalog?.get('Pages')), undefined);
+    if (out.length > 0) return out;
+
+    // No usable page tree: take page objects in file order
+    for (const [, obj] of [...this.objects].sort((a, b) => a[0] - b[0])) {
+      const type = obj.value instanceof Map ? obj.value.get('Type') : undefined;
+      if (type instanceof PdfName && type.value === 'Page' && obj.value instanceof Map) {
+        out.push({ page: obj.value, resources: this.dict(obj.value.get('Resources')) });
+      }
+    }
+    return out;
+  }
+}
+
+/* ── Fonts ── */
+
+interface FontDecoder {
+  /** Bytes per character code (2 for CID fonts) */
+  codeBytes: number;
+  map: Map<number, string> | null;
+}
+
+function utf16beToString(binary: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < binary.length; i += 2) out += String.fromCharCode((binary.charCodeAt(i) << 8) | binary.charCodeAt(i + 1));
+  return out;
+}
+
+function codeOf(binary: string): number {
+  let code = 0;
+  for (let i = 0; i < binary.length; i++) code = code * 256 + binary.charCodeAt(i);
+  return code;
+}
+
+/** Character map from a ToUnicode CMap (`bfchar` and `bfrange` sections) */
+export function parseToUnicodeCMap(src: string): { map: Map<number, string>; codeBytes: number } {
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+  const lexer = new Lexer(src);
+  const operands: PdfValue[] = [];
+  for (let t = lexer.next(); t.type !== 'eof'; t = lexer.next()) {
+    if (t.type === 'op') {
+      if (t.op === 'endcodespacerange' && operands[0] instanceof PdfString) codeBytes = Math.max(1, operands[0].bytes.length);
+      if (t.op === 'endbfchar') {
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const [src, dst] = [operands[i], operands[i + 1]];
+          if (src instanceof PdfString && dst instanceof PdfString) map.set(codeOf(src.bytes), utf16beToString(dst.bytes));
+        }
+      }
+      if (t.op === 'endbfrange') {
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+          if (!(lo instanceof PdfString) || !(hi instanceof PdfString)) continue;
+          const start = codeOf(lo.bytes);
+          const end = Math.min(codeOf(hi.bytes), start + 0xffff);
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(dst)) {
+              const item = dst[code - start];
+              if (item instanceof PdfString) map.set(code, utf16beToString(item.bytes));
+            } else if (dst instanceof PdfString) {
+              const base = utf16beToString(dst.bytes);
+              const last = base.charCodeAt(base.length - 1) + (code - start);
+              map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+            }
+          }
+        }
+      }
+      operands.length = 0;
+      continue;
+    }
+    if (t.type === 'open' && t.bracket === '[') {
+      const v = parseValue(lexer, t);
+      if (v !== undefined) operands.push(v);
+    } else if (t.type === 'value') {
+      operands.push(t.value);
+    }
+  }
+  return { map, codeBytes };
+}
+
+async function loadFonts(doc: PdfDocument, resources: PdfDict | undefined): Promise<Map<string, FontDecoder>> {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDict = doc.dict(resources?.get('Font'));
+  if (!fontDict) return fonts;
+  for (const [name, ref] of fontDict) {
+    const font = doc.dict(ref);
+    if (!font) continue;
+    const subtype = font.get('Subtype');
+    const composite = subtype instanceof PdfName && subtype.value === 'Type0';
+    const cmap = await doc.streamOf(font.get('ToUnicode'));
+    if (cmap) {
+      const parsed = parseToUnicodeCMap(bytesToBinary(cmap));
+      fonts.set(name, { codeBytes: composite ? Math.max(2, parsed.codeBytes) : parsed.codeBytes, map: parsed.map });
+    } else {
+      fonts.set(name, { codeBytes: composite ? 2 : 1, map: null });
+    }
+  }
+  return fonts;
+}
+
+function decodeText(binary: string, font: FontDecoder | undefined): string {
+  if (!font) return binary;
+  // Composite font with no map: the codes are glyph ids, not characters
+  if (!font.map) return font.codeBytes === 1 ? binary : '';
+  let out = '';
+  for (let i = 0; i < binary.length; i += font.codeBytes) {
+    const code = codeOf(binary.slice(i, i + font.codeBytes));
+    out += font.map.get(code) ?? (font.codeBytes === 1 ? String.fromCharCode(code) : '');
+  }
+  return out;
+}
+
+/* ── Content streams ── */
+
+/** Text shown by a page's content stream, with line breaks where the text moves down */
+export function extractContentText(content: string, fonts: Map<string, FontDecoder> = new Map()): string {
+  const lexer = new Lexer(content);
+  const operands: PdfValue[] = [];
+  let font: FontDecoder | undefined;
+  let out = '';
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+  const show = (s: PdfValue) => {
+    if (s instanceof PdfString) out += decodeText(s.bytes, font);
+  };
+
+  for (let t = lexer.next(); t.type !== 'eof'; t = lexer.next()) {
+    if (t.type === 'value') {
+      operands.push(t.value);
+      continue;
+    }
+    if (t.type === 'open') {
+      const v = parseValue(lexer, t);
+      if (v !== undefined) operands.push(v);
+      continue;
+    }
+    if (t.type !== 'op') continue;
+
+    switch (t.op) {
+      case 'BT':
+        lastY = null;
+        break;
+      case 'Tf':
+        if (operands[0] instanceof PdfName) font = fonts.get(operands[0].value);
+        break;
+      case 'Td':
+      case 'TD': {
+        const [tx, ty] = [Number(operands[0]) || 0, Number(operands[1]) || 0];
+        if (Math.abs(ty) > 0.01) newline();
+        else if (tx > 0.01) space();
+        break;
+      }
+      case 'Tm': {
+        const y = Number(operands[5]) || 0;
+        if (lastY !== null && Math.abs(y - lastY) > 0.5) newline();
+        else if (lastY !== null) space();
+        lastY = y;
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'Tj':
+        show(operands[0]);
+        break;
+      case "'":
+        newline();
+        show(operands[0]);
+        break;
+      case '"':
+        newline();
+        show(operands[2]);
+        break;
+      case 'TJ':
+        for (const item of asArray(operands[0])) {
+          // Large negative adjustments are word gaps
+          if (typeof item === 'number') {
+            if (item < -180) space();
+          } else show(item);
+        }
+        break;
+      case 'ET':
+        newline();
+        break;
+      case 'BI': {
+        // Inline image: skip its binary data up to EI
+        const end = content.indexOf('EI', content.indexOf('ID', lexer.pos));
+        lexer.pos = end < 0 ? content.length : end + 2;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return out;
+}
+
+/** Tidy extracted text: no control characters, single spaces, no blank runs */
+function cleanPageText(text: string): string {
+  return text
+    .replace(/[^\P{Cc}\n]/gu, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Text of each page, in order */
+export async function extractPdfPages(bytes: Uint8Array): Promise<string[]> {
+  if (bytesToBinary(bytes.subarray(0, 1024)).indexOf('%PDF-') < 0) throw new Error('Not a PDF file');
+  const doc = new PdfDocument(bytes);
+  await doc.load();
+
+  const pages: string[] = [];
+  for (const { page, resources } of doc.pages()) {
+    const fonts = await loadFonts(doc, resources);
+    const parts: string[] = [];
+    for (const ref of asArray(page.get('Contents'))) {
+      const resolved = doc.resolve(ref);
+      // Contents may be a reference to an array of streams
+      for (const inner of Array.isArray(resolved) ? resolved : [ref]) {
+        const data = await doc.streamOf(inner);
+        if (data) parts.push(bytesToBinary(data));
+      }
+    }
+    pages.push(cleanPageText(extractContentText(parts.join('\n'), fonts)));
+  }
+  return pages;
+}
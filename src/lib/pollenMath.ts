@@ -7,9 +7,16 @@
  * All comparisons use a tiny epsilon for float rounding.
  */
 
+import type { BudgetSpend, ChatMessage, ModelPricing, PollenBudget } from '../types';
+import type { ChatCompletionPayload } from './pollinations';
+
 /** Minimum pollen cost for a single prompt on the cheapest model */
 export const MIN_POLLEN_PER_PROMPT = 0.00004; // 1 / 25000
 
+/** Assumed length of generated audio/video when the request doesn't set one */
+export const ESTIMATED_AUDIO_SECONDS = 10;
+const ESTIMATED_VIDEO_SECONDS = 5;
+
 /** Float comparison epsilon */
 const EPSILON = 1e-10;
 
@@ -22,6 +29,9 @@ const EPSILON = 1e-10;
  * @param pricing - pricing info from model metadata
  * @param inputTokens - estimated input tokens
  * @param outputTokens - estimated output tokens (or 1 for images)
+ * @param reasoningTokens - thinking tokens from deep-think models, billed
+ *                          at the completion text rate on top of outputTokens
+ * @param audioSeconds - length of generated audio, for per-second pricing
  */
 export function computePollenCost(
   pricing: {
@@ -36,6 +46,8 @@ export function computePollenCost(
   } | null | undefined,
   inputTokens = 100,
   outputTokens = 500,
+  reasoningTokens = 0,
+  audioSeconds = ESTIMATED_AUDIO_SECONDS,
 ): number {
   if (!pricing) return MIN_POLLEN_PER_PROMPT;
 
@@ -51,17 +63,17 @@ export function computePollenCost(
 
   // Output cost — use whichever applies
   if (pricing.completionTextTokens) {
-    cost += pricing.completionTextTokens * outputTokens;
+    cost += pricing.completionTextTokens * (outputTokens + reasoningTokens);
   } else if (pricing.completionImageTokens) {
     cost += pricing.completionImageTokens; // per image
   } else if (pricing.completionVideoSeconds) {
-    cost += pricing.completionVideoSeconds * 5; // estimate 5 seconds
+    cost += pricing.completionVideoSeconds * ESTIMATED_VIDEO_SECONDS;
   } else if (pricing.completionVideoTokens) {
     cost += pricing.completionVideoTokens * outputTokens;
   } else if (pricing.completionAudioTokens) {
     cost += pricing.completionAudioTokens * outputTokens;
   } else if (pricing.completionAudioSeconds) {
-    cost += pricing.completionAudioSeconds * 10; // estimate 10 seconds
+    cost += pricing.completionAudioSeconds * audioSeconds;
   }
 
   // Ensure at least minimum cost
@@ -79,6 +91,19 @@ export function hasSufficientPollen(
   return balance + EPSILON >= requiredPollen;
 }
 
+/**
+ * Cheapest text model for background tasks (summaries, titles), priced
+ * for a typical small request. Models open to every tier win over
+ * paid-only ones; models without text pricing are skipped.
+ */
+export function pickCheapestTextModel<
+  T extends { type: string; paidOnly: boolean; pricing: Parameters<typeof computePollenCost>[0] },
+>(models: T[]): T | undefined {
+  const priced = models.filter((m) => m.type === 'text' && m.pricing?.completionTextTokens);
+  const cost = (m: T) => computePollenCost(m.pricing, 1_000, 300);
+  return priced.sort((a, b) => Number(a.paidOnly) - Number(b.paidOnly) || cost(a) - cost(b))[0];
+}
+
 /**
  * Format pollen value for display — show up to 5 decimal places.
  */
@@ -88,6 +113,253 @@ export function formatPollen(value: number): string {
   return value.toFixed(5);
 }
 
+// ─── Request cost estimates ──────────────────────────────────────
+
+/** Reply length assumed before a chat has replies of its own */
+export const DEFAULT_EXPECTED_OUTPUT_TOKENS = 500;
+
+/** An image input at the usual high-detail size (4 tiles + base) */
+const ESTIMATED_IMAGE_INPUT_TOKENS = 765;
+
+/** Audio input: ~10 tokens per second of a 128 kbps recording */
+const AUDIO_TOKENS_PER_SECOND = 10;
+const AUDIO_BYTES_PER_SECOND = 16_000;
+
+/** Providers only cache prompt prefixes at least this long */
+const PROMPT_CACHE_MIN_TOKENS = 1_024;
+
+/** Replies averaged for the expected length of the next one */
+const EXPECTED_OUTPUT_SAMPLE = 10;
+
+export interface RequestCostEstimate {
+  /** Cached prompt prefix and the shortest reply */
+  min: number;
+  /** Full prompt price and a reply as long as this chat's usual */
+  expected: number;
+  /** Full prompt price and a reply of the maximum length */
+  max: number;
+  inputTokens: number;      // every prompt token, media included
+  imageTokens: number;
+  audioTokens: number;
+  cachedTokens: number;     // prompt tokens that could be served from the cache
+  expectedOutputTokens: number;
+  maxOutputTokens: number;
+}
+
+/** Average length of this conversation's recent replies, or the default */
+export function expectedReplyTokens(history: Pick<ChatMessage, 'role' | 'tokensUsed' | 'isError'>[]): number {
+  const lengths = history
+    .filter((m) => m.role === 'assistant' && !m.isError && m.tokensUsed)
+    .slice(-EXPECTED_OUTPUT_SAMPLE)
+    .map((m) => m.tokensUsed as number);
+  if (lengths.length === 0) return DEFAULT_EXPECTED_OUTPUT_TOKENS;
+  return Math.round(lengths.reduce((a, b) => a + b, 0) / lengths.length);
+}
+
+/** Tokens of one outgoing message, split by how they're billed */
+function messageTokens(
+  message: ChatCompletionPayload['messages'][number],
+  countText: (text: string) => number,
+): { text: number; image: number; audio: number } {
+  const tokens = { text: 4, image: 0, audio: 0 }; // role + formatting overhead
+  if (typeof message.content === 'string') {
+    tokens.text += countText(message.content);
+  } else {
+    for (const part of message.content) {
+      if (part.type === 'text' && typeof part.text === 'string') {
+        tokens.text += countText(part.text);
+      } else if (part.type === 'image_url') {
+        tokens.image += ESTIMATED_IMAGE_INPUT_TOKENS;
+      } else if (part.type === 'input_audio') {
+        const data = (part.input_audio as { data?: string } | undefined)?.data ?? '';
+        const seconds = (data.length * 0.75) / AUDIO_BYTES_PER_SECOND;
+        tokens.audio += Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND);
+      }
+    }
+  }
+  if (message.tool_calls?.length) tokens.text += countText(JSON.stringify(message.tool_calls));
+  return tokens;
+}
+
+/**
+ * Price range of a chat completion request, read from the exact payload
+ * about to be sent: text, image and audio input at their own rates,
+ * tool declarations, and the reply. When the model has a cached-input
+ * price, everything before the last message is taken as a cacheable
+ * prefix for the low end.
+ */
+export function estimateRequestCost(
+  payload: Pick<ChatCompletionPayload, 'messages' | 'tools' | 'max_tokens'>,
+  model: { pricing: ModelPricing | null | undefined; maxOutputTokens?: number },
+  {
+    countText,
+    expectedOutputTokens = DEFAULT_EXPECTED_OUTPUT_TOKENS,
+  }: {
+    countText: (text: string) => number;
+    expectedOutputTokens?: number;
+  },
+): RequestCostEstimate {
+  let textTokens = 2; // priming
+  let imageTokens = 0;
+  let audioTokens = 0;
+  let prefixTokens = 0;
+  payload.messages.forEach((message, i) => {
+    const tokens = messageTokens(message, countText);
+    textTokens += tokens.text;
+    imageTokens += tokens.image;
+    audioTokens += tokens.audio;
+    if (i < payload.messages.length - 1) prefixTokens += tokens.text;
+  });
+  if (payload.tools?.length) textTokens += countText(JSON.stringify(payload.tools));
+
+  const pricing = model.pricing;
+  const maxOutputTokens = Math.max(payload.max_tokens ?? model.maxOutputTokens ?? 0, expectedOutputTokens);
+  const cachedTokens = pricing?.promptCachedTokens !== undefined && prefixTokens >= PROMPT_CACHE_MIN_TOKENS
+    ? prefixTokens
+    : 0;
+  const base = {
+    inputTokens: textTokens + imageTokens + audioTokens,
+    imageTokens,
+    audioTokens,
+    cachedTokens,
+    expectedOutputTokens,
+    maxOutputTokens,
+  };
+  if (!pricing) return { ...base, min: MIN_POLLEN_PER_PROMPT, expected: MIN_POLLEN_PER_PROMPT, max: MIN_POLLEN_PER_PROMPT };
+
+  const textRate = pricing.promptTextTokens ?? 0;
+  const mediaInput = imageTokens * (pricing.promptImageTokens ?? textRate)
+    + audioTokens * (pricing.promptAudioTokens ?? textRate);
+  const fullInput = textTokens * textRate + mediaInput;
+  const cachedInput = (textTokens - cachedTokens) * textRate + cachedTokens * (pricing.promptCachedTokens ?? textRate) + mediaInput;
+  const output = (tokens: number) => tokens * (pricing.completionTextTokens ?? 0);
+
+  return {
+    ...base,
+    min: Math.max(cachedInput, MIN_POLLEN_PER_PROMPT),
+    expected: Math.max(fullInput + output(expectedOutputTokens), MIN_POLLEN_PER_PROMPT),
+    max: Math.max(fullInput + output(maxOutputTokens), MIN_POLLEN_PER_PROMPT),
+  };
+}
+
+// ─── Budgets ─────────────────────────────────────────────────────
+
+export const DEFAULT_BUDGET: PollenBudget = {
+  dailyCap: null,
+  monthlyCap: null,
+  sessionCap: null,
+  requestCap: null,
+  warnAt: 0.8,
+};
+
+export type BudgetLimitKind = 'request' | 'session' | 'daily' | 'monthly';
+
+/** A cap a send would reach: spent so far, and spent once this request is paid */
+export interface BudgetLimitHit {
+  kind: BudgetLimitKind;
+  cap: number;
+  spent: number;
+  projected: number;
+}
+
+export interface BudgetCheck {
+  /** Caps the send would go over — it needs the user's go-ahead */
+  exceeded: BudgetLimitHit[];
+  /** Caps whose warning threshold this send crosses */
+  warnings: BudgetLimitHit[];
+}
+
+/** Local day (YYYY-MM-DD) and month (YYYY-MM) a time falls in */
+export function budgetPeriod(time: number): { day: string; month: string } {
+  const d = new Date(time);
+  const month = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  return { day: `${month}-${String(d.getDate()).padStart(2, '0')}`, month };
+}
+
+/** Spend for the period `now` is in; totals from an earlier day or month start over */
+export function currentBudgetSpend(spend: BudgetSpend | null | undefined, now: number): BudgetSpend {
+  const { day, month } = budgetPeriod(now);
+  return {
+    day,
+    daySpent: spend?.day === day ? spend.daySpent : 0,
+    month,
+    monthSpent: spend?.month === month ? spend.monthSpent : 0,
+  };
+}
+
+/**
+ * Count pollen spent at `at` (default: now). Spend from an earlier day or
+ * month only changes the totals of the periods it shares with `now`.
+ */
+export function addBudgetSpend(
+  spend: BudgetSpend | null | undefined,
+  pollen: number,
+  now: number,
+  at = now,
+): BudgetSpend {
+  const current = currentBudgetSpend(spend, now);
+  const { day, month } = budgetPeriod(at);
+  return {
+    ...current,
+    daySpent: current.daySpent + (day === current.day ? pollen : 0),
+    monthSpent: current.monthSpent + (month === current.month ? pollen : 0),
+  };
+}
+
+/**
+ * Check an estimated request against the budget. A cap is exceeded when
+ * paying the request would take spend past it; a warning fires only on
+ * the send that first takes spend past `warnAt` of a cap, so each
+ * threshold is announced once per period.
+ */
+export function checkBudget(
+  budget: PollenBudget,
+  { requestCost, sessionSpent, spend, now }: {
+    requestCost: number;
+    sessionSpent: number | null;   // null = not spent in a chat, so no per-chat cap
+    spend: BudgetSpend | null | undefined;
+    now: number;
+  },
+): BudgetCheck {
+  const current = currentBudgetSpend(spend, now);
+  const limits: { kind: BudgetLimitKind; cap: number | null; spent: number }[] = [
+    { kind: 'request', cap: budget.requestCap, spent: 0 },
+    { kind: 'session', cap: sessionSpent === null ? null : budget.sessionCap, spent: sessionSpent ?? 0 },
+    { kind: 'daily', cap: budget.dailyCap, spent: current.daySpent },
+    { kind: 'monthly', cap: budget.monthlyCap, spent: current.monthSpent },
+  ];
+
+  const check: BudgetCheck = { exceeded: [], warnings: [] };
+  for (const { kind, cap, spent } of limits) {
+    if (cap === null || cap < 0) continue;
+    const hit = { kind, cap, spent, projected: spent + requestCost };
+    if (hit.projected > cap + EPSILON) {
+      check.exceeded.push(hit);
+    } else if (kind !== 'request') {
+      const threshold = cap * budget.warnAt;
+      if (spent + EPSILON < threshold && hit.projected + EPSILON >= threshold) check.warnings.push(hit);
+    }
+  }
+  return check;
+}
+
+const LIMIT_NAMES: Record<BudgetLimitKind, string> = {
+  request: 'per-request limit',
+  session: 'limit for this chat',
+  daily: 'daily budget',
+  monthly: 'monthly budget',
+};
+
+/** One-line explanation of a cap being reached or exceeded */
+export function describeBudgetLimit(hit: BudgetLimitHit): string {
+  const name = LIMIT_NAMES[hit.kind];
+  if (hit.kind === 'request') {
+    return `This request is estimated at ${formatPollen(hit.projected)} pollen, over your ${name} of ${formatPollen(hit.cap)}.`;
+  }
+  const share = hit.cap > 0 ? Math.round((hit.projected / hit.cap) * 100) : 100;
+  return `This would bring you to ${formatPollen(hit.projected)} of your ${name} of ${formatPollen(hit.cap)} pollen (${share}%).`;
+}
+
 /**
  * Compute the math example for verification:
  * 1 / 25000 = 0.00004
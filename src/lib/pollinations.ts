@@ -14,7 +14,11 @@ import type {
   ApiKeyInfo,
   UsageRecord,
   StreamDelta,
+  ToolCall,
+  ToolCallDelta,
+  RetryStatus,
 } from '../types';
+import { countTokens, estimateMessagesTokens } from './tokenizer';
 
 const BASE = 'https://gen.pollinations.ai';
 
@@ -43,6 +47,125 @@ async function safeFetch(url: string, init?: RequestInit) {
   }
 }
 
+// ─── Retry policy ────────────────────────────────────────────────
+
+export interface RetryPolicy {
+  maxRetries: number;
+  /** First backoff step; doubles on every attempt */
+  baseDelayMs: number;
+  /** Backoff cap — a longer Retry-After means giving up instead */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  /** Called before waiting for the next attempt */
+  onRetry?: (status: RetryStatus) => void;
+}
+
+/** Rate limits, timeouts, gateway errors and dropped connections are worth retrying */
+const RETRYABLE_STATUSES = new Set([0, 408, 425, 429, 500, 502, 503, 504]);
+
+export function isRetryableError(err: unknown): boolean {
+  return err instanceof PollinationsError && RETRYABLE_STATUSES.has(err.status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or an HTTP date) into
+ * milliseconds from now. Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After
+ * when given, otherwise exponential backoff with full jitter.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling * random());
+}
+
+function describeRetryReason(err: PollinationsError): string {
+  if (err.code === 'stream_interrupted') return 'Connection lost';
+  if (err.status === 0) return 'Network error';
+  if (err.status === 429) return 'Rate limited';
+  if (err.status === 408) return 'Request timed out';
+  return `Server error (${err.status})`;
+}
+
+/** The error a cancelled request rejects with, as fetch does */
+export function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** setTimeout as a promise that rejects with an AbortError when cancelled */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `task` until it succeeds, retrying retryable errors per the policy.
+ * `task` gets the 0-based attempt number.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, signal, onRetry }: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (err) {
+      if (signal?.aborted) throw abortError();
+      if (!isRetryableError(err) || attempt >= policy.maxRetries) throw err;
+      const { retryAfterMs } = err as PollinationsError;
+      // Waiting longer than the cap isn't worth it — surface the error
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) throw err;
+      const delay = computeBackoffDelay(attempt, policy, retryAfterMs);
+      onRetry?.({
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        retryAt: Date.now() + delay,
+        reason: describeRetryReason(err as PollinationsError),
+        resuming: false,
+      });
+      await sleep(delay, signal);
+    }
+  }
+}
+
 // ─── API Key Validation ──────────────────────────────────────────
 
 /**
@@ -195,6 +318,7 @@ function inferCapabilities(m: RawTextModel): ModelCapabilities {
       name.includes('deepseek') ||
       name.includes('reasoning'),
     codeExecution: !!m.code_execution || name.includes('coder'),
+    tools: !!m.tools,
   };
 }
 
@@ -241,6 +365,7 @@ export async function getTextModels(apiKey?: string): Promise<PollinationsModel[
       maxOutputTokens: maxOutput,
       contextLength: maxInput + maxOutput,
       aliases: m.aliases ?? [],
+      ...(m.voices?.length && { voices: m.voices }),
     };
   });
 }
@@ -272,6 +397,7 @@ export async function getImageModels(apiKey?: string): Promise<PollinationsModel
         webSearch: false,
         deepThink: false,
         codeExecution: false,
+        tools: false,
       },
       maxInputTokens: 4096,
       maxOutputTokens: 1, // 1 image/video
@@ -306,11 +432,13 @@ export async function getAudioModels(apiKey?: string): Promise<PollinationsModel
         webSearch: false,
         deepThink: false,
         codeExecution: false,
+        tools: false,
       },
       maxInputTokens: 4096,
       maxOutputTokens: 1,
       contextLength: 4097,
       aliases: m.aliases ?? [],
+      ...(m.voices?.length && { voices: m.voices }),
     };
   });
 }
@@ -331,16 +459,137 @@ export async function getAllModels(apiKey?: string): Promise<PollinationsModel[]
 
 // ─── Streaming Generation ────────────────────────────────────────
 
+export interface ChatCompletionMessage {
+  role: string;
+  content: string | Array<{ type: string; [k: string]: unknown }>;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+/** JSON-schema function declaration sent in `tools` */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
 export interface ChatCompletionPayload {
   model: string;
-  messages: Array<{
-    role: string;
-    content: string | Array<{ type: string; [k: string]: unknown }>;
-  }>;
+  messages: ChatCompletionMessage[];
   stream?: boolean;
   max_tokens?: number;
   temperature?: number;
   stream_options?: { include_usage: boolean };
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+}
+
+/**
+ * Merge streamed `delta.tool_calls` fragments into complete tool calls.
+ * The first fragment for an index carries the id and name; later ones
+ * append to the JSON arguments string.
+ */
+export function mergeToolCallDeltas(acc: ToolCall[], deltas: ToolCallDelta[]): ToolCall[] {
+  const next = [...acc];
+  for (const d of deltas) {
+    const existing = next[d.index];
+    if (!existing) {
+      next[d.index] = {
+        id: d.id ?? `call_${d.index}`,
+        type: 'function',
+        function: {
+          name: d.function?.name ?? '',
+          arguments: d.function?.arguments ?? '',
+        },
+      };
+      continue;
+    }
+    next[d.index] = {
+      ...existing,
+      id: d.id ?? existing.id,
+      function: {
+        name: existing.function.name + (d.function?.name ?? ''),
+        arguments: existing.function.arguments + (d.function?.arguments ?? ''),
+      },
+    };
+  }
+  return next;
+}
+
+/**
+ * Split inline `<think>…</think>` reasoning out of streamed content.
+ *
+ * Some deep-think models emit their reasoning as a leading `<think>` block
+ * in `delta.content` instead of `reasoning_content`. Tags may be split
+ * across chunks, so partial tags are buffered. A `<think>` that appears
+ * after the answer has started is treated as ordinary text. Pass
+ * `final = true` at the end of the stream to flush anything buffered.
+ */
+export function createThinkTagSplitter(): (chunk: string, final?: boolean) => { content: string; reasoning: string } {
+  const OPEN = '<think>';
+  const CLOSE = '</think>';
+  let state: 'start' | 'thinking' | 'answer' = 'start';
+  let pending = '';
+
+  return (chunk, final = false) => {
+    let content = '';
+    let reasoning = '';
+    let text = pending + chunk;
+    pending = '';
+
+    while (text) {
+      if (state === 'answer') {
+        content += text;
+        break;
+      }
+      if (state === 'start') {
+        const trimmed = text.trimStart();
+        if (!trimmed) {
+          pending = text;
+          break;
+        }
+        if (trimmed.startsWith(OPEN)) {
+          state = 'thinking';
+          text = trimmed.slice(OPEN.length);
+        } else if (OPEN.startsWith(trimmed)) {
+          pending = text; // could still become "<think>"
+          break;
+        } else {
+          state = 'answer';
+        }
+        continue;
+      }
+      // thinking
+      const end = text.indexOf(CLOSE);
+      if (end !== -1) {
+        reasoning += text.slice(0, end);
+        text = text.slice(end + CLOSE.length).replace(/^\s+/, '');
+        state = 'answer';
+        continue;
+      }
+      // Hold back a possible partial closing tag
+      let keep = 0;
+      for (let n = Math.min(CLOSE.length - 1, text.length); n > 0; n--) {
+        if (CLOSE.startsWith(text.slice(-n))) {
+          keep = n;
+          break;
+        }
+      }
+      reasoning += text.slice(0, text.length - keep);
+      pending = text.slice(text.length - keep);
+      break;
+    }
+
+    if (final && pending) {
+      if (state === 'thinking') reasoning += pending;
+      else content += pending;
+      pending = '';
+    }
+    return { content, reasoning };
+  };
 }
 
 /**
@@ -350,15 +599,19 @@ export interface ChatCompletionPayload {
  * @param apiKey   - user's API key
  * @param payload  - OpenAI-compatible chat completions payload
  * @param onChunk  - called with each text delta as it arrives
- * @param onDone   - called when stream ends, with final usage data
+ * @param onDone   - called when stream ends, with final usage data and any
+ *                   tool calls the model requested
  * @param signal   - optional AbortSignal to cancel the stream
+ * @param onReasoning - called with each reasoning delta (`reasoning_content`
+ *                      or a leading `<think>` block), kept out of onChunk
  */
 export async function streamGeneration(
   apiKey: string,
   payload: ChatCompletionPayload,
   onChunk: (text: string) => void,
-  onDone: (usage?: StreamDelta['usage'], userTier?: string) => void,
+  onDone: (usage?: StreamDelta['usage'], userTier?: string, toolCalls?: ToolCall[]) => void,
   signal?: AbortSignal,
+  onReasoning?: (text: string) => void,
 ): Promise<void> {
   const body = {
     ...payload,
@@ -366,7 +619,7 @@ export async function streamGeneration(
     stream_options: { include_usage: true },
   };
 
-  const res = await fetch(`${BASE}/v1/chat/completions`, {
+  const res = await safeFetch(`${BASE}/v1/chat/completions`, {
     method: 'POST',
     headers: headers(apiKey),
     body: JSON.stringify(body),
@@ -377,7 +630,7 @@ export async function streamGeneration(
     const errBody = await res.json().catch(() => null);
     const code = errBody?.error?.code ?? '';
     const msg = errBody?.error?.message ?? `HTTP ${res.status}`;
-    throw new PollinationsError(msg, res.status, code);
+    throw new PollinationsError(msg, res.status, code, parseRetryAfter(res.headers.get('retry-after')));
   }
 
   // Validate that we got a streaming response, not a JSON error with 200
@@ -396,9 +649,23 @@ export async function streamGeneration(
   let buffer = '';
   let lastUsage: StreamDelta['usage'] | undefined;
   let lastTier: string | undefined;
+  let toolCalls: ToolCall[] = [];
+  const splitThink = createThinkTagSplitter();
+  const emitContent = (text: string, final = false) => {
+    const { content, reasoning } = splitThink(text, final);
+    if (reasoning) onReasoning?.(reasoning);
+    if (content) onChunk(content);
+  };
 
   while (true) {
-    const { value, done } = await reader.read();
+    let result: Awaited<ReturnType<typeof reader.read>>;
+    try {
+      result = await reader.read();
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') throw err;
+      throw new PollinationsError('The connection dropped while the reply was streaming.', 0, 'stream_interrupted');
+    }
+    const { value, done } = result;
     if (done) break;
 
     buffer += decoder.decode(value, { stream: true });
@@ -409,7 +676,8 @@ export async function streamGeneration(
       const trimmed = line.trim();
       if (!trimmed || trimmed === ':') continue;
       if (trimmed === 'data: [DONE]') {
-        onDone(lastUsage, lastTier);
+        emitContent('', true);
+        onDone(lastUsage, lastTier, toolCalls.filter(Boolean));
         return;
       }
       if (trimmed.startsWith('data: ')) {
@@ -417,8 +685,12 @@ export async function streamGeneration(
           const json: StreamDelta = JSON.parse(trimmed.slice(6));
           if (json.usage) lastUsage = json.usage;
           if (json.user_tier) lastTier = json.user_tier;
-          const delta = json.choices?.[0]?.delta?.content;
-          if (delta) onChunk(delta);
+          const choiceDelta = json.choices?.[0]?.delta;
+          const reasoningDelta = choiceDelta?.reasoning_content ?? choiceDelta?.reasoning;
+          if (reasoningDelta) onReasoning?.(reasoningDelta);
+          if (choiceDelta?.content) emitContent(choiceDelta.content);
+          const toolDeltas = choiceDelta?.tool_calls;
+          if (toolDeltas) toolCalls = mergeToolCallDeltas(toolCalls, toolDeltas);
         } catch {
           // skip malformed chunks
         }
@@ -427,7 +699,214 @@ export async function streamGeneration(
   }
 
   // If we exit without [DONE], still call onDone
-  onDone(lastUsage, lastTier);
+  emitContent('', true);
+  onDone(lastUsage, lastTier, toolCalls.filter(Boolean));
+}
+
+/** Asks the model to pick up an interrupted reply */
+const CONTINUE_PROMPT =
+  'Your previous reply was cut off by a network error. Continue exactly where it stopped — ' +
+  'do not repeat any of it and do not comment on the interruption.';
+
+/** Shortest repeated prefix worth trimming from a continuation */
+const MIN_OVERLAP_CHARS = 8;
+/** How much of a continuation is held back to look for repeated text */
+const OVERLAP_WINDOW_CHARS = 200;
+
+/**
+ * Models asked to continue often restate the last few words. Returns a
+ * filter for the continuation's chunks that drops text repeating the end
+ * of `partial`; the first OVERLAP_WINDOW_CHARS are buffered to check.
+ */
+export function createOverlapTrimmer(partial: string): (chunk: string, final?: boolean) => string {
+  let buffer = '';
+  let checked = false;
+
+  return (chunk, final = false) => {
+    if (checked) return chunk;
+    buffer += chunk;
+    if (buffer.length < OVERLAP_WINDOW_CHARS && !final) return '';
+    checked = true;
+    for (let n = Math.min(buffer.length, partial.length); n >= MIN_OVERLAP_CHARS; n--) {
+      if (partial.endsWith(buffer.slice(0, n))) return buffer.slice(n);
+    }
+    return buffer;
+  };
+}
+
+type StreamUsage = NonNullable<StreamDelta['usage']>;
+
+/** Estimated usage of an attempt whose stream ended before reporting any */
+function estimateAttemptUsage(messages: ChatCompletionMessage[], text: string, reasoning: string): StreamUsage {
+  const promptTokens = estimateMessagesTokens(messages.map((m) => ({
+    role: m.role,
+    content: typeof m.content === 'string'
+      ? m.content
+      : m.content.map((part) => (typeof part.text === 'string' ? part.text : '')).join(''),
+  })));
+  const reasoningTokens = countTokens(reasoning);
+  const completionTokens = countTokens(text) + reasoningTokens;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(reasoningTokens > 0 && { completion_tokens_details: { reasoning_tokens: reasoningTokens } }),
+  };
+}
+
+function addUsage(a: StreamUsage, b: StreamUsage): StreamUsage {
+  const aReasoning = a.completion_tokens_details?.reasoning_tokens;
+  const bReasoning = b.completion_tokens_details?.reasoning_tokens;
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    ...((aReasoning !== undefined || bReasoning !== undefined) && {
+      completion_tokens_details: { reasoning_tokens: (aReasoning ?? 0) + (bReasoning ?? 0) },
+    }),
+  };
+}
+
+/**
+ * `streamGeneration` with retries. Errors before any content arrived
+ * restart the request; a stream that drops mid-reply is resumed by
+ * sending the partial reply back and asking the model to continue, so
+ * `onChunk` only ever sees new text. The prompt and output of dropped
+ * attempts were billed too, so `onDone` gets their estimated usage added
+ * to the final attempt's, and the number of billed requests behind it.
+ */
+export async function streamGenerationWithRetry(
+  apiKey: string,
+  payload: ChatCompletionPayload,
+  onChunk: (text: string) => void,
+  onDone: (usage?: StreamDelta['usage'], userTier?: string, toolCalls?: ToolCall[], requests?: number) => void,
+  signal?: AbortSignal,
+  onReasoning?: (text: string) => void,
+  options: Omit<RetryOptions, 'signal'> = {},
+): Promise<void> {
+  let partial = '';
+  let dropped: StreamUsage | undefined;
+  let droppedRequests = 0;
+
+  await withRetry(
+    () => {
+      const resumeFrom = partial;
+      const messages: ChatCompletionMessage[] = resumeFrom
+        ? [...payload.messages, { role: 'assistant', content: resumeFrom }, { role: 'user', content: CONTINUE_PROMPT }]
+        : payload.messages;
+      const trim = resumeFrom ? createOverlapTrimmer(resumeFrom) : (chunk: string) => chunk;
+      let attemptText = '';
+      let attemptReasoning = '';
+      const emit = (text: string) => {
+        if (!text) return;
+        partial += text;
+        attemptText += text;
+        onChunk(text);
+      };
+
+      return streamGeneration(
+        apiKey,
+        { ...payload, messages },
+        (chunk) => emit(trim(chunk)),
+        (usage, userTier, toolCalls) => {
+          emit(trim('', true));
+          const total = dropped
+            ? addUsage(dropped, usage ?? estimateAttemptUsage(messages, attemptText, attemptReasoning))
+            : usage;
+          onDone(total, userTier, toolCalls, droppedRequests + 1);
+        },
+        signal,
+        (text) => {
+          attemptReasoning += text;
+          onReasoning?.(text);
+        },
+      ).catch((err) => {
+        // Anything streamed before the drop was billed
+        if (attemptText || attemptReasoning) {
+          const usage = estimateAttemptUsage(messages, attemptText, attemptReasoning);
+          dropped = dropped ? addUsage(dropped, usage) : usage;
+          droppedRequests += 1;
+        }
+        throw err;
+      });
+    },
+    {
+      ...options,
+      signal,
+      onRetry: (status) => options.onRetry?.({ ...status, resuming: partial.length > 0 }),
+    },
+  );
+}
+
+/**
+ * Non-streaming chat completion for short background tasks
+ * (summaries, titles). Returns the reply text and reported usage;
+ * transient failures are retried with the default policy.
+ */
+export async function generateCompletion(
+  apiKey: string,
+  payload: ChatCompletionPayload,
+  signal?: AbortSignal,
+): Promise<{ content: string; usage?: StreamDelta['usage'] }> {
+  return withRetry(async () => {
+    const res = await safeFetch(`${BASE}/v1/chat/completions`, {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({ ...payload, stream: false }),
+      signal,
+    });
+
+    if (!res.ok) {
+      const errBody = await res.json().catch(() => null);
+      const code = errBody?.error?.code ?? '';
+      const msg = errBody?.error?.message ?? `HTTP ${res.status}`;
+      throw new PollinationsError(msg, res.status, code, parseRetryAfter(res.headers.get('retry-after')));
+    }
+
+    const body = await res.json().catch(() => null);
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new PollinationsError('The server returned an empty response. Please try again.', 0, 'empty_body');
+    }
+    // Reasoning models may still wrap their thoughts in <think> tags
+    return { content: createThinkTagSplitter()(content, true).content.trim(), usage: body.usage };
+  }, { signal });
+}
+
+/**
+ * Embedding vectors for `input` from the OpenAI-compatible embeddings
+ * endpoint, in input order.
+ */
+export async function generateEmbeddings(
+  apiKey: string,
+  model: string,
+  input: string[],
+  signal?: AbortSignal,
+): Promise<number[][]> {
+  return withRetry(async () => {
+    const res = await safeFetch(`${BASE}/v1/embeddings`, {
+      method: 'POST',
+      headers: headers(apiKey),
+      body: JSON.stringify({ model, input }),
+      signal,
+    });
+
+    if (!res.ok) {
+      const errBody = await res.json().catch(() => null);
+      const code = errBody?.error?.code ?? '';
+      const msg = errBody?.error?.message ?? `HTTP ${res.status}`;
+      throw new PollinationsError(msg, res.status, code, parseRetryAfter(res.headers.get('retry-after')));
+    }
+
+    const body = await res.json().catch(() => null);
+    const data: Array<{ index?: number; embedding?: unknown }> | undefined = body?.data;
+    if (!Array.isArray(data) || data.length !== input.length || !data.every((d) => Array.isArray(d.embedding))) {
+      throw new PollinationsError('The server returned no embeddings.', 0, 'empty_body');
+    }
+    return [...data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((d) => d.embedding as number[]);
+  }, { signal });
 }
 
 // ─── Image Generation ────────────────────────────────────────────
@@ -631,10 +1110,13 @@ function stripHtml(str: string): string {
 export class PollinationsError extends Error {
   status: number;
   code: string;
-  constructor(message: string, status: number, code: string) {
+  /** From the Retry-After header, when the server sent one */
+  retryAfterMs?: number;
+  constructor(message: string, status: number, code: string, retryAfterMs?: number) {
     super(message);
     this.name = 'PollinationsError';
     this.status = status;
     this.code = code;
+    this.retryAfterMs = retryAfterMs;
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Settings presets — how a chat's generation settings are resolved.
+ *
+ * Each value comes from the first layer that sets it:
+ *   chat overrides → the chat's preset → global AppSettings
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { AppSettings, ChatSession, GenerationOverrides, SettingsPreset } from '../types';
+
+/** The settings a preset or chat can override */
+export type GenerationSettings = Required<GenerationOverrides>;
+
+export type SettingSource = 'chat' | 'preset' | 'default';
+
+export const GENERATION_SETTING_KEYS: (keyof GenerationSettings)[] = [
+  'systemPrompt',
+  'temperature',
+  'creativity',
+];
+
+/** Look up the preset a session inherits from; a deleted preset resolves to none */
+export function findPreset(
+  presets: SettingsPreset[],
+  presetId: string | null | undefined,
+): SettingsPreset | undefined {
+  return presetId ? presets.find((p) => p.id === presetId) : undefined;
+}
+
+/** Effective generation settings for a chat */
+export function resolveGenerationSettings(
+  settings: AppSettings,
+  preset?: SettingsPreset,
+  overrides?: GenerationOverrides,
+): GenerationSettings {
+  return {
+    systemPrompt: overrides?.systemPrompt ?? preset?.systemPrompt ?? settings.systemPrompt,
+    temperature: overrides?.temperature ?? preset?.temperature ?? settings.temperature,
+    creativity: overrides?.creativity ?? preset?.creativity ?? settings.creativity,
+  };
+}
+
+/** Which layer a setting's effective value comes from */
+export function settingSource(
+  key: keyof GenerationSettings,
+  preset?: SettingsPreset,
+  overrides?: GenerationOverrides,
+): SettingSource {
+  if (overrides?.[key] !== undefined) return 'chat';
+  if (preset?.[key] !== undefined) return 'preset';
+  return 'default';
+}
+
+/** Drop one override so the value is inherited again */
+export function clearOverride(
+  overrides: GenerationOverrides | undefined,
+  key: keyof GenerationSettings,
+): GenerationOverrides {
+  const next = { ...overrides };
+  delete next[key];
+  return next;
+}
+
+/** A new preset capturing a chat's current effective settings */
+export function createPreset(
+  name: string,
+  values: GenerationSettings,
+  model?: string,
+): SettingsPreset {
+  const now = Date.now();
+  return {
+    id: uuid(),
+    name: name.trim(),
+    ...values,
+    ...(model && { model }),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Session fields to patch when a preset is applied. The chat's own
+ * overrides are dropped so the preset takes effect; `null` goes back to
+ * the global defaults.
+ */
+export function applyPreset(
+  session: Pick<ChatSession, 'model'>,
+  preset: SettingsPreset | null,
+): Pick<ChatSession, 'presetId' | 'overrides' | 'model'> {
+  return {
+    presetId: preset?.id ?? null,
+    overrides: {},
+    model: preset?.model ?? session.model,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Prompt library — reusable templates with `{{variable}}` placeholders.
+ *
+ * Placeholders are found in the template text; each one's input type,
+ * label, default and choices live in `variables`, kept in step with the
+ * text as it's edited. Libraries travel between people as JSON.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { PromptLibraryExport, PromptTemplate, PromptVariable, PromptVariableType } from '../types';
+
+export const PROMPT_VARIABLE_TYPES: { type: PromptVariableType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'multiline', label: 'Long text' },
+  { type: 'number', label: 'Number' },
+  { type: 'select', label: 'Choice' },
+];
+
+/** `{{name}}`, spaces inside the braces allowed */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** Placeholder names in order of first use */
+export function parseVariableNames(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(PLACEHOLDER)) names.add(match[1]);
+  return [...names];
+}
+
+/**
+ * Variables for the placeholders `content` uses: settings are kept for
+ * names still there, new names start as plain text.
+ */
+export function syncVariables(content: string, variables: PromptVariable[]): PromptVariable[] {
+  return parseVariableNames(content).map(
+    (name) => variables.find((v) => v.name === name) ?? { name, type: 'text' },
+  );
+}
+
+export function createPromptTemplate(
+  fields: Pick<PromptTemplate, 'name' | 'content'> & Partial<Pick<PromptTemplate, 'category' | 'variables'>>,
+): PromptTemplate {
+  const now = Date.now();
+  return {
+    id: uuid(),
+    name: fields.name.trim(),
+    content: fields.content,
+    category: fields.category?.trim() ?? '',
+    favorite: false,
+    variables: syncVariables(fields.content, fields.variables ?? []),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Values a template's form starts with */
+export function initialVariableValues(template: PromptTemplate): Record<string, string> {
+  return Object.fromEntries(template.variables.map((v) => [
+    v.name,
+    v.defaultValue ?? (v.type === 'select' ? v.options?.[0] ?? '' : ''),
+  ]));
+}
+
+/** Why a value can't be used, or null */
+export function variableError(variable: PromptVariable, value: string): string | null {
+  const label = variable.label || variable.name;
+  if (!value.trim()) return `${label} is required`;
+  if (variable.type === 'number' && !Number.isFinite(Number(value))) return `${label} must be a number`;
+  if (variable.type === 'select' && variable.options?.length && !variable.options.includes(value)) {
+    return `${label} must be one of ${variable.options.join(', ')}`;
+  }
+  return null;
+}
+
+/** The template text with every placeholder replaced by its value */
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER, (_match, name: string) => values[name] ?? '');
+}
+
+/** The search typed after `/` while the composer holds nothing else, or null */
+export function matchSlashCommand(text: string): string | null {
+  return /^\/(\S*)$/.exec(text)?.[1] ?? null;
+}
+
+/** Templates whose name or category contains every word of `query`, favorites first */
+export function searchTemplates(templates: PromptTemplate[], query: string): PromptTemplate[] {
+  const words = query.toLowerCase().split(/[\s/]+/).filter(Boolean);
+  return templates
+    .filter((t) => {
+      const haystack = `${t.name} ${t.category}`.toLowerCase();
+      return words.every((w) => haystack.includes(w));
+    })
+    .sort((a, b) => Number(b.favorite) - Number(a.favorite) || a.name.localeCompare(b.name));
+}
+
+export function templateCategories(templates: PromptTemplate[]): string[] {
+  return [...new Set(templates.map((t) => t.category).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+}
+
+// ─── Export / import ─────────────────────────────────────────────
+
+export function exportPromptLibrary(templates: PromptTemplate[]): string {
+  const data: PromptLibraryExport = {
+    version: '1.0',
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Templates from an exported library (or a bare array of templates).
+ * Missing optional fields are filled in and variables re-synced with the
+ * text, so hand-written files work too. Ids are kept, so importing a
+ * newer copy of a shared library updates the templates it already added.
+ */
+export function importPromptLibrary(raw: string): PromptTemplate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'templates' in parsed
+      ? (parsed as PromptLibraryExport).templates
+      : null;
+  if (!Array.isArray(list)) {
+    throw new Error('Unrecognized prompt library: expected { version, templates } or an array of templates');
+  }
+
+  const now = Date.now();
+  return list.map((item: Partial<PromptTemplate>, i) => {
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item.content !== 'string') {
+      throw new Error(`Invalid template ${i + 1}: missing name or content`);
+    }
+    const variables = Array.isArray(item.variables)
+      ? item.variables.filter((v) => typeof v?.name === 'string').map(normalizeVariable)
+      : [];
+    return {
+      id: typeof item.id === 'string' && item.id ? item.id : uuid(),
+      name: item.name.trim(),
+      content: item.content,
+      category: typeof item.category === 'string' ? item.category.trim() : '',
+      favorite: item.favorite === true,
+      variables: syncVariables(item.content, variables),
+      createdAt: typeof item.createdAt === 'number' ? item.createdAt : now,
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : now,
+    };
+  });
+}
+
+function normalizeVariable(variable: PromptVariable): PromptVariable {
+  const type = PROMPT_VARIABLE_TYPES.some((t) => t.type === variable.type) ? variable.type : 'text';
+  return {
+    name: variable.name,
+    type,
+    ...(typeof variable.label === 'string' && variable.label && { label: variable.label }),
+    ...(typeof variable.defaultValue === 'string' && { defaultValue: variable.defaultValue }),
+    ...(type === 'select' && Array.isArray(variable.options) && { options: variable.options.map(String) }),
+  };
+}
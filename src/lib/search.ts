@@ -0,0 +1,195 @@
+/**
+ * Full-text search helpers — tokenizing, query parsing, filtering and
+ * snippet highlighting. The inverted index itself lives in IndexedDB
+ * (see `lib/storage.ts`); everything here is pure.
+ */
+
+import type { ChatMessage, GenerationMode } from '../types';
+
+/** One indexed message: metadata for filtering plus its unique terms */
+export interface SearchDoc {
+  key: string;           // `${sessionId}:${messageId}`
+  sessionId: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  model?: string;
+  mode: GenerationMode;
+  timestamp: number;
+  terms: string[];
+}
+
+export interface SearchFilters {
+  role?: ChatMessage['role'];
+  model?: string;
+  mode?: GenerationMode;
+  from?: number;         // inclusive timestamp
+  to?: number;           // inclusive timestamp
+  sessionId?: string;
+}
+
+export interface ParsedQuery {
+  /** Every term that must appear (phrase words included) */
+  terms: string[];
+  /** Quoted phrases, as token sequences that must appear in order */
+  phrases: string[][];
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  model?: string;
+  mode: GenerationMode;
+  timestamp: number;
+  snippet: string;
+  /** [start, end) character ranges in `snippet` to highlight */
+  highlights: Array<[number, number]>;
+  score: number;
+}
+
+const TOKEN_RE = /[\p{L}\p{N}_]+/gu;
+const MAX_TERM_LENGTH = 40;
+
+/** Lowercased word tokens with their character offsets */
+export function tokenizeWithOffsets(text: string): Array<{ term: string; start: number; end: number }> {
+  const out: Array<{ term: string; start: number; end: number }> = [];
+  for (const m of text.matchAll(TOKEN_RE)) {
+    const start = m.index ?? 0;
+    out.push({ term: m[0].toLowerCase().slice(0, MAX_TERM_LENGTH), start, end: start + m[0].length });
+  }
+  return out;
+}
+
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map((t) => t.term);
+}
+
+/** Unique terms of a message, as stored in the index */
+export function uniqueTerms(text: string): string[] {
+  return [...new Set(tokenize(text))];
+}
+
+export function docKey(sessionId: string, messageId: string): string {
+  return `${sessionId}:${messageId}`;
+}
+
+export function toSearchDoc(sessionId: string, message: ChatMessage): SearchDoc {
+  return {
+    key: docKey(sessionId, message.id),
+    sessionId,
+    messageId: message.id,
+    role: message.role,
+    model: message.model,
+    mode: message.mode,
+    timestamp: message.timestamp,
+    terms: uniqueTerms(message.content),
+  };
+}
+
+/**
+ * Parse a query: bare words are ANDed, `"quoted text"` must match as a
+ * phrase. An unterminated quote is treated as a phrase to the end.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const terms: string[] = [];
+  const re = /"([^"]*)"?|([^\s"]+)/g;
+  for (const m of query.matchAll(re)) {
+    if (m[1] !== undefined) {
+      const words = tokenize(m[1]);
+      if (words.length > 1) phrases.push(words);
+      terms.push(...words);
+    } else if (m[2]) {
+      terms.push(...tokenize(m[2]));
+    }
+  }
+  return { terms: [...new Set(terms)], phrases };
+}
+
+export function matchesFilters(doc: SearchDoc, filters: SearchFilters): boolean {
+  if (filters.role && doc.role !== filters.role) return false;
+  if (filters.model && doc.model !== filters.model) return false;
+  if (filters.mode && doc.mode !== filters.mode) return false;
+  if (filters.sessionId && doc.sessionId !== filters.sessionId) return false;
+  if (filters.from !== undefined && doc.timestamp < filters.from) return false;
+  if (filters.to !== undefined && doc.timestamp > filters.to) return false;
+  return true;
+}
+
+/** Every [start, end) range in `text` matching a query term or phrase */
+export function findMatches(text: string, query: ParsedQuery): Array<[number, number]> {
+  const tokens = tokenizeWithOffsets(text);
+  const ranges: Array<[number, number]> = [];
+
+  for (const phrase of query.phrases) {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((w, j) => tokens[i + j].term === w)) {
+        ranges.push([tokens[i].start, tokens[i + phrase.length - 1].end]);
+      }
+    }
+  }
+
+  const phraseWords = new Set(query.phrases.flat());
+  const bare = new Set(query.terms.filter((t) => !phraseWords.has(t)));
+  for (const t of tokens) {
+    if (bare.has(t.term)) ranges.push([t.start, t.end]);
+  }
+
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/** True when every phrase occurs in order in the text */
+export function matchesPhrases(text: string, query: ParsedQuery): boolean {
+  if (query.phrases.length === 0) return true;
+  const terms = tokenize(text);
+  return query.phrases.every((phrase) =>
+    terms.some((_, i) => phrase.every((w, j) => terms[i + j] === w)),
+  );
+}
+
+/**
+ * Cut a window of `radius` characters around the first match and map the
+ * match ranges into it.
+ */
+export function buildSnippet(
+  text: string,
+  matches: Array<[number, number]>,
+  radius = 80,
+): { snippet: string; highlights: Array<[number, number]> } {
+  const flat = text.replace(/\s+/g, ' ');
+  const first = matches[0];
+  if (!first) {
+    const snippet = flat.slice(0, radius * 2);
+    return { snippet: snippet + (flat.length > snippet.length ? '…' : ''), highlights: [] };
+  }
+
+  // Collapsing whitespace shifts offsets — map them onto the flattened text
+  const shift = (offset: number) => text.slice(0, offset).replace(/\s+/g, ' ').length;
+  const start = Math.max(0, shift(first[0]) - radius);
+  const end = Math.min(flat.length, shift(first[1]) + radius);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+
+  const highlights: Array<[number, number]> = [];
+  for (const [s, e] of matches) {
+    const hs = shift(s) - start + prefix.length;
+    const he = shift(e) - start + prefix.length;
+    if (hs >= prefix.length && he <= end - start + prefix.length) highlights.push([hs, he]);
+  }
+
+  return { snippet: prefix + flat.slice(start, end) + suffix, highlights };
+}
+
+/** Postings to add/remove when a message's term set changes */
+export function diffTerms(
+  previous: string[],
+  next: string[],
+): { added: string[]; removed: string[] } {
+  const prev = new Set(previous);
+  const nxt = new Set(next);
+  return {
+    added: next.filter((t) => !prev.has(t)),
+    removed: previous.filter((t) => !nxt.has(t)),
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Session titles — asks a cheap model for a short title once a chat has
+ * its first exchange, instead of the sliced first message.
+ */
+
+import { generateCompletion, type ChatCompletionMessage } from './pollinations';
+
+/** Longest title kept; model output beyond this is cut at a word boundary */
+export const TITLE_MAX_CHARS = 60;
+
+/** How much of each message the title model gets to read */
+const TITLE_EXCERPT_CHARS = 1_500;
+
+function excerpt(text: string): string {
+  return text.length > TITLE_EXCERPT_CHARS ? `${text.slice(0, TITLE_EXCERPT_CHARS)}…` : text;
+}
+
+/** Prompt for titling a chat from its first user message and reply (if any) */
+export function buildTitleMessages(userText: string, replyText: string): ChatCompletionMessage[] {
+  return [
+    {
+      role: 'system',
+      content:
+        'You name chat conversations. Reply with a title of 3 to 6 words that says what the conversation is about, ' +
+        'in the language of the user\'s message. No quotes, no trailing punctuation, nothing else.',
+    },
+    {
+      role: 'user',
+      // Media replies have no text worth reading — the prompt alone will do
+      content: replyText.trim()
+        ? `User: ${excerpt(userText)}\n\nAssistant: ${excerpt(replyText)}`
+        : `User: ${excerpt(userText)}`,
+    },
+  ];
+}
+
+/** Reduce model output to a single clean title line; empty if nothing usable */
+export function cleanTitle(raw: string): string {
+  const line = raw
+    .split('\n')
+    .map((l) => l.trim())
+    .find(Boolean) ?? '';
+  let title = line
+    .replace(/^(#+\s*|\*\*)/, '')
+    .replace(/\*\*$/, '')
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^["'“”‘’«»]+|["'“”‘’«»]+$/g, '')
+    .replace(/[.。!:;,]+$/, '')
+    .trim();
+  if (title.length > TITLE_MAX_CHARS) {
+    const cut = title.slice(0, TITLE_MAX_CHARS);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = `${lastSpace > TITLE_MAX_CHARS / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+  return title;
+}
+
+/**
+ * Generate a title with a non-streaming call. Returns an empty title when
+ * the model's answer had nothing usable in it.
+ */
+export async function generateSessionTitle(
+  apiKey: string,
+  model: string,
+  userText: string,
+  replyText: string,
+  signal?: AbortSignal,
+): Promise<{ title: string; usage?: { prompt_tokens: number; completion_tokens: number } }> {
+  const { content, usage } = await generateCompletion(
+    apiKey,
+    { model, messages: buildTitleMessages(userText, replyText), max_tokens: 30, temperature: 0.3 },
+    signal,
+  );
+  return { title: cleanTitle(content), usage };
+}
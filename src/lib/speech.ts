@@ -0,0 +1,99 @@
+/**
+ * Read aloud — turns an assistant reply into speakable text, splits it
+ * into chunks the audio endpoint accepts (the text travels in the URL) and
+ * picks the model / voice to speak with.
+ */
+
+import type { PollinationsModel } from '../types';
+
+/** Longest chunk sent to the audio endpoint in one request */
+export const SPEECH_CHUNK_CHARS = 600;
+
+export const DEFAULT_VOICE = 'alloy';
+
+/** Preferred model for read aloud when several audio models are listed */
+const PREFERRED_SPEECH_MODEL = 'openai-audio';
+
+/** Drop Markdown syntax and code so the reply reads naturally */
+export function stripMarkdownForSpeech(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?(```|$)/g, ' ')              // fenced code
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')              // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')            // links → their text
+    .replace(/`([^`]+)`/g, '$1')                        // inline code
+    .replace(/<[^>]+>/g, ' ')                           // HTML tags
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '') // headings, quotes, list markers
+    .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/gm, '')        // table separator rows
+    .replace(/\|/g, ', ')
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([^\n]*?\S)\1/g, '$2') // emphasis
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, breaking between
+ * paragraphs, then sentences, then words.
+ */
+export function splitForSpeech(text: string, maxChars = SPEECH_CHUNK_CHARS): string[] {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const p = paragraph.replace(/\s+/g, ' ').trim();
+    if (!p) continue;
+    if (p.length <= maxChars) {
+      pieces.push(p);
+      continue;
+    }
+    for (const sentence of p.match(/[^.!?…]+[.!?…]+["')\]]*\s*|[^.!?…]+$/g) ?? [p]) {
+      const s = sentence.trim();
+      if (s.length <= maxChars) {
+        pieces.push(s);
+        continue;
+      }
+      // A sentence longer than a chunk: cut between words
+      let current = '';
+      for (const word of s.split(' ')) {
+        if (current && current.length + 1 + word.length > maxChars) {
+          pieces.push(current);
+          current = '';
+        }
+        current = current ? `${current} ${word}` : word.slice(0, maxChars);
+      }
+      if (current) pieces.push(current);
+    }
+  }
+
+  // Pack neighbouring pieces back together up to the limit
+  const chunks: string[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + 1 + piece.length <= maxChars) {
+      chunks[chunks.length - 1] = `${last} ${piece}`;
+    } else {
+      chunks.push(piece);
+    }
+  }
+  return chunks;
+}
+
+/** The preferred voice if the model has it, else the model's first voice */
+export function pickVoice(voices: string[] | undefined, preferred: string): string {
+  if (!voices?.length || voices.includes(preferred)) return preferred;
+  return voices.includes(DEFAULT_VOICE) ? DEFAULT_VOICE : voices[0];
+}
+
+/** An audio model that can speak arbitrary text */
+export function pickSpeechModel(models: PollinationsModel[]): PollinationsModel | undefined {
+  const speakers = models.filter((m) => m.type === 'audio' && m.voices?.length);
+  return speakers.find((m) => m.name === PREFERRED_SPEECH_MODEL) ?? speakers[0];
+}
+
+/**
+ * Identifies the audio made for a text with a voice and model, so cached
+ * read-aloud audio is reused only while all three match.
+ */
+export function speechCacheKey(text: string, voice: string, model: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return `${model}:${voice}:${text.length}:${(hash >>> 0).toString(36)}`;
+}
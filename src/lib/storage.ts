@@ -6,19 +6,53 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb';
-import type { ChatSession, AppSettings } from '../types';
+import type {
+  ChatSession,
+  AppSettings,
+  BudgetSpend,
+  KnowledgeCollection,
+  MediaRecord,
+  PollenBudget,
+  PromptTemplate,
+  SettingsPreset,
+  UsageRecord,
+} from '../types';
+import {
+  diffTerms,
+  findMatches,
+  buildSnippet,
+  matchesFilters,
+  matchesPhrases,
+  parseQuery,
+  toSearchDoc,
+  type SearchDoc,
+  type SearchFilters,
+  type SearchResult,
+} from './search';
+import type { KnowledgeIndex } from './knowledge';
+import { DEFAULT_IMAGE_QUALITY } from './imageUpload';
+import { DEFAULT_BUDGET } from './pollenMath';
+import { usageRecordKey } from './usageAnalytics';
 
 const DB_NAME = 'pollinations-chat';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 const SESSIONS_STORE = 'sessions';
 const SETTINGS_STORE = 'settings';
+const MEDIA_STORE = 'media';
+const SEARCH_TERMS_STORE = 'searchTerms';
+const SEARCH_DOCS_STORE = 'searchDocs';
+const PRESETS_STORE = 'presets';
+const KNOWLEDGE_STORE = 'knowledge';
+const KNOWLEDGE_INDEX_STORE = 'knowledgeIndex';
+const USAGE_STORE = 'usage';
+const PROMPTS_STORE = 'prompts';
 
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
 function getDB(): Promise<IDBPDatabase> {
   if (!dbPromise) {
     dbPromise = openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+      async upgrade(db, oldVersion, _newVersion, tx) {
         if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
           const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
           store.createIndex('updatedAt', 'updatedAt');
@@ -26,6 +60,76 @@ function getDB(): Promise<IDBPDatabase> {
         if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
           db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
         }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          const store = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+          store.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(SEARCH_TERMS_STORE)) {
+          db.createObjectStore(SEARCH_TERMS_STORE, { keyPath: 'term' });
+        }
+        if (!db.objectStoreNames.contains(SEARCH_DOCS_STORE)) {
+          const store = db.createObjectStore(SEARCH_DOCS_STORE, { keyPath: 'key' });
+          store.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(KNOWLEDGE_STORE)) {
+          db.createObjectStore(KNOWLEDGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(KNOWLEDGE_INDEX_STORE)) {
+          db.createObjectStore(KNOWLEDGE_INDEX_STORE, { keyPath: 'collectionId' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(PROMPTS_STORE)) {
+          db.createObjectStore(PROMPTS_STORE, { keyPath: 'id' });
+        }
+
+        // v1 → v2: generated media used to be saved as `blob:` object URLs,
+        // which are dead after a reload. Drop them so the UI shows a
+        // placeholder instead of a broken image.
+        if (oldVersion > 0 && oldVersion < 2) {
+          let cursor = await tx.objectStore(SESSIONS_STORE).openCursor();
+          while (cursor) {
+            const session = cursor.value as ChatSession;
+            let changed = false;
+            for (const msg of session.messages) {
+              for (const att of msg.attachments) {
+                if (att.dataUrl.startsWith('blob:')) {
+                  att.dataUrl = '';
+                  changed = true;
+                }
+              }
+            }
+            if (changed) await cursor.update(session);
+            cursor = await cursor.continue();
+          }
+        }
+
+        // → v3: build the search index for chats saved before it existed
+        if (oldVersion > 0 && oldVersion < 3) {
+          const postings = new Map<string, string[]>();
+          const docs = tx.objectStore(SEARCH_DOCS_STORE);
+          let cursor = await tx.objectStore(SESSIONS_STORE).openCursor();
+          while (cursor) {
+            const session = cursor.value as ChatSession;
+            for (const msg of session.messages) {
+              if (msg.isPartial) continue;
+              const doc = toSearchDoc(session.id, msg);
+              await docs.put(doc);
+              for (const term of doc.terms) {
+                const keys = postings.get(term) ?? [];
+                keys.push(doc.key);
+                postings.set(term, keys);
+              }
+            }
+            cursor = await cursor.continue();
+          }
+          const terms = tx.objectStore(SEARCH_TERMS_STORE);
+          for (const [term, keys] of postings) await terms.put({ term, keys });
+        }
       },
     });
   }
@@ -38,6 +142,7 @@ export async function saveSession(session: ChatSession): Promise<void> {
   try {
     const db = await getDB();
     await db.put(SESSIONS_STORE, session);
+    scheduleIndexUpdate(session);
   } catch {
     console.warn('[storage] Failed to save session');
   }
@@ -70,6 +175,9 @@ export async function deleteSession(id: string): Promise<void> {
   try {
     const db = await getDB();
     await db.delete(SESSIONS_STORE, id);
+    await deleteSessionMedia(id);
+    cancelIndexUpdate(id);
+    await updateSearchIndex(id, []);
   } catch {
     console.warn('[storage] Failed to delete session');
   }
@@ -79,11 +187,238 @@ export async function clearAllSessions(): Promise<void> {
   try {
     const db = await getDB();
     await db.clear(SESSIONS_STORE);
+    await db.clear(MEDIA_STORE);
+    for (const id of [...indexTimers.keys()]) cancelIndexUpdate(id);
+    await db.clear(SEARCH_TERMS_STORE);
+    await db.clear(SEARCH_DOCS_STORE);
   } catch {
     console.warn('[storage] Failed to clear sessions');
   }
 }
 
+// ─── Media blobs ─────────────────────────────────────────────────
+
+export async function saveMedia(record: MediaRecord): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(MEDIA_STORE, record);
+  } catch {
+    console.warn('[storage] Failed to save media');
+  }
+}
+
+export async function getMedia(id: string): Promise<MediaRecord | undefined> {
+  try {
+    const db = await getDB();
+    return db.get(MEDIA_STORE, id);
+  } catch {
+    console.warn('[storage] Failed to get media');
+    return undefined;
+  }
+}
+
+export async function deleteMedia(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    await Promise.all([...ids.map((id) => tx.store.delete(id)), tx.done]);
+  } catch {
+    console.warn('[storage] Failed to delete media');
+  }
+}
+
+export async function deleteSessionMedia(sessionId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const keys = await db.getAllKeysFromIndex(MEDIA_STORE, 'sessionId', sessionId);
+    await deleteMedia(keys as string[]);
+  } catch {
+    console.warn('[storage] Failed to delete session media');
+  }
+}
+
+/**
+ * Remove media blobs that no session references any more
+ * (e.g. left behind by an interrupted write or a crash mid-delete).
+ */
+export async function pruneOrphanedMedia(sessions: ChatSession[]): Promise<void> {
+  try {
+    const referenced = new Set<string>();
+    for (const s of sessions) {
+      for (const m of s.messages) {
+        for (const a of m.attachments) {
+          if (a.mediaId) referenced.add(a.mediaId);
+        }
+        for (const id of m.speech?.mediaIds ?? []) referenced.add(id);
+      }
+    }
+    const db = await getDB();
+    const keys = (await db.getAllKeys(MEDIA_STORE)) as string[];
+    await deleteMedia(keys.filter((k) => !referenced.has(k)));
+  } catch {
+    console.warn('[storage] Failed to prune media');
+  }
+}
+
+// ─── Search index ────────────────────────────────────────────────
+//
+// An inverted index over message text: `searchTerms` maps each term to
+// the doc keys (`sessionId:messageId`) containing it, `searchDocs` keeps
+// each message's term list and filter metadata. `saveSession` updates it
+// incrementally — only messages whose terms or metadata changed touch
+// the postings. Updates are debounced because streaming saves a session
+// on every chunk; partial messages are indexed once they finish.
+
+const INDEX_DEBOUNCE_MS = 1000;
+const indexTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function scheduleIndexUpdate(session: ChatSession): void {
+  cancelIndexUpdate(session.id);
+  indexTimers.set(
+    session.id,
+    setTimeout(() => {
+      indexTimers.delete(session.id);
+      const docs = session.messages
+        .filter((m) => !m.isPartial)
+        .map((m) => toSearchDoc(session.id, m));
+      updateSearchIndex(session.id, docs);
+    }, INDEX_DEBOUNCE_MS),
+  );
+}
+
+function cancelIndexUpdate(sessionId: string): void {
+  const timer = indexTimers.get(sessionId);
+  if (timer !== undefined) clearTimeout(timer);
+  indexTimers.delete(sessionId);
+}
+
+function sameDoc(a: SearchDoc, b: SearchDoc): boolean {
+  return (
+    a.role === b.role &&
+    a.model === b.model &&
+    a.mode === b.mode &&
+    a.timestamp === b.timestamp &&
+    a.terms.length === b.terms.length &&
+    a.terms.every((t, i) => t === b.terms[i])
+  );
+}
+
+/** Replace a session's indexed docs with `docs`, patching only the changed postings */
+async function updateSearchIndex(sessionId: string, docs: SearchDoc[]): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([SEARCH_TERMS_STORE, SEARCH_DOCS_STORE], 'readwrite');
+    const docStore = tx.objectStore(SEARCH_DOCS_STORE);
+    const termStore = tx.objectStore(SEARCH_TERMS_STORE);
+
+    const previous = new Map<string, SearchDoc>(
+      ((await docStore.index('sessionId').getAll(sessionId)) as SearchDoc[]).map((d) => [d.key, d]),
+    );
+    const adds = new Map<string, Set<string>>();
+    const removes = new Map<string, Set<string>>();
+    const track = (map: Map<string, Set<string>>, term: string, key: string) => {
+      const keys = map.get(term) ?? new Set<string>();
+      keys.add(key);
+      map.set(term, keys);
+    };
+
+    for (const doc of docs) {
+      const prev = previous.get(doc.key);
+      previous.delete(doc.key);
+      if (prev && sameDoc(prev, doc)) continue;
+      const { added, removed } = diffTerms(prev?.terms ?? [], doc.terms);
+      for (const t of added) track(adds, t, doc.key);
+      for (const t of removed) track(removes, t, doc.key);
+      await docStore.put(doc);
+    }
+    // Whatever is left was deleted from the session
+    for (const stale of previous.values()) {
+      for (const t of stale.terms) track(removes, t, stale.key);
+      await docStore.delete(stale.key);
+    }
+
+    for (const term of new Set([...adds.keys(), ...removes.keys()])) {
+      const row = (await termStore.get(term)) as { term: string; keys: string[] } | undefined;
+      const keys = new Set(row?.keys ?? []);
+      for (const k of adds.get(term) ?? []) keys.add(k);
+      for (const k of removes.get(term) ?? []) keys.delete(k);
+      if (keys.size > 0) await termStore.put({ term, keys: [...keys] });
+      else if (row) await termStore.delete(term);
+    }
+    await tx.done;
+  } catch {
+    console.warn('[storage] Failed to update search index');
+  }
+}
+
+/**
+ * Search every saved message. Bare words are ANDed, quoted phrases must
+ * match in order. Results are ranked by match count, then recency.
+ */
+export async function searchMessages(
+  query: string,
+  filters: SearchFilters = {},
+  limit = 50,
+): Promise<SearchResult[]> {
+  const parsed = parseQuery(query);
+  if (parsed.terms.length === 0) return [];
+  try {
+    const db = await getDB();
+
+    // Intersect postings, rarest term first
+    const postings: string[][] = [];
+    for (const term of parsed.terms) {
+      const row = await db.get(SEARCH_TERMS_STORE, term);
+      if (!row) return [];
+      postings.push(row.keys);
+    }
+    postings.sort((a, b) => a.length - b.length);
+    let candidates = postings[0];
+    for (const keys of postings.slice(1)) {
+      const set = new Set(keys);
+      candidates = candidates.filter((k) => set.has(k));
+    }
+
+    const docs: SearchDoc[] = [];
+    for (const key of candidates) {
+      const doc = (await db.get(SEARCH_DOCS_STORE, key)) as SearchDoc | undefined;
+      if (doc && matchesFilters(doc, filters)) docs.push(doc);
+    }
+
+    const sessions = new Map<string, ChatSession | undefined>();
+    const results: SearchResult[] = [];
+    for (const doc of docs) {
+      if (!sessions.has(doc.sessionId)) {
+        sessions.set(doc.sessionId, await db.get(SESSIONS_STORE, doc.sessionId));
+      }
+      const session = sessions.get(doc.sessionId);
+      const msg = session?.messages.find((m) => m.id === doc.messageId);
+      if (!session || !msg || !matchesPhrases(msg.content, parsed)) continue;
+
+      const matches = findMatches(msg.content, parsed);
+      results.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: msg.id,
+        role: msg.role,
+        model: msg.model,
+        mode: msg.mode,
+        timestamp: msg.timestamp,
+        ...buildSnippet(msg.content, matches),
+        score: matches.length,
+      });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, limit);
+  } catch {
+    console.warn('[storage] Failed to search messages');
+    return [];
+  }
+}
+
 // ─── Settings ────────────────────────────────────────────────────
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -95,6 +430,11 @@ export const DEFAULT_SETTINGS: AppSettings = {
   temperature: 0.7,
   creativity: 0.5,
   enablePromptEnhancement: false,
+  enableTools: true,
+  autoGenerateTitles: false,
+  voice: 'alloy',
+  voiceSendOnRelease: false,
+  imageUploadQuality: DEFAULT_IMAGE_QUALITY,
   theme: 'dark',
 };
 
@@ -123,6 +463,193 @@ export async function saveSettings(settings: Partial<AppSettings>): Promise<void
   }
 }
 
+// ─── Pollen budget ───────────────────────────────────────────────
+
+export async function getBudget(): Promise<PollenBudget> {
+  try {
+    const db = await getDB();
+    const row = await db.get(SETTINGS_STORE, 'budget');
+    return { ...DEFAULT_BUDGET, ...row?.value };
+  } catch {
+    console.warn('[storage] Failed to get budget, using defaults');
+    return { ...DEFAULT_BUDGET };
+  }
+}
+
+export async function saveBudget(budget: PollenBudget): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(SETTINGS_STORE, { key: 'budget', value: budget });
+  } catch {
+    console.warn('[storage] Failed to save budget');
+  }
+}
+
+/** Spend counted against the daily and monthly caps (null before anything was spent) */
+export async function getBudgetSpend(): Promise<BudgetSpend | null> {
+  try {
+    const db = await getDB();
+    const row = await db.get(SETTINGS_STORE, 'budget-spend');
+    return row?.value ?? null;
+  } catch {
+    console.warn('[storage] Failed to get budget spend');
+    return null;
+  }
+}
+
+export async function saveBudgetSpend(spend: BudgetSpend): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(SETTINGS_STORE, { key: 'budget-spend', value: spend });
+  } catch {
+    console.warn('[storage] Failed to save budget spend');
+  }
+}
+
+// ─── Settings presets ────────────────────────────────────────────
+
+export async function getAllPresets(): Promise<SettingsPreset[]> {
+  try {
+    const db = await getDB();
+    const presets = await db.getAll(PRESETS_STORE);
+    return presets.sort((a: SettingsPreset, b: SettingsPreset) => a.name.localeCompare(b.name));
+  } catch {
+    console.warn('[storage] Failed to get presets');
+    return [];
+  }
+}
+
+export async function savePreset(preset: SettingsPreset): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.put(PRESETS_STORE, preset);
+  } catch {
+    console.warn('[storage] Failed to save preset');
+  }
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete(PRESETS_STORE, id);
+  } catch {
+    console.warn('[storage] Failed to delete preset');
+  }
+}
+
+// ─── Prompt library ──────────────────────────────────────────────
+
+export async function getAllPromptTemplates(): Promise<PromptTemplate[]> {
+  try {
+    const db = await getDB();
+    const templates = await db.getAll(PROMPTS_STORE);
+    return templates.sort((a: PromptTemplate, b: PromptTemplate) => a.name.localeCompare(b.name));
+  } catch {
+    console.warn('[storage] Failed to get prompt templates');
+    return [];
+  }
+}
+
+export async function savePromptTemplates(templates: PromptTemplate[]): Promise<void> {
+  if (templates.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction(PROMPTS_STORE, 'readwrite');
+    await Promise.all([...templates.map((t) => tx.store.put(t)), tx.done]);
+  } catch {
+    console.warn('[storage] Failed to save prompt templates');
+  }
+}
+
+export async function deletePromptTemplate(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete(PROMPTS_STORE, id);
+  } catch {
+    console.warn('[storage] Failed to delete prompt template');
+  }
+}
+
+// ─── Knowledge collections ───────────────────────────────────────
+
+export async function getAllCollections(): Promise<KnowledgeCollection[]> {
+  try {
+    const db = await getDB();
+    const collections = await db.getAll(KNOWLEDGE_STORE);
+    return collections.sort((a: KnowledgeCollection, b: KnowledgeCollection) => a.name.localeCompare(b.name));
+  } catch {
+    console.warn('[storage] Failed to get knowledge collections');
+    return [];
+  }
+}
+
+/** Save a collection together with its search index */
+export async function saveCollection(collection: KnowledgeCollection, index: KnowledgeIndex): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([KNOWLEDGE_STORE, KNOWLEDGE_INDEX_STORE], 'readwrite');
+    await Promise.all([
+      tx.objectStore(KNOWLEDGE_STORE).put(collection),
+      tx.objectStore(KNOWLEDGE_INDEX_STORE).put(index),
+      tx.done,
+    ]);
+  } catch {
+    console.warn('[storage] Failed to save knowledge collection');
+  }
+}
+
+export async function getKnowledgeIndex(collectionId: string): Promise<KnowledgeIndex | undefined> {
+  try {
+    const db = await getDB();
+    return db.get(KNOWLEDGE_INDEX_STORE, collectionId);
+  } catch {
+    console.warn('[storage] Failed to get knowledge index');
+    return undefined;
+  }
+}
+
+export async function deleteCollection(id: string): Promise<void> {
+  try {
+    const db = await getDB();
+    const tx = db.transaction([KNOWLEDGE_STORE, KNOWLEDGE_INDEX_STORE], 'readwrite');
+    await Promise.all([
+      tx.objectStore(KNOWLEDGE_STORE).delete(id),
+      tx.objectStore(KNOWLEDGE_INDEX_STORE).delete(id),
+      tx.done,
+    ]);
+  } catch {
+    console.warn('[storage] Failed to delete knowledge collection');
+  }
+}
+
+// ─── Usage history ───────────────────────────────────────────────
+
+/** Keep usage log records; ones already stored are overwritten, not duplicated */
+export async function saveUsageRecords(records: UsageRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  try {
+    const db = await getDB();
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    await Promise.all([
+      ...records.map((record) => tx.store.put({ ...record, key: usageRecordKey(record) })),
+      tx.done,
+    ]);
+  } catch {
+    console.warn('[storage] Failed to save usage records');
+  }
+}
+
+export async function getUsageHistory(): Promise<UsageRecord[]> {
+  try {
+    const db = await getDB();
+    const rows: (UsageRecord & { key: string })[] = await db.getAll(USAGE_STORE);
+    return rows.map(({ key: _key, ...record }) => record);
+  } catch {
+    console.warn('[storage] Failed to get usage history');
+    return [];
+  }
+}
+
 // ─── API Key (stored in cookies) ─────────────────────────────────
 
 const API_KEY_COOKIE = 'pollinations_api_key';
@@ -1,11 +1,46 @@
 /**
- * Client-side tokenizer using heuristic estimation.
+ * Client-side token counting.
  *
- * For accurate counts we'd use tiktoken, but it's heavy in the browser.
- * This heuristic is within ~10% of GPT tokenizers for English text.
- * The server reports exact counts after generation, which we display.
+ * Exact counts come from a byte-pair encoder (see `bpe.ts`) running in a
+ * Web Worker, with the vocab fetched on first use. Until a text has been
+ * counted there — or when workers are unavailable — `countTokens` falls
+ * back to the heuristic `estimateTokens`, which is within ~10% of GPT
+ * tokenizers for English text but can be 10-30% off for code and
+ * non-English text. The server reports exact counts after generation,
+ * which we display.
  */
 
+import type { PollinationsModel } from '../types';
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+/** Message protocol between `countTokensExact` and `tokenizer.worker.ts` */
+export interface TokenCountRequest {
+  id: number;
+  encoding: TokenizerEncoding;
+  texts: string[];
+}
+
+export type TokenCountResponse =
+  | { id: number; counts: number[] }
+  | { id: number; error: string };
+
+/** GPT-4o and later OpenAI models use o200k_base */
+const O200K_PATTERN = /\bopenai\b|gpt-?4o|gpt-?4\.1|gpt-?5|\bo[134](?:-mini)?\b/;
+
+/**
+ * Pick the encoder for a model from its name, aliases and description.
+ * Other text models get cl100k_base — not their own vocabulary, but far
+ * closer than the heuristic. Non-text models return null (heuristic only).
+ */
+export function getEncodingForModel(
+  model: Pick<PollinationsModel, 'name' | 'aliases' | 'description' | 'type'> | null | undefined,
+): TokenizerEncoding | null {
+  if (!model || model.type !== 'text') return null;
+  const haystack = [model.name, ...model.aliases, model.description].join(' ').toLowerCase();
+  return O200K_PATTERN.test(haystack) ? 'o200k_base' : 'cl100k_base';
+}
+
 /**
  * Estimate token count for a string.
  * Heuristic: ~4 characters per token for English, adjusting for code/whitespace.
@@ -29,17 +64,110 @@ export function estimateTokens(text: string): number {
   return Math.max(estimate, charEstimate, 1);
 }
 
+// ─── Exact counts ────────────────────────────────────────────────
+
+const EXACT_CACHE_LIMIT = 2_000;
+const exactCounts = new Map<string, number>();
+
+function cacheKey(encoding: TokenizerEncoding, text: string): string {
+  return `${encoding}\u0000${text}`;
+}
+
+function rememberCount(encoding: TokenizerEncoding, text: string, count: number): void {
+  // Oldest entries go first — Map iteration follows insertion order
+  if (exactCounts.size >= EXACT_CACHE_LIMIT) {
+    const oldest = exactCounts.keys().next().value;
+    if (oldest !== undefined) exactCounts.delete(oldest);
+  }
+  exactCounts.set(cacheKey(encoding, text), count);
+}
+
+export function hasExactCount(text: string, encoding: TokenizerEncoding): boolean {
+  return !text || exactCounts.has(cacheKey(encoding, text));
+}
+
+/**
+ * Token count for a string: exact when the worker has already counted it
+ * with this encoding, heuristic otherwise.
+ */
+export function countTokens(text: string, encoding?: TokenizerEncoding | null): number {
+  if (!text) return 0;
+  if (encoding) {
+    const exact = exactCounts.get(cacheKey(encoding, text));
+    if (exact !== undefined) return exact;
+  }
+  return estimateTokens(text);
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (counts: number[] | null) => void>();
+
+function getWorker(): Worker | null {
+  if (worker || workerUnavailable) return worker;
+  if (typeof Worker === 'undefined') {
+    workerUnavailable = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./tokenizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<TokenCountResponse>) => {
+      const resolve = pendingRequests.get(e.data.id);
+      pendingRequests.delete(e.data.id);
+      resolve?.('counts' in e.data ? e.data.counts : null);
+    };
+    worker.onerror = () => {
+      console.warn('[tokenizer] Worker failed, using heuristic counts');
+      workerUnavailable = true;
+      worker?.terminate();
+      worker = null;
+      for (const resolve of pendingRequests.values()) resolve(null);
+      pendingRequests.clear();
+    };
+  } catch {
+    workerUnavailable = true;
+  }
+  return worker;
+}
+
+/**
+ * Count tokens exactly in the tokenizer worker and cache the results, so
+ * later `countTokens` calls return them synchronously. Falls back to the
+ * heuristic for anything the worker could not count.
+ */
+export async function countTokensExact(
+  texts: string[],
+  encoding: TokenizerEncoding,
+): Promise<number[]> {
+  const missing = [...new Set(texts.filter((t) => !hasExactCount(t, encoding)))];
+  const w = missing.length > 0 ? getWorker() : null;
+  if (w) {
+    const counts = await new Promise<number[] | null>((resolve) => {
+      const id = ++nextRequestId;
+      pendingRequests.set(id, resolve);
+      const request: TokenCountRequest = { id, encoding, texts: missing };
+      w.postMessage(request);
+    });
+    counts?.forEach((count, i) => rememberCount(encoding, missing[i], count));
+  }
+  return texts.map((t) => countTokens(t, encoding));
+}
+
+// ─── Message helpers ─────────────────────────────────────────────
+
 /**
- * Estimate tokens for a full chat messages array (role + content).
+ * Count tokens for a full chat messages array (role + content).
  * Each message adds ~4 tokens overhead for role/formatting.
  */
 export function estimateMessagesTokens(
   messages: Array<{ role: string; content: string }>,
+  encoding?: TokenizerEncoding | null,
 ): number {
   let total = 0;
   for (const msg of messages) {
     total += 4; // role + formatting overhead
-    total += estimateTokens(msg.content);
+    total += countTokens(msg.content, encoding);
   }
   total += 2; // priming tokens
   return total;
@@ -55,13 +183,14 @@ export function estimateMessagesTokens(
 export function truncateMessages(
   messages: Array<{ role: string; content: string }>,
   maxTokens: number,
+  encoding?: TokenizerEncoding | null,
 ): { messages: Array<{ role: string; content: string }>; removed: number } {
   if (messages.length === 0) return { messages: [], removed: 0 };
 
   let current = [...messages];
   let removed = 0;
 
-  while (estimateMessagesTokens(current) > maxTokens && current.length > 1) {
+  while (estimateMessagesTokens(current, encoding) > maxTokens && current.length > 1) {
     // Keep index 0 (system prompt) and the last message (user's new message)
     // Remove the oldest non-system message
     const removeIdx = current[0].role === 'system' ? 1 : 0;
@@ -0,0 +1,37 @@
+/**
+ * Web Worker that counts tokens off the main thread. Vocab files are
+ * fetched on first use per encoding and kept for the worker's lifetime.
+ */
+
+import { createBpeEncoder, type BpeEncoder, type BpeRanksFile } from './bpe';
+import type { TokenCountRequest, TokenCountResponse, TokenizerEncoding } from './tokenizer';
+
+const encoders = new Map<TokenizerEncoding, Promise<BpeEncoder>>();
+
+function loadEncoder(encoding: TokenizerEncoding): Promise<BpeEncoder> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = fetch(`/tokenizers/${encoding}.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to load ${encoding} vocab (${res.status})`);
+        return res.json() as Promise<BpeRanksFile>;
+      })
+      .then(createBpeEncoder);
+    // A failed load may be transient — allow the next request to retry
+    encoder.catch(() => encoders.delete(encoding));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+self.onmessage = async (e: MessageEvent<TokenCountRequest>) => {
+  const { id, encoding, texts } = e.data;
+  let response: TokenCountResponse;
+  try {
+    const encoder = await loadEncoder(encoding);
+    response = { id, counts: texts.map((t) => encoder.countTokens(t)) };
+  } catch (err) {
+    response = { id, error: (err as Error).message };
+  }
+  self.postMessage(response);
+};
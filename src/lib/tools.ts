@@ -0,0 +1,281 @@
+/**
+ * Local tool registry for function calling.
+ *
+ * Tools run entirely in the browser. Each tool declares a JSON-schema
+ * definition (sent to the model in `tools`) and an `execute` function that
+ * receives the parsed arguments and returns a string result.
+ *
+ * Additional tools can be plugged in with `registerTool`.
+ */
+
+import type { ToolCall, ToolCallRecord } from '../types';
+import type { ChatCompletionMessage, ToolDefinition } from './pollinations';
+import { searchMessages } from './storage';
+
+/** Upper bound on model → tool → model round trips for a single reply */
+export const MAX_TOOL_ITERATIONS = 5;
+
+export interface LocalTool {
+  definition: ToolDefinition['function'];
+  execute: (args: Record<string, unknown>) => Promise<string> | string;
+}
+
+const registry = new Map<string, LocalTool>();
+
+// ─── Registry ────────────────────────────────────────────────────
+
+export function registerTool(tool: LocalTool): void {
+  registry.set(tool.definition.name, tool);
+}
+
+export function unregisterTool(name: string): void {
+  registry.delete(name);
+}
+
+export function getTool(name: string): LocalTool | undefined {
+  return registry.get(name);
+}
+
+/** Definitions in the shape expected by the chat completions `tools` field */
+export function getToolDefinitions(): ToolDefinition[] {
+  return [...registry.values()].map((t) => ({
+    type: 'function' as const,
+    function: t.definition,
+  }));
+}
+
+/**
+ * Run a single tool call. Never throws — failures are reported back to
+ * the model as an error result so it can recover.
+ */
+export async function executeToolCall(call: ToolCall): Promise<ToolCallRecord> {
+  const base = { id: call.id, name: call.function.name, arguments: call.function.arguments };
+  const tool = registry.get(call.function.name);
+  if (!tool) {
+    return { ...base, result: `Error: unknown tool "${call.function.name}"`, isError: true };
+  }
+
+  let args: Record<string, unknown>;
+  try {
+    args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    return { ...base, result: 'Error: arguments are not valid JSON', isError: true };
+  }
+
+  try {
+    const result = await tool.execute(args);
+    return { ...base, result };
+  } catch (err) {
+    return { ...base, result: `Error: ${(err as Error).message}`, isError: true };
+  }
+}
+
+// ─── Multi-turn execution ────────────────────────────────────────
+
+/** One model turn: the text it produced and any tool calls it requested */
+export interface ToolRoundResult {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Drive the model ↔ tool loop until the model answers without requesting
+ * tools. After `maxIterations` rounds with tool calls, tools are withheld
+ * (`allowTools = false`) so the model has to produce a final answer.
+ *
+ * @param messages     - conversation so far; extended in place with the
+ *                       assistant tool_calls and tool result messages
+ * @param complete     - performs one completion request
+ * @param onToolResult - called after each tool finishes
+ */
+export async function runToolLoop(
+  messages: ChatCompletionMessage[],
+  complete: (messages: ChatCompletionMessage[], allowTools: boolean) => Promise<ToolRoundResult>,
+  onToolResult: (record: ToolCallRecord) => void,
+  maxIterations = MAX_TOOL_ITERATIONS,
+): Promise<{ iterations: number; exhausted: boolean }> {
+  for (let iteration = 0; ; iteration++) {
+    const allowTools = iteration < maxIterations;
+    const round = await complete(messages, allowTools);
+    if (round.toolCalls.length === 0) {
+      return { iterations: iteration, exhausted: false };
+    }
+    if (!allowTools) {
+      return { iterations: iteration, exhausted: true };
+    }
+
+    messages.push({ role: 'assistant', content: round.content, tool_calls: round.toolCalls });
+    for (const call of round.toolCalls) {
+      const record = await executeToolCall(call);
+      messages.push({ role: 'tool', tool_call_id: call.id, content: record.result });
+      onToolResult(record);
+    }
+  }
+}
+
+// ─── Calculator ──────────────────────────────────────────────────
+
+const CALC_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+};
+
+const CALC_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluate an arithmetic expression without `eval`.
+ * Supports + - * / % ^, parentheses, unary minus, and the
+ * functions/constants listed above.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (t: string) => {
+    if (next() !== t) throw new Error(`expected "${t}"`);
+  };
+
+  function parseSum(): number {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  }
+
+  function parseProduct(): number {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parseUnary();
+      if (op === '*') value *= rhs;
+      else if (op === '/') value /= rhs;
+      else value %= rhs;
+    }
+    return value;
+  }
+
+  function parseUnary(): number {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  function parsePower(): number {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return base ** parseUnary(); // right-associative
+    }
+    return base;
+  }
+
+  function parseAtom(): number {
+    const t = next();
+    if (t === undefined) throw new Error('unexpected end of expression');
+    if (t === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^(\d|\.)/.test(t)) return Number(t);
+    const name = t.toLowerCase();
+    if (name in CALC_CONSTANTS) return CALC_CONSTANTS[name];
+    if (name in CALC_FUNCTIONS) {
+      expect('(');
+      const arg = parseSum();
+      expect(')');
+      return CALC_FUNCTIONS[name](arg);
+    }
+    throw new Error(`unexpected token "${t}"`);
+  }
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`unexpected token "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error('result is not a finite number');
+  return result;
+}
+
+// ─── Built-in tools ──────────────────────────────────────────────
+
+registerTool({
+  definition: {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, sin, cos, tan, log, ln, exp, round, floor, ceil, pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression to evaluate, e.g. "(2 + 3) * sqrt(16)"' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: ({ expression }) => String(evaluateExpression(String(expression ?? ''))),
+});
+
+registerTool({
+  definition: {
+    name: 'current_time',
+    description: "Get the current date and time, in the user's local time zone or an IANA time zone.",
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'Optional IANA time zone, e.g. "Europe/Berlin"' },
+      },
+    },
+  },
+  execute: ({ timeZone }) => {
+    const now = new Date();
+    const zone = typeof timeZone === 'string' && timeZone ? timeZone : undefined;
+    const local = now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' });
+    return JSON.stringify({ iso: now.toISOString(), local, timeZone: zone ?? Intl.DateTimeFormat().resolvedOptions().timeZone });
+  },
+});
+
+registerTool({
+  definition: {
+    name: 'search_sessions',
+    description: "Search the user's saved chat sessions (stored locally) for messages containing the given words. Wrap words in double quotes to match an exact phrase.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to search for (case-insensitive), e.g. \'"exact phrase" other words\'' },
+        limit: { type: 'number', description: 'Maximum number of matches to return (default 5)' },
+      },
+      required: ['query'],
+    },
+  },
+  execute: async ({ query, limit }) => {
+    const q = String(query ?? '').trim();
+    if (!q) throw new Error('query must not be empty');
+    const max = typeof limit === 'number' && limit > 0 ? Math.min(limit, 20) : 5;
+
+    const matches = (await searchMessages(q, {}, max)).map((r) => ({
+      session: r.sessionTitle,
+      role: r.role,
+      date: new Date(r.timestamp).toISOString(),
+      snippet: r.snippet,
+    }));
+    return matches.length > 0 ? JSON.stringify(matches) : 'No matching messages found.';
+  },
+});
@@ -0,0 +1,146 @@
+/**
+ * Voice input — sends a recording to a model that accepts audio and
+ * returns the transcript. The request goes through a transport so it can
+ * be swapped out (tests use a fake one instead of the live API).
+ */
+
+import type { ModelPricing, PollinationsModel } from '../types';
+import { abortError, generateCompletion, type ChatCompletionPayload } from './pollinations';
+import { estimateRequestCost, type RequestCostEstimate } from './pollenMath';
+
+export interface TranscriptionRequest {
+  apiKey: string;
+  model: string;
+  /** Base64 audio without the `data:` prefix */
+  data: string;
+  format: string;
+  signal?: AbortSignal;
+}
+
+export type TranscriptionTransport = (request: TranscriptionRequest) => Promise<string>;
+
+/** Preferred model for transcription when several accept audio */
+const PREFERRED_TRANSCRIPTION_MODEL = 'openai-audio';
+
+const TRANSCRIBE_INSTRUCTION =
+  'Transcribe the speech in the audio verbatim, in the language it is spoken. '
+  + 'Reply with the transcript only — no quotes, labels or commentary. '
+  + 'If there is no speech, reply with nothing.';
+
+/** Speech comes to roughly this many transcript tokens per audio input token */
+const TRANSCRIPT_TOKENS_PER_AUDIO_TOKEN = 0.3;
+
+/** A model that accepts audio input, preferring ones that answer in text */
+export function pickTranscriptionModel(models: PollinationsModel[]): PollinationsModel | undefined {
+  const listeners = models.filter((m) => m.inputModalities.includes('audio'));
+  return listeners.find((m) => m.name === PREFERRED_TRANSCRIPTION_MODEL)
+    ?? listeners.find((m) => m.outputModalities.includes('text'))
+    ?? listeners[0];
+}
+
+/** `input_audio` format name for a recording's MIME type */
+export function audioFormatFromMime(mimeType: string): string {
+  const subtype = mimeType.split(';')[0].split('/')[1]?.toLowerCase() ?? '';
+  if (subtype === 'mpeg' || subtype === 'mp3') return 'mp3';
+  if (subtype === 'x-wav' || subtype === 'wave') return 'wav';
+  if (subtype === 'x-m4a' || subtype === 'aac') return 'mp4';
+  return subtype || 'webm';
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large recordings don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** The chat completion a transcription sends: the instruction and an `input_audio` part */
+export function transcriptionPayload({ model, data, format }: Pick<TranscriptionRequest, 'model' | 'data' | 'format'>): ChatCompletionPayload {
+  return {
+    model,
+    messages: [
+      { role: 'system', content: TRANSCRIBE_INSTRUCTION },
+      { role: 'user', content: [{ type: 'input_audio', input_audio: { data, format } }] },
+    ],
+    temperature: 0,
+  };
+}
+
+/**
+ * Price range of a transcription request. Before it's sent the transcript
+ * is taken to be about as long as the speech; pass the transcript once it
+ * has arrived for what the reply actually cost.
+ */
+export function estimateTranscriptionCost(
+  request: Pick<TranscriptionRequest, 'model' | 'data' | 'format'>,
+  model: { pricing: ModelPricing | null | undefined },
+  countText: (text: string) => number,
+  transcript?: string,
+): RequestCostEstimate {
+  const payload = transcriptionPayload(request);
+  const { audioTokens } = estimateRequestCost(payload, model, { countText, expectedOutputTokens: 0 });
+  const expectedOutputTokens = transcript !== undefined
+    ? countText(transcript)
+    : Math.ceil(audioTokens * TRANSCRIPT_TOKENS_PER_AUDIO_TOKEN);
+  return estimateRequestCost(payload, model, { countText, expectedOutputTokens });
+}
+
+/** Transcribes through the chat completions endpoint */
+export const chatCompletionTransport: TranscriptionTransport = async ({ apiKey, signal, ...request }) => {
+  const { content } = await generateCompletion(apiKey, transcriptionPayload(request), signal);
+  return content;
+};
+
+/**
+ * Transcript of a recording, trimmed and with any wrapping quotes
+ * removed. Throws if the model heard nothing. `approve` is asked before
+ * the request goes out (declining throws an AbortError); `charge` gets
+ * the request and the raw reply once it has been paid for.
+ */
+export async function transcribeAudio(
+  audio: Blob,
+  options: {
+    apiKey: string;
+    model: string;
+    signal?: AbortSignal;
+    transport?: TranscriptionTransport;
+    approve?: (request: TranscriptionRequest) => Promise<boolean>;
+    charge?: (request: TranscriptionRequest, transcript: string) => void;
+  },
+): Promise<string> {
+  const transport = options.transport ?? chatCompletionTransport;
+  const request: TranscriptionRequest = {
+    apiKey: options.apiKey,
+    model: options.model,
+    data: await blobToBase64(audio),
+    format: audioFormatFromMime(audio.type),
+    signal: options.signal,
+  };
+  if (options.approve && !(await options.approve(request))) throw abortError();
+  const raw = await transport(request);
+  options.charge?.(request, raw);
+  const transcript = raw.trim().replace(/^["“](.*)["”]$/s, '$1').trim();
+  if (!transcript) throw new Error('No speech was recognized. Try again a little closer to the microphone.');
+  return transcript;
+}
+
+/**
+ * Insert a transcript at the cursor (replacing any selection), with a
+ * space on either side where it would otherwise run into a word.
+ */
+export function insertTranscript(
+  text: string,
+  transcript: string,
+  selectionStart = text.length,
+  selectionEnd = selectionStart,
+): { text: string; cursor: number } {
+  const before = text.slice(0, selectionStart);
+  const after = text.slice(selectionEnd);
+  const lead = before && !/\s$/.test(before) ? ' ' : '';
+  const trail = after && !/^\s/.test(after) ? ' ' : '';
+  const inserted = `${lead}${transcript}${trail}`;
+  return { text: before + inserted + after, cursor: before.length + lead.length + transcript.length };
+}
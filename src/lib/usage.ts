@@ -0,0 +1,131 @@
+/**
+ * Usage reconciliation — replies are priced from token estimates when they
+ * finish; the account usage log later says what they actually cost. Each
+ * reply is matched to its log records (one per request it made) by model
+ * and time, and keeps the billed token breakdown next to the estimate.
+ */
+
+import type { ChatMessage, MessageUsage, PollinationsModel, UsageRecord } from '../types';
+
+/** Pollen is sold at one per US dollar */
+export const POLLEN_PER_USD = 1;
+
+/** Records logged further than this from a reply's start can't be its own */
+const MATCH_WINDOW_MS = 10 * 60_000;
+
+/** Allowance for the server clock running behind ours */
+const CLOCK_SKEW_MS = 30_000;
+
+/** Usage log timestamps; those without a zone are UTC */
+export function parseUsageTimestamp(timestamp: string): number {
+  const iso = timestamp.includes('T') ? timestamp : timestamp.replace(' ', 'T');
+  return Date.parse(/(Z|[+-]\d\d:?\d\d)$/.test(iso) ? iso : `${iso}Z`);
+}
+
+/** Billed tokens and cost from a usage record */
+export function usageFromRecord(record: UsageRecord): MessageUsage {
+  return {
+    inputTokens: record.input_text_tokens + record.input_audio_tokens + record.input_image_tokens,
+    cachedTokens: record.input_cached_tokens,
+    outputTokens: record.output_text_tokens + record.output_audio_tokens + record.output_image_tokens,
+    reasoningTokens: record.output_reasoning_tokens,
+    pollenCost: record.cost_usd * POLLEN_PER_USD,
+    recordedAt: parseUsageTimestamp(record.timestamp),
+  };
+}
+
+/** Model name the app uses for whatever id or alias the usage log reports */
+export function modelNameResolver(models: Pick<PollinationsModel, 'id' | 'name' | 'aliases'>[]): (model: string) => string {
+  const names = new Map<string, string>();
+  for (const m of models) {
+    for (const key of [m.id, m.name, ...m.aliases]) {
+      if (!names.has(key)) names.set(key, m.name);
+    }
+  }
+  return (model) => names.get(model) ?? model;
+}
+
+/** Replies still waiting for their usage record */
+export function needsUsage(message: ChatMessage): boolean {
+  return message.role === 'assistant'
+    && !!message.model
+    && !message.usage
+    && !message.isPartial
+    && !message.isError;
+}
+
+/** Log times of the records a reply's usage was summed from */
+export function usageRecordTimes(usage: MessageUsage): number[] {
+  return usage.recordTimes ?? [usage.recordedAt];
+}
+
+/** One usage for a reply billed as several requests */
+export function sumUsage(usages: MessageUsage[]): MessageUsage {
+  if (usages.length === 1) return usages[0];
+  const total = (key: 'inputTokens' | 'cachedTokens' | 'outputTokens' | 'reasoningTokens' | 'pollenCost') =>
+    usages.reduce((sum, u) => sum + u[key], 0);
+  const recordTimes = usages.map((u) => u.recordedAt).sort((a, b) => a - b);
+  return {
+    inputTokens: total('inputTokens'),
+    cachedTokens: total('cachedTokens'),
+    outputTokens: total('outputTokens'),
+    reasoningTokens: total('reasoningTokens'),
+    pollenCost: total('pollenCost'),
+    recordedAt: recordTimes[recordTimes.length - 1],
+    recordTimes,
+  };
+}
+
+/** Identifies a usage record by app model name and log time */
+export function usageMatchKey(model: string, recordedAt: number): string {
+  return `${model}@${recordedAt}`;
+}
+
+/**
+ * Pair unreconciled replies with usage records. Replies are taken oldest
+ * first and each gets the closest unclaimed records for its model, one
+ * per request it made (summed); when a single-request reply knows its
+ * token count, records far off that count (titles and summaries on the
+ * same model) rank lower. Records already attached to a message are never
+ * reused. Replies with no record yet, or fewer than they made requests,
+ * are left out and can be matched on a later fetch.
+ */
+export function reconcileUsage(
+  messages: ChatMessage[],
+  records: UsageRecord[],
+  resolveModel: (model: string) => string = (model) => model,
+): Map<string, MessageUsage> {
+  const claimed = new Set(messages.flatMap(({ model, usage }) => (usage && model
+    ? usageRecordTimes(usage).map((time) => usageMatchKey(model, time))
+    : [])));
+  const candidates = records
+    .map((record) => ({ model: resolveModel(record.model), usage: usageFromRecord(record) }))
+    .filter(({ model, usage }) => !Number.isNaN(usage.recordedAt) && !claimed.has(usageMatchKey(model, usage.recordedAt)));
+
+  const matches = new Map<string, MessageUsage>();
+  const pending = messages.filter(needsUsage).sort((a, b) => a.timestamp - b.timestamp);
+  for (const message of pending) {
+    const requests = message.requestCount ?? 1;
+    const ranked = candidates
+      .flatMap(({ model, usage }, index) => {
+        if (model !== message.model) return [];
+        const offset = usage.recordedAt - message.timestamp;
+        if (offset < -CLOCK_SKEW_MS || offset > MATCH_WINDOW_MS) return [];
+        // Seconds away, plus how far the billed output is from what we counted
+        const tokenGap = requests === 1 && message.tokensUsed !== undefined
+          ? Math.abs(usage.outputTokens + usage.reasoningTokens - message.tokensUsed)
+          : 0;
+        return [{ index, score: Math.abs(offset) / 1000 + tokenGap }];
+      })
+      .sort((a, b) => a.score - b.score);
+    if (ranked.length < requests) continue;
+    const picked = ranked.slice(0, requests).map(({ index }) => index).sort((a, b) => b - a);
+    matches.set(message.id, sumUsage(picked.map((index) => candidates.splice(index, 1)[0].usage)));
+  }
+  return matches;
+}
+
+/** Change to a session's total once a reply's estimate is replaced by its billed cost */
+export function usageCostDelta(message: Pick<ChatMessage, 'pollenSpent'>, usage: MessageUsage): number {
+  return usage.pollenCost - (message.pollenSpent ?? 0);
+}
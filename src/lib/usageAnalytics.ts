@@ -0,0 +1,197 @@
+/**
+ * Usage analytics — spend per day, model and chat from the account usage
+ * log. The API only returns recent records, so snapshots are kept locally
+ * and merged; these helpers work on the merged history.
+ */
+
+import type { ChatSession, UsageRecord } from '../types';
+import { POLLEN_PER_USD, parseUsageTimestamp, usageMatchKey, usageRecordTimes } from './usage';
+
+export type TokenType = 'text' | 'audio' | 'image' | 'cached' | 'reasoning';
+
+export const TOKEN_TYPES: { type: TokenType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'audio', label: 'Audio' },
+  { type: 'image', label: 'Image' },
+  { type: 'cached', label: 'Cached' },
+  { type: 'reasoning', label: 'Reasoning' },
+];
+
+export type TokenTotals = Record<TokenType, number>;
+
+export interface DaySpend {
+  day: string;           // local date, YYYY-MM-DD
+  pollen: number;
+  requests: number;
+}
+
+export interface ModelSpend {
+  model: string;
+  pollen: number;
+  requests: number;
+  averageResponseMs: number;
+  tokens: TokenTotals;
+}
+
+export interface SessionSpend {
+  sessionId: string | null;   // null = not matched to a chat (titles, summaries, other apps)
+  title: string;
+  pollen: number;
+  requests: number;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Records carry no id; these fields together tell them apart */
+export function usageRecordKey(record: UsageRecord): string {
+  return [
+    record.timestamp,
+    record.model,
+    record.type,
+    record.input_text_tokens,
+    record.output_text_tokens,
+    record.cost_usd,
+  ].join('|');
+}
+
+/** Union of two record lists without duplicates, newest first */
+export function mergeUsageRecords(a: UsageRecord[], b: UsageRecord[]): UsageRecord[] {
+  const byKey = new Map<string, UsageRecord>();
+  for (const record of [...a, ...b]) byKey.set(usageRecordKey(record), record);
+  return [...byKey.values()].sort((x, y) => parseUsageTimestamp(y.timestamp) - parseUsageTimestamp(x.timestamp));
+}
+
+/** Records from the last `days` days (all of them when `days` is null) */
+export function recordsSince(records: UsageRecord[], days: number | null, now = Date.now()): UsageRecord[] {
+  if (days === null) return records;
+  const from = startOfDay(now) - (days - 1) * DAY_MS;
+  return records.filter((r) => parseUsageTimestamp(r.timestamp) >= from);
+}
+
+export function recordPollen(record: UsageRecord): number {
+  return record.cost_usd * POLLEN_PER_USD;
+}
+
+export function emptyTokenTotals(): TokenTotals {
+  return { text: 0, audio: 0, image: 0, cached: 0, reasoning: 0 };
+}
+
+export function tokenTotals(records: UsageRecord[]): TokenTotals {
+  const totals = emptyTokenTotals();
+  for (const r of records) {
+    totals.text += r.input_text_tokens + r.output_text_tokens;
+    totals.audio += r.input_audio_tokens + r.output_audio_tokens;
+    totals.image += r.input_image_tokens + r.output_image_tokens;
+    totals.cached += r.input_cached_tokens;
+    totals.reasoning += r.output_reasoning_tokens;
+  }
+  return totals;
+}
+
+function startOfDay(time: number): number {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function dayLabel(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Spend per local day, oldest first, with quiet days in between as zeros */
+export function spendByDay(records: UsageRecord[]): DaySpend[] {
+  if (records.length === 0) return [];
+  const byDay = new Map<string, DaySpend>();
+  let first = Infinity;
+  let last = -Infinity;
+  for (const r of records) {
+    const time = parseUsageTimestamp(r.timestamp);
+    if (Number.isNaN(time)) continue;
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+    const day = dayLabel(time);
+    const entry = byDay.get(day) ?? { day, pollen: 0, requests: 0 };
+    entry.pollen += recordPollen(r);
+    entry.requests += 1;
+    byDay.set(day, entry);
+  }
+  const days: DaySpend[] = [];
+  // Step by calendar day rather than 24h so DST changes don't skip or repeat one
+  for (const d = new Date(startOfDay(first)); d.getTime() <= last; d.setDate(d.getDate() + 1)) {
+    const day = dayLabel(d.getTime());
+    days.push(byDay.get(day) ?? { day, pollen: 0, requests: 0 });
+  }
+  return days;
+}
+
+/** Spend, token mix and average response time per model, most expensive first */
+export function spendByModel(records: UsageRecord[]): ModelSpend[] {
+  const byModel = new Map<string, UsageRecord[]>();
+  for (const r of records) byModel.set(r.model, [...(byModel.get(r.model) ?? []), r]);
+  return [...byModel].map(([model, rs]) => ({
+    model,
+    pollen: rs.reduce((sum, r) => sum + recordPollen(r), 0),
+    requests: rs.length,
+    averageResponseMs: rs.reduce((sum, r) => sum + r.response_time_ms, 0) / rs.length,
+    tokens: tokenTotals(rs),
+  })).sort((a, b) => b.pollen - a.pollen || a.model.localeCompare(b.model));
+}
+
+/**
+ * Spend per chat, through the replies each record was reconciled with.
+ * Records no reply claimed (titles, summaries, other apps on the same
+ * account) are grouped on their own.
+ */
+export function spendBySession(
+  records: UsageRecord[],
+  sessions: ChatSession[],
+  resolveModel: (model: string) => string = (model) => model,
+): SessionSpend[] {
+  const owner = new Map<string, ChatSession>();
+  for (const s of sessions) {
+    for (const m of s.messages) {
+      if (!m.usage || !m.model) continue;
+      for (const time of usageRecordTimes(m.usage)) owner.set(usageMatchKey(m.model, time), s);
+    }
+  }
+  const bySession = new Map<string | null, SessionSpend>();
+  for (const r of records) {
+    const session = owner.get(usageMatchKey(resolveModel(r.model), parseUsageTimestamp(r.timestamp)));
+    const id = session?.id ?? null;
+    const entry = bySession.get(id) ?? { sessionId: id, title: session?.title ?? 'Not linked to a chat', pollen: 0, requests: 0 };
+    entry.pollen += recordPollen(r);
+    entry.requests += 1;
+    bySession.set(id, entry);
+  }
+  // Unlinked spend goes last whatever its size
+  return [...bySession.values()].sort((a, b) =>
+    Number(a.sessionId === null) - Number(b.sessionId === null) || b.pollen - a.pollen);
+}
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp',
+  'type',
+  'model',
+  'input_text_tokens',
+  'input_cached_tokens',
+  'input_audio_tokens',
+  'input_image_tokens',
+  'output_text_tokens',
+  'output_reasoning_tokens',
+  'output_audio_tokens',
+  'output_image_tokens',
+  'cost_usd',
+  'response_time_ms',
+];
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Records as CSV with the API's field names, plus the cost in pollen */
+export function usageToCsv(records: UsageRecord[]): string {
+  const rows = records.map((r) => [...CSV_COLUMNS.map((c) => r[c]), recordPollen(r)].map(csvField).join(','));
+  return [[...CSV_COLUMNS, 'pollen'].join(','), ...rows].join('\n') + '\n';
+}
@@ -20,6 +20,7 @@ export interface ModelCapabilities {
   webSearch: boolean;
   deepThink: boolean;
   codeExecution: boolean;
+  tools: boolean;
 }
 
 /** Pricing info from Pollinations model metadata */
@@ -52,6 +53,7 @@ export interface PollinationsModel {
   maxOutputTokens: number;
   contextLength: number;
   aliases: string[];
+  voices?: string[];     // TTS voices, for models that speak
 }
 
 /** Attachment on a chat message */
@@ -60,8 +62,78 @@ export interface MessageAttachment {
   type: 'image' | 'video' | 'audio' | 'file';
   name: string;
   mimeType: string;
-  dataUrl: string;       // base64 data URL
+  dataUrl: string;       // base64 data URL (empty when the bytes live in the media store)
   sizeBytes: number;
+  mediaId?: string;      // key into the IndexedDB media store for generated media
+  seed?: number;         // seed a generated image was made with
+  document?: DocumentExtract; // text read from a PDF / DOCX upload
+}
+
+/** Text extracted from an attached document, split into prompt-sized chunks */
+export interface DocumentExtract {
+  kind: 'pdf' | 'docx';
+  pageCount?: number;    // unknown for documents without page breaks
+  chunks: DocumentChunk[];
+  totalTokens: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  page?: number;         // 1-based page the chunk is on
+  section?: string;      // nearest heading above the chunk
+  tokens: number;
+}
+
+/** A document excerpt sent with a prompt, for citations in the reply */
+export interface DocumentSource {
+  attachmentId: string;
+  name: string;
+  chunkIndex: number;
+  page?: number;
+  section?: string;
+  excerpt: string;
+}
+
+/** A named set of reference documents any chat can draw passages from */
+export interface KnowledgeCollection {
+  id: string;
+  name: string;
+  documents: KnowledgeDocument[];
+  createdAt: number;
+  updatedAt: number;
+  /** Model the semantic (embedding) index is built with; unset = BM25 only */
+  embeddingModel?: string;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  kind: DocumentExtract['kind'] | 'text';
+  pageCount?: number;
+  chunks: DocumentChunk[];
+  totalTokens: number;
+  addedAt: number;
+}
+
+/** A knowledge base passage given with a prompt, cited in the reply as [^marker] */
+export interface KnowledgeSource {
+  marker: number;
+  collectionName: string;
+  documentName: string;
+  chunkIndex: number;
+  page?: number;
+  section?: string;
+  excerpt: string;
+}
+
+/** Generated media bytes, stored separately from the session record */
+export interface MediaRecord {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+  mimeType: string;
+  createdAt: number;
 }
 
 /** A single chat message */
@@ -77,17 +149,180 @@ export interface ChatMessage {
   pollenSpent?: number;
   isPartial?: boolean;   // true while streaming
   isError?: boolean;
+  toolCalls?: ToolCallRecord[];
+  reasoning?: string;            // streamed thinking from deep-think models
+  reasoningDurationMs?: number;  // time spent thinking before the answer started
+  reasoningTokens?: number;
+  parentId?: string | null;   // previous turn in the conversation tree (null = first turn)
+  contextCompaction?: ContextCompaction; // earlier turns left out of this reply's context
+  retryStatus?: RetryStatus;  // set while a failed request waits to be retried
+  comparisonId?: string;      // one of several replies generated side by side
+  latencyMs?: number;         // request start → reply complete
+  firstTokenMs?: number;      // request start → first answer token
+  imageOptions?: ImageGenerationOptions; // parameters an image reply was made with
+  selectedAttachmentId?: string; // variation the user picked from a batch
+  speech?: SpeechCache;       // synthesized "read aloud" audio
+  musicOptions?: MusicGenerationOptions; // parameters a music reply was made with
+  sources?: DocumentSource[]; // document excerpts the reply was given
+  knowledgeSources?: KnowledgeSource[]; // knowledge base passages the reply was given
+  usage?: MessageUsage;       // what the server billed, once reconciled with the usage log
+  requestCount?: number;      // billed requests behind the reply (tool rounds, variations, dropped attempts); unset = 1
+}
+
+/** Tokens and cost the server billed for a reply (pollenSpent stays the estimate) */
+export interface MessageUsage {
+  inputTokens: number;      // text, audio and image input
+  cachedTokens: number;     // input served from the prompt cache
+  outputTokens: number;     // text, audio and image output, reasoning excluded
+  reasoningTokens: number;
+  pollenCost: number;
+  recordedAt: number;       // usage log timestamp (epoch ms); the latest when summed from several
+  recordTimes?: number[];   // log times of every record summed in, for replies that made several requests
+}
+
+/** Cached read-aloud audio for a message, one media record per chunk */
+export interface SpeechCache {
+  key: string;           // content + voice + model the audio was made from
+  mediaIds: string[];
+}
+
+/** Query parameters for the image endpoint */
+export interface ImageGenerationOptions {
+  width: number;
+  height: number;
+  seed?: number;           // unset = a new random seed per image
+  negativePrompt?: string;
+  nologo: boolean;
+  enhance: boolean;        // let the server rewrite the prompt
+  safe: boolean;
+  image?: string;          // reference image URL for image-to-image models
+  variations?: number;     // images per prompt, each with its own seed (default 1)
+}
+
+/** Parameters for music models on the audio endpoint */
+export interface MusicGenerationOptions {
+  duration: number;        // seconds
+  instrumental: boolean;   // no vocals
+  tags: string[];          // style tags appended to the prompt
+}
+
+/** A failed generation request waiting for its next attempt */
+export interface RetryStatus {
+  attempt: number;       // 1-based number of the upcoming retry
+  maxRetries: number;
+  retryAt: number;       // epoch ms of the next attempt
+  reason: string;        // e.g. "Rate limited", "Connection lost"
+  resuming: boolean;     // continuing from the partial reply instead of starting over
+}
+
+/** How a session fits long conversations into the model's context window */
+export type ContextStrategy = 'truncate' | 'sliding-window' | 'summarize';
+
+/** Earlier messages left out of (or summarized for) a request */
+export interface ContextCompaction {
+  strategy: ContextStrategy;
+  compacted: number;     // messages dropped or folded into the summary
+  summarized: boolean;   // false when summarizing was wanted but failed
+}
+
+/** Rolling summary of turns evicted from the context window */
+export interface ContextSummary {
+  content: string;
+  throughMessageId: string;  // last message folded into the summary
+  messageCount: number;      // messages covered, from the root
+  model: string;
+  createdAt: number;
+}
+
+/** OpenAI-compatible function tool call, as accumulated from a stream */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;   // JSON-encoded arguments
+  };
+}
+
+/** A tool call the assistant made and what the local tool returned */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: string;
+  result: string;
+  isError?: boolean;
 }
 
 /** A chat session (stored locally) */
 export interface ChatSession {
   id: string;
   title: string;
+  /** Where the title came from; unset = sliced from the first message */
+  titleSource?: 'generated' | 'manual';
   messages: ChatMessage[];
   model: string;
   createdAt: number;
   updatedAt: number;
   totalPollenSpent: number;
+  /** Tip of the branch currently shown; messages holds every branch */
+  activeLeafId?: string | null;
+  contextStrategy?: ContextStrategy;   // defaults to 'truncate'
+  contextSummary?: ContextSummary;
+  presetId?: string | null;            // preset the chat inherits from
+  overrides?: GenerationOverrides;     // chat-only values, win over the preset
+  comparisons?: Comparison[];
+  knowledgeCollectionIds?: string[];   // knowledge collections searched on send
+}
+
+/** One prompt answered by several models side by side */
+export interface Comparison {
+  id: string;
+  promptId: string;          // the user message all replies answer
+  replyIds: string[];        // one reply per model, in column order
+  winnerId: string | null;   // reply the conversation continues from
+  createdAt: number;
+}
+
+/** Generation settings a preset or a single chat can override */
+export type GenerationOverrides = Partial<Pick<AppSettings, 'systemPrompt' | 'temperature' | 'creativity'>>;
+
+/** Named, reusable generation settings (a persona), stored locally */
+export interface SettingsPreset extends GenerationOverrides {
+  id: string;
+  name: string;
+  model?: string;        // switched to when the preset is applied
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PromptVariableType = 'text' | 'multiline' | 'number' | 'select';
+
+/** A `{{name}}` placeholder in a prompt template and how it's asked for */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  label?: string;
+  defaultValue?: string;
+  options?: string[];    // choices for 'select'
+}
+
+/** A reusable prompt, inserted from the composer with `/` */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  content: string;
+  category: string;      // '' = uncategorized
+  favorite: boolean;
+  variables: PromptVariable[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Exported prompt library format */
+export interface PromptLibraryExport {
+  version: '1.0';
+  exportedAt: string;
+  templates: PromptTemplate[];
 }
 
 /** Exported chat format */
@@ -164,9 +399,31 @@ export interface AppSettings {
   temperature: number;
   creativity: number;
   enablePromptEnhancement: boolean;
+  enableTools: boolean;
+  autoGenerateTitles: boolean;
+  voice: string;         // TTS voice for audio mode and read aloud
+  voiceSendOnRelease: boolean; // push-to-talk sends the transcript on release
+  imageUploadQuality: number; // re-encoding quality for image uploads (0.5–0.95)
   theme: 'dark';
 }
 
+/** User-set pollen spending limits; null = no limit */
+export interface PollenBudget {
+  dailyCap: number | null;
+  monthlyCap: number | null;
+  sessionCap: number | null;   // per chat, against its total spend
+  requestCap: number | null;   // estimated cost of a single send
+  warnAt: number;              // share of a cap (0–1) that triggers a warning
+}
+
+/** Pollen spent in the current local day and month */
+export interface BudgetSpend {
+  day: string;       // YYYY-MM-DD
+  daySpent: number;
+  month: string;     // YYYY-MM
+  monthSpent: number;
+}
+
 /** OpenAI-compatible streaming chunk */
 export interface StreamDelta {
   id: string;
@@ -178,6 +435,9 @@ export interface StreamDelta {
     delta: {
       role?: string;
       content?: string;
+      reasoning_content?: string;
+      reasoning?: string;
+      tool_calls?: ToolCallDelta[];
     };
     finish_reason: string | null;
   }>;
@@ -185,6 +445,20 @@ export interface StreamDelta {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    completion_tokens_details?: {
+      reasoning_tokens?: number;
+    };
   };
   user_tier?: string;
 }
+
+/** Streamed fragment of a tool call; fields arrive piecewise per `index` */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceptedFileTypes,
+  buildUserContent,
+  commonAttachmentInputs,
+  decodeDataUrlText,
+  describeAttachments,
+  formatFileBlock,
+  isTextAttachment,
+  modelAttachmentInputs,
+  unsupportedAttachments,
+  MAX_INLINE_FILE_CHARS,
+} from '../src/lib/attachments';
+import type { MessageAttachment, PollinationsModel } from '../src/types';
+
+function attachment(type: MessageAttachment['type'], name: string, mimeType: string, dataUrl: string): MessageAttachment {
+  return { id: name, type, name, mimeType, dataUrl, sizeBytes: dataUrl.length };
+}
+
+function model(vision: boolean, audio: boolean): PollinationsModel {
+  return {
+    name: 'm',
+    inputModalities: ['text'],
+    capabilities: { vision, audio },
+  } as PollinationsModel;
+}
+
+const toDataUrl = (text: string, mime = 'text/plain') =>
+  `data:${mime};base64,${btoa(String.fromCharCode(...new TextEncoder().encode(text)))}`;
+
+const image = attachment('image', 'cat.png', 'image/png', 'data:image/png;base64,AAAA');
+const audio = attachment('audio', 'memo.webm', 'audio/webm', 'data:audio/webm;base64,QUJD');
+const csv = attachment('file', 'data.csv', 'text/csv', toDataUrl('a,b\n1,2\n', 'text/csv'));
+const pdf = attachment('file', 'paper.pdf', 'application/pdf', 'data:application/pdf;base64,AAAA');
+
+describe('attachments', () => {
+  it('reads model inputs from capabilities', () => {
+    expect(modelAttachmentInputs(model(true, false))).toEqual({ image: true, audio: false });
+    expect(modelAttachmentInputs(null)).toEqual({ image: false, audio: false });
+    expect(commonAttachmentInputs([model(true, true), model(true, false)])).toEqual({ image: true, audio: false });
+    expect(commonAttachmentInputs([])).toEqual({ image: false, audio: false });
+  });
+
+  it('recognizes text-like files by type or extension', () => {
+    expect(isTextAttachment({ name: 'notes.txt', mimeType: 'text/plain' })).toBe(true);
+    expect(isTextAttachment({ name: 'config', mimeType: 'application/json' })).toBe(true);
+    expect(isTextAttachment({ name: 'main.ts', mimeType: 'video/mp2t' })).toBe(true);
+    expect(isTextAttachment({ name: 'paper.pdf', mimeType: 'application/pdf' })).toBe(false);
+  });
+
+  it('lists what a model would leave out', () => {
+    const inputs = { image: true, audio: false };
+    expect(unsupportedAttachments([image, audio, csv, pdf], inputs)).toEqual([audio, pdf]);
+    expect(describeAttachments([audio, pdf])).toBe('audio and the file');
+    expect(describeAttachments([pdf, pdf, image])).toBe('2 files and the image');
+  });
+
+  it('only offers media types the model accepts in the file picker', () => {
+    expect(acceptedFileTypes({ image: false, audio: false })).not.toContain('image/*');
+    expect(acceptedFileTypes({ image: true, audio: true })).toMatch(/^image\/\*,audio\/\*,text\/\*/);
+  });
+
+  it('decodes text data URLs as UTF-8', () => {
+    expect(decodeDataUrlText(toDataUrl('héllo ✓'))).toBe('héllo ✓');
+    expect(decodeDataUrlText('data:text/plain,a%20b')).toBe('a b');
+    expect(decodeDataUrlText('nope')).toBe('');
+  });
+
+  it('fences file text with a language and a fence longer than its backticks', () => {
+    expect(formatFileBlock('data.csv', 'a,b\n1,2\n')).toBe('File: data.csv\n\n```csv\na,b\n1,2\n```');
+    expect(formatFileBlock('README.md', 'x ```` y')).toContain('`````markdown\nx ```` y\n`````');
+    const long = formatFileBlock('big.txt', 'x'.repeat(MAX_INLINE_FILE_CHARS + 5));
+    expect(long).toContain('truncated after');
+  });
+
+  describe('buildUserContent', () => {
+    it('inlines text files into plain text content', () => {
+      expect(buildUserContent('Summarize this', [csv], { image: false, audio: false }))
+        .toBe('Summarize this\n\nFile: data.csv\n\n```csv\na,b\n1,2\n```');
+    });
+
+    it('adds image_url and input_audio parts the model accepts', () => {
+      expect(buildUserContent('What is this?', [image, audio, pdf], { image: true, audio: true })).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image_url', image_url: { url: image.dataUrl } },
+        { type: 'input_audio', input_audio: { data: 'QUJD', format: 'webm' } },
+      ]);
+    });
+
+    it('leaves out media the model cannot take', () => {
+      expect(buildUserContent('Hi', [image, audio], { image: false, audio: false })).toBe('Hi');
+    });
+  });
+});
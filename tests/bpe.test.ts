@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { createBpeEncoder, type BpeRanksFile } from '../src/lib/bpe';
+
+function loadEncoder(encoding: string) {
+  const file = `public/tokenizers/${encoding}.json`; // relative to the project root
+  return createBpeEncoder(JSON.parse(readFileSync(file, 'utf8')) as BpeRanksFile);
+}
+
+// Reference ids/counts from OpenAI's tiktoken
+const cl100k = loadEncoder('cl100k_base');
+const o200k = loadEncoder('o200k_base');
+
+describe('bpe', () => {
+  describe('cl100k_base', () => {
+    it('encodes to the reference token ids', () => {
+      expect(cl100k.encode('Hello, world!')).toEqual([9906, 11, 1917, 0]);
+      expect(cl100k.encode('tiktoken is great!')).toEqual([83, 1609, 5963, 374, 2294, 0]);
+    });
+
+    it.each([
+      ['function add(a, b) {\n  return a + b;\n}\n', 14],
+      ['Grüße aus München! Ça va très bien.', 12],
+      ['東京は日本の首都です。', 11],
+      ['Привет, как дела?', 8],
+      ['    indented   spaces\n\n\nnewlines', 8],
+      ["I'm sure they'll REALLY like it's 12345678 dollars", 14],
+      ['😀🎉 emoji test', 7],
+    ])('counts %j as %i tokens', (text, count) => {
+      expect(cl100k.countTokens(text)).toBe(count);
+    });
+  });
+
+  describe('o200k_base', () => {
+    it('encodes to the reference token ids', () => {
+      expect(o200k.encode('Hello, world!')).toEqual([13225, 11, 2375, 0]);
+      expect(o200k.encode('東京は日本の首都です。')).toEqual([108713, 5205, 9048, 3385, 15425, 12232, 15121, 788]);
+    });
+
+    it.each([
+      ['function add(a, b) {\n  return a + b;\n}\n', 14],
+      ['Grüße aus München! Ça va très bien.', 11],
+      ['Привет, как дела?', 6],
+      ["I'm sure they'll REALLY like it's 12345678 dollars", 11],
+      ['😀🎉 emoji test', 5],
+    ])('counts %j as %i tokens', (text, count) => {
+      expect(o200k.countTokens(text)).toBe(count);
+    });
+  });
+
+  it('returns no tokens for empty text', () => {
+    expect(cl100k.encode('')).toEqual([]);
+  });
+
+  it('treats special tokens as plain text', () => {
+    expect(cl100k.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getComparisonGroups,
+  selectWinner,
+  toggleCompareModel,
+  upsertComparison,
+  MAX_COMPARE_MODELS,
+} from '../src/lib/comparison';
+import { appendMessage, getActivePath, removeMessage } from '../src/lib/messageTree';
+import type { ChatMessage, ChatSession, Comparison } from '../src/types';
+
+let clock = 0;
+
+function makeMsg(id: string, role: 'user' | 'assistant', parentId: string | null, comparisonId?: string): ChatMessage {
+  return {
+    id,
+    role,
+    content: id,
+    timestamp: ++clock,
+    mode: 'text',
+    attachments: [],
+    parentId,
+    ...(comparisonId && { comparisonId }),
+  };
+}
+
+const COMPARISON: Comparison = {
+  id: 'cmp',
+  promptId: 'u1',
+  replyIds: ['a', 'b', 'c'],
+  winnerId: null,
+  createdAt: 0,
+};
+
+/** u1 → (a | b | c), compared; c was added last and is active */
+function makeSession(): ChatSession {
+  let session: ChatSession = {
+    id: 'session',
+    title: 'Test',
+    messages: [],
+    model: 'openai',
+    createdAt: 0,
+    updatedAt: 0,
+    totalPollenSpent: 0,
+  };
+  session = appendMessage(session, makeMsg('u1', 'user', null));
+  for (const id of COMPARISON.replyIds) session = appendMessage(session, makeMsg(id, 'assistant', 'u1', 'cmp'));
+  return upsertComparison(session, COMPARISON);
+}
+
+describe('comparison', () => {
+  describe('upsertComparison', () => {
+    it('replaces a comparison with the same id', () => {
+      const session = upsertComparison(makeSession(), { ...COMPARISON, winnerId: 'a' });
+      expect(session.comparisons).toEqual([{ ...COMPARISON, winnerId: 'a' }]);
+    });
+  });
+
+  describe('selectWinner', () => {
+    it('records the winner and continues the thread from it', () => {
+      const session = selectWinner(makeSession(), 'cmp', 'a');
+      expect(session.comparisons?.[0].winnerId).toBe('a');
+      expect(getActivePath(session).map((m) => m.id)).toEqual(['u1', 'a']);
+    });
+
+    it('ignores replies outside the comparison', () => {
+      const session = makeSession();
+      expect(selectWinner(session, 'cmp', 'u1')).toBe(session);
+      expect(selectWinner(session, 'missing', 'a')).toBe(session);
+    });
+  });
+
+  describe('getComparisonGroups', () => {
+    it('groups the replies under their prompt in column order', () => {
+      const session = makeSession();
+      const groups = getComparisonGroups(session, getActivePath(session));
+      expect(Object.keys(groups)).toEqual(['u1']);
+      expect(groups.u1.replies.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('skips prompts that are not on the path', () => {
+      expect(getComparisonGroups(makeSession(), [])).toEqual({});
+    });
+
+    it('falls back to a plain reply when fewer than two replies are left', () => {
+      let session = makeSession();
+      session = removeMessage(session, 'a');
+      expect(getComparisonGroups(session, getActivePath(session)).u1.replies).toHaveLength(2);
+      session = removeMessage(session, 'b');
+      expect(getComparisonGroups(session, getActivePath(session))).toEqual({});
+    });
+  });
+
+  describe('toggleCompareModel', () => {
+    it('adds and removes models', () => {
+      expect(toggleCompareModel(['a'], 'b')).toEqual(['a', 'b']);
+      expect(toggleCompareModel(['a', 'b'], 'a')).toEqual(['b']);
+    });
+
+    it(`keeps at most ${MAX_COMPARE_MODELS} models`, () => {
+      const full = ['a', 'b', 'c', 'd'];
+      expect(toggleCompareModel(full, 'e')).toBe(full);
+    });
+  });
+});
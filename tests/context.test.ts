@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  planContext,
+  pendingForSummary,
+  buildSummaryMessages,
+  summaryContextMessage,
+  updateContextSummary,
+  SLIDING_WINDOW_MESSAGES,
+} from '../src/lib/context';
+import type { ChatMessage, ContextSummary } from '../src/types';
+
+/** Alternating user/assistant turns; every message is ~100 heuristic tokens */
+function makeHistory(count: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: 'x'.repeat(400),
+    timestamp: i,
+    mode: 'text',
+    attachments: [],
+  }));
+}
+
+function makeSummary(throughMessageId: string, messageCount: number): ContextSummary {
+  return { content: 'Earlier, they talked.', throughMessageId, messageCount, model: 'cheap', createdAt: 0 };
+}
+
+describe('context', () => {
+  describe('planContext', () => {
+    it('keeps everything that fits', () => {
+      const plan = planContext(makeHistory(5), 'truncate', 10_000);
+      expect(plan.kept).toHaveLength(5);
+      expect(plan.evicted).toHaveLength(0);
+    });
+
+    it('evicts the oldest messages until the rest fits', () => {
+      const plan = planContext(makeHistory(9), 'truncate', 650);
+      expect(plan.evicted.map((m) => m.id)).toEqual(['m0', 'm1', 'm2', 'm3']);
+      expect(plan.kept[plan.kept.length - 1].id).toBe('m8');
+    });
+
+    it('does not start the kept context with an orphaned reply', () => {
+      // Four messages fit, but the fourth-newest is a reply to an evicted question
+      const plan = planContext(makeHistory(9), 'truncate', 500);
+      expect(plan.kept.map((m) => m.id)).toEqual(['m6', 'm7', 'm8']);
+    });
+
+    it('counts reserved tokens against the budget', () => {
+      const loose = planContext(makeHistory(9), 'truncate', 1_000);
+      const tight = planContext(makeHistory(9), 'truncate', 1_000, 400);
+      expect(tight.evicted.length).toBeGreaterThan(loose.evicted.length);
+    });
+
+    it('never evicts the newest message', () => {
+      const plan = planContext(makeHistory(3), 'truncate', 10);
+      expect(plan.kept.map((m) => m.id)).toEqual(['m2']);
+    });
+
+    it('limits the sliding window by message count', () => {
+      const plan = planContext(makeHistory(SLIDING_WINDOW_MESSAGES + 4), 'sliding-window', 1_000_000);
+      expect(plan.kept).toHaveLength(SLIDING_WINDOW_MESSAGES);
+      expect(plan.evicted).toHaveLength(4);
+    });
+  });
+
+  describe('pendingForSummary', () => {
+    const evicted = makeHistory(6);
+
+    it('only returns messages after the cached summary', () => {
+      const cached = makeSummary('m3', 4);
+      const result = pendingForSummary(evicted, cached);
+      expect(result.previous).toBe(cached);
+      expect(result.pending.map((m) => m.id)).toEqual(['m4', 'm5']);
+    });
+
+    it('starts over when the summary belongs to another branch', () => {
+      const result = pendingForSummary(evicted, makeSummary('elsewhere', 2));
+      expect(result.previous).toBeUndefined();
+      expect(result.pending).toHaveLength(6);
+    });
+  });
+
+  describe('buildSummaryMessages', () => {
+    it('includes the previous summary and a speaker-tagged transcript', () => {
+      const [system, user] = buildSummaryMessages('Old summary', makeHistory(2));
+      expect(system.role).toBe('system');
+      expect(user.content).toContain('Old summary');
+      expect(user.content).toMatch(/User: x+\n\nAssistant: x+/);
+    });
+  });
+
+  describe('summaryContextMessage', () => {
+    it('states how many messages the summary replaces', () => {
+      expect(summaryContextMessage(makeSummary('m3', 4)).content).toMatch(/4 messages/);
+    });
+  });
+
+  describe('updateContextSummary', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('reuses a current summary without calling the API', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      const cached = makeSummary('m3', 4);
+      const result = await updateContextSummary('key', 'cheap', makeHistory(4), cached);
+      expect(result.summary).toBe(cached);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('folds newly evicted messages into the summary', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: ' New summary. ' } }],
+        usage: { prompt_tokens: 300, completion_tokens: 20, total_tokens: 320 },
+      }), { status: 200, headers: { 'content-type': 'application/json' } }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await updateContextSummary('key', 'cheap', makeHistory(6), makeSummary('m3', 4));
+
+      expect(result.summary).toMatchObject({ content: 'New summary.', throughMessageId: 'm5', messageCount: 6 });
+      expect(result.usage?.prompt_tokens).toBe(300);
+      const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(body.stream).toBe(false);
+      expect(body.messages[1].content).toContain('Earlier, they talked.');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkDocument,
+  chunkLabel,
+  documentKind,
+  documentSources,
+  findCitations,
+  formatDocumentContext,
+  ingestDocument,
+  linkCitations,
+  parseCitationHref,
+  pdfBlocks,
+  queryTerms,
+  selectDocumentChunks,
+} from '../src/lib/documents';
+import type { DocumentSource, MessageAttachment } from '../src/types';
+
+function docAttachment(name: string, pages: string[]): MessageAttachment {
+  return {
+    id: name,
+    type: 'file',
+    name,
+    mimeType: 'application/pdf',
+    dataUrl: '',
+    sizeBytes: 0,
+    document: chunkDocument(pdfBlocks(pages), 'pdf'),
+  };
+}
+
+const source = (page: number | undefined, chunkIndex: number, name = 'paper.pdf'): DocumentSource => ({
+  attachmentId: name, name, chunkIndex, ...(page !== undefined && { page }), excerpt: `excerpt ${chunkIndex}`,
+});
+
+describe('documents', () => {
+  it('recognizes PDF and DOCX uploads', () => {
+    expect(documentKind({ name: 'a.PDF', mimeType: '' })).toBe('pdf');
+    expect(documentKind({ name: 'a', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })).toBe('docx');
+    expect(documentKind({ name: 'a.txt', mimeType: 'text/plain' })).toBeNull();
+  });
+
+  describe('chunkDocument', () => {
+    it('keeps chunks within a page and under the size limit', () => {
+      const long = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+      const doc = chunkDocument(pdfBlocks(['Short first page.', long]), 'pdf', null, 100);
+
+      expect(doc.pageCount).toBe(2);
+      expect(doc.chunks[0]).toMatchObject({ index: 0, page: 1, text: 'Short first page.' });
+      expect(doc.chunks.length).toBeGreaterThan(2);
+      expect(doc.chunks.slice(1).every((c) => c.page === 2 && c.tokens <= 100)).toBe(true);
+      expect(doc.chunks.slice(1).map((c) => c.text).join(' ')).toBe(long);
+      expect(doc.totalTokens).toBe(doc.chunks.reduce((n, c) => n + c.tokens, 0));
+    });
+
+    it('starts a new chunk at each heading and records the section', () => {
+      const doc = chunkDocument([
+        { text: 'Preface text.' },
+        { text: 'Methods', heading: true },
+        { text: 'We measured things.' },
+        { text: 'Then more things.' },
+      ], 'docx');
+
+      expect(doc.pageCount).toBeUndefined();
+      expect(doc.chunks.map((c) => [c.text, c.section])).toEqual([
+        ['Preface text.', undefined],
+        ['Methods\n\nWe measured things.\n\nThen more things.', 'Methods'],
+      ]);
+    });
+  });
+
+  it('reads documents on the main thread when workers are unavailable', async () => {
+    await expect(ingestDocument(new Uint8Array([1, 2, 3]), 'pdf')).rejects.toThrow('Not a PDF file');
+  });
+
+  describe('selectDocumentChunks', () => {
+    const manual = docAttachment('manual.pdf', [
+      'Installing the pump requires a wrench.',
+      'Cleaning the filter every month keeps water clear.',
+      'Warranty covers two years of normal use.',
+    ]);
+
+    it('sends everything when it fits', () => {
+      const selection = selectDocumentChunks([manual], 'anything', 10_000);
+      expect(selection.complete).toBe(true);
+      expect(selection.chunks).toHaveLength(3);
+    });
+
+    it('picks the chunks matching the question, in document order', () => {
+      const budget = manual.document!.chunks[1].tokens + manual.document!.chunks[2].tokens;
+      const selection = selectDocumentChunks([manual], 'How long is the warranty, and how do I clean the filter?', budget);
+      expect(selection.complete).toBe(false);
+      expect(selection.chunks.map((c) => c.chunk.page)).toEqual([2, 3]);
+      expect(selection.tokens).toBe(budget);
+    });
+
+    it('ignores stopwords and short words in the question', () => {
+      expect(queryTerms('What is the Pump made of?')).toEqual(['pump', 'made']);
+    });
+  });
+
+  it('labels excerpts with the page to cite', () => {
+    const doc = docAttachment('manual.pdf', ['Page one text.', 'Page two text.']);
+    const context = formatDocumentContext(selectDocumentChunks([doc], '', 10_000));
+    expect(context).toBe(
+      'The full text follows. When you use it, cite the label in brackets, like [p. 3].\n\n'
+      + 'Document: manual.pdf (2 pages)\n\n[p. 1]\nPage one text.\n\n[p. 2]\nPage two text.',
+    );
+
+    const other = docAttachment('notes.pdf', ['Other.']);
+    expect(formatDocumentContext(selectDocumentChunks([doc, other], '', 10_000))).toContain('[notes.pdf, p. 1]\nOther.');
+    expect(chunkLabel({ index: 1 })).toBe('part 2');
+  });
+
+  it('keeps the selected chunks as sources', () => {
+    const doc = docAttachment('manual.pdf', ['x'.repeat(500)]);
+    const [only] = documentSources(selectDocumentChunks([doc], '', 10_000));
+    expect(only).toMatchObject({ attachmentId: 'manual.pdf', name: 'manual.pdf', chunkIndex: 0, page: 1 });
+    expect(only.excerpt.length).toBeLessThan(250);
+    expect(only.excerpt.endsWith('…')).toBe(true);
+  });
+
+  describe('citations', () => {
+    const sources = [source(3, 0), source(4, 1), source(undefined, 0, 'notes.docx')];
+
+    it('matches pages, page ranges, parts and named documents', () => {
+      const text = 'See [p. 3], [pp. 3–4], [part 1], [notes.docx, part 1] and [p. 9].';
+      expect(findCitations(text, sources).map((c) => [c.label, c.sources])).toEqual([
+        ['p. 3', [0]],
+        ['pp. 3–4', [0, 1]],
+        ['part 1', [2]],
+        ['notes.docx, part 1', [2]],
+      ]);
+    });
+
+    it('links citations outside code blocks', () => {
+      const text = 'Per [p. 4].\n\n```\n[p. 4]\n```\nAlready [p. 3](https://x).';
+      expect(linkCitations(text, sources)).toBe('Per [p. 4](#cite-1).\n\n```\n[p. 4]\n```\nAlready [p. 3](https://x).');
+      expect(parseCitationHref('#cite-0-1')).toEqual([0, 1]);
+      expect(parseCitationHref('https://example.com')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { extractDocxBlocks, parseDocumentXml, readZipEntry } from '../src/lib/docxText';
+
+const encoder = new TextEncoder();
+
+/** A zip archive of uncompressed (stored) entries */
+function buildZip(files: Record<string, string>): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+  const u32 = (n: number) => [...u16(n & 0xffff), ...u16(n >>> 16)];
+  let count = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = [...encoder.encode(name)];
+    const data = [...encoder.encode(text)];
+    const offset = local.length;
+    // CRC is left as 0 — the reader doesn't check it
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0),
+      ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0), ...nameBytes, ...data);
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(0), ...u16(0), ...u16(0), ...u32(0),
+      ...u32(data.length), ...u32(data.length), ...u16(nameBytes.length), ...u16(0), ...u16(0), ...u16(0), ...u16(0),
+      ...u32(0), ...u32(offset), ...nameBytes);
+    count++;
+  }
+  const eocd = [...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(count), ...u16(count),
+    ...u32(central.length), ...u32(local.length), ...u16(0)];
+  return new Uint8Array([...local, ...central, ...eocd]);
+}
+
+const paragraph = (text: string, extra = '') => `<w:p>${extra}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('docxText', () => {
+  it('reads entries from a zip archive', async () => {
+    const zip = buildZip({ 'a.txt': 'first', 'dir/b.txt': 'second' });
+    expect(new TextDecoder().decode((await readZipEntry(zip, 'dir/b.txt'))!)).toBe('second');
+    expect(await readZipEntry(zip, 'missing.txt')).toBeNull();
+    await expect(readZipEntry(encoder.encode('not a zip at all, just some text'), 'a')).rejects.toThrow('Not a zip');
+  });
+
+  it('turns paragraphs into blocks with headings and decoded entities', () => {
+    const xml = `<w:document><w:body>
+      ${paragraph('Intro', '<w:pPr><w:pStyle w:val="Heading1"/></w:pPr>')}
+      ${paragraph('Fish &amp; chips')}
+      <w:p><w:r><w:t>Split</w:t></w:r><w:r><w:tab/><w:t>runs</w:t></w:r></w:p>
+      <w:p/>
+    </w:body></w:document>`;
+    expect(parseDocumentXml(xml)).toEqual([
+      { text: 'Intro', heading: true },
+      { text: 'Fish & chips' },
+      { text: 'Split\truns' },
+    ]);
+  });
+
+  it('numbers pages from rendered page breaks', () => {
+    const xml = [
+      paragraph('One'),
+      paragraph('Two', '<w:r><w:lastRenderedPageBreak/></w:r>'),
+      paragraph('Three', '<w:r><w:br w:type="page"/></w:r>'),
+    ].join('');
+    expect(parseDocumentXml(xml).map((b) => b.page)).toEqual([1, 2, 3]);
+  });
+
+  it('extracts word/document.xml from a .docx', async () => {
+    const docx = buildZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': `<w:document><w:body>${paragraph('Hello docx')}</w:body></w:document>`,
+    });
+    expect(await extractDocxBlocks(docx)).toEqual([{ text: 'Hello docx' }]);
+    await expect(extractDocxBlocks(buildZip({ 'x.txt': 'x' }))).rejects.toThrow('Not a Word document');
+  });
+});
@@ -4,6 +4,9 @@ import {
   exportMarkdown,
   importJSON,
   importMarkdown,
+  inlineMedia,
+  extractInlinedMedia,
+  dataUrlToBlob,
 } from '../src/lib/exportImport';
 import type { ChatSession, ChatMessage } from '../src/types';
 
@@ -59,6 +62,19 @@ describe('exportImport', () => {
       expect(imported[1].messages).toHaveLength(1);
     });
 
+    it('preserves branches and the active branch pointer', () => {
+      const user = { ...makeMsg('Question', 'user'), parentId: null };
+      const first = { ...makeMsg('First answer', 'assistant'), parentId: user.id };
+      const second = { ...makeMsg('Second answer', 'assistant'), parentId: user.id };
+      const session = { ...makeSession('Branched', [user, first, second]), activeLeafId: second.id };
+
+      const [imported] = importJSON(exportJSON([session]));
+
+      expect(imported.messages).toHaveLength(3);
+      expect(imported.messages.map((m) => m.parentId)).toEqual([null, user.id, user.id]);
+      expect(imported.activeLeafId).toBe(second.id);
+    });
+
     it('includes version and exportedAt in JSON', () => {
       const json = exportJSON([]);
       const parsed = JSON.parse(json);
@@ -107,6 +123,19 @@ describe('exportImport', () => {
     });
   });
 
+  describe('exportMarkdown with branches', () => {
+    it('exports only the active branch', () => {
+      const user = { ...makeMsg('Question', 'user'), parentId: null };
+      const first = { ...makeMsg('Discarded answer', 'assistant'), parentId: user.id };
+      const second = { ...makeMsg('Kept answer', 'assistant'), parentId: user.id };
+      const session = { ...makeSession('Branched', [user, first, second]), activeLeafId: second.id };
+
+      const md = exportMarkdown([session]);
+      expect(md).toContain('Kept answer');
+      expect(md).not.toContain('Discarded answer');
+    });
+  });
+
   describe('importMarkdown', () => {
     it('parses a markdown export with correct heading format', () => {
       const md = `# Pollinations Chat Export
@@ -153,4 +182,54 @@ Hi there!
       expect(msgContents.some(c => c.includes('Beta'))).toBe(true);
     });
   });
+
+  describe('media inlining', () => {
+    function withGeneratedImage(): ChatSession {
+      const msg = makeMsg('Image generated successfully.', 'assistant');
+      msg.attachments = [{
+        id: 'att-1',
+        type: 'image',
+        name: 'generated.png',
+        mimeType: 'image/png',
+        dataUrl: '',
+        sizeBytes: 3,
+        mediaId: 'media-1',
+      }];
+      return makeSession('Images', [msg]);
+    }
+
+    it('inlines media-store bytes as data URLs', async () => {
+      const blob = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' });
+      const [session] = await inlineMedia([withGeneratedImage()], async (id) =>
+        id === 'media-1' ? blob : undefined,
+      );
+      const att = session.messages[0].attachments[0];
+      expect(att.dataUrl).toMatch(/^data:image\/png;base64,/);
+      expect(att.mediaId).toBe('media-1');
+    });
+
+    it('leaves attachments untouched when media is missing', async () => {
+      const [session] = await inlineMedia([withGeneratedImage()], async () => undefined);
+      expect(session.messages[0].attachments[0].dataUrl).toBe('');
+    });
+
+    it('moves inlined bytes back out on import', async () => {
+      const session = withGeneratedImage();
+      session.messages[0].attachments[0].dataUrl = 'data:image/png;base64,AQID';
+      const stored: Array<{ id: string; sessionId: string; size: number }> = [];
+
+      const [result] = await extractInlinedMedia([session], async (id, sessionId, blob) => {
+        stored.push({ id, sessionId, size: blob.size });
+      });
+
+      expect(stored).toEqual([{ id: 'media-1', sessionId: session.id, size: 3 }]);
+      expect(result.messages[0].attachments[0].dataUrl).toBe('');
+    });
+
+    it('decodes base64 data URLs into typed blobs', async () => {
+      const blob = dataUrlToBlob('data:audio/mpeg;base64,AQID');
+      expect(blob.type).toBe('audio/mpeg');
+      expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    });
+  });
 });
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { collectGalleryItems, filterGallery, galleryModels } from '../src/lib/gallery';
+import type { ChatMessage, ChatSession, MessageAttachment } from '../src/types';
+
+function media(id: string, type: MessageAttachment['type'] = 'image'): MessageAttachment {
+  return { id, type, name: `${id}.png`, mimeType: 'image/png', dataUrl: '', sizeBytes: 1, mediaId: id };
+}
+
+function msg(id: string, role: ChatMessage['role'], extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role, content: id, timestamp: 0, mode: 'image', attachments: [], ...extra };
+}
+
+const session: ChatSession = {
+  id: 's',
+  title: 'Test',
+  model: 'flux',
+  createdAt: 0,
+  updatedAt: 0,
+  totalPollenSpent: 0,
+  messages: [
+    msg('u1', 'user', { content: 'A red fox in snow', attachments: [media('upload')] }),
+    msg('a1', 'assistant', { parentId: 'u1', model: 'flux', timestamp: 1, attachments: [media('fox1'), media('fox2')], selectedAttachmentId: 'fox2' }),
+    msg('u2', 'user', { content: 'A lighthouse at night' }),
+    msg('a2', 'assistant', { parentId: 'u2', model: 'turbo', timestamp: 2, attachments: [media('light')] }),
+    msg('a3', 'assistant', { parentId: 'u2', model: 'turbo', timestamp: 3, isError: true, attachments: [media('broken')] }),
+  ],
+};
+
+describe('gallery', () => {
+  it('collects generated media newest first, with prompts', () => {
+    const items = collectGalleryItems(session);
+    expect(items.map((i) => i.attachment.id)).toEqual(['light', 'fox1', 'fox2']);
+    expect(items[0]).toMatchObject({ prompt: 'A lighthouse at night', model: 'turbo', messageId: 'a2' });
+    expect(items.find((i) => i.attachment.id === 'fox2')?.selected).toBe(true);
+  });
+
+  it('lists the models in use', () => {
+    expect(galleryModels(collectGalleryItems(session))).toEqual(['flux', 'turbo']);
+  });
+
+  it('filters by model and prompt words', () => {
+    const items = collectGalleryItems(session);
+    expect(filterGallery(items, { model: 'flux' })).toHaveLength(2);
+    expect(filterGallery(items, { query: 'fox SNOW' }).map((i) => i.messageId)).toEqual(['a1', 'a1']);
+    expect(filterGallery(items, { model: 'turbo', query: 'fox' })).toEqual([]);
+  });
+});
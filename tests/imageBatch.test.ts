@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  batchSeeds,
+  mapWithConcurrency,
+  upscaleImageOptions,
+  variationCount,
+  MAX_IMAGE_VARIATIONS,
+} from '../src/lib/imageBatch';
+import { DEFAULT_IMAGE_OPTIONS, MAX_IMAGE_SEED } from '../src/lib/imageOptions';
+
+describe('imageBatch', () => {
+  it('clamps the variation count', () => {
+    expect(variationCount({})).toBe(1);
+    expect(variationCount({ variations: 0 })).toBe(1);
+    expect(variationCount({ variations: 99 })).toBe(MAX_IMAGE_VARIATIONS);
+  });
+
+  it('gives each variation a consecutive seed', () => {
+    expect(batchSeeds({ ...DEFAULT_IMAGE_OPTIONS, seed: 10, variations: 3 })).toEqual([10, 11, 12]);
+    expect(batchSeeds({ ...DEFAULT_IMAGE_OPTIONS, seed: MAX_IMAGE_SEED - 1, variations: 2 })).toEqual([MAX_IMAGE_SEED - 1, 0]);
+  });
+
+  it('upscales one variation, keeping the aspect ratio within the size limit', () => {
+    const options = { ...DEFAULT_IMAGE_OPTIONS, width: 1344, height: 768, seed: 1, variations: 4 };
+    expect(upscaleImageOptions(options, 3)).toMatchObject({ width: 2048, height: 1168, seed: 3, variations: 1 });
+    expect(upscaleImageOptions({ ...options, width: 512, height: 512 }, 3)).toMatchObject({ width: 1024, height: 1024 });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('limits tasks in flight and keeps the input order', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, i) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((r) => setTimeout(r, ms));
+        inFlight--;
+        return i;
+      });
+      expect(peak).toBe(2);
+      expect(results.map((r) => (r.status === 'fulfilled' ? r.value : null))).toEqual([0, 1, 2, 3]);
+    });
+
+    it('settles every item even when some fail', async () => {
+      const results = await mapWithConcurrency([1, 2, 3], 2, async (n) => {
+        if (n === 2) throw new Error('boom');
+        return n;
+      });
+      expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampImageDimension,
+  describeImageSize,
+  referenceImageFromAttachments,
+  resolveImageOptions,
+  toImageQueryParams,
+  varyImageOptions,
+  DEFAULT_IMAGE_OPTIONS,
+} from '../src/lib/imageOptions';
+import type { MessageAttachment } from '../src/types';
+
+function image(dataUrl: string): MessageAttachment {
+  return { id: dataUrl, type: 'image', name: 'ref.png', mimeType: 'image/png', dataUrl, sizeBytes: 1 };
+}
+
+describe('imageOptions', () => {
+  describe('resolveImageOptions', () => {
+    it('draws a random seed unless one is fixed', () => {
+      expect(resolveImageOptions(DEFAULT_IMAGE_OPTIONS, [], () => 0.5).seed).toBe(1_073_741_823);
+      expect(resolveImageOptions({ ...DEFAULT_IMAGE_OPTIONS, seed: 42 }, [], () => 0.5).seed).toBe(42);
+    });
+
+    it('takes the reference image from a linked attachment', () => {
+      const resolved = resolveImageOptions(DEFAULT_IMAGE_OPTIONS, [image('https://example.com/cat.png')]);
+      expect(resolved.image).toBe('https://example.com/cat.png');
+    });
+
+    it('drops blank text fields', () => {
+      const resolved = resolveImageOptions({ ...DEFAULT_IMAGE_OPTIONS, negativePrompt: '  ', image: '' });
+      expect(resolved).not.toHaveProperty('negativePrompt');
+      expect(resolved).not.toHaveProperty('image');
+    });
+  });
+
+  describe('referenceImageFromAttachments', () => {
+    it('ignores uploaded data URLs', () => {
+      expect(referenceImageFromAttachments([image('data:image/png;base64,AAAA')])).toBeUndefined();
+    });
+  });
+
+  describe('varyImageOptions', () => {
+    it('keeps the parameters and changes the seed', () => {
+      const base = { ...DEFAULT_IMAGE_OPTIONS, seed: 0, negativePrompt: 'text' };
+      expect(varyImageOptions(base, () => 0)).toEqual({ ...base, seed: 1 });
+    });
+  });
+
+  describe('toImageQueryParams', () => {
+    it('maps options onto the endpoint parameters', () => {
+      expect(toImageQueryParams({
+        width: 1344,
+        height: 768,
+        seed: 7,
+        negativePrompt: 'blurry',
+        nologo: true,
+        enhance: false,
+        safe: true,
+        image: 'https://example.com/a.png',
+      })).toEqual({
+        width: 1344,
+        height: 768,
+        seed: 7,
+        negative_prompt: 'blurry',
+        nologo: true,
+        safe: true,
+        image: 'https://example.com/a.png',
+      });
+    });
+  });
+
+  it('clamps dimensions to multiples of 8 in range', () => {
+    expect(clampImageDimension(1000.4)).toBe(1000);
+    expect(clampImageDimension(5)).toBe(64);
+    expect(clampImageDimension(9999)).toBe(2048);
+    expect(clampImageDimension(NaN)).toBe(1024);
+  });
+
+  it('describes preset and custom sizes', () => {
+    expect(describeImageSize(1344, 768)).toBe('16:9 · 1344×768');
+    expect(describeImageSize(500, 500)).toBe('500×500');
+  });
+});
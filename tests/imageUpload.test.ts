@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_MESSAGE_BYTES,
+  attachmentBudgetError,
+  clampImageQuality,
+  fitImageSize,
+  formatBytes,
+  imageLimitsForModel,
+  preprocessImage,
+  renameForType,
+  shouldProcessImage,
+} from '../src/lib/imageUpload';
+import type { PollinationsModel } from '../src/types';
+
+/** Canvas stand-in whose output grows with pixel count and quality */
+function stubCanvas(bytesPerPixel: number, calls: { width: number; height: number; quality: number }[]) {
+  const drawImage = vi.fn();
+  vi.stubGlobal('OffscreenCanvas', class {
+    constructor(public width: number, public height: number) {}
+    getContext() {
+      return { drawImage, fillRect: vi.fn(), fillStyle: '', imageSmoothingQuality: 'low' };
+    }
+    async convertToBlob({ type, quality }: { type: string; quality: number }) {
+      calls.push({ width: this.width, height: this.height, quality });
+      const size = Math.round(this.width * this.height * bytesPerPixel * quality);
+      return new Blob([new Uint8Array(size)], { type });
+    }
+  });
+  return drawImage;
+}
+
+function stubBitmap(width: number, height: number) {
+  const close = vi.fn();
+  const create = vi.fn(async () => ({ width, height, close }));
+  vi.stubGlobal('createImageBitmap', create);
+  return { create, close };
+}
+
+describe('imageUpload', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('fits images within the model limits without upscaling', () => {
+    const vision = imageLimitsForModel({ type: 'text' } as PollinationsModel);
+    expect(fitImageSize(4032, 3024, vision)).toEqual({ width: 1024, height: 768 });
+    expect(fitImageSize(3024, 4032, vision)).toEqual({ width: 768, height: 1024 });
+    expect(fitImageSize(4000, 500, vision)).toEqual({ width: 2048, height: 256 });
+    expect(fitImageSize(640, 480, vision)).toEqual({ width: 640, height: 480 });
+
+    const reference = imageLimitsForModel({ type: 'image' } as PollinationsModel);
+    expect(fitImageSize(4032, 3024, reference)).toEqual({ width: 2048, height: 1536 });
+  });
+
+  it('processes photos but passes animations and vectors through', () => {
+    expect(shouldProcessImage('image/jpeg')).toBe(true);
+    expect(shouldProcessImage('image/heic')).toBe(true);
+    expect(shouldProcessImage('image/gif')).toBe(false);
+    expect(shouldProcessImage('image/svg+xml')).toBe(false);
+    expect(shouldProcessImage('application/pdf')).toBe(false);
+  });
+
+  it('renames files to match their new type', () => {
+    expect(renameForType('IMG_0001.HEIC', 'image/webp')).toBe('IMG_0001.webp');
+    expect(renameForType('scan.final.png', 'image/jpeg')).toBe('scan.final.jpg');
+    expect(renameForType('photo', 'image/webp')).toBe('photo.webp');
+  });
+
+  it('formats byte counts and clamps quality', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(340 * 1024)).toBe('340 KB');
+    expect(formatBytes(12.4 * 1024 * 1024)).toBe('12.4 MB');
+    expect(clampImageQuality(1)).toBe(0.95);
+    expect(clampImageQuality(0.1)).toBe(0.5);
+    expect(clampImageQuality(NaN)).toBe(0.85);
+  });
+
+  it('enforces per-attachment and per-message budgets', () => {
+    expect(attachmentBudgetError('a.png', 1024, 0)).toBeNull();
+    expect(attachmentBudgetError('big.mov', MAX_ATTACHMENT_BYTES + 1, 0)).toMatch(/^big\.mov is 5\.0 MB — attachments can be at most 5\.0 MB/);
+    expect(attachmentBudgetError('c.png', 2 * 1024 * 1024, MAX_MESSAGE_BYTES - 1024 * 1024)).toMatch(/total at most 20\.0 MB \(1\.0 MB left\)/);
+  });
+
+  it('downscales and re-encodes photos as WebP', async () => {
+    const calls: { width: number; height: number; quality: number }[] = [];
+    const drawImage = stubCanvas(0.5, calls);
+    const { create, close } = stubBitmap(4032, 3024);
+
+    const file = new File([new Uint8Array(100)], 'IMG.jpg', { type: 'image/jpeg' });
+    const out = await preprocessImage(file, { limits: { maxLong: 2048, maxShort: 768 }, quality: 0.8 });
+
+    expect(create).toHaveBeenCalledWith(file, { imageOrientation: 'from-image' });
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 1024, 768);
+    expect(out.type).toBe('image/webp');
+    expect(calls).toEqual([{ width: 1024, height: 768, quality: 0.8 }]);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('lowers quality, then size, until the image fits', async () => {
+    const calls: { width: number; height: number; quality: number }[] = [];
+    stubCanvas(1, calls);
+    stubBitmap(1000, 1000);
+
+    const out = await preprocessImage(new Blob([new Uint8Array(10)], { type: 'image/png' }), {
+      limits: { maxLong: 2048, maxShort: 2048 },
+      quality: 0.8,
+      maxBytes: 300_000,
+    });
+
+    expect(calls.map((c) => [c.width, Math.round(c.quality * 100)])).toEqual([
+      [1000, 80], [1000, 65], [1000, 50], [750, 50],
+    ]);
+    expect(out.size).toBeLessThanOrEqual(300_000);
+  });
+
+  it('reports unreadable and oversized images', async () => {
+    stubCanvas(1, []);
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => { throw new Error('decode'); }));
+    const limits = { maxLong: 2048, maxShort: 768 };
+
+    await expect(preprocessImage(new File(['x'], 'broken.png', { type: 'image/png' }), { limits }))
+      .rejects.toThrow("broken.png couldn't be read as an image.");
+
+    stubBitmap(4000, 4000);
+    await expect(preprocessImage(new File(['x'], 'huge.png', { type: 'image/png' }), { limits, maxBytes: 10 }))
+      .rejects.toThrow('huge.png is still over 10 B after compressing it.');
+  });
+});
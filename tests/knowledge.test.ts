@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildKnowledgeIndex,
+  chunkKey,
+  chunksMissingEmbeddings,
+  cosineSimilarity,
+  embedMissingChunks,
+  findFootnotes,
+  formatKnowledgeContext,
+  fuseRankings,
+  knowledgeSources,
+  linkFootnotes,
+  parseFootnoteHref,
+  rankBm25,
+  retrievePassages,
+} from '../src/lib/knowledge';
+import { generateEmbeddings } from '../src/lib/pollinations';
+import type { KnowledgeCollection, KnowledgeDocument } from '../src/types';
+
+function doc(id: string, texts: string[], pages = true): KnowledgeDocument {
+  return {
+    id,
+    name: `${id}.pdf`,
+    kind: 'pdf',
+    chunks: texts.map((text, index) => ({ index, text, tokens: 10, ...(pages && { page: index + 1 }) })),
+    totalTokens: texts.length * 10,
+    addedAt: 0,
+  };
+}
+
+function collection(id: string, documents: KnowledgeDocument[], embeddingModel?: string): KnowledgeCollection {
+  return { id, name: `${id} notes`, documents, createdAt: 0, updatedAt: 0, ...(embeddingModel && { embeddingModel }) };
+}
+
+const garden = collection('garden', [
+  doc('roses', ['Prune roses in early spring before new growth.', 'Roses need six hours of sun.']),
+  doc('soil', ['Compost improves clay soil drainage.', 'Test soil acidity every year; roses like slightly acidic soil.']),
+]);
+
+describe('knowledge', () => {
+  describe('BM25 index', () => {
+    it('indexes every chunk by its terms', () => {
+      const index = buildKnowledgeIndex(garden);
+      expect(index.chunkCount).toBe(4);
+      expect(index.postings.roses.map(([key]) => key)).toEqual([chunkKey('roses', 0), chunkKey('roses', 1), chunkKey('soil', 1)]);
+      expect(index.lengths[chunkKey('soil', 0)]).toBe(5);
+    });
+
+    it('ranks rare and repeated terms higher', () => {
+      const ranked = rankBm25(buildKnowledgeIndex(garden), 'When should I prune roses?');
+      expect(ranked[0].key).toBe(chunkKey('roses', 0));
+      expect(ranked.map((r) => r.key)).not.toContain(chunkKey('soil', 0));
+      expect(rankBm25(buildKnowledgeIndex(garden), 'the and of')).toEqual([]);
+    });
+  });
+
+  describe('embeddings', () => {
+    it('keeps vectors for unchanged chunks when the index is rebuilt', () => {
+      const withModel = collection('garden', garden.documents, 'embed-1');
+      const first = buildKnowledgeIndex(withModel);
+      first.embeddings!.vectors[chunkKey('roses', 0)] = [1, 0];
+      const rebuilt = buildKnowledgeIndex({ ...withModel, documents: [garden.documents[0]] }, first);
+      expect(rebuilt.embeddings!.vectors).toEqual({ [chunkKey('roses', 0)]: [1, 0] });
+      expect(chunksMissingEmbeddings(withModel, rebuilt)).toHaveLength(3);
+      expect(buildKnowledgeIndex(garden, first).embeddings).toBeUndefined();
+    });
+
+    it('embeds missing chunks and keeps partial progress on failure', async () => {
+      const withModel = collection('garden', garden.documents, 'embed-1');
+      const embed = vi.fn(async (texts: string[]) => texts.map((t) => [t.length, 1]));
+      const { index, error } = await embedMissingChunks(withModel, buildKnowledgeIndex(withModel), embed);
+      expect(error).toBeUndefined();
+      expect(Object.keys(index.embeddings!.vectors)).toHaveLength(4);
+
+      const failing = await embedMissingChunks(withModel, buildKnowledgeIndex(withModel), async () => {
+        throw new Error('quota');
+      });
+      expect(failing.error?.message).toBe('quota');
+      expect(failing.index.embeddings!.vectors).toEqual({});
+    });
+
+    it('measures cosine similarity', () => {
+      expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 3])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  it('fuses rankings so items high in either list rise', () => {
+    const fused = fuseRankings([['a', 'b', 'c'], ['c', 'a']]).map((r) => r.key);
+    expect(fused).toEqual(['a', 'c', 'b']);
+  });
+
+  describe('retrievePassages', () => {
+    it('returns the top passages across collections within the token budget', () => {
+      const other = collection('other', [doc('sun', ['Most vegetables want full sun.'])]);
+      const sources = [garden, other].map((c) => ({ collection: c, index: buildKnowledgeIndex(c) }));
+      const passages = retrievePassages(sources, 'sun for roses', { topK: 2 });
+      expect(passages.map((p) => p.chunk.text)).toEqual([
+        'Roses need six hours of sun.',
+        expect.any(String),
+      ]);
+      expect(retrievePassages(sources, 'sun for roses', { maxTokens: 15 })).toHaveLength(1);
+    });
+
+    it('adds semantic matches when the query has an embedding', () => {
+      const withModel = collection('garden', garden.documents, 'embed-1');
+      const index = buildKnowledgeIndex(withModel);
+      index.embeddings!.vectors = {
+        [chunkKey('soil', 0)]: [1, 0],
+        [chunkKey('roses', 0)]: [0, 1],
+      };
+      const passages = retrievePassages([{ collection: withModel, index }], 'heavy ground that stays wet', {
+        topK: 1,
+        queryVectors: { 'embed-1': [0.9, 0.1] },
+      });
+      expect(passages[0].chunk.text).toBe('Compost improves clay soil drainage.');
+    });
+  });
+
+  describe('prompt and footnotes', () => {
+    const passages = retrievePassages([{ collection: garden, index: buildKnowledgeIndex(garden) }], 'prune roses', { topK: 1 });
+
+    it('numbers passages for the system message', () => {
+      expect(formatKnowledgeContext(passages)).toMatch(
+        /like \[\^1\]\.[^]*\n\n\[\^1\] roses\.pdf, p\. 1 \(garden notes\)\nPrune roses in early spring before new growth\.$/,
+      );
+      expect(formatKnowledgeContext([])).toBe('');
+      expect(knowledgeSources(passages)).toEqual([{
+        marker: 1,
+        collectionName: 'garden notes',
+        documentName: 'roses.pdf',
+        chunkIndex: 0,
+        page: 1,
+        excerpt: 'Prune roses in early spring before new growth.',
+      }]);
+    });
+
+    it('links footnote markers in a reply', () => {
+      const reply = 'Prune in spring.[^1] Sun matters [2]. See arr[1] and [^9].\n\n```\n[^1]\n```';
+      expect(findFootnotes(reply, 2)).toEqual([1, 2]);
+      expect(linkFootnotes(reply, 2)).toBe(
+        'Prune in spring.[1](#kb-1) Sun matters [2](#kb-2). See arr[1] and [^9].\n\n```\n[^1]\n```',
+      );
+      expect(parseFootnoteHref('#kb-2')).toBe(2);
+      expect(parseFootnoteHref('#cite-2')).toBeNull();
+    });
+  });
+
+  describe('generateEmbeddings', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('posts inputs to the embeddings endpoint and returns vectors in order', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+      }), { status: 200, headers: { 'content-type': 'application/json' } }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await generateEmbeddings('key', 'embed-1', ['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toMatch(/\/v1\/embeddings$/);
+      expect(JSON.parse(init.body as string)).toEqual({ model: 'embed-1', input: ['a', 'b'] });
+    });
+  });
+});
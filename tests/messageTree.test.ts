@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ensureTree,
+  appendMessage,
+  getActivePath,
+  getBranchInfo,
+  getSiblings,
+  switchBranch,
+  pruneBranch,
+  removeMessage,
+} from '../src/lib/messageTree';
+import type { ChatSession, ChatMessage } from '../src/types';
+
+let clock = 0;
+
+function makeMsg(
+  id: string,
+  role: 'user' | 'assistant',
+  parentId?: string | null,
+): ChatMessage {
+  return {
+    id,
+    role,
+    content: id,
+    timestamp: ++clock,
+    mode: 'text',
+    attachments: [],
+    ...(parentId !== undefined && { parentId }),
+  };
+}
+
+function makeSession(messages: ChatMessage[] = []): ChatSession {
+  return {
+    id: 'session',
+    title: 'Test',
+    messages,
+    model: 'openai',
+    createdAt: 0,
+    updatedAt: 0,
+    totalPollenSpent: 0,
+  };
+}
+
+/** u1 → a1, plus a regenerated sibling a2 (active) */
+function branchedSession(): ChatSession {
+  let s = makeSession();
+  s = appendMessage(s, makeMsg('u1', 'user'));
+  s = appendMessage(s, makeMsg('a1', 'assistant'));
+  s = appendMessage(s, makeMsg('a2', 'assistant', 'u1'));
+  return s;
+}
+
+describe('messageTree', () => {
+  describe('ensureTree', () => {
+    it('links a legacy flat session into one branch', () => {
+      const s = ensureTree(makeSession([makeMsg('u1', 'user'), makeMsg('a1', 'assistant')]));
+      expect(s.messages.map((m) => m.parentId)).toEqual([null, 'u1']);
+      expect(s.activeLeafId).toBe('a1');
+    });
+
+    it('leaves an existing tree untouched', () => {
+      const s = branchedSession();
+      expect(ensureTree(s)).toBe(s);
+    });
+  });
+
+  describe('appendMessage', () => {
+    it('continues the active branch by default', () => {
+      const s = appendMessage(branchedSession(), makeMsg('u2', 'user'));
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1', 'a2', 'u2']);
+    });
+
+    it('forks when given an explicit parent', () => {
+      const s = appendMessage(branchedSession(), makeMsg('u1b', 'user', null));
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1b']);
+      expect(getSiblings(s, 'u1').map((m) => m.id)).toEqual(['u1', 'u1b']);
+    });
+  });
+
+  describe('getBranchInfo', () => {
+    it('reports position among siblings for branched messages only', () => {
+      const s = branchedSession();
+      expect(getBranchInfo(s, getActivePath(s))).toEqual({ a2: { index: 1, total: 2 } });
+    });
+  });
+
+  describe('switchBranch', () => {
+    it('activates the newest leaf below the chosen sibling', () => {
+      let s = branchedSession();
+      s = appendMessage(s, makeMsg('u2', 'user'));
+      s = switchBranch(s, 'a1');
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1', 'a1']);
+      s = switchBranch(s, 'a2');
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1', 'a2', 'u2']);
+    });
+
+    it('ignores unknown message ids', () => {
+      const s = branchedSession();
+      expect(switchBranch(s, 'missing')).toBe(s);
+    });
+  });
+
+  describe('pruneBranch', () => {
+    it('removes the message with its replies and falls back to a sibling', () => {
+      let s = appendMessage(branchedSession(), makeMsg('u2', 'user'));
+      const result = pruneBranch(s, 'a2');
+      s = result.session;
+      expect(result.removed.map((m) => m.id)).toEqual(['a2', 'u2']);
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1', 'a1']);
+    });
+
+    it('falls back to the parent when no sibling is left', () => {
+      let s = makeSession();
+      s = appendMessage(s, makeMsg('u1', 'user'));
+      s = appendMessage(s, makeMsg('a1', 'assistant'));
+      s = pruneBranch(s, 'a1').session;
+      expect(s.activeLeafId).toBe('u1');
+    });
+  });
+
+  describe('removeMessage', () => {
+    it('re-attaches replies to the removed message\'s parent', () => {
+      let s = makeSession();
+      s = appendMessage(s, makeMsg('u1', 'user'));
+      s = appendMessage(s, makeMsg('a1', 'assistant'));
+      s = appendMessage(s, makeMsg('u2', 'user'));
+      s = removeMessage(s, 'a1');
+      expect(getActivePath(s).map((m) => m.id)).toEqual(['u1', 'u2']);
+    });
+  });
+});
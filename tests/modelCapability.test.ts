@@ -14,6 +14,7 @@ function inferCapabilities(modelName: string, rawType: string): ModelCapabilitie
     webSearch: modelName.includes('search') || modelName.includes('perplexity'),
     deepThink: modelName.includes('reasoning') || modelName.includes('deepseek'),
     codeExecution: modelName.includes('coder'),
+    tools: false,
   };
 }
 
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMusicPrompt,
+  clampMusicDuration,
+  formatTrackTime,
+  isMusicModel,
+  toggleStyleTag,
+  waveformPeaks,
+  DEFAULT_MUSIC_OPTIONS,
+  MAX_MUSIC_SECONDS,
+  MIN_MUSIC_SECONDS,
+} from '../src/lib/music';
+
+describe('music', () => {
+  it('recognizes music models among audio models', () => {
+    expect(isMusicModel({ type: 'audio', name: 'elevenmusic', description: '' })).toBe(true);
+    expect(isMusicModel({ type: 'audio', name: 'eleven', description: 'Generates music from a prompt' })).toBe(true);
+    expect(isMusicModel({ type: 'audio', name: 'openai-audio', description: 'Text to speech' })).toBe(false);
+    expect(isMusicModel({ type: 'text', name: 'musicgpt', description: '' })).toBe(false);
+    expect(isMusicModel(null)).toBe(false);
+  });
+
+  it('clamps the duration to whole seconds within limits', () => {
+    expect(clampMusicDuration(1)).toBe(MIN_MUSIC_SECONDS);
+    expect(clampMusicDuration(10_000)).toBe(MAX_MUSIC_SECONDS);
+    expect(clampMusicDuration(42.6)).toBe(43);
+    expect(clampMusicDuration(NaN)).toBe(DEFAULT_MUSIC_OPTIONS.duration);
+  });
+
+  it('toggles normalized style tags', () => {
+    expect(toggleStyleTag([], '  Lo-Fi ')).toEqual(['lo-fi']);
+    expect(toggleStyleTag(['lo-fi'], 'lo-fi')).toEqual([]);
+    expect(toggleStyleTag(['jazz'], '#Dream   Pop')).toEqual(['jazz', 'dream pop']);
+    expect(toggleStyleTag(['jazz'], '   ')).toEqual(['jazz']);
+  });
+
+  it('appends style tags to the prompt', () => {
+    expect(buildMusicPrompt('a calm morning', [])).toBe('a calm morning');
+    expect(buildMusicPrompt('a calm morning ', ['ambient', 'piano'])).toBe('a calm morning\n\nStyle: ambient, piano');
+    expect(buildMusicPrompt('', ['jazz'])).toBe('Style: jazz');
+  });
+
+  it('formats track times as m:ss', () => {
+    expect(formatTrackTime(0)).toBe('0:00');
+    expect(formatTrackTime(65.9)).toBe('1:05');
+    expect(formatTrackTime(Infinity)).toBe('0:00');
+  });
+
+  it('reduces samples to normalized peaks per bar', () => {
+    expect(waveformPeaks([0.1, -0.5, 0.2, 0.25], 2)).toEqual([1, 0.5]);
+    expect(waveformPeaks([0, 0, 0], 3)).toEqual([0, 0, 0]);
+    expect(waveformPeaks([], 4)).toEqual([0, 0, 0, 0]);
+    expect(waveformPeaks([0.5, 1], 4)).toHaveLength(4);
+  });
+});
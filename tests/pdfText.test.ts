@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { extractContentText, extractPdfPages, parseToUnicodeCMap } from '../src/lib/pdfText';
+
+const encoder = new TextEncoder();
+
+/** A PDF from `obj` bodies (1-based object numbers); the catalog is object 1 */
+function buildPdf(objects: Array<string | Uint8Array>): Uint8Array {
+  const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n')];
+  objects.forEach((body, i) => {
+    parts.push(encoder.encode(`${i + 1} 0 obj\n`));
+    parts.push(typeof body === 'string' ? encoder.encode(body) : body);
+    parts.push(encoder.encode('\nendobj\n'));
+  });
+  parts.push(encoder.encode('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+function stream(dict: string, data: Uint8Array): Uint8Array {
+  const head = encoder.encode(`<< ${dict} /Length ${data.length} >>\nstream\n`);
+  const tail = encoder.encode('\nendstream');
+  const out = new Uint8Array(head.length + data.length + tail.length);
+  out.set(head);
+  out.set(data, head.length);
+  out.set(tail, head.length + data.length);
+  return out;
+}
+
+async function deflate(text: string): Promise<Uint8Array> {
+  const compressed = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+describe('pdfText', () => {
+  it('reads text operators with line breaks and TJ word gaps', () => {
+    const content = 'BT /F1 12 Tf 72 700 Td (Hello) Tj [(wor) -20 (ld) -250 (again)] TJ 0 -14 Td (Next \\(line\\)) Tj ET';
+    expect(extractContentText(content)).toBe('Helloworld again\nNext (line)\n');
+  });
+
+  it('maps character codes through ToUnicode CMaps', () => {
+    const cmap = parseToUnicodeCMap(
+      'begincodespacerange <0000> <FFFF> endcodespacerange 1 beginbfchar <0001> <0048> endbfchar 1 beginbfrange <0002> <0003> <0069> endbfrange',
+    );
+    expect(cmap.codeBytes).toBe(2);
+    expect([...cmap.map]).toEqual([[1, 'H'], [2, 'i'], [3, 'j']]);
+  });
+
+  it('extracts each page of a document, inflating compressed content', async () => {
+    const pdf = buildPdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+      stream('', encoder.encode('BT 72 700 Td (First page) Tj ET')),
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      stream('/Filter /FlateDecode', await deflate('BT 72 700 Td (Second page) Tj T* (more text) Tj ET')),
+    ]);
+
+    expect(await extractPdfPages(pdf)).toEqual(['First page', 'Second page\nmore text']);
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(extractPdfPages(encoder.encode('hello'))).rejects.toThrow('Not a PDF file');
+  });
+});
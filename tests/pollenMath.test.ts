@@ -1,11 +1,23 @@
 import { describe, it, expect } from 'vitest';
 import {
   MIN_POLLEN_PER_PROMPT,
+  ESTIMATED_AUDIO_SECONDS,
   computePollenCost,
   hasSufficientPollen,
   formatPollen,
   verifyPollenMath,
+  pickCheapestTextModel,
+  DEFAULT_BUDGET,
+  addBudgetSpend,
+  budgetPeriod,
+  checkBudget,
+  currentBudgetSpend,
+  describeBudgetLimit,
+  DEFAULT_EXPECTED_OUTPUT_TOKENS,
+  estimateRequestCost,
+  expectedReplyTokens,
 } from '../src/lib/pollenMath';
+import type { ModelPricing, PollenBudget } from '../src/types';
 
 describe('pollenMath', () => {
   describe('MIN_POLLEN_PER_PROMPT', () => {
@@ -48,6 +60,24 @@ describe('pollenMath', () => {
       expect(cost).toBeGreaterThanOrEqual(MIN_POLLEN_PER_PROMPT);
     });
 
+    it('bills reasoning tokens at the completion rate', () => {
+      const pricing = {
+        promptTextTokens: 0.001,
+        completionTextTokens: 0.002,
+      };
+
+      const cost = computePollenCost(pricing, 100, 50, 150);
+      // 0.001 * 100 + 0.002 * (50 + 150) = 0.1 + 0.4 = 0.5
+      expect(cost).toBeCloseTo(0.5, 6);
+    });
+
+    it('prices per-second audio by the requested duration', () => {
+      const pricing = { completionAudioSeconds: 0.01 };
+
+      expect(computePollenCost(pricing, 0, 0)).toBeCloseTo(0.01 * ESTIMATED_AUDIO_SECONDS, 6);
+      expect(computePollenCost(pricing, 0, 0, 0, 90)).toBeCloseTo(0.9, 6);
+    });
+
     it('accounts for image completion tokens', () => {
       const pricing = {
         promptTextTokens: 0.001,
@@ -93,4 +123,180 @@ describe('pollenMath', () => {
       expect(formatted).toBe('0.0500');
     });
   });
+
+  describe('pickCheapestTextModel', () => {
+    const model = (name: string, completionTextTokens?: number, paidOnly = false, type = 'text') => ({
+      name,
+      type,
+      paidOnly,
+      pricing: { promptTextTokens: completionTextTokens, completionTextTokens },
+    });
+
+    it('picks the lowest-cost text model', () => {
+      const models = [model('large', 0.00002), model('nano', 0.000001), model('mid', 0.000005)];
+      expect(pickCheapestTextModel(models)?.name).toBe('nano');
+    });
+
+    it('prefers models open to all tiers and skips unpriced or non-text ones', () => {
+      const models = [
+        model('paid', 0.0000001, true),
+        model('free', 0.00001),
+        model('unpriced'),
+        model('image', 0.00000001, false, 'image'),
+      ];
+      expect(pickCheapestTextModel(models)?.name).toBe('free');
+    });
+
+    it('returns undefined when nothing qualifies', () => {
+      expect(pickCheapestTextModel([model('unpriced')])).toBeUndefined();
+    });
+  });
+
+  describe('budgets', () => {
+    const june3 = new Date(2025, 5, 3, 15).getTime();
+    const july1 = new Date(2025, 6, 1, 9).getTime();
+    const budget = (patch: Partial<PollenBudget>): PollenBudget => ({ ...DEFAULT_BUDGET, ...patch });
+
+    it('names the local day and month', () => {
+      expect(budgetPeriod(june3)).toEqual({ day: '2025-06-03', month: '2025-06' });
+    });
+
+    it('starts a new day and month from zero', () => {
+      const spend = addBudgetSpend(addBudgetSpend(null, 0.5, june3), 0.25, june3);
+      expect(spend).toEqual({ day: '2025-06-03', daySpent: 0.75, month: '2025-06', monthSpent: 0.75 });
+      expect(currentBudgetSpend(spend, new Date(2025, 5, 4, 8).getTime())).toMatchObject({ daySpent: 0, monthSpent: 0.75 });
+      expect(addBudgetSpend(spend, 0.1, july1)).toEqual({ day: '2025-07-01', daySpent: 0.1, month: '2025-07', monthSpent: 0.1 });
+    });
+
+    it('counts a correction in the period of the spend it corrects', () => {
+      const june4 = new Date(2025, 5, 4, 8).getTime();
+      const spend = addBudgetSpend(null, 0.5, june4);
+      expect(addBudgetSpend(spend, -0.2, june4, june3)).toEqual({ day: '2025-06-04', daySpent: 0.5, month: '2025-06', monthSpent: 0.3 });
+      expect(addBudgetSpend(spend, 0.1, june4, june4)).toMatchObject({ daySpent: 0.6, monthSpent: 0.6 });
+      expect(addBudgetSpend(spend, 0.1, july1, june3)).toEqual({ day: '2025-07-01', daySpent: 0, month: '2025-07', monthSpent: 0 });
+    });
+
+    it('passes everything without limits', () => {
+      const check = checkBudget(DEFAULT_BUDGET, { requestCost: 100, sessionSpent: 100, spend: null, now: june3 });
+      expect(check).toEqual({ exceeded: [], warnings: [] });
+    });
+
+    it('blocks sends that would go over a cap', () => {
+      const spend = addBudgetSpend(null, 0.9, june3);
+      const check = checkBudget(
+        budget({ dailyCap: 1, monthlyCap: 10, sessionCap: 0.5, requestCap: 0.2 }),
+        { requestCost: 0.25, sessionSpent: 0.3, spend, now: june3 },
+      );
+      expect(check.exceeded.map((h) => h.kind)).toEqual(['request', 'session', 'daily']);
+      expect(check.exceeded.find((h) => h.kind === 'daily')).toEqual({ kind: 'daily', cap: 1, spent: 0.9, projected: 1.15 });
+    });
+
+    it('skips the per-chat cap for spend outside a chat', () => {
+      const check = checkBudget(budget({ sessionCap: 0.1, dailyCap: 1 }), {
+        requestCost: 0.5, sessionSpent: null, spend: addBudgetSpend(null, 0.6, june3), now: june3,
+      });
+      expect(check.exceeded.map((h) => h.kind)).toEqual(['daily']);
+    });
+
+    it('allows reaching a cap exactly', () => {
+      const check = checkBudget(budget({ dailyCap: 1, requestCap: 0.5 }), {
+        requestCost: 0.5, sessionSpent: 0, spend: addBudgetSpend(null, 0.5, june3), now: june3,
+      });
+      expect(check.exceeded).toEqual([]);
+    });
+
+    it("counts only the current period's spend", () => {
+      const check = checkBudget(budget({ dailyCap: 1 }), {
+        requestCost: 0.2, sessionSpent: 0, spend: addBudgetSpend(null, 0.95, june3), now: new Date(2025, 5, 4).getTime(),
+      });
+      expect(check.exceeded).toEqual([]);
+    });
+
+    it('warns once, on the send that crosses the threshold', () => {
+      const limits = budget({ monthlyCap: 10, sessionCap: 1, warnAt: 0.8 });
+      const crossing = checkBudget(limits, { requestCost: 0.2, sessionSpent: 0.7, spend: addBudgetSpend(null, 7.9, june3), now: june3 });
+      expect(crossing.warnings.map((h) => h.kind)).toEqual(['session', 'monthly']);
+      expect(crossing.exceeded).toEqual([]);
+
+      const after = checkBudget(limits, { requestCost: 0.1, sessionSpent: 0.85, spend: addBudgetSpend(null, 8.2, june3), now: june3 });
+      expect(after.warnings).toEqual([]);
+    });
+
+    it('describes limits for the override prompt', () => {
+      expect(describeBudgetLimit({ kind: 'request', cap: 0.1, spent: 0, projected: 0.25 }))
+        .toBe('This request is estimated at 0.2500 pollen, over your per-request limit of 0.1000.');
+      expect(describeBudgetLimit({ kind: 'daily', cap: 2, spent: 1.9, projected: 2.3 }))
+        .toBe('This would bring you to 2.30 of your daily budget of 2.00 pollen (115%).');
+    });
+  });
+
+  describe('estimateRequestCost', () => {
+    const pricing: ModelPricing = {
+      currency: 'pollen',
+      promptTextTokens: 0.000001,
+      promptImageTokens: 0.000002,
+      promptCachedTokens: 0.0000001,
+      completionTextTokens: 0.000004,
+    };
+    // One token per character keeps the arithmetic readable
+    const countText = (text: string) => text.length;
+
+    it('prices every message plus the expected and maximum reply', () => {
+      const estimate = estimateRequestCost(
+        { messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hello' }], max_tokens: 1000 },
+        { pricing },
+        { countText },
+      );
+      // 2 priming + (4 + 3) + (4 + 5)
+      expect(estimate.inputTokens).toBe(18);
+      expect(estimate.cachedTokens).toBe(0);
+      expect(estimate.expected).toBeCloseTo(18 * 0.000001 + DEFAULT_EXPECTED_OUTPUT_TOKENS * 0.000004);
+      expect(estimate.max).toBeCloseTo(18 * 0.000001 + 1000 * 0.000004);
+      expect(estimate.min).toBe(MIN_POLLEN_PER_PROMPT);
+    });
+
+    it('bills images at the image rate and counts tools', () => {
+      const tools = [{ type: 'function' as const, function: { name: 'f', description: '', parameters: {} } }];
+      const withImage = estimateRequestCost({
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'hi' }, { type: 'image_url', image_url: { url: 'data:' } }] }],
+      }, { pricing }, { countText, expectedOutputTokens: 0 });
+      expect(withImage.imageTokens).toBe(765);
+      expect(withImage.expected).toBeCloseTo(8 * 0.000001 + 765 * 0.000002);
+
+      const withTools = estimateRequestCost({ messages: [{ role: 'user', content: 'hi' }], tools }, { pricing }, { countText });
+      expect(withTools.inputTokens).toBe(8 + JSON.stringify(tools).length);
+    });
+
+    it('discounts a long history prefix at the cached rate for the low end', () => {
+      const history = 'x'.repeat(2000);
+      const estimate = estimateRequestCost({
+        messages: [{ role: 'user', content: history }, { role: 'assistant', content: 'ok' }, { role: 'user', content: 'more' }],
+      }, { pricing }, { countText });
+      expect(estimate.cachedTokens).toBe(2004 + 6);
+      expect(estimate.min).toBeCloseTo((estimate.inputTokens - 2010) * 0.000001 + 2010 * 0.0000001);
+      expect(estimate.min).toBeLessThan(estimate.expected);
+
+      const uncached = estimateRequestCost(
+        { messages: [{ role: 'user', content: history }, { role: 'user', content: 'more' }] },
+        { pricing: { ...pricing, promptCachedTokens: undefined } },
+        { countText },
+      );
+      expect(uncached.cachedTokens).toBe(0);
+    });
+
+    it('falls back to the minimum charge without pricing', () => {
+      const estimate = estimateRequestCost({ messages: [{ role: 'user', content: 'hi' }] }, { pricing: null }, { countText });
+      expect([estimate.min, estimate.expected, estimate.max]).toEqual(Array(3).fill(MIN_POLLEN_PER_PROMPT));
+    });
+
+    it('expects replies as long as the recent ones', () => {
+      expect(expectedReplyTokens([])).toBe(DEFAULT_EXPECTED_OUTPUT_TOKENS);
+      expect(expectedReplyTokens([
+        { role: 'user', tokensUsed: 5000 },
+        { role: 'assistant', tokensUsed: 200 },
+        { role: 'assistant', tokensUsed: 9999, isError: true },
+        { role: 'assistant', tokensUsed: 300 },
+      ])).toBe(250);
+    });
+  });
 });
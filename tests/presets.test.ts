@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPreset,
+  clearOverride,
+  createPreset,
+  findPreset,
+  resolveGenerationSettings,
+  settingSource,
+} from '../src/lib/presets';
+import { DEFAULT_SETTINGS } from '../src/lib/storage';
+import type { SettingsPreset } from '../src/types';
+
+const coder: SettingsPreset = {
+  id: 'p1',
+  name: 'Coder',
+  model: 'qwen-coder',
+  systemPrompt: 'You write TypeScript.',
+  temperature: 0.2,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('presets', () => {
+  describe('resolveGenerationSettings', () => {
+    it('falls back to the global settings', () => {
+      expect(resolveGenerationSettings(DEFAULT_SETTINGS)).toEqual({
+        systemPrompt: DEFAULT_SETTINGS.systemPrompt,
+        temperature: DEFAULT_SETTINGS.temperature,
+        creativity: DEFAULT_SETTINGS.creativity,
+      });
+    });
+
+    it('layers chat overrides over the preset over the defaults', () => {
+      const resolved = resolveGenerationSettings(DEFAULT_SETTINGS, coder, { temperature: 1.1 });
+      expect(resolved).toEqual({
+        systemPrompt: 'You write TypeScript.',
+        temperature: 1.1,
+        creativity: DEFAULT_SETTINGS.creativity,
+      });
+    });
+
+    it('keeps an empty system prompt override', () => {
+      expect(resolveGenerationSettings(DEFAULT_SETTINGS, coder, { systemPrompt: '' }).systemPrompt).toBe('');
+    });
+  });
+
+  describe('settingSource', () => {
+    it('reports the layer a value comes from', () => {
+      const overrides = { creativity: 0.9 };
+      expect(settingSource('creativity', coder, overrides)).toBe('chat');
+      expect(settingSource('temperature', coder, overrides)).toBe('preset');
+      expect(settingSource('temperature', undefined, overrides)).toBe('default');
+    });
+  });
+
+  describe('clearOverride', () => {
+    it('removes only the given key', () => {
+      expect(clearOverride({ temperature: 1, creativity: 0.2 }, 'temperature')).toEqual({ creativity: 0.2 });
+      expect(clearOverride(undefined, 'temperature')).toEqual({});
+    });
+  });
+
+  describe('findPreset', () => {
+    it('ignores missing or deleted presets', () => {
+      expect(findPreset([coder], 'p1')).toBe(coder);
+      expect(findPreset([coder], 'gone')).toBeUndefined();
+      expect(findPreset([coder], null)).toBeUndefined();
+    });
+  });
+
+  describe('createPreset', () => {
+    it('captures the values and model', () => {
+      const preset = createPreset('  Writer ', { systemPrompt: 'Write well.', temperature: 1, creativity: 0.8 }, 'openai');
+      expect(preset).toMatchObject({ name: 'Writer', systemPrompt: 'Write well.', temperature: 1, creativity: 0.8, model: 'openai' });
+      expect(preset.id).toBeTruthy();
+    });
+  });
+
+  describe('applyPreset', () => {
+    it('switches to the preset model and drops chat overrides', () => {
+      expect(applyPreset({ model: 'openai' }, coder)).toEqual({ presetId: 'p1', overrides: {}, model: 'qwen-coder' });
+    });
+
+    it('keeps the chat model when clearing the preset', () => {
+      expect(applyPreset({ model: 'openai' }, null)).toEqual({ presetId: null, overrides: {}, model: 'openai' });
+    });
+  });
+});
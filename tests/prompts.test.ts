@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPromptTemplate,
+  exportPromptLibrary,
+  fillTemplate,
+  importPromptLibrary,
+  initialVariableValues,
+  matchSlashCommand,
+  parseVariableNames,
+  searchTemplates,
+  syncVariables,
+  templateCategories,
+  variableError,
+} from '../src/lib/prompts';
+import type { PromptTemplate } from '../src/types';
+
+function template(name: string, extra: Partial<PromptTemplate> = {}): PromptTemplate {
+  return { ...createPromptTemplate({ name, content: 'Hi' }), ...extra };
+}
+
+describe('prompts', () => {
+  it('finds placeholders in order of first use', () => {
+    expect(parseVariableNames('Translate {{ text }} to {{language}}, keep {{text}} short. {{not valid}} {{2x}}'))
+      .toEqual(['text', 'language']);
+  });
+
+  it('keeps variable settings while the text changes', () => {
+    const variables = syncVariables('{{count}} points about {{topic}}', [
+      { name: 'count', type: 'number', defaultValue: '3' },
+      { name: 'removed', type: 'multiline' },
+    ]);
+    expect(variables).toEqual([
+      { name: 'count', type: 'number', defaultValue: '3' },
+      { name: 'topic', type: 'text' },
+    ]);
+  });
+
+  it('fills placeholders and starts forms from defaults', () => {
+    const t = createPromptTemplate({
+      name: ' Summary ',
+      category: ' Writing ',
+      content: 'Summarize {{text}} in a {{tone}} tone.',
+      variables: [{ name: 'tone', type: 'select', options: ['formal', 'casual'] }],
+    });
+    expect(t.name).toBe('Summary');
+    expect(t.category).toBe('Writing');
+    const values = initialVariableValues(t);
+    expect(values).toEqual({ text: '', tone: 'formal' });
+    expect(fillTemplate(t.content, { ...values, text: 'this' })).toBe('Summarize this in a formal tone.');
+  });
+
+  it('checks values against their type', () => {
+    expect(variableError({ name: 'n', type: 'number', label: 'Count' }, 'ten')).toBe('Count must be a number');
+    expect(variableError({ name: 'n', type: 'number' }, '10')).toBeNull();
+    expect(variableError({ name: 'topic', type: 'text' }, '  ')).toBe('topic is required');
+    expect(variableError({ name: 'tone', type: 'select', options: ['a', 'b'] }, 'c')).toBe('tone must be one of a, b');
+  });
+
+  it('opens the palette only for a lone slash command', () => {
+    expect(matchSlashCommand('/')).toBe('');
+    expect(matchSlashCommand('/sum')).toBe('sum');
+    expect(matchSlashCommand('/sum more')).toBeNull();
+    expect(matchSlashCommand('a /sum')).toBeNull();
+  });
+
+  it('searches names and categories with favorites first', () => {
+    const templates = [
+      template('Summarize', { category: 'Writing' }),
+      template('Code review', { category: 'Dev', favorite: true }),
+      template('Rewrite', { category: 'Writing' }),
+    ];
+    expect(searchTemplates(templates, '').map((t) => t.name)).toEqual(['Code review', 'Rewrite', 'Summarize']);
+    expect(searchTemplates(templates, 'writ').map((t) => t.name)).toEqual(['Rewrite', 'Summarize']);
+    expect(searchTemplates(templates, 'dev review').map((t) => t.name)).toEqual(['Code review']);
+    expect(templateCategories([...templates, template('Loose')])).toEqual(['Dev', 'Writing']);
+  });
+
+  it('round-trips a library through JSON', () => {
+    const original = [createPromptTemplate({
+      name: 'Email',
+      content: 'Write to {{name}}',
+      variables: [{ name: 'name', type: 'text', label: 'Recipient' }],
+    })];
+    expect(importPromptLibrary(exportPromptLibrary(original))).toEqual(original);
+  });
+
+  it('fills in hand-written templates and rejects broken files', () => {
+    const [imported] = importPromptLibrary(JSON.stringify([
+      { name: 'Quick', content: '{{a}} and {{b}}', variables: [{ name: 'a', type: 'bogus' }] },
+    ]));
+    expect(imported.id).toBeTruthy();
+    expect(imported.favorite).toBe(false);
+    expect(imported.variables).toEqual([{ name: 'a', type: 'text' }, { name: 'b', type: 'text' }]);
+
+    expect(() => importPromptLibrary('{')).toThrow('Invalid JSON format');
+    expect(() => importPromptLibrary('{"sessions": []}')).toThrow('Unrecognized prompt library');
+    expect(() => importPromptLibrary('[{"name": "No content"}]')).toThrow('Invalid template 1');
+  });
+});
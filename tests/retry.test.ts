@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  computeBackoffDelay,
+  createOverlapTrimmer,
+  generateCompletion,
+  isRetryableError,
+  parseRetryAfter,
+  PollinationsError,
+  streamGenerationWithRetry,
+  withRetry,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from '../src/lib/pollinations';
+import { countTokens, estimateMessagesTokens } from '../src/lib/tokenizer';
+import type { RetryStatus } from '../src/types';
+
+const FAST: RetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+function sseEvents(texts: string[]): string {
+  return texts
+    .map((t) => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: t }, finish_reason: null }] })}\n\n`)
+    .join('');
+}
+
+/** An SSE response that sends `texts` and then drops the connection */
+function droppedStream(texts: string[]): Response {
+  const bytes = new TextEncoder().encode(sseEvents(texts));
+  let sent = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) {
+        controller.error(new TypeError('network error'));
+      } else {
+        sent = true;
+        controller.enqueue(bytes);
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+function completeStream(texts: string[]): Response {
+  return new Response(`${sseEvents(texts)}data: [DONE]\n\n`, {
+    status: 200,
+    headers: { 'content-type': 'text/event-stream' },
+  });
+}
+
+describe('retry', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  describe('parseRetryAfter', () => {
+    it('reads delta-seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('reads an HTTP date relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', now)).toBe(10_000);
+    });
+
+    it('ignores missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('grows exponentially up to the cap, scaled by jitter', () => {
+      expect(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, undefined, () => 1)).toBe(1_000);
+      expect(computeBackoffDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 1)).toBe(4_000);
+      expect(computeBackoffDelay(10, DEFAULT_RETRY_POLICY, undefined, () => 1)).toBe(30_000);
+      expect(computeBackoffDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 0.5)).toBe(2_000);
+    });
+
+    it('uses Retry-After when the server sent one', () => {
+      expect(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, 7_000, () => 0)).toBe(7_000);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('retries rate limits, gateway errors and dropped connections only', () => {
+      expect(isRetryableError(new PollinationsError('busy', 429, ''))).toBe(true);
+      expect(isRetryableError(new PollinationsError('down', 503, ''))).toBe(true);
+      expect(isRetryableError(new PollinationsError('cut', 0, 'stream_interrupted'))).toBe(true);
+      expect(isRetryableError(new PollinationsError('nope', 401, ''))).toBe(false);
+      expect(isRetryableError(new PollinationsError('bad', 400, ''))).toBe(false);
+      expect(isRetryableError(new Error('other'))).toBe(false);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('retries until the task succeeds and reports each wait', async () => {
+      const statuses: RetryStatus[] = [];
+      let calls = 0;
+      const result = await withRetry(async () => {
+        calls++;
+        if (calls < 3) throw new PollinationsError('busy', 429, '');
+        return 'ok';
+      }, { policy: FAST, onRetry: (s) => statuses.push(s) });
+
+      expect(result).toBe('ok');
+      expect(statuses.map((s) => [s.attempt, s.maxRetries, s.reason])).toEqual([
+        [1, 2, 'Rate limited'],
+        [2, 2, 'Rate limited'],
+      ]);
+    });
+
+    it('gives up after maxRetries', async () => {
+      const task = vi.fn(async () => {
+        throw new PollinationsError('down', 502, '');
+      });
+      await expect(withRetry(task, { policy: FAST })).rejects.toThrow('down');
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+      const task = vi.fn(async () => {
+        throw new PollinationsError('bad', 400, '');
+      });
+      await expect(withRetry(task, { policy: FAST })).rejects.toThrow('bad');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up when Retry-After is longer than the cap', async () => {
+      const task = vi.fn(async () => {
+        throw new PollinationsError('busy', 429, '', 60_000);
+      });
+      await expect(withRetry(task, { policy: FAST })).rejects.toThrow('busy');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting when aborted', async () => {
+      const controller = new AbortController();
+      const promise = withRetry(async () => {
+        throw new PollinationsError('busy', 429, '');
+      }, { policy: { maxRetries: 3, baseDelayMs: 10_000, maxDelayMs: 10_000 }, signal: controller.signal });
+      controller.abort();
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('createOverlapTrimmer', () => {
+    it('drops a restated tail of the partial reply', () => {
+      const trim = createOverlapTrimmer('The quick brown fox jumps');
+      expect(trim('brown fox jumps over', true)).toBe(' over');
+    });
+
+    it('buffers until enough text arrived to compare', () => {
+      const trim = createOverlapTrimmer('Counting: one two three');
+      expect(trim('two three')).toBe('');
+      expect(trim(' four', true)).toBe(' four');
+      expect(trim(' five')).toBe(' five');
+    });
+
+    it('leaves short coincidental overlaps alone', () => {
+      expect(createOverlapTrimmer('It is')(' is new', true)).toBe(' is new');
+    });
+  });
+
+  describe('streamGenerationWithRetry', () => {
+    it('resumes a dropped stream from the partial reply', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(droppedStream(['The answer ', 'is forty']))
+        .mockResolvedValueOnce(completeStream(['is forty-two.']));
+      vi.stubGlobal('fetch', fetchMock);
+
+      let content = '';
+      const statuses: RetryStatus[] = [];
+      const onDone = vi.fn();
+      await streamGenerationWithRetry(
+        'key',
+        { model: 'm', messages: [{ role: 'user', content: 'Question?' }] },
+        (chunk) => { content += chunk; },
+        onDone,
+        undefined,
+        undefined,
+        { policy: FAST, onRetry: (s) => statuses.push(s) },
+      );
+
+      expect(content).toBe('The answer is forty-two.');
+      expect(statuses).toHaveLength(1);
+      expect(statuses[0]).toMatchObject({ reason: 'Connection lost', resuming: true });
+      expect(onDone).toHaveBeenCalledTimes(1);
+
+      const resumed = JSON.parse((fetchMock.mock.calls[1] as [string, RequestInit])[1].body as string);
+      expect(resumed.messages.slice(1)).toEqual([
+        { role: 'assistant', content: 'The answer is forty' },
+        expect.objectContaining({ role: 'user' }),
+      ]);
+    });
+
+    it('adds the dropped attempt to the usage it reports', async () => {
+      const usage = { prompt_tokens: 50, completion_tokens: 5, total_tokens: 55 };
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(droppedStream(['The answer ', 'is forty']))
+        .mockResolvedValueOnce(new Response(
+          `${sseEvents(['-two.'])}data: ${JSON.stringify({ choices: [], usage })}\n\ndata: [DONE]\n\n`,
+          { status: 200, headers: { 'content-type': 'text/event-stream' } },
+        )));
+
+      const onDone = vi.fn();
+      await streamGenerationWithRetry(
+        'key',
+        { model: 'm', messages: [{ role: 'user', content: 'Question?' }] },
+        () => {},
+        onDone,
+        undefined,
+        undefined,
+        { policy: FAST },
+      );
+
+      const [reported, , , requests] = onDone.mock.calls[0];
+      expect(requests).toBe(2);
+      const firstPrompt = estimateMessagesTokens([{ role: 'user', content: 'Question?' }]);
+      expect(reported.prompt_tokens).toBe(50 + firstPrompt);
+      expect(reported.completion_tokens).toBe(5 + countTokens('The answer is forty'));
+      expect(reported.completion_tokens_details).toBeUndefined();
+    });
+
+    it('restarts from scratch when nothing had arrived', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({ error: { message: 'busy' } }), {
+          status: 429,
+          headers: { 'content-type': 'application/json', 'retry-after': '0' },
+        }))
+        .mockResolvedValueOnce(completeStream(['Hi']));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const statuses: RetryStatus[] = [];
+      let content = '';
+      await streamGenerationWithRetry(
+        'key',
+        { model: 'm', messages: [{ role: 'user', content: 'Hello' }] },
+        (chunk) => { content += chunk; },
+        () => {},
+        undefined,
+        undefined,
+        { policy: FAST, onRetry: (s) => statuses.push(s) },
+      );
+
+      expect(content).toBe('Hi');
+      expect(statuses[0]).toMatchObject({ reason: 'Rate limited', resuming: false });
+      const retried = JSON.parse((fetchMock.mock.calls[1] as [string, RequestInit])[1].body as string);
+      expect(retried.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    });
+  });
+
+  describe('generateCompletion', () => {
+    it('retries transient failures', async () => {
+      vi.useFakeTimers();
+      try {
+        const fetchMock = vi.fn()
+          .mockResolvedValueOnce(new Response('{}', { status: 503 }))
+          .mockResolvedValueOnce(new Response(JSON.stringify({
+            choices: [{ message: { role: 'assistant', content: 'done' } }],
+          }), { status: 200, headers: { 'content-type': 'application/json' } }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const promise = generateCompletion('key', { model: 'm', messages: [] });
+        await vi.runAllTimersAsync();
+        await expect(promise).resolves.toMatchObject({ content: 'done' });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
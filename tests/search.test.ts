@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  parseQuery,
+  matchesFilters,
+  matchesPhrases,
+  findMatches,
+  buildSnippet,
+  diffTerms,
+  toSearchDoc,
+} from '../src/lib/search';
+import type { ChatMessage } from '../src/types';
+
+function makeMsg(overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id: 'm1',
+    role: 'user',
+    content: 'Hello world',
+    timestamp: 1_000,
+    mode: 'text',
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe('search', () => {
+  describe('tokenize', () => {
+    it('lowercases words and drops punctuation', () => {
+      expect(tokenize('Hello, World! It\'s 2024.')).toEqual(['hello', 'world', 'it', 's', '2024']);
+    });
+
+    it('keeps non-Latin letters', () => {
+      expect(tokenize('Grüße 東京')).toEqual(['grüße', '東京']);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('splits bare words and quoted phrases', () => {
+      expect(parseQuery('react "use effect" hook')).toEqual({
+        terms: ['react', 'use', 'effect', 'hook'],
+        phrases: [['use', 'effect']],
+      });
+    });
+
+    it('treats a one-word quote as a plain term', () => {
+      expect(parseQuery('"hello"')).toEqual({ terms: ['hello'], phrases: [] });
+    });
+
+    it('handles an unterminated quote', () => {
+      expect(parseQuery('"foo bar').phrases).toEqual([['foo', 'bar']]);
+    });
+  });
+
+  describe('toSearchDoc', () => {
+    it('stores unique terms and filter metadata', () => {
+      const doc = toSearchDoc('s1', makeMsg({ content: 'the cat and the hat', model: 'openai' }));
+      expect(doc).toMatchObject({ key: 's1:m1', role: 'user', model: 'openai', mode: 'text' });
+      expect(doc.terms).toEqual(['the', 'cat', 'and', 'hat']);
+    });
+  });
+
+  describe('matchesFilters', () => {
+    const doc = toSearchDoc('s1', makeMsg({ role: 'assistant', model: 'openai', timestamp: 5_000 }));
+
+    it('accepts when no filters are set', () => {
+      expect(matchesFilters(doc, {})).toBe(true);
+    });
+
+    it('filters by role, model, mode, session and date range', () => {
+      expect(matchesFilters(doc, { role: 'user' })).toBe(false);
+      expect(matchesFilters(doc, { model: 'mistral' })).toBe(false);
+      expect(matchesFilters(doc, { mode: 'image' })).toBe(false);
+      expect(matchesFilters(doc, { sessionId: 's2' })).toBe(false);
+      expect(matchesFilters(doc, { from: 6_000 })).toBe(false);
+      expect(matchesFilters(doc, { to: 4_000 })).toBe(false);
+      expect(matchesFilters(doc, { role: 'assistant', from: 5_000, to: 5_000 })).toBe(true);
+    });
+  });
+
+  describe('phrases', () => {
+    it('requires phrase words in order', () => {
+      const q = parseQuery('"big dog"');
+      expect(matchesPhrases('The big dog barked', q)).toBe(true);
+      expect(matchesPhrases('The dog was big', q)).toBe(false);
+    });
+
+    it('finds phrase and word ranges', () => {
+      const text = 'A big dog and a cat';
+      const ranges = findMatches(text, parseQuery('"big dog" cat'));
+      expect(ranges.map(([s, e]) => text.slice(s, e))).toEqual(['big dog', 'cat']);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('windows around the first match and maps highlights', () => {
+      const text = `${'x '.repeat(100)}needle here`;
+      const { snippet, highlights } = buildSnippet(text, findMatches(text, parseQuery('needle')), 10);
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(highlights).toHaveLength(1);
+      const [s, e] = highlights[0];
+      expect(snippet.slice(s, e)).toBe('needle');
+    });
+
+    it('collapses whitespace without shifting highlights', () => {
+      const text = 'first\n\n\nsecond   target';
+      const { snippet, highlights } = buildSnippet(text, findMatches(text, parseQuery('target')));
+      expect(snippet).toBe('first second target');
+      expect(snippet.slice(...highlights[0])).toBe('target');
+    });
+  });
+
+  describe('diffTerms', () => {
+    it('reports added and removed terms', () => {
+      expect(diffTerms(['a', 'b', 'c'], ['b', 'c', 'd'])).toEqual({ added: ['d'], removed: ['a'] });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildTitleMessages,
+  cleanTitle,
+  generateSessionTitle,
+  TITLE_MAX_CHARS,
+} from '../src/lib/sessionTitle';
+
+describe('sessionTitle', () => {
+  describe('cleanTitle', () => {
+    it('strips quotes, labels and trailing punctuation', () => {
+      expect(cleanTitle('"Fixing a React memory leak."')).toBe('Fixing a React memory leak');
+      expect(cleanTitle('Title: Sourdough starter tips')).toBe('Sourdough starter tips');
+      expect(cleanTitle('**Trip to Lisbon**')).toBe('Trip to Lisbon');
+      expect(cleanTitle('« Recette de crêpes »')).toBe('Recette de crêpes');
+    });
+
+    it('keeps only the first non-empty line', () => {
+      expect(cleanTitle('\n  Tax questions\nHere is why I chose this title')).toBe('Tax questions');
+    });
+
+    it('cuts long titles at a word boundary', () => {
+      const title = cleanTitle('word '.repeat(30));
+      expect(title.length).toBeLessThanOrEqual(TITLE_MAX_CHARS + 1);
+      expect(title.endsWith('word…')).toBe(true);
+    });
+
+    it('returns an empty string when nothing is left', () => {
+      expect(cleanTitle('  "" \n')).toBe('');
+    });
+  });
+
+  describe('buildTitleMessages', () => {
+    it('includes the reply when there is one', () => {
+      expect(buildTitleMessages('How do I boil an egg?', 'Put it in water.')[1].content)
+        .toBe('User: How do I boil an egg?\n\nAssistant: Put it in water.');
+    });
+
+    it('uses the prompt alone for media replies', () => {
+      expect(buildTitleMessages('A cat in space', '')[1].content).toBe('User: A cat in space');
+    });
+  });
+
+  describe('generateSessionTitle', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('makes a short non-streaming call and cleans the answer', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: '"Boiling eggs."' } }],
+        usage: { prompt_tokens: 80, completion_tokens: 4, total_tokens: 84 },
+      }), { status: 200, headers: { 'content-type': 'application/json' } }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await generateSessionTitle('key', 'cheap', 'How do I boil an egg?', 'Put it in water.');
+
+      expect(result).toEqual({ title: 'Boiling eggs', usage: { prompt_tokens: 80, completion_tokens: 4, total_tokens: 84 } });
+      const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(body).toMatchObject({ model: 'cheap', stream: false, max_tokens: 30 });
+    });
+  });
+});
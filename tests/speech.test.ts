@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  pickSpeechModel,
+  pickVoice,
+  speechCacheKey,
+  splitForSpeech,
+  stripMarkdownForSpeech,
+} from '../src/lib/speech';
+import type { PollinationsModel } from '../src/types';
+
+describe('speech', () => {
+  it('strips Markdown syntax and code blocks', () => {
+    const md = '# Title\n\nSome **bold** and `code` with a [link](https://x.y).\n\n```js\nconst a = 1;\n```\n\n- one\n- two';
+    expect(stripMarkdownForSpeech(md)).toBe('Title\n\nSome bold and code with a link.\n\none\ntwo');
+  });
+
+  it('keeps short text in one chunk', () => {
+    expect(splitForSpeech('Hello there.\n\nHow are you?')).toEqual(['Hello there. How are you?']);
+    expect(splitForSpeech('   ')).toEqual([]);
+  });
+
+  it('splits long text between sentences, then words', () => {
+    const text = 'First sentence here. Second sentence here. Third one.';
+    expect(splitForSpeech(text, 25)).toEqual(['First sentence here.', 'Second sentence here.', 'Third one.']);
+
+    const chunks = splitForSpeech('word '.repeat(40).trim(), 22);
+    expect(chunks.every((c) => c.length <= 22)).toBe(true);
+    expect(chunks.join(' ')).toBe('word '.repeat(40).trim());
+  });
+
+  it('picks the preferred voice when the model has it', () => {
+    expect(pickVoice(['alloy', 'nova'], 'nova')).toBe('nova');
+    expect(pickVoice(['echo', 'alloy'], 'nova')).toBe('alloy');
+    expect(pickVoice(['echo', 'fable'], 'nova')).toBe('echo');
+    expect(pickVoice(undefined, 'nova')).toBe('nova');
+  });
+
+  it('picks an audio model with voices, preferring openai-audio', () => {
+    const model = (name: string, type: PollinationsModel['type'], voices?: string[]): PollinationsModel =>
+      ({ name, type, voices } as PollinationsModel);
+    expect(pickSpeechModel([model('a', 'text', ['alloy']), model('b', 'audio')])).toBeUndefined();
+    expect(pickSpeechModel([model('b', 'audio', ['x']), model('openai-audio', 'audio', ['alloy'])])?.name).toBe('openai-audio');
+    expect(pickSpeechModel([model('b', 'audio', ['x'])])?.name).toBe('b');
+  });
+
+  it('keys cached audio on text, voice and model', () => {
+    const key = speechCacheKey('hello', 'alloy', 'openai-audio');
+    expect(speechCacheKey('hello', 'alloy', 'openai-audio')).toBe(key);
+    expect(speechCacheKey('hello!', 'alloy', 'openai-audio')).not.toBe(key);
+    expect(speechCacheKey('hello', 'nova', 'openai-audio')).not.toBe(key);
+    expect(speechCacheKey('hello', 'alloy', 'other')).not.toBe(key);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createThinkTagSplitter, streamGeneration } from '../src/lib/pollinations';
+
+function run(chunks: string[]) {
+  const split = createThinkTagSplitter();
+  let content = '';
+  let reasoning = '';
+  chunks.forEach((chunk, i) => {
+    const out = split(chunk, i === chunks.length - 1);
+    content += out.content;
+    reasoning += out.reasoning;
+  });
+  return { content, reasoning };
+}
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((e) => `data: ${typeof e === 'string' ? e : JSON.stringify(e)}\n\n`).join('');
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+describe('streamParsing', () => {
+  describe('createThinkTagSplitter', () => {
+    it('passes plain content through', () => {
+      expect(run(['Hello ', 'world'])).toEqual({ content: 'Hello world', reasoning: '' });
+    });
+
+    it('separates a leading think block', () => {
+      expect(run(['<think>plan it</think>\n\nAnswer'])).toEqual({
+        content: 'Answer',
+        reasoning: 'plan it',
+      });
+    });
+
+    it('handles tags split across chunks', () => {
+      expect(run(['<thi', 'nk>step 1', ' step 2</th', 'ink>Done'])).toEqual({
+        content: 'Done',
+        reasoning: 'step 1 step 2',
+      });
+    });
+
+    it('treats think tags after the answer started as text', () => {
+      const out = run(['Use ', '<think> tags']);
+      expect(out.content).toBe('Use <think> tags');
+      expect(out.reasoning).toBe('');
+    });
+
+    it('flushes an unterminated think block as reasoning', () => {
+      expect(run(['<think>cut off', ''])).toEqual({ content: '', reasoning: 'cut off' });
+    });
+  });
+
+  describe('streamGeneration reasoning channel', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('routes reasoning_content to onReasoning and content to onChunk', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+        { choices: [{ index: 0, delta: { reasoning_content: 'Let me think. ' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { reasoning_content: 'Okay.' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { content: '42' }, finish_reason: 'stop' }] },
+        {
+          choices: [],
+          usage: { prompt_tokens: 5, completion_tokens: 9, total_tokens: 14, completion_tokens_details: { reasoning_tokens: 8 } },
+        },
+        '[DONE]',
+      ])));
+
+      const chunks: string[] = [];
+      const thoughts: string[] = [];
+      const onDone = vi.fn();
+      await streamGeneration(
+        'key',
+        { model: 'deepseek', messages: [{ role: 'user', content: 'q' }] },
+        (c) => chunks.push(c),
+        onDone,
+        undefined,
+        (t) => thoughts.push(t),
+      );
+
+      expect(thoughts.join('')).toBe('Let me think. Okay.');
+      expect(chunks.join('')).toBe('42');
+      expect(onDone.mock.calls[0][0].completion_tokens_details.reasoning_tokens).toBe(8);
+    });
+  });
+});
@@ -4,8 +4,15 @@ import {
   estimateMessagesTokens,
   truncateMessages,
   getTokenMeterColor,
+  getEncodingForModel,
+  countTokens,
+  hasExactCount,
 } from '../src/lib/tokenizer';
 
+function model(name: string, description = '', type: 'text' | 'image' = 'text') {
+  return { name, description, aliases: [], type };
+}
+
 describe('tokenizer', () => {
   describe('estimateTokens', () => {
     it('returns 0 for empty string', () => {
@@ -26,6 +33,37 @@ describe('tokenizer', () => {
     });
   });
 
+  describe('getEncodingForModel', () => {
+    it('uses o200k_base for GPT-4o and later OpenAI models', () => {
+      expect(getEncodingForModel(model('openai', 'OpenAI GPT-5 Nano'))).toBe('o200k_base');
+      expect(getEncodingForModel(model('openai-large'))).toBe('o200k_base');
+      expect(getEncodingForModel(model('chat', 'GPT-4o mini'))).toBe('o200k_base');
+    });
+
+    it('falls back to cl100k_base for other text models', () => {
+      expect(getEncodingForModel(model('mistral', 'Mistral Small 3.1'))).toBe('cl100k_base');
+    });
+
+    it('returns null for non-text models and no model', () => {
+      expect(getEncodingForModel(model('flux', '', 'image'))).toBeNull();
+      expect(getEncodingForModel(null)).toBeNull();
+    });
+  });
+
+  describe('countTokens', () => {
+    it('uses the heuristic until an exact count is cached', () => {
+      const text = 'not yet counted by the worker';
+      expect(hasExactCount(text, 'cl100k_base')).toBe(false);
+      expect(countTokens(text, 'cl100k_base')).toBe(estimateTokens(text));
+      expect(countTokens(text)).toBe(estimateTokens(text));
+    });
+
+    it('treats empty text as exactly zero', () => {
+      expect(countTokens('', 'o200k_base')).toBe(0);
+      expect(hasExactCount('', 'o200k_base')).toBe(true);
+    });
+  });
+
   describe('estimateMessagesTokens', () => {
     it('returns a small value for empty array', () => {
       const tokens = estimateMessagesTokens([]);
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  evaluateExpression,
+  executeToolCall,
+  getToolDefinitions,
+  registerTool,
+  unregisterTool,
+  runToolLoop,
+  type ToolRoundResult,
+} from '../src/lib/tools';
+import { mergeToolCallDeltas, type ChatCompletionMessage } from '../src/lib/pollinations';
+import type { ToolCall, ToolCallRecord } from '../src/types';
+
+function makeCall(name: string, args: string, id = 'call_1'): ToolCall {
+  return { id, type: 'function', function: { name, arguments: args } };
+}
+
+describe('tools', () => {
+  describe('evaluateExpression', () => {
+    it('respects operator precedence', () => {
+      expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+      expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    });
+
+    it('handles unary minus and right-associative powers', () => {
+      expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+      expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+      expect(evaluateExpression('2 ** -1')).toBe(0.5);
+    });
+
+    it('supports functions and constants', () => {
+      expect(evaluateExpression('sqrt(16) + abs(-1)')).toBe(5);
+      expect(evaluateExpression('round(pi * 100)')).toBe(314);
+    });
+
+    it('rejects unknown identifiers and trailing tokens', () => {
+      expect(() => evaluateExpression('alert(1)')).toThrow();
+      expect(() => evaluateExpression('1 2')).toThrow();
+      expect(() => evaluateExpression('1 / 0')).toThrow();
+    });
+  });
+
+  describe('registry', () => {
+    afterEach(() => unregisterTool('echo'));
+
+    it('exposes built-in tools as function definitions', () => {
+      const names = getToolDefinitions().map((d) => d.function.name);
+      expect(names).toEqual(expect.arrayContaining(['calculator', 'current_time', 'search_sessions']));
+      expect(getToolDefinitions().every((d) => d.type === 'function')).toBe(true);
+    });
+
+    it('accepts custom tools', async () => {
+      registerTool({
+        definition: { name: 'echo', description: 'Echo', parameters: { type: 'object' } },
+        execute: ({ text }) => String(text),
+      });
+      const record = await executeToolCall(makeCall('echo', '{"text":"hi"}'));
+      expect(record.result).toBe('hi');
+      expect(record.isError).toBeUndefined();
+    });
+  });
+
+  describe('executeToolCall', () => {
+    it('runs the calculator', async () => {
+      const record = await executeToolCall(makeCall('calculator', '{"expression":"6*7"}'));
+      expect(record).toMatchObject({ name: 'calculator', result: '42' });
+    });
+
+    it('reports unknown tools and bad arguments as errors', async () => {
+      expect((await executeToolCall(makeCall('nope', '{}'))).isError).toBe(true);
+      expect((await executeToolCall(makeCall('calculator', '{oops'))).isError).toBe(true);
+    });
+
+    it('reports tool exceptions as errors', async () => {
+      const record = await executeToolCall(makeCall('calculator', '{"expression":"1 +"}'));
+      expect(record.isError).toBe(true);
+      expect(record.result).toMatch(/^Error:/);
+    });
+  });
+
+  describe('runToolLoop', () => {
+    it('executes tool calls and feeds results back until the model answers', async () => {
+      const messages: ChatCompletionMessage[] = [{ role: 'user', content: 'what is 6*7?' }];
+      const rounds: ToolRoundResult[] = [
+        { content: '', toolCalls: [makeCall('calculator', '{"expression":"6*7"}')] },
+        { content: 'It is 42.', toolCalls: [] },
+      ];
+      const records: ToolCallRecord[] = [];
+
+      const result = await runToolLoop(messages, async () => rounds.shift()!, (r) => records.push(r));
+
+      expect(result).toEqual({ iterations: 1, exhausted: false });
+      expect(records.map((r) => r.result)).toEqual(['42']);
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'tool']);
+      expect(messages[2].tool_call_id).toBe('call_1');
+    });
+
+    it('withholds tools after the iteration limit', async () => {
+      const allowed: boolean[] = [];
+      const result = await runToolLoop(
+        [{ role: 'user', content: 'loop forever' }],
+        async (_messages, allowTools) => {
+          allowed.push(allowTools);
+          return { content: '', toolCalls: [makeCall('calculator', '{"expression":"1"}')] };
+        },
+        () => {},
+        2,
+      );
+
+      expect(allowed).toEqual([true, true, false]);
+      expect(result.exhausted).toBe(true);
+    });
+  });
+
+  describe('mergeToolCallDeltas', () => {
+    it('assembles calls from streamed fragments', () => {
+      let calls: ToolCall[] = [];
+      calls = mergeToolCallDeltas(calls, [
+        { index: 0, id: 'call_a', type: 'function', function: { name: 'calculator', arguments: '' } },
+      ]);
+      calls = mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: '{"expr' } }]);
+      calls = mergeToolCallDeltas(calls, [
+        { index: 0, function: { arguments: 'ession":"1+1"}' } },
+        { index: 1, id: 'call_b', function: { name: 'current_time', arguments: '{}' } },
+      ]);
+
+      expect(calls).toHaveLength(2);
+      expect(calls[0]).toEqual(makeCall('calculator', '{"expression":"1+1"}', 'call_a'));
+      expect(calls[1].function.name).toBe('current_time');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  audioFormatFromMime,
+  blobToBase64,
+  chatCompletionTransport,
+  estimateTranscriptionCost,
+  insertTranscript,
+  pickTranscriptionModel,
+  transcribeAudio,
+  type TranscriptionRequest,
+} from '../src/lib/transcription';
+import type { PollinationsModel } from '../src/types';
+
+function model(name: string, inputs: string[], outputs: string[] = ['text']): PollinationsModel {
+  return { name, inputModalities: inputs, outputModalities: outputs } as PollinationsModel;
+}
+
+describe('transcription', () => {
+  it('picks a model that accepts audio input', () => {
+    expect(pickTranscriptionModel([model('a', ['text'])])).toBeUndefined();
+    expect(pickTranscriptionModel([model('tts', ['audio'], ['audio']), model('ears', ['text', 'audio'])])?.name).toBe('ears');
+    expect(pickTranscriptionModel([model('ears', ['audio']), model('openai-audio', ['text', 'audio'], ['audio'])])?.name).toBe('openai-audio');
+  });
+
+  it('maps recording MIME types to input_audio formats', () => {
+    expect(audioFormatFromMime('audio/webm;codecs=opus')).toBe('webm');
+    expect(audioFormatFromMime('audio/mpeg')).toBe('mp3');
+    expect(audioFormatFromMime('audio/x-wav')).toBe('wav');
+    expect(audioFormatFromMime('audio/ogg')).toBe('ogg');
+    expect(audioFormatFromMime('')).toBe('webm');
+  });
+
+  it('encodes recordings as base64', async () => {
+    expect(await blobToBase64(new Blob(['hello']))).toBe(btoa('hello'));
+  });
+
+  describe('transcribeAudio', () => {
+    it('sends the recording through the transport and cleans the transcript', async () => {
+      const requests: TranscriptionRequest[] = [];
+      const transport = async (request: TranscriptionRequest) => {
+        requests.push(request);
+        return '  "Remind me to water the plants."\n';
+      };
+
+      const transcript = await transcribeAudio(new Blob(['abc'], { type: 'audio/ogg' }), { apiKey: 'key', model: 'ears', transport });
+
+      expect(transcript).toBe('Remind me to water the plants.');
+      expect(requests).toEqual([{ apiKey: 'key', model: 'ears', data: btoa('abc'), format: 'ogg', signal: undefined }]);
+    });
+
+    it('asks before sending and reports what was paid for', async () => {
+      const transport = vi.fn(async () => 'Hello');
+      const charged: string[] = [];
+      const options = {
+        apiKey: 'key',
+        model: 'ears',
+        transport,
+        charge: (_request: TranscriptionRequest, transcript: string) => charged.push(transcript),
+      };
+
+      await expect(transcribeAudio(new Blob(['abc']), { ...options, approve: async () => false }))
+        .rejects.toMatchObject({ name: 'AbortError' });
+      expect(transport).not.toHaveBeenCalled();
+
+      const approve = vi.fn(async () => true);
+      expect(await transcribeAudio(new Blob(['abc']), { ...options, approve })).toBe('Hello');
+      expect(approve).toHaveBeenCalledWith(expect.objectContaining({ model: 'ears', data: btoa('abc') }));
+      expect(charged).toEqual(['Hello']);
+    });
+
+    it('fails when nothing was heard', async () => {
+      await expect(
+        transcribeAudio(new Blob(['abc']), { apiKey: 'key', model: 'ears', transport: async () => '  ' }),
+      ).rejects.toThrow(/No speech/);
+    });
+  });
+
+  it('prices a recording by its length and the transcript it returned', () => {
+    const pricing = { currency: 'pollen', promptTextTokens: 0.000001, promptAudioTokens: 0.00001, completionTextTokens: 0.00002 };
+    const countText = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    // Just under ten seconds of 16 kB/s audio
+    const request = { model: 'ears', data: 'A'.repeat(213_332), format: 'webm' };
+
+    const before = estimateTranscriptionCost(request, { pricing }, countText);
+    expect(before.audioTokens).toBe(100);
+    expect(before.expectedOutputTokens).toBe(30);
+
+    const after = estimateTranscriptionCost(request, { pricing }, countText, 'just three words');
+    expect(after.expectedOutputTokens).toBe(3);
+    expect(before.expected - after.expected).toBeCloseTo(27 * 0.00002);
+  });
+
+  describe('chatCompletionTransport', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('posts an input_audio part to chat completions', async () => {
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: 'Hello there' } }],
+      }), { status: 200, headers: { 'content-type': 'application/json' } }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const text = await chatCompletionTransport({ apiKey: 'key', model: 'ears', data: 'QUJD', format: 'webm' });
+
+      expect(text).toBe('Hello there');
+      const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(body.model).toBe('ears');
+      expect(body.messages[1].content).toEqual([{ type: 'input_audio', input_audio: { data: 'QUJD', format: 'webm' } }]);
+    });
+  });
+
+  describe('insertTranscript', () => {
+    it('appends to the end with a separating space', () => {
+      expect(insertTranscript('Hello', 'world')).toEqual({ text: 'Hello world', cursor: 11 });
+      expect(insertTranscript('', 'world')).toEqual({ text: 'world', cursor: 5 });
+      expect(insertTranscript('Hello ', 'world')).toEqual({ text: 'Hello world', cursor: 11 });
+    });
+
+    it('replaces the selection and spaces it from the following word', () => {
+      expect(insertTranscript('Say XX please', 'hi', 4, 6)).toEqual({ text: 'Say hi please', cursor: 6 });
+      expect(insertTranscript('Saythere', 'hi', 3)).toEqual({ text: 'Say hi there', cursor: 6 });
+    });
+  });
+});
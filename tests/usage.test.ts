@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  modelNameResolver,
+  parseUsageTimestamp,
+  reconcileUsage,
+  usageCostDelta,
+  usageFromRecord,
+} from '../src/lib/usage';
+import type { ChatMessage, PollinationsModel, UsageRecord } from '../src/types';
+
+const T0 = Date.parse('2025-06-01T12:00:00Z');
+
+function record(model: string, at: number, output: number, cost: number, extra: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp: new Date(at).toISOString(),
+    type: 'generate.text',
+    model,
+    input_text_tokens: 100,
+    input_cached_tokens: 0,
+    input_audio_tokens: 0,
+    input_image_tokens: 0,
+    output_text_tokens: output,
+    output_reasoning_tokens: 0,
+    output_audio_tokens: 0,
+    output_image_tokens: 0,
+    cost_usd: cost,
+    response_time_ms: 800,
+    ...extra,
+  };
+}
+
+function reply(id: string, model: string, timestamp: number, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id, role: 'assistant', content: 'hi', mode: 'text', attachments: [], timestamp, model, ...extra };
+}
+
+describe('usage', () => {
+  it('parses usage log timestamps as UTC', () => {
+    expect(parseUsageTimestamp('2025-06-01 12:00:00')).toBe(T0);
+    expect(parseUsageTimestamp('2025-06-01T12:00:00Z')).toBe(T0);
+    expect(parseUsageTimestamp('2025-06-01T14:00:00+02:00')).toBe(T0);
+  });
+
+  it('turns a record into a token breakdown and pollen cost', () => {
+    const usage = usageFromRecord(record('openai', T0, 40, 0.0012, {
+      input_cached_tokens: 60,
+      input_image_tokens: 500,
+      output_reasoning_tokens: 25,
+    }));
+    expect(usage).toEqual({
+      inputTokens: 600,
+      cachedTokens: 60,
+      outputTokens: 40,
+      reasoningTokens: 25,
+      pollenCost: 0.0012,
+      recordedAt: T0,
+    });
+  });
+
+  it('resolves model ids and aliases to app model names', () => {
+    const resolve = modelNameResolver([
+      { id: 'gpt-5-nano', name: 'openai', aliases: ['openai-fast'] },
+    ] as PollinationsModel[]);
+    expect(resolve('gpt-5-nano')).toBe('openai');
+    expect(resolve('openai-fast')).toBe('openai');
+    expect(resolve('flux')).toBe('flux');
+  });
+
+  it('matches replies to the nearest record for their model', () => {
+    const messages = [
+      reply('a', 'openai', T0),
+      reply('b', 'openai', T0 + 60_000),
+      reply('c', 'flux', T0 + 5_000, { mode: 'image' }),
+    ];
+    const matches = reconcileUsage(messages, [
+      record('openai', T0 + 62_000, 10, 0.002),
+      record('openai', T0 + 3_000, 10, 0.001),
+      record('flux', T0 + 9_000, 1, 0.01),
+    ]);
+    expect(matches.get('a')?.pollenCost).toBe(0.001);
+    expect(matches.get('b')?.pollenCost).toBe(0.002);
+    expect(matches.get('c')?.pollenCost).toBe(0.01);
+  });
+
+  it('prefers records whose output matches the counted tokens', () => {
+    // A title request on the same model lands closer in time than the reply's record
+    const matches = reconcileUsage([reply('a', 'openai', T0, { tokensUsed: 420 })], [
+      record('openai', T0 + 2_000, 6, 0.0001),
+      record('openai', T0 + 8_000, 418, 0.004),
+    ]);
+    expect(matches.get('a')?.outputTokens).toBe(418);
+  });
+
+  it('skips replies without a plausible record and records already used', () => {
+    const used = reply('old', 'openai', T0, {
+      usage: { inputTokens: 1, cachedTokens: 0, outputTokens: 1, reasoningTokens: 0, pollenCost: 0.001, recordedAt: T0 + 1_000 },
+    });
+    const matches = reconcileUsage([
+      used,
+      reply('a', 'openai', T0 + 500),
+      reply('late', 'openai', T0 + 3_600_000),
+      reply('failed', 'openai', T0, { isError: true }),
+      { ...reply('user', 'openai', T0), role: 'user' },
+    ], [record('openai', T0 + 1_000, 1, 0.001)]);
+    expect(matches.size).toBe(0);
+  });
+
+  it('sums a record for every round of a tool-loop reply', () => {
+    const messages = [
+      reply('tools', 'openai', T0, { tokensUsed: 300, requestCount: 3 }),
+      reply('next', 'openai', T0 + 120_000, { tokensUsed: 50 }),
+    ];
+    const matches = reconcileUsage(messages, [
+      record('openai', T0 + 2_000, 20, 0.001),
+      record('openai', T0 + 6_000, 30, 0.001),
+      record('openai', T0 + 15_000, 250, 0.003),
+      record('openai', T0 + 122_000, 50, 0.0005),
+    ]);
+    expect(matches.get('tools')).toMatchObject({ outputTokens: 300, inputTokens: 300, recordedAt: T0 + 15_000 });
+    expect(matches.get('tools')?.pollenCost).toBeCloseTo(0.005);
+    expect(matches.get('next')?.pollenCost).toBe(0.0005);
+  });
+
+  it('waits for every variation of an image batch', () => {
+    const batch = reply('batch', 'flux', T0, { mode: 'image', requestCount: 3 });
+    const first = [record('flux', T0 + 4_000, 1, 0.01), record('flux', T0 + 5_000, 1, 0.01)];
+    expect(reconcileUsage([batch], first).size).toBe(0);
+
+    const all = [...first, record('flux', T0 + 7_000, 1, 0.01)];
+    const usage = reconcileUsage([batch], all).get('batch');
+    expect(usage?.pollenCost).toBeCloseTo(0.03);
+    expect(usage?.recordTimes).toEqual([T0 + 4_000, T0 + 5_000, T0 + 7_000]);
+
+    // None of the batch's records are free for a later image
+    const later = reply('later', 'flux', T0 + 60_000, { mode: 'image' });
+    expect(reconcileUsage([{ ...batch, usage }, later], all).size).toBe(0);
+  });
+
+  it('moves the session total from the estimate to the billed cost', () => {
+    const usage = usageFromRecord(record('openai', T0, 10, 0.003));
+    expect(usageCostDelta({ pollenSpent: 0.002 }, usage)).toBeCloseTo(0.001);
+    expect(usageCostDelta({}, usage)).toBe(0.003);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeUsageRecords,
+  recordsSince,
+  spendByDay,
+  spendByModel,
+  spendBySession,
+  tokenTotals,
+  usageToCsv,
+} from '../src/lib/usageAnalytics';
+import type { ChatSession, UsageRecord } from '../src/types';
+
+/** Local noon on 2025-06-<day> */
+function at(day: number, minutes = 0): string {
+  return new Date(2025, 5, day, 12, minutes).toISOString();
+}
+
+function record(model: string, timestamp: string, cost: number, extra: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp,
+    type: 'generate.text',
+    model,
+    input_text_tokens: 100,
+    input_cached_tokens: 0,
+    input_audio_tokens: 0,
+    input_image_tokens: 0,
+    output_text_tokens: 50,
+    output_reasoning_tokens: 0,
+    output_audio_tokens: 0,
+    output_image_tokens: 0,
+    cost_usd: cost,
+    response_time_ms: 1000,
+    ...extra,
+  };
+}
+
+const records = [
+  record('openai', at(1), 0.01, { response_time_ms: 800 }),
+  record('openai', at(1, 30), 0.02, { input_cached_tokens: 40, output_reasoning_tokens: 10, response_time_ms: 1200 }),
+  record('flux', at(3), 0.05, { input_text_tokens: 20, output_text_tokens: 0, output_image_tokens: 1000, response_time_ms: 6000 }),
+];
+
+describe('usageAnalytics', () => {
+  it('merges snapshots without duplicates, newest first', () => {
+    const merged = mergeUsageRecords(records.slice(0, 2), records.slice(1));
+    expect(merged.map((r) => r.model)).toEqual(['flux', 'openai', 'openai']);
+    expect(merged[2].timestamp).toBe(at(1));
+  });
+
+  it('keeps records within the range', () => {
+    const now = new Date(2025, 5, 3, 18).getTime();
+    expect(recordsSince(records, 1, now)).toHaveLength(1);
+    expect(recordsSince(records, 3, now)).toHaveLength(3);
+    expect(recordsSince(records, null, now)).toBe(records);
+  });
+
+  it('sums spend per day with quiet days as zero', () => {
+    const days = spendByDay(records);
+    expect(days.map((d) => d.day)).toEqual(['2025-06-01', '2025-06-02', '2025-06-03']);
+    expect(days[0].pollen).toBeCloseTo(0.03);
+    expect(days[0].requests).toBe(2);
+    expect(days[1]).toEqual({ day: '2025-06-02', pollen: 0, requests: 0 });
+    expect(spendByDay([])).toEqual([]);
+  });
+
+  it('breaks down spend, tokens and response time per model', () => {
+    const [flux, openai] = spendByModel(records);
+    expect(flux).toMatchObject({ model: 'flux', pollen: 0.05, requests: 1, averageResponseMs: 6000 });
+    expect(flux.tokens.image).toBe(1000);
+    expect(openai.averageResponseMs).toBe(1000);
+    expect(openai.tokens).toEqual({ text: 300, audio: 0, image: 0, cached: 40, reasoning: 10 });
+    expect(tokenTotals(records).text).toBe(320);
+  });
+
+  it('attributes spend to chats through reconciled replies', () => {
+    const session: ChatSession = {
+      id: 's1',
+      title: 'Trip planning',
+      model: 'openai',
+      createdAt: 0,
+      updatedAt: 0,
+      totalPollenSpent: 0,
+      messages: [{
+        id: 'a',
+        role: 'assistant',
+        content: '',
+        mode: 'text',
+        attachments: [],
+        timestamp: 0,
+        model: 'openai',
+        usage: { inputTokens: 100, cachedTokens: 40, outputTokens: 50, reasoningTokens: 10, pollenCost: 0.02, recordedAt: Date.parse(at(1, 30)) },
+      }],
+    };
+    const spend = spendBySession(records, [session]);
+    expect(spend.map((s) => [s.sessionId, s.title, s.requests])).toEqual([
+      ['s1', 'Trip planning', 1],
+      [null, 'Not linked to a chat', 2],
+    ]);
+    expect(spend[1].pollen).toBeCloseTo(0.06);
+  });
+
+  it('exports CSV with a pollen column', () => {
+    const csv = usageToCsv([record('model, "quoted"', '2025-06-01T12:00:00Z', 0.5)]);
+    const [header, row] = csv.trim().split('\n');
+    expect(header.split(',')[0]).toBe('timestamp');
+    expect(header.endsWith(',pollen')).toBe(true);
+    expect(row).toBe('2025-06-01T12:00:00Z,generate.text,"model, ""quoted""",100,0,0,0,50,0,0,0,0.5,1000,0.5');
+  });
+});